@@ -16,7 +16,7 @@ describe('Component Performance', () => {
     await wrapper.vm.$nextTick()
     
     const stats = monitor.getRenderStats()
-    const renderCount = stats.get('MyComponent') || 0
+    const renderCount = stats.get('MyComponent')?.renderCount ?? 0
     
     expect(renderCount).toBeLessThan(5)
   })
@@ -1 +1,13 @@
-export const DEFAULT_BATCH_WINDOW = 300 // Default batch window in milliseconds
\ No newline at end of file
+export const DEFAULT_BATCH_WINDOW = 300 // Default batch window in milliseconds
+export const TOP_TRIGGER_KEYS_LIMIT = 5 // Number of most frequent trigger keys kept in render stats snapshots
+export const DEFAULT_STORM_THRESHOLD = 20 // Updates of one instance within the storm window before a render storm is reported
+export const DEFAULT_STORM_WINDOW = 1000 // Time window for render storms and repeated identical values in milliseconds
+export const DEFAULT_IDENTICAL_VALUE_THRESHOLD = 3 // Redundant triggers of one key within the storm window before a warning is reported
+export const DEFAULT_LOOP_THRESHOLD = 5 // Renders in a row that re-triggered the instance while rendering before a render loop is reported
+export const DEFAULT_HEATMAP_DECAY = 1000 // Time in ms a heatmap outline fades out after the last render
+export const DEFAULT_HEATMAP_MAX_RENDERS = 10 // Renders within the decay time that get the hottest heatmap color
+export const DEFAULT_HEATMAP_COLORS = ['#00cc96', '#ffeb3b', '#ff9800', '#cc0000'] // Heatmap outline colors from cold to hot
+export const LARGE_COLLECTION_SIZE = 100 // Items of a collection whose iteration during render is reported as over-subscription
+export const OVERSUBSCRIPTION_MIN_DEPENDENCIES = 50 // Dependencies per render before a component is checked for over-subscription
+export const OVERSUBSCRIPTION_RATIO = 10 // Dependencies per render per key that ever triggered a re-render before a component is over-subscribed
+export const USER_TIMING_PREFIX = 'flowvis' // Prefix of the User Timing marks and measures, e.g. flowvis:UserList#12:render
\ No newline at end of file
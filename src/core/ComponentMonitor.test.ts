@@ -1,7 +1,8 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest'
 import type { ComponentInternalInstance, DebuggerEvent } from 'vue'
 import { ComponentMonitor } from './ComponentMonitor'
-import type { Logger, RenderEventData } from '../types'
+import { ConsoleLogger } from '../loggers/console/ConsoleLogger'
+import type { LifecycleEventData, Logger, RenderCascade, RenderCycle, RenderEventData, RenderTimingData, RenderWarning } from '../types'
 
 describe('ComponentMonitor', () => {
   let mockLogger: Logger
@@ -171,6 +172,45 @@ describe('ComponentMonitor', () => {
       expect(monitor.shouldMonitorComponent('VueRouter', externalInstance)).toBe(false)
     })
 
+    it('should use the configured project root for external components', () => {
+      const instance = { uid: 1, type: { __file: '/repo/packages/ui/src/Button.vue' }, parent: null } as unknown as ComponentInternalInstance
+      const monitor = new ComponentMonitor({ logger: 'none', externalComponents: { deny: ['packages/**'] } })
+
+      expect(monitor.shouldMonitorComponent('Button', instance)).toBe(false)
+
+      monitor.setOptions({ externalComponents: { projectRoot: '/repo' } })
+
+      expect(monitor.shouldMonitorComponent('Button', instance)).toBe(true)
+    })
+
+    it('should report once why a component is not monitored in debug mode', () => {
+      const debug = vi.spyOn(globalThis.console, 'debug').mockImplementation(() => {})
+      const monitor = new ComponentMonitor({ logger: 'none', debugExclusions: true, excludeComponents: ['Hidden'] })
+      const instanceWithoutFile = { uid: 1, type: {}, parent: null } as unknown as ComponentInternalInstance
+
+      monitor.shouldMonitorComponent('Hidden')
+      monitor.shouldMonitorComponent('Hidden')
+      monitor.shouldMonitorComponent('Anonymous', instanceWithoutFile)
+
+      expect(debug).toHaveBeenCalledTimes(2)
+      expect(debug).toHaveBeenCalledWith('[vue-flow-vis] Hidden is not monitored: excluded by includeComponents, excludeComponents or componentRules')
+      expect(debug).toHaveBeenCalledWith(expect.stringMatching(/^\[vue-flow-vis\] Anonymous is not monitored: external component: no source file/))
+      debug.mockRestore()
+    })
+
+    it('should apply ordered component rules on paths and files', () => {
+      const parent = { uid: 1, type: { name: 'Dashboard', __file: '/project/src/features/dashboard/Dashboard.vue' }, parent: null }
+      const child = { uid: 2, type: { name: 'Chart', __file: '/project/src/features/dashboard/Chart.vue' }, parent }
+      const monitor = new ComponentMonitor({ logger: 'none', componentRules: ['src/features/**', '!Dashboard → *'] })
+
+      expect(monitor.shouldMonitorComponent('Dashboard', parent as unknown as ComponentInternalInstance)).toBe(true)
+      expect(monitor.shouldMonitorComponent('Chart', child as unknown as ComponentInternalInstance)).toBe(false)
+
+      monitor.setOptions({ componentRules: [] })
+
+      expect(monitor.shouldMonitorComponent('Chart', child as unknown as ComponentInternalInstance)).toBe(true)
+    })
+
     describe('wildcard pattern matching', () => {
       it('should support wildcard patterns in excludeComponents', () => {
         const monitor = new ComponentMonitor({
@@ -506,4 +546,838 @@ describe('ComponentMonitor', () => {
       expect(loggedData?.metadata).toBeUndefined()
     })
   })
+
+  describe('event filter', () => {
+    it('should drop filtered events before stats, callbacks and loggers', () => {
+      const onRenderTracked = vi.fn()
+      const monitor = new ComponentMonitor({
+        customLogger: mockLogger,
+        onRenderTracked,
+        eventFilter: { excludeTypes: ['iterate'] },
+      })
+      const data: RenderEventData = {
+        componentName: 'TestComponent',
+        componentPath: 'TestComponent',
+        event: { ...mockEvent, type: 'iterate' } as DebuggerEvent,
+        timestamp: Date.now(),
+        instanceId: 1,
+      }
+
+      monitor.logRenderEvent('tracked', data)
+
+      // eslint-disable-next-line @typescript-eslint/unbound-method
+      expect(mockLogger.tracked).not.toHaveBeenCalled()
+      expect(onRenderTracked).not.toHaveBeenCalled()
+      expect(monitor.getComponentStats('TestComponent')).toBeUndefined()
+
+      monitor.setOptions({ eventFilter: {} })
+      monitor.logRenderEvent('tracked', data)
+
+      // eslint-disable-next-line @typescript-eslint/unbound-method
+      expect(mockLogger.tracked).toHaveBeenCalledOnce()
+    })
+  })
+
+  describe('render stats', () => {
+    const createEventData = (overrides: Partial<RenderEventData> = {}): RenderEventData => ({
+      componentName: 'TestComponent',
+      componentPath: 'TestComponent',
+      event: mockEvent,
+      timestamp: Date.now(),
+      instanceId: 1,
+      instance: mockInstance as ComponentInternalInstance,
+      ...overrides,
+    })
+
+    it('should collect stats for logged events', () => {
+      const monitor = new ComponentMonitor({ logger: 'none' })
+
+      monitor.logRenderEvent('tracked', createEventData())
+      monitor.logRenderEvent('triggered', createEventData())
+      monitor.logRenderEvent('triggered', createEventData({ instanceId: 2 }))
+
+      const stats = monitor.getRenderStats().get('TestComponent')
+      expect(stats?.trackedCount).toBe(1)
+      expect(stats?.triggeredCount).toBe(2)
+      expect(stats?.instances.size).toBe(2)
+      expect(monitor.getComponentStats('TestComponent')?.triggeredCount).toBe(2)
+      expect(monitor.getInstanceStats(2)?.triggeredCount).toBe(1)
+    })
+
+    it('should not collect stats when monitor is disabled', () => {
+      const monitor = new ComponentMonitor({ logger: 'none', enabled: false })
+
+      monitor.logRenderEvent('triggered', createEventData())
+
+      expect(monitor.getRenderStats().size).toBe(0)
+    })
+
+    it('should reset collected stats', () => {
+      const monitor = new ComponentMonitor({ logger: 'none' })
+
+      monitor.logRenderEvent('triggered', createEventData())
+      monitor.resetStats()
+
+      expect(monitor.getRenderStats().size).toBe(0)
+      expect(monitor.getComponentStats('TestComponent')).toBeUndefined()
+    })
+
+    it('should tag and count triggers that assign a deep-equal value', () => {
+      const onRenderTriggered = vi.fn()
+      const monitor = new ComponentMonitor({ logger: 'none', onRenderTriggered })
+      const setEvent = (oldValue: unknown, newValue: unknown): DebuggerEvent =>
+        ({ type: 'set', key: 'items', target: {}, oldValue, newValue }) as unknown as DebuggerEvent
+
+      monitor.logRenderEvent('triggered', createEventData({ event: setEvent([1, 2], [1, 2]) }))
+      monitor.logRenderEvent('triggered', createEventData({ event: setEvent([1, 2], [1, 3]) }))
+
+      const triggers = onRenderTriggered.mock.calls.map((call) => call[0] as RenderEventData)
+      expect(triggers.map((data) => data.redundant)).toEqual([true, undefined])
+      expect(monitor.getComponentStats('TestComponent')?.redundantCount).toBe(1)
+    })
+
+    it('should label targets reachable from the instance', () => {
+      const onRenderTriggered = vi.fn()
+      const monitor = new ComponentMonitor({ logger: 'none', onRenderTriggered })
+      const user = { name: 'Ada' }
+      const instance = { ...mockInstance, props: { user } } as unknown as ComponentInternalInstance
+      const setEvent = (target: object): DebuggerEvent =>
+        ({ type: 'set', key: 'name', target }) as unknown as DebuggerEvent
+
+      monitor.logRenderEvent('triggered', createEventData({ instance, event: setEvent(user) }))
+      monitor.logRenderEvent('triggered', createEventData({ instance, event: setEvent({ name: '' }) }))
+
+      const triggers = onRenderTriggered.mock.calls.map((call) => call[0] as RenderEventData)
+      expect(triggers.map((data) => data.targetLabel)).toEqual(['props.user.name', undefined])
+    })
+  })
+
+  describe('logRenderTiming', () => {
+    const timing = {
+      componentName: 'TestComponent',
+      componentPath: 'TestComponent',
+      instanceId: 1,
+      phase: 'update' as const,
+      startTime: 10,
+      duration: 4,
+      timestamp: Date.now(),
+    }
+
+    it('should pass render timing to the logger with the triggers that scheduled it', () => {
+      const rendered = vi.fn()
+      const monitor = new ComponentMonitor({
+        logger: 'none',
+        customLogger: { ...mockLogger, rendered },
+      })
+      const triggerData: RenderEventData = {
+        componentName: 'TestComponent',
+        componentPath: 'TestComponent',
+        event: mockEvent,
+        timestamp: Date.now(),
+        instanceId: 1,
+      }
+
+      monitor.logRenderEvent('triggered', triggerData)
+      monitor.logRenderTiming({ ...timing, instance: mockInstance as ComponentInternalInstance })
+
+      const loggedTiming = rendered.mock.calls[0]?.[0] as RenderTimingData
+      expect(loggedTiming.duration).toBe(4)
+      expect(loggedTiming.triggers).toHaveLength(1)
+      expect(loggedTiming.triggers[0]?.event).toBe(mockEvent)
+      expect(loggedTiming.metadata).toBeDefined()
+      expect(loggedTiming.instance).toBeUndefined()
+
+      // Triggers are consumed by the render they scheduled
+      monitor.logRenderTiming(timing)
+      expect((rendered.mock.calls[1]?.[0] as RenderTimingData).triggers).toHaveLength(0)
+    })
+
+    it('should record render timing in stats', () => {
+      const monitor = new ComponentMonitor({ logger: 'none' })
+
+      monitor.logRenderTiming(timing)
+      monitor.logRenderTiming({ ...timing, duration: 8 })
+
+      const stats = monitor.getComponentStats('TestComponent')
+      expect(stats?.renderCount).toBe(2)
+      expect(stats?.maxRenderDuration).toBe(8)
+    })
+
+    it('should work with loggers that do not implement rendered', () => {
+      const monitor = new ComponentMonitor({ logger: 'none', customLogger: mockLogger })
+
+      expect(() => monitor.logRenderTiming(timing)).not.toThrow()
+      // eslint-disable-next-line @typescript-eslint/unbound-method
+      expect(mockLogger.error).not.toHaveBeenCalled()
+    })
+
+    it('should report renders to the User Timing API when enabled', () => {
+      const mark = vi.spyOn(globalThis.performance, 'mark')
+      const measure = vi.spyOn(globalThis.performance, 'measure')
+      const monitor = new ComponentMonitor({ logger: 'none', userTiming: true })
+      monitor.logRenderEvent('triggered', {
+        componentName: 'TestComponent',
+        componentPath: 'App → TestComponent',
+        event: { ...mockEvent, type: 'set', key: Symbol('items') } as DebuggerEvent,
+        timestamp: Date.now(),
+        instanceId: 1,
+      })
+
+      monitor.logRenderTiming(timing)
+
+      const detail = {
+        componentName: 'TestComponent',
+        componentPath: 'TestComponent',
+        instanceId: 1,
+        phase: 'update',
+        triggers: [{ type: 'set', key: 'Symbol(items)' }],
+      }
+      expect(mark).toHaveBeenCalledWith('flowvis:TestComponent#1:render:start', { startTime: 10, detail })
+      expect(measure).toHaveBeenCalledWith('flowvis:TestComponent#1:render', { start: 10, duration: 4, detail })
+      mark.mockRestore()
+      measure.mockRestore()
+    })
+
+    it('should not use the User Timing API by default', () => {
+      const measure = vi.spyOn(globalThis.performance, 'measure')
+      const monitor = new ComponentMonitor({ logger: 'none' })
+
+      monitor.logRenderTiming(timing)
+
+      expect(measure).not.toHaveBeenCalled()
+      measure.mockRestore()
+    })
+
+    it('should not record timing when monitor is disabled', () => {
+      const monitor = new ComponentMonitor({ logger: 'none', enabled: false })
+
+      monitor.logRenderTiming(timing)
+
+      expect(monitor.getRenderStats().size).toBe(0)
+    })
+  })
+
+  describe('render cycles', () => {
+    it('should emit a render cycle with triggers and tracked dependencies when a render completes', () => {
+      const renderCycle = vi.fn()
+      const onRenderCycle = vi.fn()
+      const monitor = new ComponentMonitor({
+        logger: 'none',
+        customLogger: { ...mockLogger, renderCycle },
+        onRenderCycle,
+      })
+      const eventData: RenderEventData = {
+        componentName: 'TestComponent',
+        componentPath: 'TestComponent',
+        event: mockEvent,
+        timestamp: Date.now(),
+        instanceId: 1,
+      }
+
+      monitor.logRenderEvent('triggered', eventData)
+      monitor.logRenderEvent('tracked', eventData)
+      monitor.logRenderEvent('tracked', eventData)
+      monitor.logRenderTiming({
+        componentName: 'TestComponent',
+        componentPath: 'TestComponent',
+        instanceId: 1,
+        phase: 'update',
+        startTime: 0,
+        duration: 1,
+        timestamp: Date.now(),
+      })
+
+      const cycle = renderCycle.mock.calls[0]?.[0] as RenderCycle
+      expect(cycle.triggers).toHaveLength(1)
+      expect(cycle.tracked).toHaveLength(2)
+      expect(cycle.sequence).toBe(1)
+      expect(onRenderCycle).toHaveBeenCalledWith(cycle)
+    })
+
+    it('should drop triggers of instances released before they rendered', () => {
+      const onRenderCycle = vi.fn()
+      const monitor = new ComponentMonitor({ logger: 'none', onRenderCycle })
+      const eventData: RenderEventData = {
+        componentName: 'TestComponent',
+        componentPath: 'TestComponent',
+        event: mockEvent,
+        timestamp: Date.now(),
+        instanceId: 1,
+      }
+
+      monitor.logRenderEvent('triggered', eventData)
+      monitor.releaseInstance(1)
+      monitor.logRenderTiming({
+        componentName: 'TestComponent',
+        componentPath: 'TestComponent',
+        instanceId: 1,
+        phase: 'mount',
+        startTime: 0,
+        duration: 1,
+        timestamp: Date.now(),
+      })
+
+      const cycle = onRenderCycle.mock.calls[0]?.[0] as RenderCycle
+      expect(cycle.triggers).toHaveLength(0)
+      expect(cycle.sequence).toBe(1)
+    })
+
+    it('should default to flat event display', () => {
+      const monitor = new ComponentMonitor({ logger: 'none' })
+
+      expect(monitor.options.groupByRenderCycle).toBe(false)
+      expect(monitor.options.groupByInstance).toBe(false)
+      expect(monitor.options.componentTree).toBe(false)
+      expect(monitor.options.userTiming).toBe(false)
+      expect(monitor.options.warnings).toEqual({})
+    })
+  })
+
+  describe('render cascades', () => {
+    it('should report re-renders caused by one mutation as a cascade tree', async () => {
+      const renderCascade = vi.fn()
+      const onRenderCascade = vi.fn()
+      const monitor = new ComponentMonitor({
+        logger: 'none',
+        customLogger: { ...mockLogger, renderCascade },
+        onRenderCascade,
+      })
+      const store = { count: 1 }
+      const parent = { uid: 1, type: { name: 'Parent' }, props: {}, parent: null }
+      const child = { uid: 2, type: { name: 'Child' }, props: { count: 1 }, parent }
+
+      monitor.logRenderEvent('triggered', {
+        componentName: 'Parent',
+        componentPath: 'Parent',
+        event: { type: 'set', key: 'count', target: store } as DebuggerEvent,
+        timestamp: Date.now(),
+        instanceId: 1,
+        instance: parent as unknown as ComponentInternalInstance,
+      })
+      monitor.logRenderEvent('triggered', {
+        componentName: 'Child',
+        componentPath: 'Parent → Child',
+        event: { type: 'set', key: 'count', target: child.props } as DebuggerEvent,
+        timestamp: Date.now(),
+        instanceId: 2,
+        instance: child as unknown as ComponentInternalInstance,
+      })
+
+      await new Promise((resolve) => globalThis.setTimeout(resolve, 0))
+
+      expect(renderCascade).toHaveBeenCalledTimes(1)
+      const cascade = renderCascade.mock.calls[0]?.[0] as RenderCascade
+      expect(cascade.target).toBe(store)
+      expect(cascade.nodes[0]?.componentName).toBe('Parent')
+      expect(cascade.nodes[0]?.children[0]?.componentName).toBe('Child')
+      expect(cascade.depth).toBe(2)
+      expect(onRenderCascade).toHaveBeenCalledWith(cascade)
+    })
+
+    it('should not track cascades for tracked events', async () => {
+      const onRenderCascade = vi.fn()
+      const monitor = new ComponentMonitor({ logger: 'none', onRenderCascade })
+
+      monitor.logRenderEvent('tracked', {
+        componentName: 'TestComponent',
+        componentPath: 'TestComponent',
+        event: mockEvent,
+        timestamp: Date.now(),
+        instanceId: 1,
+      })
+
+      await new Promise((resolve) => globalThis.setTimeout(resolve, 0))
+
+      expect(onRenderCascade).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('render warnings', () => {
+    const createIdenticalTrigger = (): RenderEventData => ({
+      componentName: 'TestComponent',
+      componentPath: 'TestComponent',
+      event: { type: 'set', key: 'count', target: mockEvent.target, oldValue: [1, 2], newValue: [1, 2] } as DebuggerEvent,
+      timestamp: Date.now(),
+      instanceId: 1,
+    })
+
+    it('should report warnings to the logger and the onWarning callback', () => {
+      const warning = vi.fn()
+      const onWarning = vi.fn()
+      const monitor = new ComponentMonitor({
+        logger: 'none',
+        customLogger: { ...mockLogger, warning },
+        onWarning,
+        warnings: { identicalValueThreshold: 2 },
+      })
+
+      monitor.logRenderEvent('triggered', createIdenticalTrigger())
+      monitor.logRenderEvent('triggered', createIdenticalTrigger())
+
+      expect(warning).toHaveBeenCalledTimes(1)
+      const reported = warning.mock.calls[0]?.[0] as RenderWarning
+      expect(reported.type).toBe('identical-value')
+      expect(reported.instanceId).toBe(1)
+      expect(onWarning).toHaveBeenCalledWith(reported)
+    })
+
+    it('should detect render storms from measured renders', () => {
+      const onWarning = vi.fn()
+      const monitor = new ComponentMonitor({ logger: 'none', onWarning, warnings: { stormThreshold: 1 } })
+      const timing = {
+        componentName: 'TestComponent',
+        componentPath: 'TestComponent',
+        instanceId: 1,
+        phase: 'update' as const,
+        startTime: 10,
+        duration: 4,
+        timestamp: Date.now(),
+      }
+
+      monitor.logRenderTiming(timing)
+      monitor.logRenderTiming(timing)
+
+      expect(onWarning).toHaveBeenCalledWith(expect.objectContaining({ type: 'render-storm', count: 2 }))
+    })
+
+    it('should not report warnings when disabled at runtime', () => {
+      const onWarning = vi.fn()
+      const monitor = new ComponentMonitor({ logger: 'none', onWarning, warnings: { identicalValueThreshold: 1 } })
+
+      monitor.setOptions({ warnings: false })
+      monitor.logRenderEvent('triggered', createIdenticalTrigger())
+
+      expect(onWarning).not.toHaveBeenCalled()
+    })
+
+    it('should report errors thrown while handling a warning', () => {
+      const monitor = new ComponentMonitor({
+        logger: 'none',
+        customLogger: mockLogger,
+        onWarning: (): void => {
+          throw new Error('callback failed')
+        },
+        warnings: { identicalValueThreshold: 1 },
+      })
+
+      monitor.logRenderEvent('triggered', createIdenticalTrigger())
+
+      // eslint-disable-next-line @typescript-eslint/unbound-method
+      expect(mockLogger.error).toHaveBeenCalledWith(expect.any(Error), expect.objectContaining({ type: 'warning' }))
+    })
+  })
+
+  describe('multiple loggers', () => {
+    const createEventData = (componentName: string): RenderEventData => ({
+      componentName,
+      componentPath: `App → ${componentName}`,
+      event: mockEvent,
+      timestamp: Date.now(),
+      instanceId: 1,
+    })
+
+    it('should pass events to every logger, filtered per logger', () => {
+      const analytics: Logger = { tracked: vi.fn(), triggered: vi.fn(), error: vi.fn() }
+      const monitor = new ComponentMonitor({
+        loggers: [mockLogger, { logger: analytics, filter: (componentName): boolean => componentName === 'UserList' }],
+      })
+
+      monitor.logRenderEvent('triggered', createEventData('UserList'))
+      monitor.logRenderEvent('triggered', createEventData('Other'))
+
+      // eslint-disable-next-line @typescript-eslint/unbound-method
+      expect(mockLogger.triggered).toHaveBeenCalledTimes(2)
+      // eslint-disable-next-line @typescript-eslint/unbound-method
+      expect(analytics.triggered).toHaveBeenCalledOnce()
+    })
+
+    it('should take precedence over the custom logger', () => {
+      const customLogger: Logger = { tracked: vi.fn(), triggered: vi.fn(), error: vi.fn() }
+      const monitor = new ComponentMonitor({ customLogger, loggers: [mockLogger] })
+
+      monitor.logRenderEvent('tracked', createEventData('UserList'))
+
+      // eslint-disable-next-line @typescript-eslint/unbound-method
+      expect(mockLogger.tracked).toHaveBeenCalledOnce()
+      // eslint-disable-next-line @typescript-eslint/unbound-method
+      expect(customLogger.tracked).not.toHaveBeenCalled()
+    })
+
+    it('should replace the loggers when the option changes', () => {
+      const destroy = vi.fn()
+      const monitor = new ComponentMonitor({ loggers: [{ ...mockLogger, destroy }] })
+
+      monitor.setOptions({ loggers: [mockLogger] })
+
+      // Loggers passed in are not destroyed, they belong to the caller
+      expect(destroy).not.toHaveBeenCalled()
+      monitor.logRenderEvent('tracked', createEventData('UserList'))
+      // eslint-disable-next-line @typescript-eslint/unbound-method
+      expect(mockLogger.tracked).toHaveBeenCalledOnce()
+    })
+  })
+
+  describe('lifecycle events', () => {
+    const createLifecycleData = (): LifecycleEventData => ({
+      type: 'mounted',
+      componentName: 'TestComponent',
+      componentPath: 'App → TestComponent',
+      instanceId: 1,
+      timestamp: Date.now(),
+      instance: mockInstance as ComponentInternalInstance,
+    })
+
+    it('should pass lifecycle events with metadata to the logger and callback', () => {
+      const lifecycle = vi.fn()
+      const onLifecycle = vi.fn()
+      const monitor = new ComponentMonitor({ customLogger: { ...mockLogger, lifecycle }, onLifecycle })
+
+      monitor.logLifecycleEvent(createLifecycleData())
+
+      const event = lifecycle.mock.calls[0][0] as LifecycleEventData
+      expect(event.type).toBe('mounted')
+      expect(event.instance).toBeUndefined()
+      expect(event.metadata?.name).toBe('TestComponent')
+      expect(onLifecycle).toHaveBeenCalledWith(event)
+    })
+
+    it('should count mounts and unmounts per component', () => {
+      const monitor = new ComponentMonitor({ customLogger: mockLogger })
+
+      monitor.logLifecycleEvent({ ...createLifecycleData(), timestamp: 1000 })
+      monitor.logLifecycleEvent({ ...createLifecycleData(), type: 'unmounted', timestamp: 1600 })
+
+      expect(monitor.getComponentLifetime('TestComponent')).toMatchObject({ created: 1, alive: 0, averageLifetime: 600 })
+      expect(monitor.getLifetimeStats().size).toBe(1)
+    })
+
+    it('should not record lifecycle events while paused', () => {
+      const onLifecycle = vi.fn()
+      const monitor = new ComponentMonitor({ customLogger: mockLogger, onLifecycle })
+
+      monitor.pause()
+      monitor.logLifecycleEvent(createLifecycleData())
+
+      expect(onLifecycle).not.toHaveBeenCalled()
+    })
+
+    it('should count instances released while paused as unmounted', () => {
+      const monitor = new ComponentMonitor({ customLogger: mockLogger })
+      monitor.logLifecycleEvent(createLifecycleData())
+
+      monitor.pause()
+      monitor.logLifecycleEvent({ ...createLifecycleData(), type: 'unmounted' })
+      monitor.releaseInstance(createLifecycleData().instanceId)
+
+      expect(monitor.getComponentLifetime('TestComponent')).toMatchObject({ created: 1, alive: 0, unmounted: 1 })
+    })
+  })
+
+  describe('dependency graph', () => {
+    const store = { count: 0 }
+    const createReadData = (instanceId: number, key: string): RenderEventData => ({
+      componentName: `Component${instanceId}`,
+      componentPath: `App → Component${instanceId}`,
+      event: { type: 'get', key, target: store } as DebuggerEvent,
+      timestamp: Date.now(),
+      instanceId,
+    })
+    const render = (monitor: ComponentMonitor, instanceId: number): void => {
+      monitor.logRenderTiming({
+        componentName: `Component${instanceId}`,
+        componentPath: `App → Component${instanceId}`,
+        instanceId,
+        phase: 'update',
+        startTime: 10,
+        duration: 1,
+        timestamp: Date.now(),
+      })
+    }
+
+    it('should register the dependencies read by each render', () => {
+      const monitor = new ComponentMonitor({ customLogger: mockLogger })
+
+      monitor.logRenderEvent('tracked', createReadData(1, 'count'))
+      monitor.logRenderEvent('tracked', createReadData(2, 'count'))
+      render(monitor, 1)
+      render(monitor, 2)
+
+      expect(monitor.getDependencies(1).map(({ key }) => key)).toEqual(['count'])
+      expect(monitor.getDependents(store, 'count').map(({ componentName }) => componentName)).toEqual(['Component1', 'Component2'])
+      expect(monitor.getDependencyGraph()).toHaveLength(1)
+    })
+
+    it('should register dependencies hidden by the event filter', () => {
+      const monitor = new ComponentMonitor({ customLogger: mockLogger, eventFilter: { types: ['set'] } })
+
+      monitor.logRenderEvent('tracked', createReadData(1, 'count'))
+      render(monitor, 1)
+
+      // eslint-disable-next-line @typescript-eslint/unbound-method
+      expect(mockLogger.tracked).not.toHaveBeenCalled()
+      expect(monitor.getDependents(store, 'count')).toHaveLength(1)
+    })
+
+    it('should forget released instances, also while paused', () => {
+      const monitor = new ComponentMonitor({ customLogger: mockLogger })
+      monitor.logRenderEvent('tracked', createReadData(1, 'count'))
+      render(monitor, 1)
+
+      monitor.pause()
+      monitor.releaseInstance(1)
+
+      expect(monitor.getDependencies(1)).toEqual([])
+      expect(monitor.getDependencyGraph()).toEqual([])
+    })
+
+    it('should report the dependencies read per render against the ones that triggered', () => {
+      const monitor = new ComponentMonitor({ customLogger: mockLogger })
+
+      monitor.logRenderEvent('tracked', createReadData(1, 'count'))
+      monitor.logRenderEvent('tracked', createReadData(1, 'name'))
+      monitor.logRenderEvent('triggered', { ...createReadData(1, 'count'), event: { type: 'set', key: 'count', target: store } as DebuggerEvent })
+      render(monitor, 1)
+
+      expect(monitor.getSubscriptionReport()).toEqual([expect.objectContaining({
+        componentName: 'Component1',
+        renderCount: 1,
+        maxDependencies: 2,
+        triggeredDependencies: 1,
+        subscriptionRatio: 2,
+      })])
+
+      monitor.resetStats()
+      expect(monitor.getSubscriptionReport()).toEqual([])
+    })
+
+    it('should drop dependencies of renders interrupted by a pause', () => {
+      const monitor = new ComponentMonitor({ customLogger: mockLogger })
+      monitor.logRenderEvent('tracked', createReadData(1, 'count'))
+
+      monitor.pause()
+      monitor.resume()
+      render(monitor, 1)
+
+      expect(monitor.getDependencies(1)).toEqual([])
+    })
+  })
+
+  describe('runtime control', () => {
+    const createEventData = (): RenderEventData => ({
+      componentName: 'TestComponent',
+      componentPath: 'TestComponent',
+      event: mockEvent,
+      timestamp: Date.now(),
+      instanceId: 1,
+    })
+
+    const createProjectInstance = (name: string): ComponentInternalInstance => ({
+      uid: 1,
+      type: { name, __file: '/path/to/project/src/components/Component.vue' },
+      props: {},
+      parent: null,
+    }) as unknown as ComponentInternalInstance
+
+    it('should not record events while paused', () => {
+      const monitor = new ComponentMonitor({ logger: 'none', customLogger: mockLogger })
+
+      monitor.pause()
+      monitor.logRenderEvent('triggered', createEventData())
+
+      expect(monitor.isPaused()).toBe(true)
+      // eslint-disable-next-line @typescript-eslint/unbound-method
+      expect(mockLogger.triggered).not.toHaveBeenCalled()
+      expect(monitor.getRenderStats().size).toBe(0)
+
+      monitor.resume()
+      monitor.logRenderEvent('triggered', createEventData())
+
+      expect(monitor.isPaused()).toBe(false)
+      // eslint-disable-next-line @typescript-eslint/unbound-method
+      expect(mockLogger.triggered).toHaveBeenCalledOnce()
+    })
+
+    it('should notify the logger when pausing and resuming', () => {
+      const pauseChanged = vi.fn()
+      const monitor = new ComponentMonitor({ logger: 'none', customLogger: { ...mockLogger, pauseChanged } })
+
+      monitor.pause()
+      monitor.pause()
+      monitor.resume()
+
+      expect(pauseChanged.mock.calls).toEqual([[true], [false]])
+    })
+
+    it('should toggle the render heatmap and notify the logger', () => {
+      const heatmapChanged = vi.fn()
+      const monitor = new ComponentMonitor({ logger: 'none', customLogger: { ...mockLogger, heatmapChanged } })
+
+      monitor.setHeatmapEnabled(true)
+      monitor.setHeatmapEnabled(true)
+      monitor.setOptions({ heatmap: { enabled: false } })
+
+      expect(monitor.isHeatmapEnabled()).toBe(false)
+      expect(heatmapChanged.mock.calls).toEqual([[false], [true], [false]])
+    })
+
+    it('should not carry triggers recorded before pausing into the next render cycle', () => {
+      const onRenderCycle = vi.fn()
+      const monitor = new ComponentMonitor({ logger: 'none', onRenderCycle })
+
+      monitor.logRenderEvent('triggered', createEventData())
+      monitor.pause()
+      monitor.resume()
+      monitor.logRenderTiming({
+        componentName: 'TestComponent',
+        componentPath: 'TestComponent',
+        instanceId: 1,
+        phase: 'update',
+        startTime: 0,
+        duration: 1,
+        timestamp: Date.now(),
+      })
+
+      expect((onRenderCycle.mock.calls[0]?.[0] as RenderCycle).triggers).toHaveLength(0)
+    })
+
+    it('should decide whether to record based on current options', () => {
+      const monitor = new ComponentMonitor({ logger: 'none', enabled: false })
+      const instance = createProjectInstance('TestComponent')
+
+      expect(monitor.shouldRecord('TestComponent', instance)).toBe(false)
+
+      monitor.setOptions({ enabled: true })
+      expect(monitor.shouldRecord('TestComponent', instance)).toBe(true)
+
+      monitor.setOptions({ excludeComponents: ['Test*'] })
+      expect(monitor.shouldRecord('TestComponent', instance)).toBe(false)
+
+      monitor.setOptions({ excludeComponents: [], includeComponents: ['Other'] })
+      expect(monitor.shouldRecord('TestComponent', instance)).toBe(false)
+
+      monitor.setOptions({ includeComponents: [] })
+      monitor.pause()
+      expect(monitor.shouldRecord('TestComponent', instance)).toBe(false)
+    })
+
+    it('should replace the logger when logger options change', () => {
+      const destroy = vi.fn()
+      const nextLogger: Logger = { tracked: vi.fn(), triggered: vi.fn(), error: vi.fn() }
+      const monitor = new ComponentMonitor({ logger: 'none', customLogger: { ...mockLogger, destroy } })
+
+      monitor.setOptions({ customLogger: nextLogger })
+      monitor.logRenderEvent('tracked', createEventData())
+
+      expect(destroy).not.toHaveBeenCalled()
+      // eslint-disable-next-line @typescript-eslint/unbound-method
+      expect(mockLogger.tracked).not.toHaveBeenCalled()
+      // eslint-disable-next-line @typescript-eslint/unbound-method
+      expect(nextLogger.tracked).toHaveBeenCalledOnce()
+    })
+
+    it('should destroy replaced console loggers but keep a custom logger in use', () => {
+      const consoleDestroy = vi.spyOn(ConsoleLogger.prototype, 'destroy')
+      const destroy = vi.fn()
+      const customLogger: Logger = { ...mockLogger, destroy }
+      const monitor = new ComponentMonitor({ loggers: ['console', customLogger] })
+
+      monitor.setOptions({ batchWindow: 100 })
+      monitor.logRenderEvent('tracked', createEventData())
+
+      expect(consoleDestroy).toHaveBeenCalledOnce()
+      expect(destroy).not.toHaveBeenCalled()
+      // eslint-disable-next-line @typescript-eslint/unbound-method
+      expect(customLogger.tracked).toHaveBeenCalledOnce()
+
+      const single = new ComponentMonitor({ customLogger })
+      single.setOptions({ batchWindow: 200 })
+      single.logRenderEvent('tracked', createEventData())
+
+      expect(destroy).not.toHaveBeenCalled()
+      // eslint-disable-next-line @typescript-eslint/unbound-method
+      expect(customLogger.tracked).toHaveBeenCalledTimes(2)
+      consoleDestroy.mockRestore()
+    })
+
+    it('should keep the logger when unrelated options change', () => {
+      const destroy = vi.fn()
+      const monitor = new ComponentMonitor({ logger: 'none', customLogger: { ...mockLogger, destroy } })
+
+      monitor.setOptions({ excludeComponents: ['Other'], batchWindow: monitor.options.batchWindow })
+
+      expect(destroy).not.toHaveBeenCalled()
+    })
+
+    it('should tell a replaced logger that monitoring is paused', () => {
+      const pauseChanged = vi.fn()
+      const monitor = new ComponentMonitor({ logger: 'none', customLogger: mockLogger })
+
+      monitor.pause()
+      monitor.setOptions({ customLogger: { ...mockLogger, pauseChanged } })
+
+      expect(pauseChanged).toHaveBeenCalledWith(true)
+    })
+  })
+
+  describe('destroy', () => {
+    const createEventData = (): RenderEventData => ({
+      componentName: 'TestComponent',
+      componentPath: 'TestComponent',
+      event: mockEvent,
+      timestamp: Date.now(),
+      instanceId: 1,
+    })
+
+    it('should destroy the logger and stop recording', () => {
+      const destroy = vi.fn()
+      const monitor = new ComponentMonitor({ logger: 'none', customLogger: { ...mockLogger, destroy } })
+
+      monitor.destroy()
+      monitor.destroy()
+      monitor.logRenderEvent('triggered', createEventData())
+
+      expect(destroy).toHaveBeenCalledOnce()
+      // eslint-disable-next-line @typescript-eslint/unbound-method
+      expect(mockLogger.triggered).not.toHaveBeenCalled()
+      expect(monitor.shouldRecord('TestComponent', mockInstance as ComponentInternalInstance)).toBe(false)
+    })
+
+    it('should report pending cascades before destroying the logger', () => {
+      const calls: string[] = []
+      const monitor = new ComponentMonitor({
+        logger: 'none',
+        customLogger: {
+          ...mockLogger,
+          renderCascade: (): void => { calls.push('cascade') },
+          destroy: (): void => { calls.push('destroy') },
+        },
+      })
+
+      monitor.logRenderEvent('triggered', createEventData())
+      monitor.destroy()
+
+      expect(calls).toEqual(['cascade', 'destroy'])
+    })
+
+    it('should keep collected stats readable', () => {
+      const monitor = new ComponentMonitor({ logger: 'none' })
+      monitor.logRenderEvent('triggered', createEventData())
+
+      monitor.destroy()
+
+      expect(monitor.getComponentStats('TestComponent')?.triggeredCount).toBe(1)
+    })
+
+    it('should report errors thrown while destroying the logger', () => {
+      const monitor = new ComponentMonitor({
+        logger: 'none',
+        customLogger: { ...mockLogger, destroy: (): void => { throw new Error('destroy failed') } },
+      })
+
+      monitor.destroy()
+
+      // eslint-disable-next-line @typescript-eslint/unbound-method
+      expect(mockLogger.error).toHaveBeenCalledWith(expect.any(Error), { type: 'destroy' })
+    })
+  })
 })
\ No newline at end of file
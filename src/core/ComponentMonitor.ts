@@ -1,12 +1,43 @@
-import { DEFAULT_BATCH_WINDOW } from '../constants'
+import { toRaw } from 'vue'
+import type { ComponentInternalInstance } from 'vue'
+import { DEFAULT_BATCH_WINDOW, USER_TIMING_PREFIX } from '../constants'
 import type { 
   FlowVisOptions, 
   RenderEventData, 
+  RenderTimingData,
+  RenderCycle,
+  RenderCascade,
+  RenderWarning,
+  LifecycleEventData,
   Logger,
+  LoggerSink,
+  ComponentRenderStats,
+  ComponentLifetimeStats,
+  InstanceRenderStats,
+  ReactiveDependency,
+  DependencyReader,
+  SubscriptionReportEntry,
 } from '../types'
 import { ComponentIdentifier } from '../utils/componentIdentifier'
+import { isDeepEqual } from '../utils/isDeepEqual'
+import { RenderStatsCollector } from './RenderStatsCollector'
+import { LifecycleTracker } from './LifecycleTracker'
+import { RenderCycleTracker } from './RenderCycleTracker'
+import { RenderCascadeTracker } from './RenderCascadeTracker'
+import { RenderWarningDetector } from './RenderWarningDetector'
+import { EventFilter } from './EventFilter'
+import { ComponentSelector } from './ComponentSelector'
+import { ExternalComponentResolver } from './ExternalComponentResolver'
+import { RenderHeatmap } from './RenderHeatmap'
+import { DependencyRegistry } from './DependencyRegistry'
+import { SubscriptionReportCollector } from './SubscriptionReportCollector'
+import { TargetLabelResolver } from './TargetLabelResolver'
 import { UILogger } from '../loggers/ui/UILogger'
 import { ConsoleLogger } from '../loggers/console/ConsoleLogger'
+import { CompositeLogger, type CompositeLoggerSink } from '../loggers/composite/CompositeLogger'
+
+// Options that require the logger to be recreated when they change
+const LOGGER_OPTIONS = ['logger', 'customLogger', 'batchLogs', 'batchWindow', 'logToTable', 'groupByRenderCycle', 'groupByInstance', 'componentTree', 'loggers'] as const
 
 // No-op logger for when logging is disabled
 class NoOpLogger implements Logger {
@@ -18,6 +49,26 @@ class NoOpLogger implements Logger {
     // Do nothing
   }
   
+  rendered(_data: RenderTimingData): void {
+    // Do nothing
+  }
+  
+  renderCycle(_cycle: RenderCycle): void {
+    // Do nothing
+  }
+  
+  renderCascade(_cascade: RenderCascade): void {
+    // Do nothing
+  }
+  
+  warning(_warning: RenderWarning): void {
+    // Do nothing
+  }
+
+  lifecycle(_event: LifecycleEventData): void {
+    // Do nothing
+  }
+  
   error(_error: Error, _context?: unknown): void {
     // Do nothing
   }
@@ -26,6 +77,26 @@ class NoOpLogger implements Logger {
 export class ComponentMonitor {
   public options: Required<Omit<FlowVisOptions, 'customLogger'>> & { customLogger?: Logger }
   private logger: Logger
+  // Console and UI loggers created from the options, loggers passed in belong to the caller
+  private builtInLoggers: Logger[] = []
+  private stats = new RenderStatsCollector()
+  private lifetimes = new LifecycleTracker()
+  private cycles = new RenderCycleTracker()
+  private cascades = new RenderCascadeTracker((cascade) => this.logRenderCascade(cascade))
+  private warnings: RenderWarningDetector
+  private eventFilter: EventFilter
+  private selector: ComponentSelector
+  private externalComponents: ExternalComponentResolver
+  private heatmap: RenderHeatmap
+  private dependencies = new DependencyRegistry()
+  private subscriptions = new SubscriptionReportCollector()
+  private targetLabels = new TargetLabelResolver()
+  // Exclusions already reported in debug mode, by component name and reason
+  private reportedExclusions = new Set<string>()
+  private paused = false
+  private destroyed = false
+  // Include/exclude decisions per instance, invalidated when options change
+  private monitoredInstances = new WeakMap<ComponentInternalInstance, boolean>()
   
   constructor(options: FlowVisOptions = {}) {
     this.options = {
@@ -33,170 +104,226 @@ export class ComponentMonitor {
       logToTable: false,
       excludeComponents: [],
       includeComponents: [],
+      componentRules: [],
+      externalComponents: {},
+      debugExclusions: false,
       batchLogs: true,
       batchWindow: options.batchWindow ?? DEFAULT_BATCH_WINDOW,
       onRenderTracked: (): void => {},
       onRenderTriggered: (): void => {},
+      onRenderCycle: (): void => {},
+      onRenderCascade: (): void => {},
+      onWarning: (): void => {},
+      onLifecycle: (): void => {},
+      warnings: {},
+      eventFilter: {},
+      groupByRenderCycle: false,
+      groupByInstance: false,
+      componentTree: false,
+      userTiming: false,
+      heatmap: {},
       logger: 'ui',
       customLogger: undefined,
+      loggers: [],
       ...options
     }
     
+    this.heatmap = new RenderHeatmap(this.options.heatmap)
     this.logger = this.createLogger()
+    this.logger.heatmapChanged?.(this.heatmap.isEnabled())
+    this.warnings = new RenderWarningDetector(this.options.warnings, (warning) => this.logRenderWarning(warning))
+    this.eventFilter = new EventFilter(this.options.eventFilter)
+    this.selector = new ComponentSelector(this.options)
+    this.externalComponents = new ExternalComponentResolver(this.options.externalComponents)
   }
 
   private createLogger(): Logger {
-    // Custom logger takes precedence
+    this.builtInLoggers = []
+    // Multiple loggers take precedence, then the custom logger
+    if (this.options.loggers.length > 0) {
+      return new CompositeLogger(this.options.loggers.map((entry) => this.createSink(entry)))
+    }
     if (this.options.customLogger) {
       return this.options.customLogger
     }
 
-    // Create logger based on type selection
-    switch (this.options.logger) {
+    return this.createBuiltInLogger(this.options.logger)
+  }
+
+  private createSink(entry: 'console' | 'ui' | Logger | LoggerSink): CompositeLoggerSink {
+    if (typeof entry === 'string') {
+      return { logger: this.createBuiltInLogger(entry) }
+    }
+    if ('tracked' in entry) {
+      return { logger: entry }
+    }
+    return {
+      logger: typeof entry.logger === 'string' ? this.createBuiltInLogger(entry.logger) : entry.logger,
+      filter: entry.filter
+    }
+  }
+
+  private createBuiltInLogger(type: FlowVisOptions['logger']): Logger {
+    const logger = this.instantiateBuiltInLogger(type)
+    this.builtInLoggers.push(logger)
+    return logger
+  }
+
+  private instantiateBuiltInLogger(type: FlowVisOptions['logger']): Logger {
+    switch (type) {
       case 'console':
         return new ConsoleLogger({
           batchLogs: this.options.batchLogs,
           useTable: this.options.logToTable,
-          batchWindow: this.options.batchWindow
+          batchWindow: this.options.batchWindow,
+          groupByRenderCycle: this.options.groupByRenderCycle,
+          groupByInstance: this.options.groupByInstance
         })
       case 'ui':
-        return new UILogger()
+        return new UILogger({
+          groupByRenderCycle: this.options.groupByRenderCycle,
+          groupByInstance: this.options.groupByInstance,
+          componentTree: this.options.componentTree,
+          onPauseToggle: () => this.isPaused() ? this.resume() : this.pause(),
+          onHeatmapToggle: () => this.setHeatmapEnabled(!this.isHeatmapEnabled()),
+          getDependencyGraph: () => this.getDependencyGraph(),
+          getSubscriptionReport: () => this.getSubscriptionReport(),
+          getLifetimeStats: () => this.getLifetimeStats()
+        })
       case 'none':
         return new NoOpLogger()
       default:
         return new ConsoleLogger({
           batchLogs: this.options.batchLogs,
           useTable: this.options.logToTable,
-          batchWindow: this.options.batchWindow
+          batchWindow: this.options.batchWindow,
+          groupByRenderCycle: this.options.groupByRenderCycle,
+          groupByInstance: this.options.groupByInstance
         })
     }
   }
   
-  shouldMonitorComponent(componentName: string, instance?: import('vue').ComponentInternalInstance): boolean {
-    const { includeComponents, excludeComponents } = this.options
-
-    // Check if component is from external library (node_modules)
-    if (instance && this.isExternalComponent(instance)) {
-      return false
-    }
+  pause(): void {
+    if (this.paused) return
     
-    // If include list is specified, only monitor included components
-    if (includeComponents.length > 0) {
-      return this.matchesAnyPattern(componentName, includeComponents)
-    }
+    this.paused = true
+    // Renders in progress will not be measured, so their events would leak into the next cycle
+    this.cycles.discardPending()
+    this.dependencies.discardPending()
+    this.logger.pauseChanged?.(true)
+  }
+  
+  resume(): void {
+    if (!this.paused) return
     
-    // Otherwise, monitor all except excluded
-    return !this.matchesAnyPattern(componentName, excludeComponents)
+    this.paused = false
+    this.logger.pauseChanged?.(false)
   }
-
-  private normalizePath(filePath: string): string {
-    let normalized = filePath.replace(/\\/g, '/');
-    // Remove trailing slash if present, unless it's just the root '/'
-    if (normalized.length > 1 && normalized.endsWith('/')) {
-      normalized = normalized.substring(0, normalized.length - 1);
-    }
-    return normalized;
+  
+  isPaused(): boolean {
+    return this.paused
   }
-
-  private matchesPattern(componentName: string, pattern: string): boolean {
-    // If no wildcard, do case-insensitive exact match
-    if (!pattern.includes('*')) {
-      return componentName.toLowerCase() === pattern.toLowerCase();
-    }
-    
-    // Convert wildcard pattern to regex
-    const regexPattern = pattern
-      .replace(/[.*+?^${}()|[\]\\]/g, '\\$&') // Escape special regex chars
-      .replace(/\\\\?\*/g, '.*'); // Replace \* with .* for wildcard matching
+  
+  /**
+   * Shows or hides the render heatmap overlay on the page
+   */
+  setHeatmapEnabled(enabled: boolean): void {
+    if (this.destroyed || this.heatmap.isEnabled() === enabled) return
     
-    const regex = new RegExp(`^${regexPattern}$`, 'i'); // 'i' flag for case-insensitive
-    return regex.test(componentName);
+    this.heatmap.setEnabled(enabled)
+    this.options = { ...this.options, heatmap: { ...this.options.heatmap, enabled } }
+    this.logger.heatmapChanged?.(enabled)
   }
-
-  private matchesAnyPattern(componentName: string, patterns: string[]): boolean {
-    return patterns.some(pattern => this.matchesPattern(componentName, pattern));
+  
+  isHeatmapEnabled(): boolean {
+    return this.heatmap.isEnabled()
   }
-
-  // TODO: Check if there is a better way to do this
-  private isExternalComponent(instance: import('vue').ComponentInternalInstance): boolean {
-    const file = instance.type?.__file
-    if (!file) return true
-    
-    // Normalize file path for consistent checking
-    const normalizedFile = this.normalizePath(file)
-    
-    // Check if the component file path contains node_modules
-    if (normalizedFile.includes('node_modules')) return true
+  
+  /**
+   * Updates options at runtime. Filters apply to the next event of every component,
+   * logger related options replace the current logger.
+   */
+  setOptions(options: Partial<FlowVisOptions>): void {
+    if (this.destroyed) return
     
-    // Check if file path indicates it's from a different project or external source
-    // This covers CI/CD paths, temp directories, and other external locations
-    const externalPatterns = [
-      '/tmp/',
-      '/temp/',
-      '/home/runner/work/',
-      '/github/workspace/',
-      '/var/folders/',
-      'C:/Users/',
-      'C:/Windows/Temp/'
-    ]
+    const previous = this.options
+    this.options = { ...this.options, ...options }
+    this.monitoredInstances = new WeakMap()
     
-    if (externalPatterns.some(pattern => normalizedFile.includes(pattern))) {
-      return true
+    if ('warnings' in options) {
+      this.warnings.setThresholds(this.options.warnings)
     }
-    
-    // Check if file is in a dist/build directory of external dependencies
-    const distPatterns = ['/dist/', '/build/', '/lib/', '/es/', '/umd/']
-    if (distPatterns.some(pattern => normalizedFile.includes(pattern))) {
-      // If it contains common external library indicators, it's likely external
-      const hasExternalIndicators = normalizedFile.includes('/packages/') || 
-                                  normalizedFile.includes('/node_modules/') || 
-                                  normalizedFile.match(/\/[^/]+\/dist\//) || 
-                                  normalizedFile.match(/\/[^/]+\/lib\//)
-      if (hasExternalIndicators) {
-        return true
-      }
+    if ('eventFilter' in options) {
+      this.eventFilter.setFilter(this.options.eventFilter)
     }
-    
-    // Check for absolute paths that don't seem to be in the current project
-    // (heuristic: if it's an absolute path but doesn't contain common project indicators)
-    if (normalizedFile.startsWith('/') && !normalizedFile.includes('/src/') && !normalizedFile.includes('/components/')) {
-      return true
+    if ('includeComponents' in options || 'excludeComponents' in options || 'componentRules' in options) {
+      this.selector.setOptions(this.options)
     }
-    
-    // Check Vue-specific indicators using safe property access
-    // External components often lack HMR IDs in development
-    if (process.env.NODE_ENV === 'development' && instance.type) {
-      // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment, @typescript-eslint/no-unsafe-member-access, @typescript-eslint/no-explicit-any
-      const hmrId = (instance.type as any).__hmrId
-      if (!hmrId) {
-        // But only if the file suggests it's external (to avoid false positives)
-        if (normalizedFile.includes('/') && !normalizedFile.includes('./') && !normalizedFile.includes('../')) {
-          return true
-        }
-      }
+    if ('externalComponents' in options) {
+      this.externalComponents.setOptions(this.options.externalComponents)
     }
+    const heatmapWasEnabled = this.heatmap.isEnabled()
+    if ('heatmap' in options) {
+      this.heatmap.setOptions(this.options.heatmap)
+    }
+    this.reportedExclusions.clear()
     
-    // Check for non-standard scope ID patterns
-    if (instance.type) {
-      // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment, @typescript-eslint/no-unsafe-member-access, @typescript-eslint/no-explicit-any
-      const scopeId = (instance.type as any).__scopeId
-      if (scopeId && typeof scopeId === 'string' && typeof scopeId.startsWith === 'function' && !scopeId.startsWith('data-v-')) {
-        return true
+    const loggerChanged = LOGGER_OPTIONS.some(key => key in options && options[key] !== previous[key])
+    if (loggerChanged) {
+      // A custom logger is reused as it is, it was not created here and may still be in use
+      this.builtInLoggers.forEach((logger) => logger.destroy?.())
+      this.logger = this.createLogger()
+      if (this.paused) {
+        this.logger.pauseChanged?.(true)
       }
     }
+    if (loggerChanged || this.heatmap.isEnabled() !== heatmapWasEnabled) {
+      this.logger.heatmapChanged?.(this.heatmap.isEnabled())
+    }
+  }
+  
+  /**
+   * Whether events of the given instance should be recorded right now
+   */
+  shouldRecord(componentName: string, instance: ComponentInternalInstance): boolean {
+    if (!this.isRecording()) return false
     
-    // Check if it's a custom element using safe property access
-    // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment, @typescript-eslint/no-unsafe-member-access, @typescript-eslint/no-explicit-any
-    const isCE = (instance as any).isCE
-    if (isCE === true) {
-      return true
+    let monitored = this.monitoredInstances.get(instance)
+    if (monitored === undefined) {
+      monitored = this.shouldMonitorComponent(componentName, instance)
+      this.monitoredInstances.set(instance, monitored)
+    }
+    return monitored
+  }
+  
+  shouldMonitorComponent(componentName: string, instance?: import('vue').ComponentInternalInstance): boolean {
+    // Components of libraries are never monitored
+    const externalReason = instance ? this.externalComponents.resolve(componentName, instance) : null
+    if (externalReason) {
+      this.reportExclusion(componentName, `external component: ${externalReason}`)
+      return false
     }
     
-    return false
+    if (!this.selector.includesComponent(componentName, instance)) {
+      this.reportExclusion(componentName, 'excluded by includeComponents, excludeComponents or componentRules')
+      return false
+    }
+    return true
   }
   
+  private reportExclusion(componentName: string, reason: string): void {
+    if (!this.options.debugExclusions) return
+    
+    const key = `${componentName}\n${reason}`
+    if (this.reportedExclusions.has(key)) return
+    this.reportedExclusions.add(key)
+    // eslint-disable-next-line no-console
+    console.debug(`[vue-flow-vis] ${componentName} is not monitored: ${reason}`)
+  }
+
+
   logRenderEvent(type: 'tracked' | 'triggered', data: RenderEventData): void {
-    if (!this.options.enabled) return
+    if (!this.isRecording()) return
     
     try {
       // Lazy metadata extraction - only extract when logging
@@ -205,6 +332,32 @@ export class ComponentMonitor {
         metadata: data.instance ? this.extractMetadataLazy(data.instance) : undefined
       }
       delete eventData.instance // Remove instance reference to avoid memory leaks
+      const targetLabel = data.instance ? this.targetLabels.resolve(data.instance, data.event.target, data.event.key) : undefined
+      if (targetLabel !== undefined) {
+        eventData.targetLabel = targetLabel
+      }
+      if (type === 'triggered' && this.isRedundantTrigger(data.event)) {
+        eventData.redundant = true
+      }
+      // The dependency graph and subscription report must stay complete, filtered out reads still re-render the component
+      if (type === 'tracked') {
+        this.dependencies.track(eventData)
+      }
+      this.subscriptions.record(type, eventData)
+      
+      if (!this.eventFilter.matches(type, eventData)) return
+      
+      this.stats.record(type, eventData)
+      
+      this.cycles.record(type, eventData)
+      
+      if (type === 'triggered') {
+        this.cascades.record({
+          data: eventData,
+          ancestorIds: ComponentIdentifier.getAncestorIds(data.instance ?? null),
+          fromProps: data.instance ? toRaw(data.instance.props) === data.event.target : false
+        })
+      }
       
       // Log the event
       if (type === 'tracked') {
@@ -218,12 +371,203 @@ export class ComponentMonitor {
         this.options.onRenderTracked(eventData)
       } else {
         this.options.onRenderTriggered(eventData)
+        this.warnings.record(eventData)
       }
     } catch (error) {
       this.logger.error(error as Error, { type, data })
     }
   }
   
+  /**
+   * Whether a trigger assigned a value equal to the old one, e.g. a fresh array with the same items.
+   * Renders scheduled by a computed are never tagged: Vue passes only the effect for them, and the
+   * computed is evaluated lazily, so its new value is not known yet when the render is triggered.
+   */
+  private isRedundantTrigger(event: RenderEventData['event']): boolean {
+    const type: string = event.type
+    return type === 'set' && 'oldValue' in event && isDeepEqual(event.oldValue, event.newValue)
+  }
+  
+  logRenderTiming(data: Omit<RenderTimingData, 'triggers'>): void {
+    if (!this.isRecording()) return
+    
+    try {
+      const { instance, ...timing } = data
+      const dependencyCount = this.dependencies.commit(timing.instanceId)
+      const cycle = this.cycles.complete({
+        ...timing,
+        metadata: instance ? this.extractMetadataLazy(instance) : undefined
+      })
+      
+      this.stats.recordRender(cycle.timing)
+      this.subscriptions.recordRender(cycle.timing, dependencyCount)
+      this.logger.rendered?.(cycle.timing)
+      this.logger.renderCycle?.(cycle)
+      this.options.onRenderCycle(cycle)
+      this.warnings.recordRender(cycle.timing)
+      if (this.options.userTiming) {
+        this.measureRender(cycle.timing)
+      }
+      if (instance && timing.phase === 'update') {
+        this.heatmap.flash(instance, timing.componentName, timing.timestamp)
+      }
+      if (instance) {
+        this.targetLabels.invalidate(instance)
+      }
+    } catch (error) {
+      this.logger.error(error as Error, { type: 'rendered', data })
+    }
+  }
+  
+  private measureRender(timing: RenderTimingData): void {
+    const performance = globalThis.performance
+    if (typeof performance?.measure !== 'function') return
+    
+    const name = `${USER_TIMING_PREFIX}:${timing.componentName}#${timing.instanceId}:render`
+    // The detail is structured-cloned, so it only holds plain values
+    const detail = {
+      componentName: timing.componentName,
+      componentPath: timing.componentPath,
+      instanceId: timing.instanceId,
+      phase: timing.phase,
+      triggers: timing.triggers.map(({ event }) => ({ type: event.type, key: String(event.key) })),
+    }
+    performance.mark(`${name}:start`, { startTime: timing.startTime, detail })
+    performance.measure(name, { start: timing.startTime, duration: timing.duration, detail })
+  }
+  
+  logLifecycleEvent(data: LifecycleEventData): void {
+    if (!this.isRecording()) return
+    
+    try {
+      const { instance, ...event } = this.lifetimes.record(data)
+      const lifecycleEvent: LifecycleEventData = {
+        ...event,
+        metadata: instance ? this.extractMetadataLazy(instance) : undefined
+      }
+      
+      this.logger.lifecycle?.(lifecycleEvent)
+      this.options.onLifecycle(lifecycleEvent)
+    } catch (error) {
+      this.logger.error(error as Error, { type: 'lifecycle', data })
+    }
+  }
+  
+  /**
+   * Forgets what is kept per instance once it unmounted. Called for every unmount, also while
+   * paused or for instances that are not monitored, so that nothing outlives the instance.
+   */
+  releaseInstance(instanceId: number): void {
+    this.cycles.remove(instanceId)
+    this.warnings.remove(instanceId)
+    this.dependencies.remove(instanceId)
+    this.lifetimes.remove(instanceId)
+  }
+  
+  private logRenderCascade(cascade: RenderCascade): void {
+    try {
+      this.logger.renderCascade?.(cascade)
+      this.options.onRenderCascade(cascade)
+    } catch (error) {
+      this.logger.error(error as Error, { type: 'cascade', data: cascade })
+    }
+  }
+  
+  private logRenderWarning(warning: RenderWarning): void {
+    try {
+      this.logger.warning?.(warning)
+      this.options.onWarning(warning)
+    } catch (error) {
+      this.logger.error(error as Error, { type: 'warning', data: warning })
+    }
+  }
+  
+  /**
+   * Returns a read-only snapshot of render statistics keyed by component name
+   */
+  getRenderStats(): ReadonlyMap<string, ComponentRenderStats> {
+    return this.stats.getSnapshot()
+  }
+
+  getComponentStats(componentName: string): ComponentRenderStats | undefined {
+    return this.stats.getComponentStats(componentName)
+  }
+
+  getInstanceStats(instanceId: number): InstanceRenderStats | undefined {
+    return this.stats.getInstanceStats(instanceId)
+  }
+
+  /**
+   * Returns a read-only snapshot of mount/unmount counters keyed by component name
+   */
+  getLifetimeStats(): ReadonlyMap<string, ComponentLifetimeStats> {
+    return this.lifetimes.getSnapshot()
+  }
+
+  getComponentLifetime(componentName: string): ComponentLifetimeStats | undefined {
+    return this.lifetimes.getComponentLifetime(componentName)
+  }
+
+  /**
+   * Returns the reactive dependencies read by the last render of an instance
+   */
+  getDependencies(instanceId: number): ReactiveDependency[] {
+    return this.dependencies.getDependencies(instanceId)
+  }
+
+  /**
+   * Returns the instances that re-render when the key of a reactive object changes,
+   * or when any key of it changes if no key is given
+   */
+  getDependents(target: object, key?: unknown): DependencyReader[] {
+    return this.dependencies.getDependents(target, key)
+  }
+
+  /**
+   * Returns every reactive dependency read by a mounted instance, with the instances reading it
+   */
+  getDependencyGraph(): ReactiveDependency[] {
+    return this.dependencies.getSnapshot()
+  }
+
+  /**
+   * Returns per component how many dependencies its renders read compared to the ones that
+   * re-rendered it, with hints for components that subscribe to far more than they use
+   */
+  getSubscriptionReport(): SubscriptionReportEntry[] {
+    return this.subscriptions.getSnapshot()
+  }
+
+  resetStats(): void {
+    this.stats.reset()
+    this.subscriptions.reset()
+  }
+  
+  /**
+   * Stops monitoring and releases the logger. Cascades of the current flush are reported
+   * right away, events of unfinished renders are dropped. Collected stats stay readable.
+   */
+  destroy(): void {
+    if (this.destroyed) return
+    
+    this.cascades.flush()
+    this.cycles.discardPending()
+    this.dependencies.discardPending()
+    this.destroyed = true
+    this.heatmap.destroy()
+    
+    try {
+      this.logger.destroy?.()
+    } catch (error) {
+      this.logger.error(error as Error, { type: 'destroy' })
+    }
+    this.logger = new NoOpLogger()
+  }
+  
+  private isRecording(): boolean {
+    return this.options.enabled && !this.paused && !this.destroyed
+  }
+  
   private extractMetadataLazy(instance: import('vue').ComponentInternalInstance): import('../types').ComponentMetadata {
     return ComponentIdentifier.extractMetadata(instance)
   }
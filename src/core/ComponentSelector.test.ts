@@ -0,0 +1,104 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import type { ComponentInternalInstance } from 'vue'
+import { ComponentSelector } from './ComponentSelector'
+import { ComponentIdentifier } from '../utils/componentIdentifier'
+import { createMockInstance } from '../test-utils'
+
+describe('ComponentSelector', () => {
+  let app: ComponentInternalInstance
+  let dashboard: ComponentInternalInstance
+  let chart: ComponentInternalInstance
+  let invoice: ComponentInternalInstance
+
+  beforeEach(() => {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any, @typescript-eslint/no-unsafe-member-access
+    ;(ComponentIdentifier as any).pathCache = new WeakMap()
+    app = createMockInstance({ uid: 0, name: 'App', file: '/project/src/App.vue' })
+    dashboard = createMockInstance({ uid: 1, name: 'Dashboard', file: '/project/src/features/dashboard/Dashboard.vue', parent: app })
+    chart = createMockInstance({ uid: 2, name: 'Chart', file: '/project/src/features/dashboard/widgets/Chart.vue', parent: dashboard })
+    invoice = createMockInstance({ uid: 3, name: 'Invoice', file: 'C:\\project\\src\\features\\billing\\Invoice.vue', parent: app })
+  })
+
+  const includes = (selector: ComponentSelector, instance: ComponentInternalInstance): boolean =>
+    selector.includesComponent(ComponentIdentifier.getComponentName(instance), instance)
+
+  describe('include and exclude lists', () => {
+    it('should match names case-insensitively with wildcards', () => {
+      const selector = new ComponentSelector({ excludeComponents: ['dash*'] })
+
+      expect(includes(selector, dashboard)).toBe(false)
+      expect(includes(selector, chart)).toBe(true)
+    })
+
+    it('should match regular expressions against the name', () => {
+      const selector = new ComponentSelector({ includeComponents: [/^(Chart|Invoice)$/] })
+
+      expect(includes(selector, chart)).toBe(true)
+      expect(includes(selector, invoice)).toBe(true)
+      expect(includes(selector, dashboard)).toBe(false)
+    })
+
+    it('should match component paths below any ancestor', () => {
+      const selector = new ComponentSelector({ includeComponents: ['Dashboard → *'] })
+
+      expect(includes(selector, chart)).toBe(true)
+      expect(includes(selector, dashboard)).toBe(false)
+      expect(includes(selector, invoice)).toBe(false)
+    })
+
+    it('should match source file globs', () => {
+      const selector = new ComponentSelector({ includeComponents: ['src/features/billing/**'] })
+
+      expect(includes(selector, invoice)).toBe(true)
+      expect(includes(selector, dashboard)).toBe(false)
+    })
+
+    it('should require every field of a matcher', () => {
+      const selector = new ComponentSelector({ excludeComponents: [{ name: 'C*', file: '**/widgets/*.vue' }] })
+
+      expect(includes(selector, chart)).toBe(false)
+      expect(includes(selector, dashboard)).toBe(true)
+    })
+
+    it('should not match paths and files without an instance', () => {
+      const selector = new ComponentSelector({ excludeComponents: ['App → *', 'src/**'] })
+
+      expect(selector.includesComponent('Chart')).toBe(true)
+    })
+  })
+
+  describe('ordered rules', () => {
+    it('should let the last matching rule decide', () => {
+      const selector = new ComponentSelector({
+        componentRules: ['src/features/**', '!Dashboard → *', { name: 'Chart' }],
+      })
+
+      expect(includes(selector, dashboard)).toBe(true)
+      expect(includes(selector, chart)).toBe(true)
+      expect(includes(selector, invoice)).toBe(true)
+    })
+
+    it('should only monitor included components when the first rule includes', () => {
+      const selector = new ComponentSelector({ componentRules: [{ path: /Dashboard/ }, '!Chart'] })
+
+      expect(includes(selector, dashboard)).toBe(true)
+      expect(includes(selector, chart)).toBe(false)
+      expect(includes(selector, invoice)).toBe(false)
+    })
+
+    it('should monitor unmatched components when the first rule excludes', () => {
+      const selector = new ComponentSelector({ componentRules: [{ file: 'src/features/**', exclude: true }, 'Chart'] })
+
+      expect(includes(selector, app)).toBe(true)
+      expect(includes(selector, dashboard)).toBe(false)
+      expect(includes(selector, chart)).toBe(true)
+    })
+
+    it('should take precedence over the include and exclude lists', () => {
+      const selector = new ComponentSelector({ excludeComponents: ['Chart'], componentRules: ['!Invoice'] })
+
+      expect(includes(selector, chart)).toBe(true)
+      expect(includes(selector, invoice)).toBe(false)
+    })
+  })
+})
@@ -0,0 +1,107 @@
+import type { ComponentInternalInstance } from 'vue'
+import type { ComponentMatcher, ComponentPattern, ComponentRule } from '../types'
+import { ComponentIdentifier } from '../utils/componentIdentifier'
+import { globToRegExp, toStatelessRegExp, wildcardToRegExp, wildcardToSource } from '../utils/patterns'
+
+const PATH_SEPARATOR = ' → '
+
+export type CompiledMatcher = {
+  name?: RegExp
+  path?: RegExp
+  file?: RegExp
+}
+
+type CompiledRule = {
+  matcher: CompiledMatcher
+  exclude: boolean
+}
+
+function compilePath(pattern: string): RegExp {
+  // Relative paths match below any ancestor
+  return new RegExp(`(?:^|${PATH_SEPARATOR})${wildcardToSource(pattern)}$`, 'i')
+}
+
+function compileField(value: string | RegExp | undefined, fromString: (value: string) => RegExp): RegExp | undefined {
+  if (value === undefined) return undefined
+  return value instanceof RegExp ? toStatelessRegExp(value) : fromString(value)
+}
+
+export function compileMatcher(pattern: ComponentPattern): CompiledMatcher {
+  if (pattern instanceof RegExp) {
+    return { name: toStatelessRegExp(pattern) }
+  }
+  if (typeof pattern === 'string') {
+    if (pattern.includes('/')) return { file: globToRegExp(pattern) }
+    if (pattern.includes(PATH_SEPARATOR)) return { path: compilePath(pattern) }
+    return { name: wildcardToRegExp(pattern, 'i') }
+  }
+
+  const { name, path, file }: ComponentMatcher = pattern
+  return {
+    name: compileField(name, (value) => wildcardToRegExp(value, 'i')),
+    path: compileField(path, compilePath),
+    file: compileField(file, globToRegExp),
+  }
+}
+
+function compileRule(rule: ComponentRule): CompiledRule {
+  if (typeof rule === 'string' && rule.startsWith('!')) {
+    return { matcher: compileMatcher(rule.slice(1)), exclude: true }
+  }
+  if (typeof rule === 'object' && !(rule instanceof RegExp)) {
+    return { matcher: compileMatcher(rule), exclude: rule.exclude ?? false }
+  }
+  return { matcher: compileMatcher(rule), exclude: false }
+}
+
+export function matches(matcher: CompiledMatcher, componentName: string, instance?: ComponentInternalInstance): boolean {
+  if (!matcher.name && !matcher.path && !matcher.file) return false
+  if (matcher.name && !matcher.name.test(componentName)) return false
+  if (matcher.path && !(instance && matcher.path.test(ComponentIdentifier.getComponentPath(instance)))) return false
+  if (matcher.file) {
+    const file = instance?.type.__file
+    if (!file || !matcher.file.test(file.replace(/\\/g, '/'))) return false
+  }
+  return true
+}
+
+/**
+ * Decides which components are monitored, by include/exclude lists or ordered rules matching
+ * component names, component paths and source files
+ */
+export class ComponentSelector {
+  private includes: CompiledMatcher[] = []
+  private excludes: CompiledMatcher[] = []
+  private rules: CompiledRule[] = []
+
+  constructor(options: { includeComponents?: ComponentPattern[], excludeComponents?: ComponentPattern[], componentRules?: ComponentRule[] } = {}) {
+    this.setOptions(options)
+  }
+
+  setOptions(options: { includeComponents?: ComponentPattern[], excludeComponents?: ComponentPattern[], componentRules?: ComponentRule[] }): void {
+    this.includes = (options.includeComponents ?? []).map(compileMatcher)
+    this.excludes = (options.excludeComponents ?? []).map(compileMatcher)
+    this.rules = (options.componentRules ?? []).map(compileRule)
+  }
+
+  includesComponent(componentName: string, instance?: ComponentInternalInstance): boolean {
+    if (this.rules.length > 0) {
+      for (let i = this.rules.length - 1; i >= 0; i--) {
+        const rule = this.rules[i]
+        if (rule && matches(rule.matcher, componentName, instance)) {
+          return !rule.exclude
+        }
+      }
+      // A rule list starting with an include only monitors what it includes
+      return this.rules[0]?.exclude ?? true
+    }
+
+    // If include list is specified, only monitor included components
+    if (this.includes.length > 0) {
+      return this.includes.some((matcher) => matches(matcher, componentName, instance))
+    }
+
+    // Otherwise, monitor all except excluded
+    return !this.excludes.some((matcher) => matches(matcher, componentName, instance))
+  }
+}
@@ -0,0 +1,129 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { reactive, ref } from 'vue'
+import { DependencyRegistry } from './DependencyRegistry'
+import { createMockEvent, createMockEventData } from '../test-utils'
+
+describe('DependencyRegistry', () => {
+  let registry: DependencyRegistry
+  let store: { count: number, items: string[] }
+
+  const read = (instanceId: number, key: string, target: object = store): void => {
+    registry.track(createMockEventData({
+      componentName: `Component${instanceId}`,
+      componentPath: `App → Component${instanceId}`,
+      instanceId,
+      event: createMockEvent({ key, target }),
+    }))
+  }
+
+  beforeEach(() => {
+    registry = new DependencyRegistry()
+    store = { count: 0, items: [] }
+  })
+
+  it('should map instances to the dependencies their last render read', () => {
+    read(1, 'count')
+    read(1, 'items')
+    read(1, 'count')
+    registry.commit(1)
+
+    const dependencies = registry.getDependencies(1)
+    expect(dependencies.map(({ key }) => key)).toEqual(['count', 'items'])
+    expect(dependencies[0].target).toBe(store)
+    expect(dependencies[0].targetType).toBe('Object')
+    expect(dependencies[0].targetId).toBe(dependencies[1].targetId)
+  })
+
+  it('should map dependencies to every instance reading them', () => {
+    read(1, 'count')
+    read(2, 'count')
+    read(2, 'items')
+    registry.commit(1)
+    registry.commit(2)
+
+    expect(registry.getDependents(store, 'count').map(({ instanceId }) => instanceId)).toEqual([1, 2])
+    expect(registry.getDependents(store, 'items')).toEqual([
+      { componentName: 'Component2', componentPath: 'App → Component2', instanceId: 2 },
+    ])
+    expect(registry.getDependents(store).map(({ instanceId }) => instanceId)).toEqual([1, 2])
+  })
+
+  it('should match reactive proxies with the raw targets Vue reports', () => {
+    const state = reactive({ count: 0 })
+    const counter = ref(0)
+    read(1, 'count', state)
+    read(1, 'value', counter)
+    registry.commit(1)
+
+    expect(registry.getDependents(state, 'count')).toHaveLength(1)
+    expect(registry.getDependents(counter, 'value')).toHaveLength(1)
+    expect(registry.getDependencies(1)[1].targetType).toBe('RefImpl')
+  })
+
+  it('should replace the dependencies of an instance when a render completes', () => {
+    read(1, 'count')
+    read(1, 'items')
+    registry.commit(1)
+
+    read(1, 'items')
+    registry.commit(1)
+
+    expect(registry.getDependencies(1).map(({ key }) => key)).toEqual(['items'])
+    expect(registry.getDependents(store, 'count')).toEqual([])
+    expect(registry.getSnapshot().map(({ key }) => key)).toEqual(['items'])
+  })
+
+  it('should keep the committed dependencies while a render is in progress', () => {
+    read(1, 'count')
+    registry.commit(1)
+
+    read(1, 'items')
+
+    expect(registry.getDependencies(1).map(({ key }) => key)).toEqual(['count'])
+    expect(registry.getDependents(store, 'items')).toEqual([])
+  })
+
+  it('should clear the dependencies of a render that read nothing', () => {
+    read(1, 'count')
+    registry.commit(1)
+
+    registry.commit(1)
+
+    expect(registry.getDependencies(1)).toEqual([])
+    expect(registry.getSnapshot()).toEqual([])
+  })
+
+  it('should forget removed instances', () => {
+    read(1, 'count')
+    read(2, 'count')
+    registry.commit(1)
+    registry.commit(2)
+
+    registry.remove(1)
+
+    expect(registry.getDependencies(1)).toEqual([])
+    expect(registry.getDependents(store, 'count').map(({ instanceId }) => instanceId)).toEqual([2])
+  })
+
+  it('should drop discarded renders without losing dependencies other renders are reading', () => {
+    read(1, 'count')
+    read(2, 'count')
+    registry.commit(1)
+    registry.discardPending()
+    registry.commit(2)
+
+    expect(registry.getDependents(store, 'count').map(({ instanceId }) => instanceId)).toEqual([1])
+    expect(registry.getDependencies(2)).toEqual([])
+  })
+
+  it('should keep a dependency another render is reading when its last reader leaves', () => {
+    read(1, 'count')
+    registry.commit(1)
+    read(2, 'count')
+
+    registry.remove(1)
+    registry.commit(2)
+
+    expect(registry.getDependents(store, 'count').map(({ instanceId }) => instanceId)).toEqual([2])
+  })
+})
@@ -0,0 +1,208 @@
+import { toRaw } from 'vue'
+import type { DependencyReader, ReactiveDependency, RenderEventData } from '../types'
+
+type DependencyNode = {
+  targetId: number
+  target: object
+  key: unknown
+  readers: Set<number>
+  // Renders in progress that read the node, it is kept until they complete
+  pendingReads: number
+}
+
+type InstanceRecord = {
+  componentName: string
+  componentPath: string
+  /** Dependencies read by the last completed render */
+  current: Set<DependencyNode>
+  /** Dependencies read by the render in progress */
+  pending: Set<DependencyNode> | null
+}
+
+function getTargetType(target: object): string {
+  const constructor = (target as { constructor?: { name?: string } }).constructor
+  return typeof constructor?.name === 'string' && constructor.name !== '' ? constructor.name : 'Object'
+}
+
+/**
+ * Keeps the reactive dependencies each instance read during its last render and, for each
+ * dependency, the instances that will re-render when it changes. The dependencies of an
+ * instance are replaced every time one of its renders completes.
+ */
+export class DependencyRegistry {
+  // Dependency nodes per raw target and key
+  private targets = new Map<object, Map<unknown, DependencyNode>>()
+  private instances = new Map<number, InstanceRecord>()
+  private targetIds = new WeakMap<object, number>()
+  private nextTargetId = 1
+
+  /**
+   * Adds a dependency read by the render in progress
+   */
+  track(data: RenderEventData): void {
+    const target: unknown = data.event.target
+    const key: unknown = data.event.key
+    if (target === null || typeof target !== 'object') return
+
+    let record = this.instances.get(data.instanceId)
+    if (!record) {
+      record = { componentName: data.componentName, componentPath: data.componentPath, current: new Set(), pending: null }
+      this.instances.set(data.instanceId, record)
+    }
+    record.pending ??= new Set()
+    const node = this.getOrCreateNode(toRaw(target), key)
+    if (!record.pending.has(node)) {
+      record.pending.add(node)
+      node.pendingReads++
+    }
+  }
+
+  /**
+   * Replaces the dependencies of an instance with those read by the render that just completed
+   * @returns The number of dependencies the render read
+   */
+  commit(instanceId: number): number {
+    const record = this.instances.get(instanceId)
+    if (!record) return 0
+
+    const next = record.pending ?? new Set<DependencyNode>()
+    for (const node of record.current) {
+      if (!next.has(node)) {
+        node.readers.delete(instanceId)
+        this.pruneNode(node)
+      }
+    }
+    for (const node of next) {
+      node.readers.add(instanceId)
+      node.pendingReads--
+    }
+    record.current = next
+    record.pending = null
+    return next.size
+  }
+
+  /**
+   * Forgets an unmounted instance
+   */
+  remove(instanceId: number): void {
+    const record = this.instances.get(instanceId)
+    if (!record) return
+
+    this.instances.delete(instanceId)
+    for (const node of record.current) {
+      node.readers.delete(instanceId)
+      this.pruneNode(node)
+    }
+    record.pending?.forEach((node) => this.releasePending(node))
+  }
+
+  /**
+   * Drops dependencies of renders in progress, which will never be committed
+   */
+  discardPending(): void {
+    for (const record of this.instances.values()) {
+      const pending = record.pending
+      record.pending = null
+      pending?.forEach((node) => this.releasePending(node))
+    }
+  }
+
+  /**
+   * Dependencies read by the last render of an instance
+   */
+  getDependencies(instanceId: number): ReactiveDependency[] {
+    const record = this.instances.get(instanceId)
+    return record ? Array.from(record.current, (node) => this.toSnapshot(node)) : []
+  }
+
+  /**
+   * Instances whose last render read the key of a target, or any key of it when no key is given
+   */
+  getDependents(target: object, key?: unknown): DependencyReader[] {
+    const nodes = this.targets.get(toRaw(target))
+    if (!nodes) return []
+
+    const instanceIds = new Set<number>()
+    for (const node of nodes.values()) {
+      if (key === undefined || Object.is(node.key, key)) {
+        node.readers.forEach((instanceId) => instanceIds.add(instanceId))
+      }
+    }
+    return Array.from(instanceIds, (instanceId) => this.toReader(instanceId))
+  }
+
+  /**
+   * All dependencies with at least one reader
+   */
+  getSnapshot(): ReactiveDependency[] {
+    const dependencies: ReactiveDependency[] = []
+    for (const nodes of this.targets.values()) {
+      for (const node of nodes.values()) {
+        if (node.readers.size > 0) {
+          dependencies.push(this.toSnapshot(node))
+        }
+      }
+    }
+    return dependencies
+  }
+
+  private getOrCreateNode(target: object, key: unknown): DependencyNode {
+    let nodes = this.targets.get(target)
+    if (!nodes) {
+      nodes = new Map()
+      this.targets.set(target, nodes)
+    }
+    let node = nodes.get(key)
+    if (!node) {
+      node = { targetId: this.getTargetId(target), target, key, readers: new Set(), pendingReads: 0 }
+      nodes.set(key, node)
+    }
+    return node
+  }
+
+  private getTargetId(target: object): number {
+    let id = this.targetIds.get(target)
+    if (id === undefined) {
+      id = this.nextTargetId++
+      this.targetIds.set(target, id)
+    }
+    return id
+  }
+
+  private releasePending(node: DependencyNode): void {
+    node.pendingReads--
+    this.pruneNode(node)
+  }
+
+  /**
+   * Removes a node nobody reads anymore, unless a render in progress is about to read it
+   */
+  private pruneNode(node: DependencyNode): void {
+    if (node.readers.size > 0 || node.pendingReads > 0) return
+
+    const nodes = this.targets.get(node.target)
+    nodes?.delete(node.key)
+    if (nodes?.size === 0) {
+      this.targets.delete(node.target)
+    }
+  }
+
+  private toReader(instanceId: number): DependencyReader {
+    const record = this.instances.get(instanceId)
+    return Object.freeze({
+      componentName: record?.componentName ?? '',
+      componentPath: record?.componentPath ?? '',
+      instanceId,
+    })
+  }
+
+  private toSnapshot(node: DependencyNode): ReactiveDependency {
+    return Object.freeze({
+      targetId: node.targetId,
+      target: node.target,
+      key: node.key,
+      targetType: getTargetType(node.target),
+      readers: Array.from(node.readers, (instanceId) => this.toReader(instanceId)),
+    })
+  }
+}
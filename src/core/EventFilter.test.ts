@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest'
+import { computed, ref } from 'vue'
+import { EventFilter } from './EventFilter'
+import { createMockEvent, createMockEventData } from '../test-utils'
+import type { RenderEventData } from '../types'
+
+describe('EventFilter', () => {
+  const createData = (options: { type?: string, key?: string | symbol, target?: unknown }): RenderEventData =>
+    createMockEventData({ event: createMockEvent({ target: {}, ...options }) })
+
+  it('should keep every event without conditions', () => {
+    const filter = new EventFilter()
+
+    expect(filter.matches('tracked', createData({ type: 'iterate' }))).toBe(true)
+  })
+
+  it('should filter by operation type', () => {
+    const filter = new EventFilter({ excludeTypes: ['iterate'] })
+
+    expect(filter.matches('tracked', createData({ type: 'iterate' }))).toBe(false)
+    expect(filter.matches('tracked', createData({ type: 'get' }))).toBe(true)
+
+    filter.setFilter({ types: ['set', 'add'] })
+
+    expect(filter.matches('triggered', createData({ type: 'add' }))).toBe(true)
+    expect(filter.matches('triggered', createData({ type: 'delete' }))).toBe(false)
+  })
+
+  it('should filter by key with wildcards and regular expressions', () => {
+    const filter = new EventFilter({ keys: ['user*', /^items\.\d+$/g], excludeKeys: ['userCache'] })
+
+    expect(filter.matches('tracked', createData({ key: 'userName' }))).toBe(true)
+    expect(filter.matches('tracked', createData({ key: 'items.3' }))).toBe(true)
+    // Global expressions match repeatedly
+    expect(filter.matches('tracked', createData({ key: 'items.3' }))).toBe(true)
+    expect(filter.matches('tracked', createData({ key: 'UserName' }))).toBe(false)
+    expect(filter.matches('tracked', createData({ key: 'userCache' }))).toBe(false)
+  })
+
+  it('should compare symbol keys by their description', () => {
+    const filter = new EventFilter({ excludeKeys: ['Symbol(iterate)'] })
+
+    expect(filter.matches('tracked', createData({ key: Symbol('iterate') }))).toBe(false)
+  })
+
+  it('should filter by target constructor', () => {
+    const filter = new EventFilter({ targets: ['Map', 'RefImpl', 'ComputedRefImpl'] })
+
+    expect(filter.matches('tracked', createData({ target: new Map() }))).toBe(true)
+    expect(filter.matches('tracked', createData({ target: ref(1) }))).toBe(true)
+    expect(filter.matches('tracked', createData({ target: computed(() => 1) }))).toBe(true)
+    expect(filter.matches('tracked', createData({ target: [] }))).toBe(false)
+
+    filter.setFilter({ excludeTargets: ['Array'] })
+
+    expect(filter.matches('tracked', createData({ target: [] }))).toBe(false)
+    expect(filter.matches('tracked', createData({ target: Object.create(null) as object }))).toBe(true)
+  })
+
+  it('should apply the predicate after the declarative conditions', () => {
+    const calls: string[] = []
+    const filter = new EventFilter({
+      excludeTypes: ['iterate'],
+      predicate: (data, type): boolean => {
+        calls.push(type)
+        return data.componentName !== 'Noisy'
+      },
+    })
+
+    expect(filter.matches('tracked', createData({ type: 'iterate' }))).toBe(false)
+    expect(filter.matches('triggered', createMockEventData({ componentName: 'Noisy' }))).toBe(false)
+    expect(filter.matches('triggered', createMockEventData({}))).toBe(true)
+    expect(calls).toEqual(['triggered', 'triggered'])
+  })
+})
@@ -0,0 +1,56 @@
+import type { RenderEventData, RenderEventFilter } from '../types'
+import { toStatelessRegExp, wildcardToRegExp } from '../utils/patterns'
+
+function toKeyPattern(pattern: string | RegExp): RegExp {
+  // Same wildcard syntax as the component patterns, but keys are case-sensitive
+  return pattern instanceof RegExp ? toStatelessRegExp(pattern) : wildcardToRegExp(pattern)
+}
+
+function getTargetName(target: unknown): string {
+  if (typeof target !== 'object' || target === null) return typeof target
+  const constructor = (target as { constructor?: { name?: unknown } }).constructor
+  return typeof constructor?.name === 'string' ? constructor.name : 'Object'
+}
+
+/**
+ * Decides which tracked/triggered events are recorded, by operation type, key,
+ * target constructor and a custom predicate
+ */
+export class EventFilter {
+  private filter: RenderEventFilter = {}
+  private keys: RegExp[] | null = null
+  private excludeKeys: RegExp[] = []
+
+  constructor(filter: RenderEventFilter = {}) {
+    this.setFilter(filter)
+  }
+
+  setFilter(filter: RenderEventFilter = {}): void {
+    this.filter = filter
+    // Patterns are compiled once, the filter runs for every event
+    this.keys = filter.keys ? filter.keys.map(toKeyPattern) : null
+    this.excludeKeys = (filter.excludeKeys ?? []).map(toKeyPattern)
+  }
+
+  matches(type: 'tracked' | 'triggered', data: RenderEventData): boolean {
+    const { types, excludeTypes, targets, excludeTargets, predicate } = this.filter
+    const operation: string = data.event.type
+
+    if (types && !types.some((candidate) => candidate === operation)) return false
+    if (excludeTypes?.some((candidate) => candidate === operation)) return false
+
+    if (this.keys || this.excludeKeys.length > 0) {
+      const key = String(data.event.key)
+      if (this.keys && !this.keys.some((pattern) => pattern.test(key))) return false
+      if (this.excludeKeys.some((pattern) => pattern.test(key))) return false
+    }
+
+    if (targets || excludeTargets) {
+      const targetName = getTargetName(data.event.target)
+      if (targets && !targets.includes(targetName)) return false
+      if (excludeTargets?.includes(targetName)) return false
+    }
+
+    return predicate ? predicate(data, type) : true
+  }
+}
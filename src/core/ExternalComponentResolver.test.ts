@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest'
+import type { ComponentInternalInstance } from 'vue'
+import { ExternalComponentResolver } from './ExternalComponentResolver'
+
+describe('ExternalComponentResolver', () => {
+  const createInstance = (file?: string, extra: Record<string, unknown> = {}): ComponentInternalInstance =>
+    ({ uid: 1, type: { __file: file, ...extra }, parent: null }) as unknown as ComponentInternalInstance
+
+  describe('without a project root', () => {
+    const resolver = new ExternalComponentResolver()
+
+    it('should treat project sources as internal', () => {
+      expect(resolver.resolve('UserList', createInstance('/home/me/app/src/components/UserList.vue'))).toBeNull()
+    })
+
+    it('should explain why a component is external', () => {
+      expect(resolver.resolve('RouterView', createInstance('/app/node_modules/vue-router/dist/RouterView.vue')))
+        .toBe('library in node_modules (vue-router)')
+      expect(resolver.resolve('Render', createInstance())).toMatch(/^no source file/)
+      expect(resolver.resolve('Temp', createInstance('/tmp/other/src/Temp.vue'))).toMatch(/^file in \/tmp\//)
+      expect(resolver.resolve('Widget', createInstance('/opt/app/Widget.vue'))).toMatch(/^absolute path outside of src/)
+      expect(resolver.resolve('Element', { ...createInstance('/app/src/Element.vue'), isCE: true } as ComponentInternalInstance))
+        .toBe('custom element')
+    })
+  })
+
+  describe('with a project root', () => {
+    const resolver = new ExternalComponentResolver({ projectRoot: '/repo/' })
+
+    it('should treat every file below the root as internal', () => {
+      expect(resolver.resolve('Button', createInstance('/repo/packages/ui/Button.vue'))).toBeNull()
+      expect(resolver.resolve('Tmp', createInstance('/repo/tmp/Tmp.vue'))).toBeNull()
+      expect(resolver.resolve('Relative', createInstance('src/Relative.vue'))).toBeNull()
+    })
+
+    it('should treat files outside of the root as external', () => {
+      expect(resolver.resolve('Other', createInstance('/repository/src/Other.vue'))).toBe('outside of the project root /repo')
+      expect(resolver.resolve('Lib', createInstance('/repo/node_modules/lib/Lib.vue'))).toBe('library in node_modules (lib)')
+    })
+
+    it('should compare Windows drive letters case-insensitively', () => {
+      const windows = new ExternalComponentResolver({ projectRoot: 'C:\\Work\\App' })
+
+      expect(windows.resolve('Home', createInstance('c:/work/app/src/Home.vue'))).toBeNull()
+    })
+  })
+
+  it('should monitor named libraries', () => {
+    const resolver = new ExternalComponentResolver({ libraries: ['vuetify', '@acme/ui'] })
+
+    expect(resolver.resolve('VBtn', createInstance('/app/node_modules/vuetify/lib/VBtn.vue'))).toBeNull()
+    expect(resolver.resolve('Card', createInstance('/app/node_modules/.pnpm/@acme+ui@1.0.0/node_modules/@acme/ui/Card.vue'))).toBeNull()
+    expect(resolver.resolve('Select', createInstance('/app/node_modules/other/Select.vue'))).not.toBeNull()
+  })
+
+  it('should apply the allow and deny lists before the other checks', () => {
+    const resolver = new ExternalComponentResolver({
+      projectRoot: '/repo',
+      allow: ['V*'],
+      deny: ['src/legacy/**'],
+    })
+
+    expect(resolver.resolve('VBtn', createInstance())).toBeNull()
+    expect(resolver.resolve('OldForm', createInstance('/repo/src/legacy/OldForm.vue'))).toBe('matches a deny pattern')
+  })
+})
@@ -0,0 +1,122 @@
+import type { ComponentInternalInstance } from 'vue'
+import type { ExternalComponentOptions } from '../types'
+import { type CompiledMatcher, compileMatcher, matches } from './ComponentSelector'
+
+// Temp directories, CI checkouts and user folders of other projects
+const EXTERNAL_LOCATIONS = [
+  '/tmp/',
+  '/temp/',
+  '/home/runner/work/',
+  '/github/workspace/',
+  '/var/folders/',
+  'C:/Users/',
+  'C:/Windows/Temp/'
+]
+const BUILD_DIRECTORIES = ['/dist/', '/build/', '/lib/', '/es/', '/umd/']
+
+function normalizePath(filePath: string): string {
+  const normalized = filePath.replace(/\\/g, '/')
+  // Remove trailing slash if present, unless it's just the root '/'
+  return normalized.length > 1 && normalized.endsWith('/') ? normalized.slice(0, -1) : normalized
+}
+
+function isAbsolutePath(filePath: string): boolean {
+  return filePath.startsWith('/') || /^[A-Za-z]:\//.test(filePath)
+}
+
+function getPackageName(filePath: string): string | undefined {
+  // The last node_modules segment is the package itself, also in pnpm's nested layout
+  const packages = Array.from(filePath.matchAll(/\/node_modules\/((?:@[^/]+\/)?[^/]+)\//g))
+  return packages[packages.length - 1]?.[1]
+}
+
+/**
+ * Recognizes components of libraries and other sources outside of the project
+ */
+export class ExternalComponentResolver {
+  private projectRoot: string | null = null
+  private libraries = new Set<string>()
+  private allow: CompiledMatcher[] = []
+  private deny: CompiledMatcher[] = []
+
+  constructor(options: ExternalComponentOptions = {}) {
+    this.setOptions(options)
+  }
+
+  setOptions(options: ExternalComponentOptions = {}): void {
+    this.projectRoot = options.projectRoot ? normalizePath(options.projectRoot) : null
+    this.libraries = new Set(options.libraries ?? [])
+    this.allow = (options.allow ?? []).map(compileMatcher)
+    this.deny = (options.deny ?? []).map(compileMatcher)
+  }
+
+  /**
+   * @returns Why the component is external, or null when it belongs to the project
+   */
+  resolve(componentName: string, instance: ComponentInternalInstance): string | null {
+    if (this.allow.some((matcher) => matches(matcher, componentName, instance))) return null
+    if (this.deny.some((matcher) => matches(matcher, componentName, instance))) return 'matches a deny pattern'
+
+    // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access, @typescript-eslint/no-explicit-any
+    if ((instance as any).isCE === true) return 'custom element'
+
+    const file = instance.type?.__file
+    if (!file) return 'no source file (__file), add it to the allow list to monitor it'
+
+    const normalizedFile = normalizePath(file)
+    if (normalizedFile.includes('node_modules')) {
+      const packageName = getPackageName(normalizedFile)
+      if (packageName && this.libraries.has(packageName)) return null
+      return `library in node_modules${packageName ? ` (${packageName})` : ''}`
+    }
+
+    if (this.projectRoot) {
+      // Relative paths, as written by some bundlers, are relative to the project
+      if (!isAbsolutePath(normalizedFile) || this.isInProjectRoot(normalizedFile)) return null
+      return `outside of the project root ${this.projectRoot}`
+    }
+
+    return this.resolveByHeuristics(normalizedFile, instance)
+  }
+
+  private isInProjectRoot(file: string): boolean {
+    const root = this.projectRoot ?? ''
+    // Drive letters are case-insensitive
+    const caseInsensitive = /^[A-Za-z]:/.test(root)
+    const candidate = caseInsensitive ? file.toLowerCase() : file
+    const prefix = caseInsensitive ? root.toLowerCase() : root
+    return candidate === prefix || candidate.startsWith(prefix.endsWith('/') ? prefix : `${prefix}/`)
+  }
+
+  private resolveByHeuristics(file: string, instance: ComponentInternalInstance): string | null {
+    const location = EXTERNAL_LOCATIONS.find((pattern) => file.includes(pattern))
+    if (location) return `file in ${location}, set projectRoot if this is the project`
+
+    // Build output of other packages
+    if (BUILD_DIRECTORIES.some((pattern) => file.includes(pattern))) {
+      if (file.includes('/packages/') || /\/[^/]+\/dist\//.test(file) || /\/[^/]+\/lib\//.test(file)) {
+        return 'build output of another package'
+      }
+    }
+
+    if (file.startsWith('/') && !file.includes('/src/') && !file.includes('/components/')) {
+      return 'absolute path outside of src/ and components/, set projectRoot if this is the project'
+    }
+
+    // External components often lack HMR IDs in development
+    // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access, @typescript-eslint/no-explicit-any
+    if (process.env.NODE_ENV === 'development' && !(instance.type as any).__hmrId) {
+      if (file.includes('/') && !file.includes('./') && !file.includes('../')) {
+        return 'no HMR id in development, set projectRoot if this is the project'
+      }
+    }
+
+    // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment, @typescript-eslint/no-unsafe-member-access, @typescript-eslint/no-explicit-any
+    const scopeId = (instance.type as any).__scopeId
+    if (typeof scopeId === 'string' && !scopeId.startsWith('data-v-')) {
+      return `non-standard scope id ${scopeId}`
+    }
+
+    return null
+  }
+}
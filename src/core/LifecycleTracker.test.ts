@@ -0,0 +1,88 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { LifecycleTracker } from './LifecycleTracker'
+import type { LifecycleEventData } from '../types'
+
+const createEvent = (type: 'mounted' | 'unmounted', instanceId: number, overrides: Partial<LifecycleEventData> = {}): LifecycleEventData => ({
+  type,
+  componentName: 'ListItem',
+  componentPath: 'App → ListItem',
+  instanceId,
+  timestamp: 1000,
+  ...overrides,
+})
+
+describe('LifecycleTracker', () => {
+  let tracker: LifecycleTracker
+
+  beforeEach(() => {
+    tracker = new LifecycleTracker()
+  })
+
+  it('should mark the first instance at a path as initial and later siblings as added', () => {
+    expect(tracker.record(createEvent('mounted', 1)).reason).toBe('initial')
+    expect(tracker.record(createEvent('mounted', 2)).reason).toBe('added')
+  })
+
+  it('should detect instances replaced by a key change in the same update', () => {
+    tracker.record(createEvent('mounted', 1, { key: 'a' }))
+    tracker.record(createEvent('unmounted', 1, { key: 'a', timestamp: 1500 }))
+
+    const event = tracker.record(createEvent('mounted', 2, { key: 'b', timestamp: 1500 }))
+
+    expect(event.reason).toBe('key-changed')
+    expect(event.replacedInstanceId).toBe(1)
+  })
+
+  it('should mark mounts after an earlier unmount at the path as remounted', async () => {
+    tracker.record(createEvent('mounted', 1))
+    tracker.record(createEvent('unmounted', 1))
+    await Promise.resolve()
+
+    const event = tracker.record(createEvent('mounted', 2))
+
+    expect(event.reason).toBe('remounted')
+    expect(event.replacedInstanceId).toBeUndefined()
+  })
+
+  it('should add the lifetime to unmount events and count lifetimes per component', () => {
+    tracker.record(createEvent('mounted', 1, { timestamp: 1000 }))
+    tracker.record(createEvent('mounted', 2, { timestamp: 1000 }))
+    const event = tracker.record(createEvent('unmounted', 1, { timestamp: 4000 }))
+    tracker.record(createEvent('mounted', 3, { timestamp: 4000 }))
+
+    expect(event.lifetime).toBe(3000)
+    expect(tracker.getComponentLifetime('ListItem')).toEqual({
+      componentName: 'ListItem',
+      created: 3,
+      alive: 2,
+      unmounted: 1,
+      remounts: 1,
+      averageLifetime: 3000,
+    })
+  })
+
+  it('should not count unmounts of instances mounted before recording started', () => {
+    const event = tracker.record(createEvent('unmounted', 1))
+
+    expect(event.lifetime).toBeUndefined()
+    expect(tracker.getComponentLifetime('ListItem')).toBeUndefined()
+    expect(tracker.getSnapshot().size).toBe(0)
+  })
+
+  it('should count removed instances whose unmount was not recorded', () => {
+    tracker.record(createEvent('mounted', 1))
+    tracker.remove(1, 1800)
+    tracker.remove(1, 2000)
+    tracker.remove(2)
+
+    expect(tracker.getComponentLifetime('ListItem')).toMatchObject({ created: 1, alive: 0, unmounted: 1, averageLifetime: 800 })
+    // The path is free again, a new instance there is not an added sibling
+    expect(tracker.record(createEvent('mounted', 3)).reason).toBe('initial')
+  })
+
+  it('should pass other lifecycle events through unchanged', () => {
+    const event = createEvent('mounted', 1, { type: 'activated' })
+
+    expect(tracker.record(event)).toBe(event)
+  })
+})
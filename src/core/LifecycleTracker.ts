@@ -0,0 +1,151 @@
+import type { ComponentLifetimeStats, LifecycleEventData, LifecycleReason } from '../types'
+
+type MountedInstance = {
+  componentName: string
+  componentPath: string
+  mountedAt: number
+}
+
+type LifetimeRecord = {
+  created: number
+  alive: number
+  unmounted: number
+  remounts: number
+  totalLifetime: number
+}
+
+function toSnapshot(componentName: string, record: LifetimeRecord): ComponentLifetimeStats {
+  return Object.freeze({
+    componentName,
+    created: record.created,
+    alive: record.alive,
+    unmounted: record.unmounted,
+    remounts: record.remounts,
+    averageLifetime: record.unmounted > 0 ? record.totalLifetime / record.unmounted : 0,
+  })
+}
+
+/**
+ * Infers why instances were mounted and keeps mount/unmount counters per component name.
+ * Instances are matched by component path, so a remounted parent's children count as remounts too.
+ */
+export class LifecycleTracker {
+  private components = new Map<string, LifetimeRecord>()
+  // Instances whose mount was recorded and whose unmount was not yet counted
+  private mounted = new Map<number, MountedInstance>()
+  // Live instances per component path
+  private livePaths = new Map<string, number>()
+  private unmountedPaths = new Set<string>()
+  // Instances unmounted in the current scheduler flush, per component path
+  private recentUnmounts = new Map<string, LifecycleEventData[]>()
+
+  /**
+   * Updates the counters for mount and unmount events
+   * @returns The event with the mount reason, replaced instance or lifetime filled in
+   */
+  record(event: LifecycleEventData): LifecycleEventData {
+    switch (event.type) {
+      case 'mounted':
+        return this.recordMount(event)
+      case 'unmounted':
+        return this.recordUnmount(event)
+      default:
+        return event
+    }
+  }
+
+  /**
+   * Counts the unmount of an instance whose unmounted event was not recorded, e.g. because
+   * monitoring was paused, so that it is not reported as alive forever
+   */
+  remove(instanceId: number, timestamp: number = Date.now()): void {
+    this.countUnmount(instanceId, timestamp)
+  }
+
+  getComponentLifetime(componentName: string): ComponentLifetimeStats | undefined {
+    const record = this.components.get(componentName)
+    return record ? toSnapshot(componentName, record) : undefined
+  }
+
+  getSnapshot(): ReadonlyMap<string, ComponentLifetimeStats> {
+    const snapshot = new Map<string, ComponentLifetimeStats>()
+    for (const [componentName, record] of this.components) {
+      snapshot.set(componentName, toSnapshot(componentName, record))
+    }
+    return snapshot
+  }
+
+  private recordMount(event: LifecycleEventData): LifecycleEventData {
+    const path = event.componentPath
+    // Vue runs the unmounted hook of a replaced instance right before the mounted hook of its successor
+    const replaced = this.recentUnmounts.get(path)?.shift()
+    const liveCount = this.livePaths.get(path) ?? 0
+
+    let reason: LifecycleReason
+    if (replaced) {
+      reason = replaced.key === event.key ? 'remounted' : 'key-changed'
+    } else if (liveCount > 0) {
+      reason = 'added'
+    } else {
+      reason = this.unmountedPaths.has(path) ? 'remounted' : 'initial'
+    }
+
+    const record = this.getOrCreateRecord(event.componentName)
+    record.created++
+    record.alive++
+    if (reason === 'remounted' || reason === 'key-changed') {
+      record.remounts++
+    }
+    this.mounted.set(event.instanceId, { componentName: event.componentName, componentPath: path, mountedAt: event.timestamp })
+    this.livePaths.set(path, liveCount + 1)
+
+    return { ...event, reason, replacedInstanceId: replaced?.instanceId }
+  }
+
+  private recordUnmount(event: LifecycleEventData): LifecycleEventData {
+    const path = event.componentPath
+    this.unmountedPaths.add(path)
+    if (this.recentUnmounts.size === 0) {
+      globalThis.queueMicrotask(() => this.recentUnmounts.clear())
+    }
+    const recent = this.recentUnmounts.get(path) ?? []
+    recent.push(event)
+    this.recentUnmounts.set(path, recent)
+
+    // Instances mounted before recording started have no known lifetime
+    const lifetime = this.countUnmount(event.instanceId, event.timestamp)
+    return lifetime === undefined ? event : { ...event, lifetime }
+  }
+
+  /**
+   * @returns The lifetime of the instance, or undefined if its mount was not recorded
+   */
+  private countUnmount(instanceId: number, timestamp: number): number | undefined {
+    const instance = this.mounted.get(instanceId)
+    if (!instance) return undefined
+    this.mounted.delete(instanceId)
+
+    const lifetime = timestamp - instance.mountedAt
+    const record = this.getOrCreateRecord(instance.componentName)
+    record.alive--
+    record.unmounted++
+    record.totalLifetime += lifetime
+
+    const liveCount = (this.livePaths.get(instance.componentPath) ?? 1) - 1
+    if (liveCount > 0) {
+      this.livePaths.set(instance.componentPath, liveCount)
+    } else {
+      this.livePaths.delete(instance.componentPath)
+    }
+    return lifetime
+  }
+
+  private getOrCreateRecord(componentName: string): LifetimeRecord {
+    let record = this.components.get(componentName)
+    if (!record) {
+      record = { created: 0, alive: 0, unmounted: 0, remounts: 0, totalLifetime: 0 }
+      this.components.set(componentName, record)
+    }
+    return record
+  }
+}
@@ -0,0 +1,120 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { RenderCascadeTracker } from './RenderCascadeTracker'
+import type { CascadeTrigger } from './RenderCascadeTracker'
+import { createMockEvent, createMockEventData } from '../test-utils'
+import type { RenderCascade } from '../types'
+
+describe('RenderCascadeTracker', () => {
+  let cascades: RenderCascade[]
+  let tracker: RenderCascadeTracker
+  const store = { count: 0 }
+
+  const createTrigger = (options: {
+    instanceId: number
+    componentName?: string
+    ancestorIds?: number[]
+    fromProps?: boolean
+    target?: object
+    key?: string
+  }): CascadeTrigger => ({
+    data: createMockEventData({
+      componentName: options.componentName ?? `Component${options.instanceId}`,
+      instanceId: options.instanceId,
+      timestamp: 100,
+      event: createMockEvent({ type: 'set', target: options.target ?? store, key: options.key ?? 'count' }),
+    }),
+    ancestorIds: options.ancestorIds ?? [],
+    fromProps: options.fromProps ?? false,
+  })
+
+  beforeEach(() => {
+    cascades = []
+    tracker = new RenderCascadeTracker((cascade) => cascades.push(cascade))
+  })
+
+  it('should group components triggered by the same target and key', () => {
+    tracker.record(createTrigger({ instanceId: 1 }))
+    tracker.record(createTrigger({ instanceId: 2 }))
+    tracker.flush()
+
+    expect(cascades).toHaveLength(1)
+    expect(cascades[0]?.target).toBe(store)
+    expect(cascades[0]?.key).toBe('count')
+    expect(cascades[0]?.type).toBe('set')
+    expect(cascades[0]?.nodes.map((node) => node.instanceId)).toEqual([1, 2])
+    expect(cascades[0]?.componentCount).toBe(2)
+    expect(cascades[0]?.depth).toBe(1)
+  })
+
+  it('should create separate cascades for different mutations', () => {
+    tracker.record(createTrigger({ instanceId: 1, key: 'count' }))
+    tracker.record(createTrigger({ instanceId: 2, key: 'name' }))
+    tracker.record(createTrigger({ instanceId: 3, target: {} }))
+    tracker.flush()
+
+    expect(cascades).toHaveLength(3)
+    expect(cascades.map((cascade) => cascade.id)).toEqual([1, 2, 3])
+  })
+
+  it('should nest prop-driven re-renders under the nearest re-rendered ancestor', () => {
+    const props = {}
+    tracker.record(createTrigger({ instanceId: 1 }))
+    tracker.record(createTrigger({ instanceId: 3, ancestorIds: [2, 1], fromProps: true, target: props, key: 'value' }))
+    tracker.record(createTrigger({ instanceId: 4, ancestorIds: [3, 2, 1], fromProps: true, target: props, key: 'value' }))
+    tracker.flush()
+
+    expect(cascades).toHaveLength(1)
+    const [root] = cascades[0].nodes
+    expect(root?.instanceId).toBe(1)
+    expect(root?.children[0]?.instanceId).toBe(3)
+    expect(root?.children[0]?.children[0]?.instanceId).toBe(4)
+    expect(cascades[0]?.componentCount).toBe(3)
+    expect(cascades[0]?.depth).toBe(3)
+  })
+
+  it('should not nest components that were triggered directly by the mutation', () => {
+    tracker.record(createTrigger({ instanceId: 1 }))
+    tracker.record(createTrigger({ instanceId: 2, ancestorIds: [1] }))
+    tracker.flush()
+
+    expect(cascades[0]?.nodes.map((node) => node.instanceId)).toEqual([1, 2])
+    expect(cascades[0]?.depth).toBe(1)
+  })
+
+  it('should treat prop changes without a re-rendered ancestor as their own mutation', () => {
+    const props = {}
+    tracker.record(createTrigger({ instanceId: 2, ancestorIds: [1], fromProps: true, target: props, key: 'value' }))
+    tracker.flush()
+
+    expect(cascades[0]?.target).toBe(props)
+    expect(cascades[0]?.key).toBe('value')
+  })
+
+  it('should merge repeated triggers of the same component into one node', () => {
+    tracker.record(createTrigger({ instanceId: 1 }))
+    tracker.record(createTrigger({ instanceId: 1, key: 'name' }))
+    tracker.flush()
+
+    expect(cascades).toHaveLength(1)
+    expect(cascades[0]?.nodes[0]?.triggers).toHaveLength(2)
+  })
+
+  it('should not emit cascades when nothing was recorded', () => {
+    tracker.flush()
+
+    expect(cascades).toHaveLength(0)
+  })
+
+  it('should flush automatically after the current tick', async () => {
+    const onCascade = vi.fn()
+    tracker = new RenderCascadeTracker(onCascade)
+
+    tracker.record(createTrigger({ instanceId: 1 }))
+    tracker.record(createTrigger({ instanceId: 2 }))
+    expect(onCascade).not.toHaveBeenCalled()
+
+    await new Promise((resolve) => globalThis.setTimeout(resolve, 0))
+
+    expect(onCascade).toHaveBeenCalledTimes(1)
+  })
+})
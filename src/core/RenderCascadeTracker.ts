@@ -0,0 +1,130 @@
+import { nextTick } from 'vue'
+import type { RenderCascade, RenderCascadeNode, RenderEventData } from '../types'
+
+export type CascadeTrigger = {
+  data: RenderEventData
+  /** Uids of the component's ancestors, nearest first */
+  ancestorIds: number[]
+  /** Whether the trigger was caused by the parent passing new props */
+  fromProps: boolean
+}
+
+type PendingNode = {
+  node: RenderCascadeNode
+  trigger: CascadeTrigger
+}
+
+function countNodes(nodes: RenderCascadeNode[]): number {
+  return nodes.reduce((count, node) => count + 1 + countNodes(node.children), 0)
+}
+
+function measureDepth(nodes: RenderCascadeNode[]): number {
+  return nodes.reduce((depth, node) => Math.max(depth, 1 + measureDepth(node.children)), 0)
+}
+
+/**
+ * Links the triggered events of one scheduler flush into causality trees rooted at the
+ * reactive mutation (target + key) that started them
+ */
+export class RenderCascadeTracker {
+  private pending: CascadeTrigger[] = []
+  private nextId = 1
+  private onCascade: (cascade: RenderCascade) => void
+
+  constructor(onCascade: (cascade: RenderCascade) => void) {
+    this.onCascade = onCascade
+  }
+
+  record(trigger: CascadeTrigger): void {
+    if (this.pending.length === 0) {
+      this.scheduleFlush()
+    }
+    this.pending.push(trigger)
+  }
+
+  flush(): void {
+    const triggers = this.pending
+    this.pending = []
+
+    for (const cascade of this.buildCascades(triggers)) {
+      this.onCascade(cascade)
+    }
+  }
+
+  private scheduleFlush(): void {
+    // Vue queues its flush right after reporting the trigger, so by the next microtask
+    // nextTick resolves after the flush and its prop-driven child re-renders
+    globalThis.queueMicrotask(() => {
+      void nextTick(() => this.flush())
+    })
+  }
+
+  private buildCascades(triggers: CascadeTrigger[]): RenderCascade[] {
+    const nodes = new Map<number, PendingNode>()
+
+    for (const trigger of triggers) {
+      const { data } = trigger
+      const existing = nodes.get(data.instanceId)
+      if (existing) {
+        existing.node.triggers.push(data)
+        continue
+      }
+
+      nodes.set(data.instanceId, {
+        trigger,
+        node: {
+          componentName: data.componentName,
+          componentPath: data.componentPath,
+          instanceId: data.instanceId,
+          triggers: [data],
+          children: [],
+        },
+      })
+    }
+
+    const cascades: RenderCascade[] = []
+    const roots = new Map<object, Map<unknown, RenderCascade>>()
+
+    for (const { node, trigger } of nodes.values()) {
+      // Re-renders caused by new props belong to the nearest re-rendered ancestor
+      const parentId = trigger.fromProps ? trigger.ancestorIds.find((id) => nodes.has(id)) : undefined
+      if (parentId !== undefined) {
+        nodes.get(parentId)!.node.children.push(node)
+        continue
+      }
+
+      const { target, type } = trigger.data.event
+      const key: unknown = trigger.data.event.key
+      let byKey = roots.get(target)
+      if (!byKey) {
+        byKey = new Map()
+        roots.set(target, byKey)
+      }
+
+      let cascade = byKey.get(key)
+      if (!cascade) {
+        cascade = {
+          id: this.nextId++,
+          target,
+          key,
+          type,
+          timestamp: trigger.data.timestamp,
+          nodes: [],
+          componentCount: 0,
+          depth: 0,
+        }
+        byKey.set(key, cascade)
+        cascades.push(cascade)
+      }
+      cascade.targetLabel ??= trigger.data.targetLabel
+      cascade.nodes.push(node)
+    }
+
+    for (const cascade of cascades) {
+      cascade.componentCount = countNodes(cascade.nodes)
+      cascade.depth = measureDepth(cascade.nodes)
+    }
+
+    return cascades
+  }
+}
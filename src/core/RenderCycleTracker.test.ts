@@ -0,0 +1,96 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { RenderCycleTracker } from './RenderCycleTracker'
+import { createMockEvent, createMockEventData } from '../test-utils'
+import type { RenderTimingData } from '../types'
+
+describe('RenderCycleTracker', () => {
+  let tracker: RenderCycleTracker
+
+  const createTiming = (instanceId = 1, phase: 'mount' | 'update' = 'update'): Omit<RenderTimingData, 'triggers'> => ({
+    componentName: 'TestComponent',
+    componentPath: 'App → TestComponent',
+    instanceId,
+    phase,
+    startTime: 10,
+    duration: 2,
+    timestamp: 1000,
+  })
+
+  beforeEach(() => {
+    tracker = new RenderCycleTracker()
+  })
+
+  it('should group triggers and tracked dependencies into one cycle', () => {
+    const trigger = createMockEventData({ event: createMockEvent({ type: 'set', key: 'name' }) })
+    const dependencyA = createMockEventData({ event: createMockEvent({ key: 'name' }) })
+    const dependencyB = createMockEventData({ event: createMockEvent({ key: 'email' }) })
+
+    tracker.record('triggered', trigger)
+    tracker.record('tracked', dependencyA)
+    tracker.record('tracked', dependencyB)
+
+    const cycle = tracker.complete(createTiming())
+
+    expect(cycle.triggers).toEqual([trigger])
+    expect(cycle.tracked).toEqual([dependencyA, dependencyB])
+    expect(cycle.timing.triggers).toEqual([trigger])
+    expect(cycle.timing.duration).toBe(2)
+    expect(cycle.componentPath).toBe('App → TestComponent')
+    expect(cycle.phase).toBe('update')
+  })
+
+  it('should start a fresh cycle after completing one', () => {
+    tracker.record('triggered', createMockEventData({}))
+    tracker.complete(createTiming())
+
+    const cycle = tracker.complete(createTiming())
+
+    expect(cycle.triggers).toHaveLength(0)
+    expect(cycle.tracked).toHaveLength(0)
+  })
+
+  it('should assign unique ids and per-instance sequence numbers', () => {
+    const first = tracker.complete(createTiming(1, 'mount'))
+    const second = tracker.complete(createTiming(2, 'mount'))
+    const third = tracker.complete(createTiming(1))
+
+    expect([first.id, second.id, third.id]).toEqual([1, 2, 3])
+    expect(first.sequence).toBe(1)
+    expect(second.sequence).toBe(1)
+    expect(third.sequence).toBe(2)
+  })
+
+  it('should keep events of different instances apart', () => {
+    tracker.record('triggered', createMockEventData({ instanceId: 1 }))
+    tracker.record('triggered', createMockEventData({ instanceId: 2 }))
+    tracker.record('triggered', createMockEventData({ instanceId: 2 }))
+
+    expect(tracker.complete(createTiming(1)).triggers).toHaveLength(1)
+    expect(tracker.complete(createTiming(2)).triggers).toHaveLength(2)
+  })
+
+  it('should discard events of pending cycles', () => {
+    tracker.record('triggered', createMockEventData({ instanceId: 1 }))
+    tracker.complete(createTiming(1, 'mount'))
+    tracker.record('triggered', createMockEventData({ instanceId: 1 }))
+
+    tracker.discardPending()
+
+    const cycle = tracker.complete(createTiming(1))
+    expect(cycle.triggers).toHaveLength(0)
+    expect(cycle.sequence).toBe(2)
+  })
+
+  it('should forget removed instances', () => {
+    tracker.complete(createTiming(1, 'mount'))
+    tracker.record('triggered', createMockEventData({ instanceId: 1 }))
+    tracker.record('triggered', createMockEventData({ instanceId: 2 }))
+
+    tracker.remove(1)
+
+    const cycle = tracker.complete(createTiming(1, 'mount'))
+    expect(cycle.triggers).toHaveLength(0)
+    expect(cycle.sequence).toBe(1)
+    expect(tracker.complete(createTiming(2)).triggers).toHaveLength(1)
+  })
+})
\ No newline at end of file
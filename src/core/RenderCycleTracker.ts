@@ -0,0 +1,69 @@
+import type { RenderCycle, RenderEventData, RenderTimingData } from '../types'
+
+type PendingCycle = {
+  triggers: RenderEventData[]
+  tracked: RenderEventData[]
+}
+
+/**
+ * Correlates tracked and triggered events of a component instance into render cycles.
+ * Triggers collected since the previous render are the cause of the next one, tracked
+ * events are the dependencies collected while rendering. A cycle completes once the
+ * render is measured.
+ */
+export class RenderCycleTracker {
+  private pending = new Map<number, PendingCycle>()
+  private sequences = new Map<number, number>()
+  private nextId = 1
+
+  record(type: 'tracked' | 'triggered', data: RenderEventData): void {
+    let cycle = this.pending.get(data.instanceId)
+    if (!cycle) {
+      cycle = { triggers: [], tracked: [] }
+      this.pending.set(data.instanceId, cycle)
+    }
+
+    if (type === 'tracked') {
+      cycle.tracked.push(data)
+    } else {
+      cycle.triggers.push(data)
+    }
+  }
+
+  complete(timing: Omit<RenderTimingData, 'triggers'>): RenderCycle {
+    const { instanceId } = timing
+    const cycle = this.pending.get(instanceId) ?? { triggers: [], tracked: [] }
+    this.pending.delete(instanceId)
+
+    const sequence = (this.sequences.get(instanceId) ?? 0) + 1
+    this.sequences.set(instanceId, sequence)
+
+    return {
+      id: this.nextId++,
+      sequence,
+      componentName: timing.componentName,
+      componentPath: timing.componentPath,
+      instanceId,
+      phase: timing.phase,
+      triggers: cycle.triggers,
+      tracked: cycle.tracked,
+      timing: { ...timing, triggers: cycle.triggers },
+      metadata: timing.metadata,
+    }
+  }
+
+  /**
+   * Forgets an unmounted instance, including triggers of a render it never got to
+   */
+  remove(instanceId: number): void {
+    this.pending.delete(instanceId)
+    this.sequences.delete(instanceId)
+  }
+
+  /**
+   * Drops events collected for renders that have not completed yet
+   */
+  discardPending(): void {
+    this.pending.clear()
+  }
+}
\ No newline at end of file
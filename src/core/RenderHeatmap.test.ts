@@ -0,0 +1,130 @@
+/* eslint-disable no-undef */
+/**
+ * @vitest-environment jsdom
+ */
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import type { ComponentInternalInstance } from 'vue'
+import { RenderHeatmap } from './RenderHeatmap'
+
+const createInstance = (uid: number, el: Element): ComponentInternalInstance => ({
+  uid,
+  subTree: { el, children: null },
+}) as unknown as ComponentInternalInstance
+
+const createElement = (): HTMLDivElement => {
+  const element = document.createElement('div')
+  element.getBoundingClientRect = (): DOMRect => ({ top: 10, left: 20, bottom: 60, right: 120, width: 100, height: 50 }) as DOMRect
+  document.body.appendChild(element)
+  return element
+}
+
+describe('RenderHeatmap', () => {
+  let heatmap: RenderHeatmap
+
+  beforeEach(() => {
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    heatmap.destroy()
+    document.body.innerHTML = ''
+    vi.useRealTimers()
+  })
+
+  it('should not draw anything while disabled', () => {
+    heatmap = new RenderHeatmap()
+
+    heatmap.flash(createInstance(1, createElement()), 'UserList')
+
+    expect(document.getElementById('vue-flow-vis-heatmap')).toBeNull()
+  })
+
+  it('should outline the root element of a re-rendered instance', () => {
+    heatmap = new RenderHeatmap({ enabled: true })
+
+    heatmap.flash(createInstance(1, createElement()), 'UserList', 1000)
+    vi.advanceTimersToNextFrame()
+
+    const outline = document.getElementById('vue-flow-vis-heatmap-1') as HTMLDivElement
+    expect(outline.textContent).toBe('UserList ×1')
+    expect(outline.style.top).toBe('10px')
+    expect(outline.style.width).toBe('100px')
+    expect(outline.style.outline).toContain('#00cc96')
+  })
+
+  it('should use hotter colors for instances rendering more often within the decay time', () => {
+    heatmap = new RenderHeatmap({ enabled: true, colors: ['green', 'red'], maxRenders: 3 })
+    const instance = createInstance(1, createElement())
+
+    heatmap.flash(instance, 'UserList', 1000)
+    heatmap.flash(instance, 'UserList', 1100)
+    heatmap.flash(instance, 'UserList', 1200)
+    vi.advanceTimersToNextFrame()
+
+    const outline = document.getElementById('vue-flow-vis-heatmap-1') as HTMLDivElement
+    expect(outline.textContent).toBe('UserList ×3')
+    expect(outline.style.outline).toContain('red')
+
+    heatmap.flash(instance, 'UserList', 5000)
+    vi.advanceTimersToNextFrame()
+    expect(outline.textContent).toBe('UserList ×1')
+  })
+
+  it('should remove outlines after the decay time', () => {
+    heatmap = new RenderHeatmap({ enabled: true, decay: 500 })
+
+    heatmap.flash(createInstance(1, createElement()), 'UserList')
+    vi.advanceTimersToNextFrame()
+    vi.advanceTimersByTime(500)
+
+    expect(document.getElementById('vue-flow-vis-heatmap-1')).toBeNull()
+  })
+
+  it('should remove the overlay when disabled', () => {
+    heatmap = new RenderHeatmap({ enabled: true })
+    heatmap.flash(createInstance(1, createElement()), 'UserList')
+    vi.advanceTimersToNextFrame()
+
+    heatmap.setEnabled(false)
+
+    expect(document.getElementById('vue-flow-vis-heatmap')).toBeNull()
+  })
+
+  it('should measure and paint the instances of a flush once in the next frame', () => {
+    heatmap = new RenderHeatmap({ enabled: true })
+    const elements = [createElement(), createElement()]
+    const measure = elements.map((element) => vi.spyOn(element, 'getBoundingClientRect'))
+
+    heatmap.flash(createInstance(1, elements[0]), 'UserList')
+    heatmap.flash(createInstance(2, elements[1]), 'UserItem')
+    heatmap.flash(createInstance(1, elements[0]), 'UserList')
+
+    expect(measure[0]).not.toHaveBeenCalled()
+    expect(document.getElementById('vue-flow-vis-heatmap')).toBeNull()
+
+    vi.advanceTimersToNextFrame()
+
+    expect(measure.map((spy) => spy.mock.calls.length)).toEqual([1, 1])
+    expect(document.getElementById('vue-flow-vis-heatmap-1')?.textContent).toBe('UserList ×2')
+    expect(document.getElementById('vue-flow-vis-heatmap-2')?.textContent).toBe('UserItem ×1')
+  })
+
+  it('should not paint flashes pending when the heatmap is disabled', () => {
+    heatmap = new RenderHeatmap({ enabled: true })
+    heatmap.flash(createInstance(1, createElement()), 'UserList')
+
+    heatmap.setEnabled(false)
+    vi.advanceTimersToNextFrame()
+
+    expect(document.getElementById('vue-flow-vis-heatmap')).toBeNull()
+  })
+
+  it('should skip instances without rendered elements', () => {
+    heatmap = new RenderHeatmap({ enabled: true })
+
+    heatmap.flash(createInstance(1, document.createComment('v-if') as unknown as Element), 'UserList')
+    vi.advanceTimersToNextFrame()
+
+    expect(document.getElementById('vue-flow-vis-heatmap')).toBeNull()
+  })
+})
@@ -0,0 +1,223 @@
+import type { ComponentInternalInstance, VNode } from 'vue'
+import { DEFAULT_HEATMAP_COLORS, DEFAULT_HEATMAP_DECAY, DEFAULT_HEATMAP_MAX_RENDERS } from '../constants'
+import type { RenderHeatmapOptions } from '../types'
+
+type Outline = {
+  element: HTMLDivElement
+  /** Render timestamps within the decay window */
+  renders: number[]
+  timer?: ReturnType<typeof globalThis.setTimeout>
+}
+
+type Bounds = { top: number, left: number, width: number, height: number }
+
+type PendingFlash = {
+  instance: ComponentInternalInstance
+  componentName: string
+  /** Render timestamps since the last paint */
+  renders: number[]
+}
+
+/**
+ * Collects the DOM elements a component instance rendered. Fragments and multi-root
+ * components have no single element, so the elements of their child vnodes are used.
+ */
+function getRootElements(vnode: VNode | null | undefined): Element[] {
+  if (!vnode) return []
+  if (vnode.component) return getRootElements(vnode.component.subTree)
+  if (vnode.el instanceof Element) return [vnode.el]
+  if (Array.isArray(vnode.children)) {
+    return (vnode.children as VNode[]).flatMap((child) => getRootElements(child))
+  }
+  return []
+}
+
+/**
+ * Outlines the root elements of re-rendering component instances on the page.
+ * Outlines get hotter colors the more often an instance renders within the decay time.
+ */
+export class RenderHeatmap {
+  private options: Required<RenderHeatmapOptions>
+  private container: HTMLDivElement | null = null
+  private outlines = new Map<number, Outline>()
+  // Instances rendered since the last paint, painted together in the next animation frame
+  private pending = new Map<number, PendingFlash>()
+  private frame: number | null = null
+
+  constructor(options: RenderHeatmapOptions = {}) {
+    this.options = this.resolveOptions(options)
+  }
+
+  setOptions(options: RenderHeatmapOptions): void {
+    this.options = this.resolveOptions(options)
+    if (!this.options.enabled) {
+      this.clear()
+    }
+  }
+
+  isEnabled(): boolean {
+    return this.options.enabled
+  }
+
+  setEnabled(enabled: boolean): void {
+    this.options.enabled = enabled
+    if (!enabled) {
+      this.clear()
+    }
+  }
+
+  /**
+   * Outlines the elements of an instance that just re-rendered. Called while Vue patches the
+   * DOM, so nothing is measured here: the instances of a flush are measured and painted
+   * together in the next animation frame, with a single layout.
+   */
+  flash(instance: ComponentInternalInstance, componentName: string, timestamp: number = Date.now()): void {
+    if (!this.options.enabled || typeof globalThis.document === 'undefined') return
+
+    const pending = this.pending.get(instance.uid)
+    if (pending) {
+      pending.renders.push(timestamp)
+    } else {
+      this.pending.set(instance.uid, { instance, componentName, renders: [timestamp] })
+    }
+    this.frame ??= globalThis.requestAnimationFrame(() => this.paint())
+  }
+
+  /**
+   * Picks the color for a number of renders within the decay window, 1 render maps to the first color
+   */
+  getColor(renderCount: number): string {
+    const { colors, maxRenders } = this.options
+    if (colors.length === 0) return DEFAULT_HEATMAP_COLORS[0]
+    const ratio = Math.min((renderCount - 1) / Math.max(maxRenders - 1, 1), 1)
+    return colors[Math.round(ratio * (colors.length - 1))]
+  }
+
+  destroy(): void {
+    this.clear()
+  }
+
+  private paint(): void {
+    this.frame = null
+    const flashes = Array.from(this.pending.values())
+    this.pending.clear()
+
+    // Read all bounds before the first write, so the browser lays out the page only once
+    const measured: Array<PendingFlash & { bounds: Bounds }> = []
+    for (const flash of flashes) {
+      const bounds = this.getBounds(getRootElements(flash.instance.subTree))
+      if (bounds) measured.push({ ...flash, bounds })
+    }
+
+    const painted = measured.map(({ instance, componentName, renders, bounds }) => {
+      const outline = this.getOrCreateOutline(instance.uid)
+      const now = renders[renders.length - 1]
+      outline.renders = [...outline.renders, ...renders].filter((time) => now - time < this.options.decay)
+
+      const color = this.getColor(outline.renders.length)
+      const { element } = outline
+      element.textContent = `${componentName} ×${outline.renders.length}`
+      element.style.top = `${bounds.top}px`
+      element.style.left = `${bounds.left}px`
+      element.style.width = `${bounds.width}px`
+      element.style.height = `${bounds.height}px`
+      element.style.outline = `2px solid ${color}`
+      element.style.color = color
+      // Restart the fade out from full opacity
+      element.style.transition = 'none'
+      element.style.opacity = '1'
+
+      globalThis.clearTimeout(outline.timer)
+      outline.timer = globalThis.setTimeout(() => this.removeOutline(instance.uid), this.options.decay)
+      return element
+    })
+    if (painted.length === 0) return
+
+    // One reflow applies the full opacity of every outline before all of them fade out
+    void this.container?.offsetWidth
+    for (const element of painted) {
+      element.style.transition = `opacity ${this.options.decay}ms ease-in`
+      element.style.opacity = '0'
+    }
+  }
+
+  private resolveOptions(options: RenderHeatmapOptions): Required<RenderHeatmapOptions> {
+    return {
+      enabled: options.enabled ?? false,
+      decay: options.decay ?? DEFAULT_HEATMAP_DECAY,
+      colors: options.colors ?? DEFAULT_HEATMAP_COLORS,
+      maxRenders: options.maxRenders ?? DEFAULT_HEATMAP_MAX_RENDERS,
+    }
+  }
+
+  private getBounds(elements: Element[]): Bounds | null {
+    const rects = elements
+      .map((element) => element.getBoundingClientRect())
+      .filter((rect) => rect.width > 0 || rect.height > 0)
+    if (rects.length === 0) return null
+
+    const top = Math.min(...rects.map((rect) => rect.top))
+    const left = Math.min(...rects.map((rect) => rect.left))
+    const bottom = Math.max(...rects.map((rect) => rect.bottom))
+    const right = Math.max(...rects.map((rect) => rect.right))
+    return { top, left, width: right - left, height: bottom - top }
+  }
+
+  private getOrCreateOutline(uid: number): Outline {
+    let outline = this.outlines.get(uid)
+    if (outline) return outline
+
+    const element = globalThis.document.createElement('div')
+    element.id = `vue-flow-vis-heatmap-${uid}`
+    element.style.position = 'fixed'
+    element.style.boxSizing = 'border-box'
+    element.style.fontFamily = 'monospace'
+    element.style.fontSize = '10px'
+    element.style.lineHeight = '1'
+    element.style.whiteSpace = 'nowrap'
+    element.style.overflow = 'visible'
+
+    this.getContainer().appendChild(element)
+    outline = { element, renders: [] }
+    this.outlines.set(uid, outline)
+    return outline
+  }
+
+  private getContainer(): HTMLDivElement {
+    if (this.container?.isConnected) return this.container
+
+    const container = globalThis.document.createElement('div')
+    container.id = 'vue-flow-vis-heatmap'
+    container.style.position = 'fixed'
+    container.style.inset = '0'
+    // Outlines must never swallow clicks meant for the page
+    container.style.pointerEvents = 'none'
+    // Below the panel, which uses z-index 9999
+    container.style.zIndex = '9998'
+    globalThis.document.body.appendChild(container)
+    this.container = container
+    return container
+  }
+
+  private removeOutline(uid: number): void {
+    const outline = this.outlines.get(uid)
+    if (!outline) return
+
+    globalThis.clearTimeout(outline.timer)
+    outline.element.remove()
+    this.outlines.delete(uid)
+  }
+
+  private clear(): void {
+    if (this.frame !== null) {
+      globalThis.cancelAnimationFrame(this.frame)
+      this.frame = null
+    }
+    this.pending.clear()
+    for (const uid of Array.from(this.outlines.keys())) {
+      this.removeOutline(uid)
+    }
+    this.container?.remove()
+    this.container = null
+  }
+}
@@ -0,0 +1,136 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { RenderStatsCollector } from './RenderStatsCollector'
+import { createMockEvent, createMockEventData } from '../test-utils'
+import type { RenderTimingData } from '../types'
+
+describe('RenderStatsCollector', () => {
+  let collector: RenderStatsCollector
+
+  beforeEach(() => {
+    collector = new RenderStatsCollector()
+  })
+
+  it('should return an empty snapshot when nothing was recorded', () => {
+    expect(collector.getSnapshot().size).toBe(0)
+    expect(collector.getComponentStats('TestComponent')).toBeUndefined()
+    expect(collector.getInstanceStats(1)).toBeUndefined()
+  })
+
+  it('should count tracked and triggered events per component', () => {
+    collector.record('tracked', createMockEventData({ timestamp: 100 }))
+    collector.record('tracked', createMockEventData({ timestamp: 200 }))
+    collector.record('triggered', createMockEventData({ timestamp: 300 }))
+
+    const stats = collector.getComponentStats('TestComponent')
+    expect(stats?.trackedCount).toBe(2)
+    expect(stats?.triggeredCount).toBe(1)
+    expect(stats?.firstTimestamp).toBe(100)
+    expect(stats?.lastTimestamp).toBe(300)
+  })
+
+  it('should keep separate stats for each instance of a component', () => {
+    collector.record('triggered', createMockEventData({ instanceId: 1, timestamp: 100 }))
+    collector.record('triggered', createMockEventData({ instanceId: 2, timestamp: 200 }))
+    collector.record('triggered', createMockEventData({ instanceId: 2, timestamp: 300 }))
+
+    const stats = collector.getComponentStats('TestComponent')
+    expect(stats?.triggeredCount).toBe(3)
+    expect(stats?.instances.size).toBe(2)
+    expect(stats?.instances.get(1)?.triggeredCount).toBe(1)
+    expect(stats?.instances.get(2)?.triggeredCount).toBe(2)
+
+    const instanceStats = collector.getInstanceStats(2)
+    expect(instanceStats?.componentName).toBe('TestComponent')
+    expect(instanceStats?.firstTimestamp).toBe(200)
+    expect(instanceStats?.lastTimestamp).toBe(300)
+  })
+
+  it('should count redundant triggers', () => {
+    collector.record('triggered', { ...createMockEventData({}), redundant: true })
+    collector.record('triggered', createMockEventData({}))
+
+    expect(collector.getComponentStats('TestComponent')?.redundantCount).toBe(1)
+    expect(collector.getInstanceStats(1)?.redundantCount).toBe(1)
+  })
+
+  it('should rank trigger keys by frequency', () => {
+    const keys = ['name', 'count', 'count', 'items', 'count', 'items']
+    keys.forEach((key) => {
+      collector.record('triggered', createMockEventData({ event: createMockEvent({ type: 'set', key }) }))
+    })
+    // Tracked events should not contribute to trigger keys
+    collector.record('tracked', createMockEventData({ event: createMockEvent({ key: 'name' }) }))
+
+    const stats = collector.getComponentStats('TestComponent')
+    expect(stats?.topTriggerKeys).toEqual([
+      { key: 'count', count: 3 },
+      { key: 'items', count: 2 },
+      { key: 'name', count: 1 },
+    ])
+  })
+
+  it('should limit the number of top trigger keys', () => {
+    for (let i = 0; i < 10; i++) {
+      collector.record('triggered', createMockEventData({ event: createMockEvent({ key: `key${i}` }) }))
+    }
+
+    expect(collector.getComponentStats('TestComponent')?.topTriggerKeys).toHaveLength(5)
+  })
+
+  it('should handle symbol keys', () => {
+    const key = Symbol('iterate')
+    collector.record('triggered', createMockEventData({ event: createMockEvent({ key }) }))
+
+    expect(collector.getComponentStats('TestComponent')?.topTriggerKeys[0]?.key).toBe('Symbol(iterate)')
+  })
+
+  it('should return snapshots that are not affected by later events', () => {
+    collector.record('triggered', createMockEventData({}))
+    const snapshot = collector.getSnapshot()
+
+    collector.record('triggered', createMockEventData({}))
+
+    expect(snapshot.get('TestComponent')?.triggeredCount).toBe(1)
+    expect(collector.getSnapshot().get('TestComponent')?.triggeredCount).toBe(2)
+    expect(Object.isFrozen(snapshot.get('TestComponent'))).toBe(true)
+  })
+
+  it('should clear all stats on reset', () => {
+    collector.record('triggered', createMockEventData({ componentName: 'A' }))
+    collector.record('tracked', createMockEventData({ componentName: 'B' }))
+
+    collector.reset()
+
+    expect(collector.getSnapshot().size).toBe(0)
+  })
+
+  it('should aggregate render durations', () => {
+    const createTiming = (duration: number, instanceId = 1): RenderTimingData => ({
+      componentName: 'TestComponent',
+      componentPath: 'TestComponent',
+      instanceId,
+      phase: 'update',
+      startTime: 0,
+      duration,
+      timestamp: 100,
+      triggers: [],
+    })
+
+    collector.recordRender(createTiming(2))
+    collector.recordRender(createTiming(6))
+    collector.recordRender(createTiming(10, 2))
+
+    const stats = collector.getComponentStats('TestComponent')
+    expect(stats?.renderCount).toBe(3)
+    expect(stats?.totalRenderDuration).toBe(18)
+    expect(stats?.averageRenderDuration).toBe(6)
+    expect(stats?.maxRenderDuration).toBe(10)
+    expect(stats?.instances.get(1)?.averageRenderDuration).toBe(4)
+  })
+
+  it('should report zero average duration when no renders were measured', () => {
+    collector.record('triggered', createMockEventData({}))
+
+    expect(collector.getComponentStats('TestComponent')?.averageRenderDuration).toBe(0)
+  })
+})
\ No newline at end of file
@@ -0,0 +1,159 @@
+import { TOP_TRIGGER_KEYS_LIMIT } from '../constants'
+import type {
+  ComponentRenderStats,
+  InstanceRenderStats,
+  RenderEventData,
+  RenderStats,
+  RenderTimingData,
+  TriggerKeyCount,
+} from '../types'
+
+type StatsRecord = {
+  triggeredCount: number
+  trackedCount: number
+  redundantCount: number
+  firstTimestamp: number
+  lastTimestamp: number
+  triggerKeys: Map<string, number>
+  renderCount: number
+  totalRenderDuration: number
+  maxRenderDuration: number
+}
+
+type ComponentStatsRecord = StatsRecord & {
+  instances: Map<number, StatsRecord>
+}
+
+function createRecord(timestamp: number): StatsRecord {
+  return {
+    triggeredCount: 0,
+    trackedCount: 0,
+    redundantCount: 0,
+    firstTimestamp: timestamp,
+    lastTimestamp: timestamp,
+    triggerKeys: new Map(),
+    renderCount: 0,
+    totalRenderDuration: 0,
+    maxRenderDuration: 0,
+  }
+}
+
+function updateRecord(record: StatsRecord, type: 'tracked' | 'triggered', data: RenderEventData): void {
+  if (type === 'tracked') {
+    record.trackedCount++
+  } else {
+    record.triggeredCount++
+    if (data.redundant) {
+      record.redundantCount++
+    }
+    const key = String(data.event.key)
+    record.triggerKeys.set(key, (record.triggerKeys.get(key) ?? 0) + 1)
+  }
+
+  updateTimestamps(record, data.timestamp)
+}
+
+function updateRenderTiming(record: StatsRecord, data: RenderTimingData): void {
+  record.renderCount++
+  record.totalRenderDuration += data.duration
+  record.maxRenderDuration = Math.max(record.maxRenderDuration, data.duration)
+  updateTimestamps(record, data.timestamp)
+}
+
+function updateTimestamps(record: StatsRecord, timestamp: number): void {
+  record.firstTimestamp = Math.min(record.firstTimestamp, timestamp)
+  record.lastTimestamp = Math.max(record.lastTimestamp, timestamp)
+}
+
+function toSnapshot(record: StatsRecord): RenderStats {
+  const topTriggerKeys: TriggerKeyCount[] = Array.from(record.triggerKeys.entries())
+    .map(([key, count]) => ({ key, count }))
+    .sort((a, b) => b.count - a.count)
+    .slice(0, TOP_TRIGGER_KEYS_LIMIT)
+
+  return {
+    triggeredCount: record.triggeredCount,
+    trackedCount: record.trackedCount,
+    redundantCount: record.redundantCount,
+    firstTimestamp: record.firstTimestamp,
+    lastTimestamp: record.lastTimestamp,
+    topTriggerKeys: Object.freeze(topTriggerKeys.map((entry) => Object.freeze(entry))),
+    renderCount: record.renderCount,
+    totalRenderDuration: record.totalRenderDuration,
+    averageRenderDuration: record.renderCount > 0 ? record.totalRenderDuration / record.renderCount : 0,
+    maxRenderDuration: record.maxRenderDuration,
+  }
+}
+
+function toInstanceSnapshot(record: StatsRecord, componentName: string, instanceId: number): InstanceRenderStats {
+  return Object.freeze({ ...toSnapshot(record), componentName, instanceId })
+}
+
+/**
+ * Aggregates render event counts per component name and per component instance
+ */
+export class RenderStatsCollector {
+  private components = new Map<string, ComponentStatsRecord>()
+
+  record(type: 'tracked' | 'triggered', data: RenderEventData): void {
+    const [component, instance] = this.getOrCreateRecords(data.componentName, data.instanceId, data.timestamp)
+
+    updateRecord(component, type, data)
+    updateRecord(instance, type, data)
+  }
+
+  recordRender(data: RenderTimingData): void {
+    const [component, instance] = this.getOrCreateRecords(data.componentName, data.instanceId, data.timestamp)
+
+    updateRenderTiming(component, data)
+    updateRenderTiming(instance, data)
+  }
+
+  getComponentStats(componentName: string): ComponentRenderStats | undefined {
+    const component = this.components.get(componentName)
+    if (!component) return undefined
+
+    const instances = new Map<number, InstanceRenderStats>()
+    for (const [instanceId, instance] of component.instances) {
+      instances.set(instanceId, toInstanceSnapshot(instance, componentName, instanceId))
+    }
+
+    return Object.freeze({ ...toSnapshot(component), componentName, instances })
+  }
+
+  getInstanceStats(instanceId: number): InstanceRenderStats | undefined {
+    for (const [componentName, component] of this.components) {
+      const instance = component.instances.get(instanceId)
+      if (instance) return toInstanceSnapshot(instance, componentName, instanceId)
+    }
+    return undefined
+  }
+
+  getSnapshot(): ReadonlyMap<string, ComponentRenderStats> {
+    const snapshot = new Map<string, ComponentRenderStats>()
+    for (const componentName of this.components.keys()) {
+      snapshot.set(componentName, this.getComponentStats(componentName)!)
+    }
+    return snapshot
+  }
+
+  reset(): void {
+    this.components.clear()
+  }
+
+  private getOrCreateRecords(componentName: string, instanceId: number, timestamp: number): [ComponentStatsRecord, StatsRecord] {
+    let component = this.components.get(componentName)
+    if (!component) {
+      component = { ...createRecord(timestamp), instances: new Map() }
+      this.components.set(componentName, component)
+    }
+
+    let instance = component.instances.get(instanceId)
+    if (!instance) {
+      instance = createRecord(timestamp)
+      component.instances.set(instanceId, instance)
+    }
+
+    return [component, instance]
+  }
+}
@@ -0,0 +1,211 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { RenderWarningDetector } from './RenderWarningDetector'
+import { createMockEvent, createMockEventData } from '../test-utils'
+import type { RenderEventData, RenderTimingData, RenderWarning } from '../types'
+
+describe('RenderWarningDetector', () => {
+  let warnings: RenderWarning[]
+  let detector: RenderWarningDetector
+  const store = { count: 0 }
+
+  const createTiming = (timestamp: number, phase: 'mount' | 'update' = 'update'): RenderTimingData => ({
+    componentName: 'TestComponent',
+    componentPath: 'App → TestComponent',
+    instanceId: 1,
+    phase,
+    startTime: 0,
+    duration: 1,
+    timestamp,
+    triggers: [createMockEventData({ timestamp })],
+  })
+
+  const createTrigger = (options: {
+    timestamp?: number
+    key?: string
+    target?: object
+    oldValue?: unknown
+    newValue?: unknown
+    redundant?: boolean
+    duringRender?: boolean
+  }): RenderEventData => ({
+    ...createMockEventData({
+      timestamp: options.timestamp ?? 100,
+      event: createMockEvent({
+        type: 'set',
+        target: options.target ?? store,
+        key: options.key ?? 'count',
+        oldValue: options.oldValue ?? 1,
+        newValue: options.newValue ?? 2,
+      }),
+    }),
+    redundant: options.redundant,
+    duringRender: options.duringRender,
+  })
+
+  beforeEach(() => {
+    warnings = []
+    detector = new RenderWarningDetector({}, (warning) => warnings.push(warning))
+  })
+
+  describe('render storms', () => {
+    it('should warn when an instance updates more often than the threshold within the window', () => {
+      detector = new RenderWarningDetector({ stormThreshold: 3, stormWindow: 100 }, (warning) => warnings.push(warning))
+
+      for (let i = 0; i < 3; i++) {
+        detector.recordRender(createTiming(1000 + i * 10))
+      }
+      expect(warnings).toHaveLength(0)
+
+      detector.recordRender(createTiming(1030))
+
+      expect(warnings).toHaveLength(1)
+      expect(warnings[0]?.type).toBe('render-storm')
+      expect(warnings[0]?.count).toBe(4)
+      expect(warnings[0]?.events).toHaveLength(4)
+      expect(warnings[0]?.message).toBe('TestComponent #1 re-rendered 4 times within 100ms')
+    })
+
+    it('should not count updates that fell out of the window', () => {
+      detector = new RenderWarningDetector({ stormThreshold: 2, stormWindow: 100 }, (warning) => warnings.push(warning))
+
+      detector.recordRender(createTiming(1000))
+      detector.recordRender(createTiming(1050))
+      detector.recordRender(createTiming(1150))
+      detector.recordRender(createTiming(1250))
+
+      expect(warnings).toHaveLength(0)
+    })
+
+    it('should not count mounts', () => {
+      detector = new RenderWarningDetector({ stormThreshold: 1 }, (warning) => warnings.push(warning))
+
+      detector.recordRender(createTiming(1000, 'mount'))
+      detector.recordRender(createTiming(1010))
+
+      expect(warnings).toHaveLength(0)
+    })
+
+    it('should start counting again after a warning', () => {
+      detector = new RenderWarningDetector({ stormThreshold: 1 }, (warning) => warnings.push(warning))
+
+      detector.recordRender(createTiming(1000))
+      detector.recordRender(createTiming(1010))
+      detector.recordRender(createTiming(1020))
+
+      expect(warnings).toHaveLength(1)
+    })
+  })
+
+  describe('identical values', () => {
+    it('should warn when a key is triggered repeatedly without the value changing', () => {
+      detector.record(createTrigger({ redundant: true }))
+      detector.record(createTrigger({ redundant: true }))
+      expect(warnings).toHaveLength(0)
+
+      detector.record(createTrigger({ redundant: true }))
+
+      expect(warnings).toHaveLength(1)
+      expect(warnings[0]?.type).toBe('identical-value')
+      expect(warnings[0]?.key).toBe('count')
+      expect(warnings[0]?.count).toBe(3)
+      expect(warnings[0]?.message).toBe('TestComponent #1 was triggered 3 times through "count" without the value changing')
+    })
+
+    it('should ignore triggers that changed the value', () => {
+      detector.record(createTrigger({ oldValue: [1], newValue: [2] }))
+      detector.record(createTrigger({ oldValue: [2], newValue: [3] }))
+      detector.record(createTrigger({ oldValue: [3], newValue: [4] }))
+
+      expect(warnings).toHaveLength(0)
+    })
+
+    it('should count the same key of different targets separately', () => {
+      detector.record(createTrigger({ redundant: true }))
+      detector.record(createTrigger({ redundant: true, target: {} }))
+      detector.record(createTrigger({ redundant: true }))
+
+      expect(warnings).toHaveLength(0)
+    })
+
+    it('should only count triggers within the window', () => {
+      detector = new RenderWarningDetector({ identicalValueThreshold: 2, stormWindow: 100 }, (warning) => warnings.push(warning))
+
+      detector.record(createTrigger({ redundant: true, timestamp: 1000 }))
+      detector.record(createTrigger({ redundant: true, timestamp: 1200 }))
+
+      expect(warnings).toHaveLength(0)
+    })
+  })
+
+  describe('render loops', () => {
+    it('should warn when consecutive renders each re-trigger the instance while rendering', () => {
+      detector = new RenderWarningDetector({ loopThreshold: 3 }, (warning) => warnings.push(warning))
+
+      for (let i = 0; i < 2; i++) {
+        detector.record(createTrigger({ duringRender: true }))
+        detector.recordRender(createTiming(1000 + i))
+      }
+      expect(warnings).toHaveLength(0)
+
+      detector.record(createTrigger({ duringRender: true, key: 'total' }))
+      detector.recordRender(createTiming(1002))
+
+      expect(warnings).toHaveLength(1)
+      expect(warnings[0]?.type).toBe('render-loop')
+      expect(warnings[0]?.count).toBe(3)
+      expect(warnings[0]?.events).toHaveLength(3)
+      expect(warnings[0]?.message).toBe('TestComponent #1 re-triggered itself while rendering in 3 consecutive renders, last through "total"')
+    })
+
+    it('should reset the count after a render that did not re-trigger the instance', () => {
+      detector = new RenderWarningDetector({ loopThreshold: 2 }, (warning) => warnings.push(warning))
+
+      detector.record(createTrigger({ duringRender: true }))
+      detector.recordRender(createTiming(1000))
+      detector.recordRender(createTiming(1001))
+      detector.record(createTrigger({ duringRender: true }))
+      detector.recordRender(createTiming(1002))
+
+      expect(warnings).toHaveLength(0)
+    })
+
+    it('should ignore triggers outside of a render', () => {
+      detector = new RenderWarningDetector({ loopThreshold: 2 }, (warning) => warnings.push(warning))
+
+      for (let i = 0; i < 3; i++) {
+        detector.record(createTrigger({}))
+        detector.recordRender(createTiming(1000 + i))
+      }
+
+      expect(warnings).toHaveLength(0)
+    })
+  })
+
+  it('should not detect anything when disabled', () => {
+    detector = new RenderWarningDetector(false, (warning) => warnings.push(warning))
+
+    detector.record(createTrigger({ redundant: true }))
+    detector.record(createTrigger({ redundant: true }))
+    detector.record(createTrigger({ redundant: true }))
+
+    expect(warnings).toHaveLength(0)
+  })
+
+  it('should forget removed instances', () => {
+    detector.record(createTrigger({ redundant: true }))
+    detector.record(createTrigger({ redundant: true }))
+
+    detector.remove(1)
+    detector.record(createTrigger({ redundant: true }))
+
+    expect(warnings).toHaveLength(0)
+  })
+
+  it('should apply new thresholds', () => {
+    detector.setThresholds({ identicalValueThreshold: 1 })
+
+    detector.record(createTrigger({ redundant: true }))
+
+    expect(warnings).toHaveLength(1)
+  })
+})
@@ -0,0 +1,166 @@
+import {
+  DEFAULT_IDENTICAL_VALUE_THRESHOLD,
+  DEFAULT_LOOP_THRESHOLD,
+  DEFAULT_STORM_THRESHOLD,
+  DEFAULT_STORM_WINDOW,
+} from '../constants'
+import type {
+  RenderEventData,
+  RenderTimingData,
+  RenderWarning,
+  RenderWarningThresholds,
+  RenderWarningType,
+} from '../types'
+import { ComponentIdentifier } from '../utils/componentIdentifier'
+
+type InstanceState = {
+  /** Updates within the storm window */
+  updates: RenderTimingData[]
+  /** Redundant triggers within the storm window, by key */
+  identicalValues: Map<unknown, RenderEventData[]>
+  /** Triggers reported while the instance was rendering, during the current run of consecutive self-triggered renders */
+  selfTriggers: RenderEventData[]
+  /** Completed renders in a row that re-triggered the instance while it was rendering */
+  loopLength: number
+  /** Whether the render in progress re-triggered the instance */
+  retriggered: boolean
+}
+
+function addKeyedEvent(events: Map<unknown, RenderEventData[]>, data: RenderEventData): RenderEventData[] {
+  const key: unknown = data.event.key
+  let list = events.get(key)
+  // Same key on a different object is a different dependency
+  if (!list || list[0]?.event.target !== data.event.target) {
+    list = []
+    events.set(key, list)
+  }
+  list.push(data)
+  return list
+}
+
+/**
+ * Flags abnormal render patterns of component instances: render storms, repeated triggers
+ * that do not change the value and components re-triggering themselves while rendering
+ */
+export class RenderWarningDetector {
+  private instances = new Map<number, InstanceState>()
+  private thresholds: Required<RenderWarningThresholds> | null = null
+  private onWarning: (warning: RenderWarning) => void
+
+  constructor(thresholds: RenderWarningThresholds | false, onWarning: (warning: RenderWarning) => void) {
+    this.onWarning = onWarning
+    this.setThresholds(thresholds)
+  }
+
+  setThresholds(thresholds: RenderWarningThresholds | false): void {
+    this.thresholds = thresholds === false ? null : {
+      stormThreshold: thresholds.stormThreshold ?? DEFAULT_STORM_THRESHOLD,
+      stormWindow: thresholds.stormWindow ?? DEFAULT_STORM_WINDOW,
+      identicalValueThreshold: thresholds.identicalValueThreshold ?? DEFAULT_IDENTICAL_VALUE_THRESHOLD,
+      loopThreshold: thresholds.loopThreshold ?? DEFAULT_LOOP_THRESHOLD,
+    }
+    this.instances.clear()
+  }
+
+  record(data: RenderEventData): void {
+    if (!this.thresholds) return
+
+    const state = this.getState(data.instanceId)
+    const key = String(data.event.key)
+
+    if (data.duringRender) {
+      state.selfTriggers.push(data)
+      state.retriggered = true
+    }
+
+    // Vue does not trigger for an identical value, only for a new but structurally equal one
+    if (data.redundant) {
+      const since = data.timestamp - this.thresholds.stormWindow
+      const identicalValues = addKeyedEvent(state.identicalValues, data).filter((event) => event.timestamp > since)
+      state.identicalValues.set(data.event.key, identicalValues)
+      if (identicalValues.length >= this.thresholds.identicalValueThreshold) {
+        state.identicalValues.delete(data.event.key)
+        this.warn('identical-value', data, identicalValues.length, identicalValues,
+          `was triggered ${identicalValues.length} times through "${key}" without the value changing`)
+      }
+    }
+  }
+
+  recordRender(timing: RenderTimingData): void {
+    if (!this.thresholds) return
+
+    const state = this.getState(timing.instanceId)
+    this.recordLoop(state)
+    if (timing.phase !== 'update') return
+
+    const since = timing.timestamp - this.thresholds.stormWindow
+    state.updates = state.updates.filter((update) => update.timestamp > since)
+    state.updates.push(timing)
+    if (state.updates.length > this.thresholds.stormThreshold) {
+      const updates = state.updates
+      state.updates = []
+      this.warn('render-storm', timing, updates.length, updates.flatMap((update) => update.triggers),
+        `re-rendered ${updates.length} times within ${this.thresholds.stormWindow}ms`)
+    }
+  }
+
+  /**
+   * Forgets an unmounted instance, its events hold on to the reactive state they report
+   */
+  remove(instanceId: number): void {
+    this.instances.delete(instanceId)
+  }
+
+  private recordLoop(state: InstanceState): void {
+    if (!this.thresholds) return
+
+    if (!state.retriggered) {
+      state.loopLength = 0
+      state.selfTriggers = []
+      return
+    }
+
+    state.retriggered = false
+    state.loopLength++
+    const lastTrigger = state.selfTriggers[state.selfTriggers.length - 1]
+    if (state.loopLength >= this.thresholds.loopThreshold && lastTrigger) {
+      const { loopLength, selfTriggers } = state
+      state.loopLength = 0
+      state.selfTriggers = []
+      this.warn('render-loop', lastTrigger, loopLength, selfTriggers,
+        `re-triggered itself while rendering in ${loopLength} consecutive renders, last through "${String(lastTrigger.event.key)}"`)
+    }
+  }
+
+  private getState(instanceId: number): InstanceState {
+    let state = this.instances.get(instanceId)
+    if (!state) {
+      state = { updates: [], identicalValues: new Map(), selfTriggers: [], loopLength: 0, retriggered: false }
+      this.instances.set(instanceId, state)
+    }
+    return state
+  }
+
+  private warn(
+    type: RenderWarningType,
+    source: RenderEventData | RenderTimingData,
+    count: number,
+    events: RenderEventData[],
+    description: string
+  ): void {
+    const { componentName, componentPath, instanceId, timestamp, metadata } = source
+    const key: unknown = 'event' in source ? source.event.key : undefined
+    this.onWarning({
+      type,
+      componentName,
+      componentPath,
+      instanceId,
+      message: `${ComponentIdentifier.formatInstanceLabel(componentName, instanceId, metadata?.key)} ${description}`,
+      timestamp,
+      count,
+      events,
+      key,
+      metadata,
+    })
+  }
+}
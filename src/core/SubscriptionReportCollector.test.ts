@@ -0,0 +1,97 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { SubscriptionReportCollector } from './SubscriptionReportCollector'
+import { createMockEvent, createMockEventData } from '../test-utils'
+import type { RenderTimingData } from '../types'
+
+describe('SubscriptionReportCollector', () => {
+  let collector: SubscriptionReportCollector
+
+  const createTiming = (componentName = 'ProductList'): RenderTimingData => ({
+    componentName,
+    componentPath: `App → ${componentName}`,
+    instanceId: 1,
+    phase: 'update',
+    startTime: 10,
+    duration: 2,
+    timestamp: 1000,
+    triggers: [],
+  })
+  const trigger = (target: object, key: string): void => {
+    collector.record('triggered', createMockEventData({
+      componentName: 'ProductList',
+      event: createMockEvent({ type: 'set', key, target }),
+    }))
+  }
+  const iterate = (target: object): void => {
+    collector.record('tracked', createMockEventData({
+      componentName: 'ProductList',
+      event: createMockEvent({ type: 'iterate', key: Symbol('iterate'), target }),
+    }))
+  }
+
+  beforeEach(() => {
+    collector = new SubscriptionReportCollector()
+  })
+
+  it('should report the dependency count per render', () => {
+    collector.recordRender(createTiming(), 10)
+    collector.recordRender(createTiming(), 30)
+
+    const [entry] = collector.getSnapshot()
+    expect(entry).toMatchObject({ componentName: 'ProductList', renderCount: 2, averageDependencies: 20, maxDependencies: 30 })
+    expect(entry.hints).toEqual([])
+  })
+
+  it('should count distinct dependencies that triggered a re-render', () => {
+    const store = { count: 0, name: '' }
+    trigger(store, 'count')
+    trigger(store, 'count')
+    trigger(store, 'name')
+    trigger({ count: 0 }, 'count')
+    collector.recordRender(createTiming(), 12)
+
+    const [entry] = collector.getSnapshot()
+    expect(entry.triggeredDependencies).toBe(3)
+    expect(entry.subscriptionRatio).toBe(4)
+  })
+
+  it('should flag iterations of large collections', () => {
+    iterate(Array.from({ length: 10 }))
+    iterate(Array.from({ length: 150 }))
+    iterate(new Map(Array.from({ length: 120 }, (_, index) => [index, index])))
+
+    const [entry] = collector.getSnapshot()
+    expect(entry.largeIterationCount).toBe(2)
+    expect(entry.largestIteration).toBe(150)
+    expect(entry.hints).toHaveLength(1)
+    expect(entry.hints[0]).toContain('Iterates a collection of 150 items')
+    expect(entry.hints[0]).toContain('shallowRef')
+  })
+
+  it('should flag components reading far more dependencies than ever trigger them', () => {
+    trigger({ count: 0 }, 'count')
+    collector.recordRender(createTiming(), 200)
+
+    const [entry] = collector.getSnapshot()
+    expect(entry.subscriptionRatio).toBe(200)
+    expect(entry.hints).toHaveLength(1)
+    expect(entry.hints[0]).toContain('Reads 200 dependencies per render but only 1 ever triggered a re-render')
+    expect(entry.hints[0]).toContain('computed')
+  })
+
+  it('should not flag small components with few triggers', () => {
+    collector.recordRender(createTiming(), 20)
+
+    expect(collector.getSnapshot()[0].hints).toEqual([])
+  })
+
+  it('should sort components by the most dependencies per render', () => {
+    collector.recordRender(createTiming('Badge'), 3)
+    collector.recordRender(createTiming('ProductList'), 300)
+
+    expect(collector.getSnapshot().map(({ componentName }) => componentName)).toEqual(['ProductList', 'Badge'])
+
+    collector.reset()
+    expect(collector.getSnapshot()).toEqual([])
+  })
+})
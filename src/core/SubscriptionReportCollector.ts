@@ -0,0 +1,126 @@
+import { LARGE_COLLECTION_SIZE, OVERSUBSCRIPTION_MIN_DEPENDENCIES, OVERSUBSCRIPTION_RATIO } from '../constants'
+import type { RenderEventData, RenderTimingData, SubscriptionReportEntry } from '../types'
+
+type SubscriptionRecord = {
+  renderCount: number
+  totalDependencies: number
+  maxDependencies: number
+  largeIterationCount: number
+  largestIteration: number
+  // Target id and key of every dependency that triggered a re-render
+  triggeredDependencies: Set<string>
+}
+
+/**
+ * Number of items an `iterate` track walks over, or 0 for targets without items
+ */
+function getCollectionSize(target: unknown): number {
+  if (target === null || typeof target !== 'object') return 0
+  if (Array.isArray(target)) return target.length
+  if (target instanceof Map || target instanceof Set) return target.size
+  return Object.keys(target).length
+}
+
+function getHints(record: SubscriptionRecord, subscriptionRatio: number): string[] {
+  const hints: string[] = []
+  if (record.largeIterationCount > 0) {
+    hints.push(`Iterates a collection of ${record.largestIteration} items during render, consider shallowRef / shallowReactive for it, or render a computed slice or a virtualized list`)
+  }
+  if (record.maxDependencies >= OVERSUBSCRIPTION_MIN_DEPENDENCIES && subscriptionRatio >= OVERSUBSCRIPTION_RATIO) {
+    hints.push(`Reads ${record.maxDependencies} dependencies per render but only ${record.triggeredDependencies.size} ever triggered a re-render, consider a computed for derived values, or shallowRef / markRaw for data that is only replaced as a whole`)
+  }
+  return hints
+}
+
+function toSnapshot(componentName: string, record: SubscriptionRecord): SubscriptionReportEntry {
+  const subscriptionRatio = record.maxDependencies / Math.max(record.triggeredDependencies.size, 1)
+  return Object.freeze({
+    componentName,
+    renderCount: record.renderCount,
+    averageDependencies: record.renderCount > 0 ? record.totalDependencies / record.renderCount : 0,
+    maxDependencies: record.maxDependencies,
+    largeIterationCount: record.largeIterationCount,
+    largestIteration: record.largestIteration,
+    triggeredDependencies: record.triggeredDependencies.size,
+    subscriptionRatio,
+    hints: Object.freeze(getHints(record, subscriptionRatio)),
+  })
+}
+
+/**
+ * Compares per component how many reactive dependencies its renders read with how many of them
+ * ever triggered a re-render, and notes iterations of large collections during render
+ */
+export class SubscriptionReportCollector {
+  private components = new Map<string, SubscriptionRecord>()
+  private targetIds = new WeakMap<object, number>()
+  private nextTargetId = 1
+
+  record(type: 'tracked' | 'triggered', data: RenderEventData): void {
+    const record = this.getOrCreateRecord(data.componentName)
+    const target: unknown = data.event.target
+    const key: unknown = data.event.key
+
+    if (type === 'triggered') {
+      if (target !== null && typeof target === 'object') {
+        record.triggeredDependencies.add(`${this.getTargetId(target)}:${String(key)}`)
+      }
+      return
+    }
+
+    const operation: string = data.event.type
+    if (operation !== 'iterate') return
+    const size = getCollectionSize(target)
+    if (size >= LARGE_COLLECTION_SIZE) {
+      record.largeIterationCount++
+      record.largestIteration = Math.max(record.largestIteration, size)
+    }
+  }
+
+  /**
+   * Counts a completed render with the number of distinct dependencies it read
+   */
+  recordRender(data: RenderTimingData, dependencyCount: number): void {
+    const record = this.getOrCreateRecord(data.componentName)
+    record.renderCount++
+    record.totalDependencies += dependencyCount
+    record.maxDependencies = Math.max(record.maxDependencies, dependencyCount)
+  }
+
+  /**
+   * Returns one entry per component, the most dependencies per render first
+   */
+  getSnapshot(): SubscriptionReportEntry[] {
+    return Array.from(this.components, ([componentName, record]) => toSnapshot(componentName, record))
+      .sort((a, b) => b.maxDependencies - a.maxDependencies)
+  }
+
+  reset(): void {
+    this.components.clear()
+  }
+
+  private getOrCreateRecord(componentName: string): SubscriptionRecord {
+    let record = this.components.get(componentName)
+    if (!record) {
+      record = {
+        renderCount: 0,
+        totalDependencies: 0,
+        maxDependencies: 0,
+        largeIterationCount: 0,
+        largestIteration: 0,
+        triggeredDependencies: new Set(),
+      }
+      this.components.set(componentName, record)
+    }
+    return record
+  }
+
+  private getTargetId(target: object): number {
+    let id = this.targetIds.get(target)
+    if (id === undefined) {
+      id = this.nextTargetId++
+      this.targetIds.set(target, id)
+    }
+    return id
+  }
+}
@@ -0,0 +1,126 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { computed, reactive, ref, shallowReactive, toRaw } from 'vue'
+import type { ComponentInternalInstance } from 'vue'
+import { TargetLabelResolver } from './TargetLabelResolver'
+
+const createInstance = (options: {
+  props?: Record<string, unknown>
+  setupState?: Record<string, unknown>
+  data?: Record<string, unknown>
+  pinia?: unknown
+}): ComponentInternalInstance => ({
+  props: shallowReactive(options.props ?? {}),
+  setupState: options.setupState ?? {},
+  data: reactive(options.data ?? {}),
+  appContext: { config: { globalProperties: options.pinia ? { $pinia: options.pinia } : {} } },
+}) as unknown as ComponentInternalInstance
+
+describe('TargetLabelResolver', () => {
+  let resolver: TargetLabelResolver
+
+  beforeEach(() => {
+    resolver = new TargetLabelResolver()
+  })
+
+  it('should name props and objects nested in them', () => {
+    const user = reactive({ name: 'Ada', address: { city: 'London' } })
+    const instance = createInstance({ props: { user } })
+
+    expect(resolver.resolve(instance, toRaw(instance.props), 'user')).toBe('props.user')
+    expect(resolver.resolve(instance, toRaw(user), 'name')).toBe('props.user.name')
+    expect(resolver.resolve(instance, toRaw(user.address), 'city')).toBe('props.user.address.city')
+  })
+
+  it('should name setup refs, reactive objects and computeds by their variable', () => {
+    const count = ref(0)
+    const form = reactive({ email: '', tags: ['a'] })
+    const double = computed(() => count.value * 2)
+    const instance = createInstance({ setupState: { count, form, double } })
+
+    expect(resolver.resolve(instance, count, 'value')).toBe('count')
+    expect(resolver.resolve(instance, toRaw(form), 'email')).toBe('form.email')
+    expect(resolver.resolve(instance, toRaw(form.tags), '0')).toBe('form.tags[0]')
+    expect(resolver.resolve(instance, double, 'value')).toBe('double')
+  })
+
+  it('should name objects held by a ref after the ref', () => {
+    const user = ref({ name: 'Ada' })
+    const instance = createInstance({ setupState: { user } })
+
+    expect(resolver.resolve(instance, toRaw(user.value), 'name')).toBe('user.name')
+  })
+
+  it('should name Options API data fields without a prefix', () => {
+    const instance = createInstance({ data: { items: [{ title: 'First' }] } })
+    const items = (toRaw(instance.data) as { items: Array<{ title: string }> }).items
+
+    expect(resolver.resolve(instance, toRaw(instance.data), 'items')).toBe('items')
+    expect(resolver.resolve(instance, items[0], 'title')).toBe('items[0].title')
+  })
+
+  it('should name Pinia stores and their state by store id', () => {
+    const cartState = reactive({ items: [] as string[] })
+    const cartStore = reactive({ $id: 'cart', items: cartState.items })
+    const pinia = { _s: new Map([['cart', cartStore]]), state: ref({ cart: cartState }) }
+    const instance = createInstance({ pinia })
+
+    expect(resolver.resolve(instance, toRaw(cartState), 'items')).toBe('cartStore.items')
+    expect(resolver.resolve(instance, toRaw(cartStore), 'items')).toBe('cartStore.items')
+  })
+
+  it('should prefer the setup variable a store is assigned to', () => {
+    const cartState = reactive({ total: 0 })
+    const cart = reactive({ $id: 'cart', total: 0 })
+    const pinia = { _s: new Map([['cart', cart]]), state: ref({ cart: cartState }) }
+    const instance = createInstance({ setupState: { cart }, pinia })
+
+    expect(resolver.resolve(instance, toRaw(cart), 'total')).toBe('cart.total')
+  })
+
+  it('should name unreachable computeds after their getter', () => {
+    const instance = createInstance({})
+    const sum = computed(function total() { return 1 })
+
+    expect(resolver.resolve(instance, sum, 'value')).toBe('computed(total)')
+    expect(resolver.resolve(instance, computed(() => 1), 'value')).toBeUndefined()
+    expect(resolver.resolve(instance, { unrelated: true }, 'unrelated')).toBeUndefined()
+  })
+
+  it('should format keys that are not identifiers', () => {
+    const state = reactive<Record<string, unknown>>({ 'first-name': '' })
+    const instance = createInstance({ setupState: { state } })
+
+    expect(resolver.resolve(instance, toRaw(state), 'first-name')).toBe('state["first-name"]')
+    expect(resolver.resolve(instance, toRaw(state), Symbol('iterate'))).toBe('state')
+  })
+
+  it('should not evaluate computeds or getters while indexing', () => {
+    let reads = 0
+    const doubled = computed(() => {
+      reads++
+      return { value: 2 }
+    })
+    const state = {
+      get expensive(): number {
+        reads++
+        return 1
+      },
+    }
+    const instance = createInstance({ setupState: { doubled, state } })
+
+    expect(resolver.resolve(instance, doubled, 'value')).toBe('doubled')
+    expect(reads).toBe(0)
+  })
+
+  it('should index an instance again after it rendered', () => {
+    const state = reactive<{ user: { name: string } }>({ user: { name: 'Ada' } })
+    const instance = createInstance({ setupState: { state } })
+    resolver.resolve(instance, toRaw(state), 'user')
+
+    state.user = { name: 'Grace' }
+    expect(resolver.resolve(instance, toRaw(state.user), 'name')).toBeUndefined()
+
+    resolver.invalidate(instance)
+    expect(resolver.resolve(instance, toRaw(state.user), 'name')).toBe('state.user.name')
+  })
+})
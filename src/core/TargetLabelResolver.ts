@@ -0,0 +1,170 @@
+import { isRef, toRaw } from 'vue'
+import type { AppContext, ComponentInternalInstance } from 'vue'
+
+const MAX_DEPTH = 4
+const MAX_OBJECTS = 500
+
+// Raw reactive objects reachable from an instance, by the expression that reaches them
+type LabelIndex = Map<object, string>
+
+type PendingValue = {
+  value: unknown
+  path: string
+  depth: number
+}
+
+/**
+ * Reads a data property without running getters, which could call user code or track dependencies
+ * in the render that is being recorded
+ */
+function readOwnValue(source: object, key: string): unknown {
+  return Object.getOwnPropertyDescriptor(source, key)?.value as unknown
+}
+
+/**
+ * Reads the value of a ref without tracking it, `.value` would subscribe the running render to it
+ */
+function readRefValue(ref: object): unknown {
+  return readOwnValue(ref, '_value')
+}
+
+function isPlainObject(value: object): boolean {
+  const proto = Object.getPrototypeOf(value) as object | null
+  return proto === Object.prototype || proto === null
+}
+
+function appendKey(path: string, key: unknown): string {
+  // Symbol keys mark iterations and other whole-object reads
+  if (typeof key === 'symbol') return path
+  const name = String(key as string)
+  if (/^\d+$/.test(name)) return `${path}[${name}]`
+  if (!/^[A-Za-z_$][\w$]*$/.test(name)) return `${path}[${JSON.stringify(name)}]`
+  return path ? `${path}.${name}` : name
+}
+
+function getStoreName(id: string): string {
+  return id.endsWith('Store') ? id : `${id}Store`
+}
+
+/**
+ * Names reactive targets after the expression a component would use to reach them, e.g.
+ * `props.user`, a setup variable like `count`, `data` fields of the Options API or `cartStore`
+ * for a Pinia store. The objects reachable from an instance are indexed once per render.
+ */
+export class TargetLabelResolver {
+  private indexes = new WeakMap<ComponentInternalInstance, LabelIndex>()
+
+  /**
+   * @returns A label like `props.user.name` or `cartStore.items`, or undefined when the target
+   * cannot be reached from the instance
+   */
+  resolve(instance: ComponentInternalInstance, target: unknown, key: unknown): string | undefined {
+    if (target === null || typeof target !== 'object') return undefined
+
+    const rawTarget = toRaw(target)
+    const path = this.getIndex(instance).get(rawTarget) ?? this.getComputedName(rawTarget)
+    if (path === undefined) return undefined
+    // Refs are only ever read through `value`, which templates unwrap
+    return isRef(rawTarget) ? path : appendKey(path, key)
+  }
+
+  /**
+   * Drops the index of an instance after it rendered, its state may have been replaced
+   */
+  invalidate(instance: ComponentInternalInstance): void {
+    this.indexes.delete(instance)
+  }
+
+  private getIndex(instance: ComponentInternalInstance): LabelIndex {
+    let index = this.indexes.get(instance)
+    if (!index) {
+      index = this.buildIndex(instance)
+      this.indexes.set(instance, index)
+    }
+    return index
+  }
+
+  private buildIndex(instance: ComponentInternalInstance): LabelIndex {
+    const queue: PendingValue[] = [{ value: instance.props, path: 'props', depth: 0 }]
+    // setupState is internal, it holds the setup() bindings by variable name
+    const { setupState } = instance as { setupState?: object }
+    if (setupState) {
+      const rawSetupState = toRaw(setupState)
+      for (const name of Object.keys(rawSetupState)) {
+        queue.push({ value: readOwnValue(rawSetupState, name), path: name, depth: 0 })
+      }
+    }
+    // Options API data fields are read as `this.items`, so they go without a prefix
+    queue.push({ value: instance.data, path: '', depth: 0 })
+    queue.push(...this.getStoreRoots(instance))
+
+    // Breadth first, so every object gets its shortest path
+    const index: LabelIndex = new Map()
+    const enqueue = (value: unknown, path: string, depth: number): void => {
+      // Large collections would fill the queue long before their items are labelled
+      if (queue.length < MAX_OBJECTS) {
+        queue.push({ value, path, depth })
+      }
+    }
+    for (let next = queue.shift(); next && index.size < MAX_OBJECTS; next = queue.shift()) {
+      const { value, path, depth } = next
+      if (value === null || typeof value !== 'object') continue
+
+      const raw = toRaw(value)
+      if (index.has(raw)) continue
+      index.set(raw, path)
+      if (depth >= MAX_DEPTH) continue
+
+      if (isRef(raw)) {
+        // The ref's object is reached under the ref's own name, templates unwrap refs
+        enqueue(readRefValue(raw), path, depth + 1)
+      } else if (Array.isArray(raw)) {
+        raw.forEach((item, position) => enqueue(item, appendKey(path, position), depth + 1))
+      } else if (isPlainObject(raw)) {
+        for (const key of Object.keys(raw)) {
+          // Vue and Pinia keep their internals under `$` and `_` keys
+          if (key.startsWith('$') || key.startsWith('_')) continue
+          enqueue(readOwnValue(raw, key), appendKey(path, key), depth + 1)
+        }
+      }
+    }
+    return index
+  }
+
+  /**
+   * Pinia stores and their state objects, named after the `useCartStore` convention
+   */
+  private getStoreRoots(instance: ComponentInternalInstance): PendingValue[] {
+    const appContext = instance.appContext as AppContext | undefined
+    if (!appContext) return []
+
+    const pinia = readOwnValue(appContext.config.globalProperties, '$pinia')
+    if (pinia === null || typeof pinia !== 'object') return []
+
+    const roots: PendingValue[] = []
+    const stores = readOwnValue(pinia, '_s')
+    if (stores instanceof Map) {
+      for (const [id, store] of stores as Map<string, unknown>) {
+        roots.push({ value: store, path: getStoreName(id), depth: 0 })
+      }
+    }
+    const state = readOwnValue(pinia, 'state')
+    const states = state !== null && typeof state === 'object' ? readRefValue(state) : undefined
+    if (states !== null && typeof states === 'object') {
+      const rawStates = toRaw(states)
+      for (const id of Object.keys(rawStates)) {
+        roots.push({ value: readOwnValue(rawStates, id), path: getStoreName(id), depth: 0 })
+      }
+    }
+    return roots
+  }
+
+  /**
+   * Names computeds that are not reachable from the instance after their getter, e.g. `computed(total)`
+   */
+  private getComputedName(target: object): string | undefined {
+    const getter = readOwnValue(target, 'fn')
+    if (!isRef(target) || typeof getter !== 'function' || getter.name === '') return undefined
+    return `computed(${getter.name})`
+  }
+}
@@ -4,5 +4,7 @@ export { FlowVisPlugin as default } from './plugin/index'
 export { ComponentMonitor } from './core/ComponentMonitor'
 export { ComponentIdentifier } from './utils/componentIdentifier'
 export { ConsoleLogger } from './loggers/console/ConsoleLogger'
+export { CompositeLogger } from './loggers/composite/CompositeLogger'
+export { createChromeTrace } from './utils/chromeTrace'
 
 export type * from './types/index'
\ No newline at end of file
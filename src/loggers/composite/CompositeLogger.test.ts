@@ -0,0 +1,162 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { CompositeLogger } from './CompositeLogger'
+import { createMockEventData } from '../../test-utils'
+import type { LifecycleEventData, Logger, RenderCascade, RenderTimingData } from '../../types'
+
+describe('CompositeLogger', () => {
+  let first: Logger
+  let second: Logger
+
+  const createLogger = (): Logger => ({
+    tracked: vi.fn(),
+    triggered: vi.fn(),
+    rendered: vi.fn(),
+    renderCascade: vi.fn(),
+    lifecycle: vi.fn(),
+    pauseChanged: vi.fn(),
+    heatmapChanged: vi.fn(),
+    error: vi.fn(),
+    destroy: vi.fn(),
+  })
+
+  beforeEach(() => {
+    first = createLogger()
+    second = createLogger()
+  })
+
+  it('should pass every event to all loggers', () => {
+    const logger = new CompositeLogger([first, second])
+    const data = createMockEventData({})
+
+    logger.tracked(data)
+    logger.triggered(data)
+    logger.pauseChanged(true)
+    logger.heatmapChanged(true)
+    logger.destroy()
+
+    for (const sink of [first, second]) {
+      /* eslint-disable @typescript-eslint/unbound-method */
+      expect(sink.tracked).toHaveBeenCalledWith(data)
+      expect(sink.triggered).toHaveBeenCalledWith(data)
+      expect(sink.pauseChanged).toHaveBeenCalledWith(true)
+      expect(sink.heatmapChanged).toHaveBeenCalledWith(true)
+      expect(sink.destroy).toHaveBeenCalledOnce()
+      /* eslint-enable @typescript-eslint/unbound-method */
+    }
+  })
+
+  it('should skip optional methods a logger does not implement', () => {
+    const minimal: Logger = { tracked: vi.fn(), triggered: vi.fn(), error: vi.fn() }
+    const logger = new CompositeLogger([minimal, first])
+    const timing = { componentName: 'TestComponent', componentPath: 'TestComponent', triggers: [] } as unknown as RenderTimingData
+
+    logger.rendered(timing)
+
+    // eslint-disable-next-line @typescript-eslint/unbound-method
+    expect(first.rendered).toHaveBeenCalledWith(timing)
+    // eslint-disable-next-line @typescript-eslint/unbound-method
+    expect(minimal.error).not.toHaveBeenCalled()
+  })
+
+  it('should keep logging to the other loggers when one throws', () => {
+    const failure = new Error('sink failed')
+    first.triggered = vi.fn(() => {
+      throw failure
+    })
+    const logger = new CompositeLogger([first, second])
+    const data = createMockEventData({})
+
+    logger.triggered(data)
+
+    // eslint-disable-next-line @typescript-eslint/unbound-method
+    expect(second.triggered).toHaveBeenCalledWith(data)
+    // eslint-disable-next-line @typescript-eslint/unbound-method
+    expect(first.error).toHaveBeenCalledWith(failure, { type: 'triggered', data })
+    // eslint-disable-next-line @typescript-eslint/unbound-method
+    expect(second.error).not.toHaveBeenCalled()
+  })
+
+  it('should survive loggers that fail to report errors', () => {
+    first.tracked = vi.fn(() => {
+      throw new Error('sink failed')
+    })
+    first.error = vi.fn(() => {
+      throw new Error('error failed')
+    })
+    const logger = new CompositeLogger([first, second])
+
+    expect(() => logger.tracked(createMockEventData({}))).not.toThrow()
+    // eslint-disable-next-line @typescript-eslint/unbound-method
+    expect(second.tracked).toHaveBeenCalled()
+  })
+
+  it('should only pass events of components accepted by a sink filter', () => {
+    const logger = new CompositeLogger([
+      { logger: first, filter: (componentName): boolean => componentName === 'UserList' },
+      second,
+    ])
+    const userList = createMockEventData({ componentName: 'UserList' })
+    const other = createMockEventData({ componentName: 'Other' })
+
+    logger.triggered(userList)
+    logger.triggered(other)
+
+    // eslint-disable-next-line @typescript-eslint/unbound-method
+    expect(first.triggered).toHaveBeenCalledExactlyOnceWith(userList)
+    // eslint-disable-next-line @typescript-eslint/unbound-method
+    expect(second.triggered).toHaveBeenCalledTimes(2)
+  })
+
+  it('should apply sink filters to lifecycle events', () => {
+    const logger = new CompositeLogger([
+      { logger: first, filter: (componentName): boolean => componentName === 'UserList' },
+      second,
+    ])
+    const event: LifecycleEventData = { type: 'unmounted', componentName: 'Other', componentPath: 'App → Other', instanceId: 1, timestamp: 0 }
+
+    logger.lifecycle(event)
+
+    // eslint-disable-next-line @typescript-eslint/unbound-method
+    expect(first.lifecycle).not.toHaveBeenCalled()
+    // eslint-disable-next-line @typescript-eslint/unbound-method
+    expect(second.lifecycle).toHaveBeenCalledWith(event)
+  })
+
+  it('should pass cascades that contain an accepted component', () => {
+    const logger = new CompositeLogger([{ logger: first, filter: (_name, path): boolean => path.startsWith('App → Dashboard') }])
+    const createCascade = (componentPath: string): RenderCascade => ({
+      id: 1,
+      target: {},
+      key: 'count',
+      type: 'set',
+      timestamp: 0,
+      componentCount: 2,
+      depth: 2,
+      nodes: [{
+        componentName: 'App',
+        componentPath: 'App',
+        instanceId: 1,
+        triggers: [],
+        children: [{ componentName: 'Child', componentPath, instanceId: 2, triggers: [], children: [] }],
+      }],
+    })
+
+    logger.renderCascade(createCascade('App → Dashboard → Child'))
+    logger.renderCascade(createCascade('App → Settings → Child'))
+
+    // eslint-disable-next-line @typescript-eslint/unbound-method
+    expect(first.renderCascade).toHaveBeenCalledOnce()
+  })
+
+  it('should report errors to every logger', () => {
+    const logger = new CompositeLogger([first, second])
+    const error = new Error('monitor failed')
+
+    logger.error(error, { type: 'rendered' })
+
+    // eslint-disable-next-line @typescript-eslint/unbound-method
+    expect(first.error).toHaveBeenCalledWith(error, { type: 'rendered' })
+    // eslint-disable-next-line @typescript-eslint/unbound-method
+    expect(second.error).toHaveBeenCalledWith(error, { type: 'rendered' })
+  })
+})
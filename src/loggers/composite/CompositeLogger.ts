@@ -0,0 +1,109 @@
+import type {
+  LifecycleEventData,
+  Logger,
+  LoggerFilter,
+  RenderCascade,
+  RenderCascadeNode,
+  RenderCycle,
+  RenderEventData,
+  RenderTimingData,
+  RenderWarning,
+} from '../../types'
+
+export type CompositeLoggerSink = {
+  logger: Logger
+  filter?: LoggerFilter
+}
+
+type ComponentData = { componentName: string, componentPath: string }
+
+function includesComponent(filter: LoggerFilter, data: ComponentData): boolean {
+  return filter(data.componentName, data.componentPath)
+}
+
+function includesCascade(filter: LoggerFilter, nodes: RenderCascadeNode[]): boolean {
+  return nodes.some((node) => includesComponent(filter, node) || includesCascade(filter, node.children))
+}
+
+/**
+ * Fans events out to several loggers. A logger that throws does not stop the others,
+ * its error is reported to the logger itself.
+ */
+export class CompositeLogger implements Logger {
+  private sinks: CompositeLoggerSink[]
+
+  constructor(sinks: Array<Logger | CompositeLoggerSink>) {
+    this.sinks = sinks.map((sink) => 'tracked' in sink ? { logger: sink } : sink)
+  }
+
+  tracked(data: RenderEventData): void {
+    this.dispatch('tracked', data, (filter) => includesComponent(filter, data), (logger) => logger.tracked(data))
+  }
+
+  triggered(data: RenderEventData): void {
+    this.dispatch('triggered', data, (filter) => includesComponent(filter, data), (logger) => logger.triggered(data))
+  }
+
+  rendered(data: RenderTimingData): void {
+    this.dispatch('rendered', data, (filter) => includesComponent(filter, data), (logger) => logger.rendered?.(data))
+  }
+
+  renderCycle(cycle: RenderCycle): void {
+    this.dispatch('cycle', cycle, (filter) => includesComponent(filter, cycle), (logger) => logger.renderCycle?.(cycle))
+  }
+
+  renderCascade(cascade: RenderCascade): void {
+    // A cascade reaches a filtered logger when any of its components passes the filter
+    this.dispatch('cascade', cascade, (filter) => includesCascade(filter, cascade.nodes), (logger) => logger.renderCascade?.(cascade))
+  }
+
+  warning(warning: RenderWarning): void {
+    this.dispatch('warning', warning, (filter) => includesComponent(filter, warning), (logger) => logger.warning?.(warning))
+  }
+
+  lifecycle(event: LifecycleEventData): void {
+    this.dispatch('lifecycle', event, (filter) => includesComponent(filter, event), (logger) => logger.lifecycle?.(event))
+  }
+
+  pauseChanged(paused: boolean): void {
+    this.dispatch('pause', paused, null, (logger) => logger.pauseChanged?.(paused))
+  }
+
+  heatmapChanged(enabled: boolean): void {
+    this.dispatch('heatmap', enabled, null, (logger) => logger.heatmapChanged?.(enabled))
+  }
+
+  error(error: Error, context?: unknown): void {
+    for (const { logger } of this.sinks) {
+      this.reportError(logger, error, context)
+    }
+  }
+
+  destroy(): void {
+    this.dispatch('destroy', undefined, null, (logger) => logger.destroy?.())
+  }
+
+  private dispatch(
+    type: string,
+    data: unknown,
+    includes: ((filter: LoggerFilter) => boolean) | null,
+    log: (logger: Logger) => void
+  ): void {
+    for (const { logger, filter } of this.sinks) {
+      try {
+        if (filter && includes && !includes(filter)) continue
+        log(logger)
+      } catch (error) {
+        this.reportError(logger, error as Error, { type, data })
+      }
+    }
+  }
+
+  private reportError(logger: Logger, error: Error, context?: unknown): void {
+    try {
+      logger.error(error, context)
+    } catch {
+      // The logger can not report errors either, the other loggers still run
+    }
+  }
+}
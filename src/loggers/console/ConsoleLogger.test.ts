@@ -1,6 +1,6 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
 import { ConsoleLogger } from './ConsoleLogger'
-import type { RenderEventData, ComponentMetadata } from '../../types'
+import type { RenderCycle, RenderEventData, RenderTimingData, ComponentMetadata, RenderWarning } from '../../types'
 
 // Mock the constants module
 vi.mock('../constants', () => ({
@@ -11,6 +11,7 @@ describe('ConsoleLogger', () => {
   let mockConsole: {
     log: ReturnType<typeof vi.fn>
     error: ReturnType<typeof vi.fn>
+    warn: ReturnType<typeof vi.fn>
     table: ReturnType<typeof vi.fn>
     groupCollapsed: ReturnType<typeof vi.fn>
     groupEnd: ReturnType<typeof vi.fn>
@@ -19,7 +20,6 @@ describe('ConsoleLogger', () => {
   let mockSetTimeout: ReturnType<typeof vi.fn> & { lastCallback?: () => void; lastDelay?: number }
   let mockClearTimeout: ReturnType<typeof vi.fn>
   let mockEventData: RenderEventData
-  // eslint-disable-next-line @typescript-eslint/no-unused-vars
   let mockMetadata: ComponentMetadata
 
   beforeEach(() => {
@@ -27,6 +27,7 @@ describe('ConsoleLogger', () => {
     mockConsole = {
       log: vi.fn(),
       error: vi.fn(),
+      warn: vi.fn(),
       table: vi.fn(),
       groupCollapsed: vi.fn(),
       groupEnd: vi.fn(),
@@ -128,6 +129,180 @@ describe('ConsoleLogger', () => {
         'color: #ff6b6b; font-weight: bold'
       )
     })
+
+    it('should name the target when the event has a label', () => {
+      const logger = new ConsoleLogger({ batchLogs: false })
+
+      logger.triggered({ ...mockEventData, targetLabel: 'props.user.name' })
+
+      expect(mockConsole.log).toHaveBeenCalledWith(
+        '%c[TRIGGERED] TestComponent: props.user.name',
+        'color: #ff6b6b; font-weight: bold'
+      )
+      expect(mockConsole.log).toHaveBeenCalledWith('Event Details:', expect.objectContaining({ target: 'props.user.name' }))
+    })
+  })
+
+  describe('rendered method', () => {
+    const createTimingData = (): RenderTimingData => ({
+      componentName: 'TestComponent',
+      componentPath: 'App → TestComponent',
+      instanceId: 1,
+      phase: 'update',
+      startTime: 100,
+      duration: 12.345,
+      timestamp: 1234567890000,
+      triggers: [mockEventData],
+    })
+
+    it('should log render duration and phase', () => {
+      const logger = new ConsoleLogger({ batchLogs: false })
+
+      logger.rendered(createTimingData())
+
+      expect(mockConsole.log).toHaveBeenCalledWith(
+        '%c[RENDERED] TestComponent 12.35ms (update)',
+        'color: #007acc; font-weight: bold'
+      )
+      expect(mockConsole.log).toHaveBeenCalledWith('Render Details:', {
+        path: 'App → TestComponent',
+        duration: 12.345,
+        triggers: [mockEventData.event],
+        timestamp: new Date(1234567890000).toISOString(),
+      })
+    })
+
+    it('should batch render timing together with other component events', () => {
+      const logger = new ConsoleLogger({ batchLogs: true })
+
+      logger.triggered(mockEventData)
+      logger.rendered(createTimingData())
+
+      expect(mockConsole.log).not.toHaveBeenCalled()
+
+      mockSetTimeout.lastCallback?.()
+
+      expect(mockConsole.groupCollapsed).toHaveBeenCalledWith(
+        '%c🔄 TestComponent (2 events)',
+        'font-weight: bold; color: #666'
+      )
+      expect(mockConsole.log).toHaveBeenCalledWith(
+        '%c[RENDERED] TestComponent 12.35ms (update)',
+        'color: #007acc; font-weight: bold'
+      )
+    })
+  })
+
+  describe('renderCycle method', () => {
+    const createCycle = (): RenderCycle => ({
+      id: 7,
+      sequence: 3,
+      componentName: 'TestComponent',
+      componentPath: 'App → TestComponent',
+      instanceId: 1,
+      phase: 'update',
+      triggers: [mockEventData],
+      tracked: [mockEventData, mockEventData],
+      timing: {
+        componentName: 'TestComponent',
+        componentPath: 'App → TestComponent',
+        instanceId: 1,
+        phase: 'update',
+        startTime: 0,
+        duration: 1.5,
+        timestamp: 1234567890000,
+        triggers: [mockEventData],
+      },
+    })
+
+    it('should ignore render cycles unless grouping by render cycle', () => {
+      const logger = new ConsoleLogger({ batchLogs: false })
+
+      logger.renderCycle(createCycle())
+
+      expect(mockConsole.groupCollapsed).not.toHaveBeenCalled()
+      expect(mockConsole.log).not.toHaveBeenCalled()
+    })
+
+    it('should log cycles as groups and skip individual events when grouping by render cycle', () => {
+      const logger = new ConsoleLogger({ batchLogs: false, groupByRenderCycle: true })
+
+      logger.triggered(mockEventData)
+      logger.tracked(mockEventData)
+      expect(mockConsole.log).not.toHaveBeenCalled()
+
+      logger.renderCycle(createCycle())
+
+      expect(mockConsole.groupCollapsed).toHaveBeenCalledWith(
+        '%c[CYCLE #7] TestComponent update #3 1.50ms (1 triggers, 2 tracked)',
+        'color: #007acc; font-weight: bold'
+      )
+      expect(mockConsole.log).toHaveBeenCalledWith('%c[TRIGGERED] TestComponent', 'color: #ff6b6b; font-weight: bold')
+      expect(mockConsole.log).toHaveBeenCalledWith('%c[TRACKED] TestComponent', 'color: #42b883; font-weight: bold')
+      expect(mockConsole.groupEnd).toHaveBeenCalledTimes(1)
+    })
+  })
+
+  describe('lifecycle method', () => {
+    it('should log lifecycle transitions with the load time of async components', () => {
+      const logger = new ConsoleLogger({ batchLogs: false, groupByRenderCycle: true })
+
+      logger.lifecycle({
+        type: 'async-resolved',
+        componentName: 'TestComponent',
+        componentPath: 'App → TestComponent',
+        instanceId: 1,
+        timestamp: 1234567890000,
+        duration: 120.5,
+      })
+
+      expect(mockConsole.log).toHaveBeenCalledWith(
+        '%c[ASYNC-RESOLVED] TestComponent after 120.50ms',
+        'color: #9c27b0; font-weight: bold',
+        { path: 'App → TestComponent', timestamp: new Date(1234567890000).toISOString() }
+      )
+    })
+
+    it('should log the lifetime and reason of unmounted instances', () => {
+      const logger = new ConsoleLogger({ batchLogs: false })
+
+      logger.lifecycle({
+        type: 'unmounted',
+        componentName: 'TestComponent',
+        componentPath: 'App → TestComponent',
+        instanceId: 7,
+        timestamp: 1234567890000,
+        reason: 'parent-unmounted',
+        lifetime: 1500,
+      })
+
+      expect(mockConsole.log).toHaveBeenCalledWith(
+        '%c[UNMOUNTED] TestComponent #7 after 1500.00ms (parent-unmounted)',
+        'color: #9c27b0; font-weight: bold',
+        { path: 'App → TestComponent', timestamp: new Date(1234567890000).toISOString() }
+      )
+    })
+  })
+
+  describe('warning method', () => {
+    it('should print warnings right away even when batching', () => {
+      const logger = new ConsoleLogger({ batchLogs: true })
+      const warning: RenderWarning = {
+        type: 'render-storm',
+        componentName: 'TestComponent',
+        componentPath: 'App → TestComponent',
+        instanceId: 1,
+        message: 'TestComponent #1 re-rendered 21 times within 1000ms',
+        timestamp: 1234567890000,
+        count: 21,
+        events: [mockEventData],
+      }
+
+      logger.warning(warning)
+
+      expect(mockConsole.warn).toHaveBeenCalledWith('[WARNING] TestComponent #1 re-rendered 21 times within 1000ms', warning)
+      expect(mockSetTimeout).not.toHaveBeenCalled()
+    })
   })
 
   describe('error method', () => {
@@ -209,6 +384,25 @@ describe('ConsoleLogger', () => {
       expect(mockConsole.groupEnd).toHaveBeenCalled()
     })
 
+    it('should group events by instance when configured', () => {
+      const logger = new ConsoleLogger({ batchLogs: true, groupByInstance: true })
+      
+      logger.triggered(mockEventData)
+      logger.triggered({ ...mockEventData, instanceId: 2, metadata: { ...mockMetadata, uid: 2, key: 'row-2' } })
+      logger.tracked({ ...mockEventData, instanceId: 2, metadata: { ...mockMetadata, uid: 2, key: 'row-2' } })
+
+      mockSetTimeout.lastCallback?.()
+
+      expect(mockConsole.groupCollapsed).toHaveBeenCalledWith(
+        '%c🔄 TestComponent #1 (1 events)',
+        'font-weight: bold; color: #666'
+      )
+      expect(mockConsole.groupCollapsed).toHaveBeenCalledWith(
+        '%c🔄 TestComponent #2 (key: row-2) (2 events)',
+        'font-weight: bold; color: #666'
+      )
+    })
+
     it('should log individual events within groups', () => {
       const logger = new ConsoleLogger({ batchLogs: true })
       
@@ -394,4 +588,28 @@ describe('ConsoleLogger', () => {
       expect(mockClearTimeout).toHaveBeenCalledWith(12345)
     })
   })
+
+  describe('destroy method', () => {
+    it('should flush buffered events immediately', () => {
+      const logger = new ConsoleLogger({ batchLogs: true })
+      logger.triggered(mockEventData)
+
+      logger.destroy()
+
+      expect(mockClearTimeout).toHaveBeenCalledWith(12345)
+      expect(mockConsole.groupCollapsed).toHaveBeenCalledWith(
+        expect.stringContaining('TestComponent (1 events)'),
+        expect.any(String)
+      )
+    })
+
+    it('should do nothing when no events are buffered', () => {
+      const logger = new ConsoleLogger({ batchLogs: true })
+
+      logger.destroy()
+
+      expect(mockClearTimeout).not.toHaveBeenCalled()
+      expect(mockConsole.groupCollapsed).not.toHaveBeenCalled()
+    })
+  })
 })
\ No newline at end of file
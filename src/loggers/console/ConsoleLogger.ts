@@ -1,26 +1,61 @@
 import { DEFAULT_BATCH_WINDOW } from '../../constants'
-import type { Logger, RenderEventData } from '../../types'
+import type { LifecycleEventData, Logger, RenderCycle, RenderEventData, RenderTimingData, RenderWarning } from '../../types'
 import { debugEventValue } from '../../utils/debugEventValue'
+import { ComponentIdentifier } from '../../utils/componentIdentifier'
+
+type BufferedEvent =
+  | { type: 'TRACKED' | 'TRIGGERED'; data: RenderEventData; color: string }
+  | { type: 'RENDERED'; data: RenderTimingData; color: string }
+  | { type: 'CYCLE'; data: RenderCycle; color: string }
+  | { type: 'LIFECYCLE'; data: LifecycleEventData; color: string }
 
 export class ConsoleLogger implements Logger {
   private batchLogs: boolean
   private useTable: boolean
   private batchWindow: number
-  private componentEventBuffers = new Map<string, Array<{ type: string; data: RenderEventData; color: string }>>()
+  private groupByRenderCycle: boolean
+  private groupByInstance: boolean
+  // Keyed by component name, or by instance label when grouping by instance
+  private componentEventBuffers = new Map<string, BufferedEvent[]>()
   private flushTimeout: ReturnType<typeof globalThis.setTimeout> | null = null
 
-  constructor(options: { batchLogs?: boolean; useTable?: boolean, batchWindow?: number } = {}) {
+  constructor(options: { batchLogs?: boolean; useTable?: boolean, batchWindow?: number, groupByRenderCycle?: boolean, groupByInstance?: boolean } = {}) {
     this.batchLogs = options.batchLogs ?? true
     this.useTable = options.useTable ?? false
     this.batchWindow = options.batchWindow ?? DEFAULT_BATCH_WINDOW
+    this.groupByRenderCycle = options.groupByRenderCycle ?? false
+    this.groupByInstance = options.groupByInstance ?? false
   }
 
   tracked(data: RenderEventData): void {
-    this.logEvent('TRACKED', data, '#42b883')
+    if (this.groupByRenderCycle) return
+    this.logEvent({ type: 'TRACKED', data, color: '#42b883' })
   }
 
   triggered(data: RenderEventData): void {
-    this.logEvent('TRIGGERED', data, '#ff6b6b')
+    if (this.groupByRenderCycle) return
+    this.logEvent({ type: 'TRIGGERED', data, color: '#ff6b6b' })
+  }
+
+  rendered(data: RenderTimingData): void {
+    if (this.groupByRenderCycle) return
+    this.logEvent({ type: 'RENDERED', data, color: '#007acc' })
+  }
+
+  renderCycle(cycle: RenderCycle): void {
+    if (!this.groupByRenderCycle) return
+    this.logEvent({ type: 'CYCLE', data: cycle, color: '#007acc' })
+  }
+
+  lifecycle(event: LifecycleEventData): void {
+    // Lifecycle transitions are shown in both modes, next to events or render cycles
+    this.logEvent({ type: 'LIFECYCLE', data: event, color: '#9c27b0' })
+  }
+
+  warning(warning: RenderWarning): void {
+    // Warnings are not batched so they stand out from the grouped events
+    // eslint-disable-next-line no-console
+    console.warn(`[WARNING] ${warning.message}`, warning)
   }
 
   error(error: Error, context?: unknown): void {
@@ -28,16 +63,28 @@ export class ConsoleLogger implements Logger {
     console.error('[ComponentMonitor Error]', error, context)
   }
 
-  private logEvent(type: string, data: RenderEventData, color: string): void {
-    const { componentName } = data
+  destroy(): void {
+    // Print what is still buffered instead of losing it
+    if (this.flushTimeout) {
+      globalThis.clearTimeout(this.flushTimeout)
+      this.flushTimeout = null
+      this.flushComponentEvents()
+    }
+  }
+
+  private logEvent(bufferedEvent: BufferedEvent): void {
+    const { componentName, instanceId, metadata } = bufferedEvent.data
+    const bufferKey = this.groupByInstance
+      ? ComponentIdentifier.formatInstanceLabel(componentName, instanceId, metadata?.key)
+      : componentName
 
     if (this.batchLogs) {
       // Buffer events by component and flush periodically
-      if (!this.componentEventBuffers.has(componentName)) {
-        this.componentEventBuffers.set(componentName, [])
+      if (!this.componentEventBuffers.has(bufferKey)) {
+        this.componentEventBuffers.set(bufferKey, [])
       }
 
-      this.componentEventBuffers.get(componentName)!.push({ type, data, color })
+      this.componentEventBuffers.get(bufferKey)!.push(bufferedEvent)
 
       // Debounce flush to group events that happen close together
       if (this.flushTimeout) {
@@ -45,20 +92,36 @@ export class ConsoleLogger implements Logger {
       }
       this.flushTimeout = globalThis.setTimeout(() => this.flushComponentEvents(), this.batchWindow)
     } else {
-      this.logSingleEvent(type, data, color)
+      this.logBufferedEvent(bufferedEvent)
+    }
+  }
+
+  private logBufferedEvent(bufferedEvent: BufferedEvent): void {
+    switch (bufferedEvent.type) {
+      case 'RENDERED':
+        this.logRenderTiming(bufferedEvent.data, bufferedEvent.color)
+        break
+      case 'CYCLE':
+        this.logRenderCycle(bufferedEvent.data, bufferedEvent.color)
+        break
+      case 'LIFECYCLE':
+        this.logLifecycle(bufferedEvent.data, bufferedEvent.color)
+        break
+      default:
+        this.logSingleEvent(bufferedEvent.type, bufferedEvent.data, bufferedEvent.color)
     }
   }
 
   private flushComponentEvents(): void {
-    for (const [componentName, events] of this.componentEventBuffers.entries()) {
+    for (const [bufferKey, events] of this.componentEventBuffers.entries()) {
       if (events.length === 0) continue
 
       // Create a fresh group for this batch
       // eslint-disable-next-line no-console
-      console.groupCollapsed(`%c🔄 ${componentName} (${events.length} events)`, 'font-weight: bold; color: #666')
+      console.groupCollapsed(`%c🔄 ${bufferKey} (${events.length} events)`, 'font-weight: bold; color: #666')
 
-      events.forEach(({ type, data, color }) => {
-        this.logSingleEvent(type, data, color)
+      events.forEach((bufferedEvent) => {
+        this.logBufferedEvent(bufferedEvent)
       })
 
       // eslint-disable-next-line no-console
@@ -74,7 +137,7 @@ export class ConsoleLogger implements Logger {
 
     // eslint-disable-next-line no-console
     console.log(
-      `%c[${type}] ${componentName}`,
+      `%c[${type}] ${componentName}${data.targetLabel ? `: ${data.targetLabel}` : ''}${data.redundant ? ' (redundant)' : ''}`,
       `color: ${color}; font-weight: bold`
     )
 
@@ -82,6 +145,7 @@ export class ConsoleLogger implements Logger {
       const triggeredValueChange = type === 'TRIGGERED' && 'oldValue' in event
       const tableData: Record<string, unknown> = {
         'Component Path': componentPath,
+        ...(data.targetLabel ? { 'Target': data.targetLabel } : {}),
         'Property': event.key as string,
         'Operation': event.type,
         'Target Type': event.target?.constructor?.name,
@@ -100,9 +164,61 @@ export class ConsoleLogger implements Logger {
       // eslint-disable-next-line no-console
       console.log('Event Details:', {
         path: componentPath,
+        ...(data.targetLabel ? { target: data.targetLabel } : {}),
         event: event,
         timestamp: new Date(data.timestamp).toISOString()
       })
     }
   }
+
+  private logRenderTiming(data: RenderTimingData, color: string): void {
+    const { componentName, componentPath, phase, duration, triggers } = data
+
+    // eslint-disable-next-line no-console
+    console.log(
+      `%c[RENDERED] ${componentName} ${duration.toFixed(2)}ms (${phase})`,
+      `color: ${color}; font-weight: bold`
+    )
+    // eslint-disable-next-line no-console
+    console.log('Render Details:', {
+      path: componentPath,
+      duration,
+      triggers: triggers.map(({ event }) => event),
+      timestamp: new Date(data.timestamp).toISOString()
+    })
+  }
+
+  private logLifecycle(event: LifecycleEventData, color: string): void {
+    const { type, componentName, componentPath, instanceId, reason } = event
+    // Load time of async components, lifetime of unmounted instances
+    const elapsed = event.duration ?? event.lifetime
+    const after = elapsed === undefined ? '' : ` after ${elapsed.toFixed(2)}ms`
+    const cause = reason === undefined ? '' : ` (${reason})`
+    // Mounts and unmounts are told apart by instance, async components only resolve once
+    const label = type === 'async-resolved' ? componentName : `${componentName} #${instanceId}`
+
+    // eslint-disable-next-line no-console
+    console.log(
+      `%c[${type.toUpperCase()}] ${label}${after}${cause}`,
+      `color: ${color}; font-weight: bold`,
+      { path: componentPath, timestamp: new Date(event.timestamp).toISOString() }
+    )
+  }
+
+  private logRenderCycle(cycle: RenderCycle, color: string): void {
+    const { id, sequence, componentName, phase, triggers, tracked, timing } = cycle
+
+    // eslint-disable-next-line no-console
+    console.groupCollapsed(
+      `%c[CYCLE #${id}] ${componentName} ${phase} #${sequence} ${timing.duration.toFixed(2)}ms ` +
+        `(${triggers.length} triggers, ${tracked.length} tracked)`,
+      `color: ${color}; font-weight: bold`
+    )
+
+    triggers.forEach((data) => this.logSingleEvent('TRIGGERED', data, '#ff6b6b'))
+    tracked.forEach((data) => this.logSingleEvent('TRACKED', data, '#42b883'))
+
+    // eslint-disable-next-line no-console
+    console.groupEnd()
+  }
 }
\ No newline at end of file
@@ -0,0 +1,127 @@
+/* eslint-disable no-undef */
+import { RenderCascade, RenderCascadeNode } from "../../types";
+import { EventFormatter } from "./EventFormatter";
+import { COMPUTED_CASCADE_SOURCE, NO_RENDER_CASCADES } from "./strings";
+import { theme } from "./theme";
+
+/**
+ * Renders render cascades as collapsible trees, one per reactive mutation
+ */
+export class CascadeTreeView {
+    /**
+     * Creates the list of cascades, most recent first
+     * @param cascades - Cascades in the order they were recorded
+     * @returns Scrollable container with one tree per cascade
+     */
+    static render(cascades: RenderCascade[]): HTMLDivElement {
+        const container = document.createElement("div");
+        container.id = "vue-flow-vis-cascades-list";
+        container.style.flex = "1";
+        container.style.overflow = "auto";
+        container.style.minHeight = "0";
+        container.style.padding = `${theme.spacing.sm} ${theme.spacing.md}`;
+        container.style.fontFamily = theme.fonts.primary;
+        container.style.fontSize = theme.fontSizes.sm;
+
+        if (cascades.length === 0) {
+            const empty = document.createElement("p");
+            empty.id = "vue-flow-vis-no-cascades";
+            empty.textContent = NO_RENDER_CASCADES;
+            empty.style.color = theme.colors.textMuted;
+            empty.style.fontStyle = "italic";
+            empty.style.margin = "0";
+            empty.style.padding = theme.spacing.md;
+            container.appendChild(empty);
+            return container;
+        }
+
+        for (let i = cascades.length - 1; i >= 0; i--) {
+            container.appendChild(this.createCascadeElement(cascades[i]));
+        }
+
+        return container;
+    }
+
+    /**
+     * Formats the mutation at the root of a cascade, e.g. `cartStore.items (set)` or `Object."count" (set)`
+     */
+    static formatMutation(cascade: RenderCascade): string {
+        if (!cascade.target) {
+            return COMPUTED_CASCADE_SOURCE;
+        }
+        if (cascade.targetLabel) {
+            return `${cascade.targetLabel} (${cascade.type})`;
+        }
+        return `${EventFormatter.formatTarget(cascade.target)}.${EventFormatter.formatKey(cascade.key)} (${cascade.type})`;
+    }
+
+    private static createCascadeElement(cascade: RenderCascade): HTMLDetailsElement {
+        const details = document.createElement("details");
+        details.id = `vue-flow-vis-cascade-${cascade.id}`;
+        details.style.borderBottom = `${theme.borderWidths.thin} solid ${theme.colors.border}`;
+        details.style.padding = `${theme.spacing.xs} 0`;
+
+        const summary = document.createElement("summary");
+        summary.id = `vue-flow-vis-cascade-summary-${cascade.id}`;
+        summary.style.cursor = "pointer";
+        summary.style.padding = `${theme.spacing.xs} 0`;
+
+        const mutation = document.createElement("span");
+        mutation.textContent = `#${cascade.id} ${this.formatMutation(cascade)}`;
+        mutation.style.color = theme.colors.triggered;
+        mutation.style.fontWeight = "bold";
+
+        const reach = document.createElement("span");
+        const components = cascade.componentCount === 1 ? "component" : "components";
+        const levels = cascade.depth === 1 ? "level" : "levels";
+        reach.textContent = ` → ${cascade.componentCount} ${components}, ${cascade.depth} ${levels} deep`;
+        reach.style.color = theme.colors.textMuted;
+
+        summary.appendChild(mutation);
+        summary.appendChild(reach);
+        details.appendChild(summary);
+
+        cascade.nodes.forEach((node) => details.appendChild(this.createNodeElement(cascade, node)));
+
+        return details;
+    }
+
+    private static createNodeElement(cascade: RenderCascade, node: RenderCascadeNode): HTMLElement {
+        const label = document.createElement("span");
+        label.textContent = `${node.componentName} #${node.instanceId}`;
+        label.title = node.componentPath;
+        label.style.color = theme.colors.text;
+
+        if (node.triggers.length > 1) {
+            const count = document.createElement("span");
+            count.textContent = ` ×${node.triggers.length}`;
+            count.style.color = theme.colors.textMuted;
+            label.appendChild(count);
+        }
+
+        const id = `vue-flow-vis-cascade-node-${cascade.id}-${node.instanceId}`;
+
+        if (node.children.length === 0) {
+            const leaf = document.createElement("div");
+            leaf.id = id;
+            leaf.style.paddingLeft = theme.spacing.xl;
+            leaf.appendChild(label);
+            return leaf;
+        }
+
+        const subtree = document.createElement("details");
+        subtree.id = id;
+        subtree.open = true;
+        subtree.style.paddingLeft = theme.spacing.xl;
+
+        const summary = document.createElement("summary");
+        summary.style.cursor = "pointer";
+        summary.appendChild(label);
+        subtree.appendChild(summary);
+
+        // Children are indented relative to their parent subtree
+        node.children.forEach((child) => subtree.appendChild(this.createNodeElement(cascade, child)));
+
+        return subtree;
+    }
+}
\ No newline at end of file
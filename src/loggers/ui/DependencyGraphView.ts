@@ -0,0 +1,161 @@
+/* eslint-disable no-undef */
+import { DependencyReader, ReactiveDependency } from "../../types";
+import { ComponentIdentifier } from "../../utils/componentIdentifier";
+import { NO_DEPENDENCIES, NO_DEPENDENCY_SELECTED } from "./strings";
+import { theme } from "./theme";
+
+export type DependencyGraphCallbacks = {
+    onReaderSelect: (reader: DependencyReader) => void;
+}
+
+/**
+ * Lists the reactive dependencies read by mounted components, most widely read first.
+ * Selecting a dependency lists every component that re-renders when it changes.
+ */
+export class DependencyGraphView {
+    private callbacks: DependencyGraphCallbacks;
+    /** Id of the selected dependency, kept across refreshes */
+    private selectedId: string | null = null;
+
+    constructor(callbacks: DependencyGraphCallbacks) {
+        this.callbacks = callbacks;
+    }
+
+    /**
+     * Formats a dependency, e.g. `Object#3.count`, `Array#5[0]` or `Map#2[Symbol(iterate)]`
+     */
+    static formatDependency(dependency: ReactiveDependency): string {
+        const { key } = dependency;
+        const target = `${dependency.targetType}#${dependency.targetId}`;
+        if (typeof key === "string" && !/^\d+$/.test(key)) {
+            return `${target}.${key}`;
+        }
+        return `${target}[${typeof key === "symbol" ? key.toString() : String(key)}]`;
+    }
+
+    /**
+     * Creates the dependency list next to the readers of the selected dependency
+     * @returns Container with both lists
+     */
+    render(dependencies: ReactiveDependency[]): HTMLDivElement {
+        const container = document.createElement("div");
+        container.id = "vue-flow-vis-dependencies";
+        container.style.flex = "1";
+        container.style.display = "flex";
+        container.style.minHeight = "0";
+        container.style.fontFamily = theme.fonts.primary;
+        container.style.fontSize = theme.fontSizes.sm;
+
+        if (dependencies.length === 0) {
+            container.appendChild(this.createEmptyText("vue-flow-vis-no-dependencies", NO_DEPENDENCIES));
+            return container;
+        }
+
+        const sorted = [...dependencies].sort((a, b) => b.readers.length - a.readers.length
+            || DependencyGraphView.formatDependency(a).localeCompare(DependencyGraphView.formatDependency(b)));
+        const selected = sorted.find((dependency) => this.getId(dependency) === this.selectedId) ?? null;
+        if (!selected) {
+            this.selectedId = null;
+        }
+
+        container.appendChild(this.createDependencyList(sorted, container));
+        container.appendChild(this.createReaderList(selected));
+        return container;
+    }
+
+    private createDependencyList(dependencies: ReactiveDependency[], container: HTMLDivElement): HTMLDivElement {
+        const list = document.createElement("div");
+        list.id = "vue-flow-vis-dependency-list";
+        list.style.flex = "1";
+        list.style.overflow = "auto";
+        list.style.borderRight = `${theme.borderWidths.thin} solid ${theme.colors.border}`;
+
+        dependencies.forEach((dependency, index) => {
+            const row = document.createElement("div");
+            row.id = `vue-flow-vis-dependency-${index}`;
+            row.style.display = "flex";
+            row.style.justifyContent = "space-between";
+            row.style.gap = theme.spacing.md;
+            row.style.padding = `${theme.spacing.xs} ${theme.spacing.md}`;
+            row.style.cursor = "pointer";
+            row.style.borderBottom = `${theme.borderWidths.thin} solid ${theme.colors.border}`;
+            if (this.getId(dependency) === this.selectedId) {
+                row.style.backgroundColor = theme.colors.backgroundHover;
+            }
+
+            const label = document.createElement("span");
+            label.textContent = DependencyGraphView.formatDependency(dependency);
+            label.style.overflow = "hidden";
+            label.style.textOverflow = "ellipsis";
+            label.style.whiteSpace = "nowrap";
+
+            const count = document.createElement("span");
+            count.textContent = `${dependency.readers.length} ${dependency.readers.length === 1 ? "component" : "components"}`;
+            count.style.color = theme.colors.textMuted;
+            count.style.flexShrink = "0";
+
+            row.appendChild(label);
+            row.appendChild(count);
+            row.onclick = (): void => {
+                this.selectedId = this.getId(dependency);
+                list.querySelectorAll<HTMLDivElement>("[id^='vue-flow-vis-dependency-']").forEach((item) => {
+                    item.style.backgroundColor = item === row ? theme.colors.backgroundHover : "";
+                });
+                container.querySelector("#vue-flow-vis-dependency-readers")?.replaceWith(this.createReaderList(dependency));
+            };
+            list.appendChild(row);
+        });
+
+        return list;
+    }
+
+    private createReaderList(dependency: ReactiveDependency | null): HTMLDivElement {
+        const list = document.createElement("div");
+        list.id = "vue-flow-vis-dependency-readers";
+        list.style.flex = "1";
+        list.style.overflow = "auto";
+
+        if (!dependency) {
+            list.appendChild(this.createEmptyText("vue-flow-vis-no-dependency-selected", NO_DEPENDENCY_SELECTED));
+            return list;
+        }
+
+        const title = document.createElement("div");
+        title.id = "vue-flow-vis-dependency-readers-title";
+        title.textContent = `Re-render when ${DependencyGraphView.formatDependency(dependency)} changes`;
+        title.style.padding = `${theme.spacing.xs} ${theme.spacing.md}`;
+        title.style.fontWeight = "bold";
+        title.style.borderBottom = `${theme.borderWidths.thin} solid ${theme.colors.border}`;
+        list.appendChild(title);
+
+        const readers = [...dependency.readers].sort((a, b) => a.componentPath.localeCompare(b.componentPath) || a.instanceId - b.instanceId);
+        for (const reader of readers) {
+            const row = document.createElement("div");
+            row.id = `vue-flow-vis-dependency-reader-${reader.instanceId}`;
+            row.textContent = ComponentIdentifier.formatInstanceLabel(reader.componentName, reader.instanceId);
+            row.title = reader.componentPath;
+            row.style.padding = `${theme.spacing.xs} ${theme.spacing.md}`;
+            row.style.cursor = "pointer";
+            row.style.borderBottom = `${theme.borderWidths.thin} solid ${theme.colors.border}`;
+            row.onclick = (): void => this.callbacks.onReaderSelect(reader);
+            list.appendChild(row);
+        }
+
+        return list;
+    }
+
+    private createEmptyText(id: string, text: string): HTMLParagraphElement {
+        const empty = document.createElement("p");
+        empty.id = id;
+        empty.textContent = text;
+        empty.style.color = theme.colors.textMuted;
+        empty.style.fontStyle = "italic";
+        empty.style.margin = "0";
+        empty.style.padding = theme.spacing.md;
+        return empty;
+    }
+
+    private getId(dependency: ReactiveDependency): string {
+        return `${dependency.targetId}:${DependencyGraphView.formatDependency(dependency)}`;
+    }
+}
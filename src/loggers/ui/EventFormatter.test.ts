@@ -203,4 +203,23 @@ describe('EventFormatter', () => {
       expect(EventFormatter.formatValue(instance)).toBe(expected)
     })
   })
+
+  describe('formatDuration', () => {
+    it('should format durations below one second in milliseconds', () => {
+      expect(EventFormatter.formatDuration(0)).toBe('0.00ms')
+      expect(EventFormatter.formatDuration(1.2345)).toBe('1.23ms')
+      expect(EventFormatter.formatDuration(999.5)).toBe('999.50ms')
+    })
+
+    it('should format durations of one second or more in seconds', () => {
+      expect(EventFormatter.formatDuration(1000)).toBe('1.00s')
+      expect(EventFormatter.formatDuration(2345)).toBe('2.35s')
+    })
+
+    it('should handle invalid durations', () => {
+      expect(EventFormatter.formatDuration(-1)).toBe('-')
+      expect(EventFormatter.formatDuration(NaN)).toBe('-')
+      expect(EventFormatter.formatDuration(Infinity)).toBe('-')
+    })
+  })
 })
\ No newline at end of file
@@ -71,4 +71,17 @@ export class EventFormatter {
             return '[Object]';
         }
     }
+
+    /**
+     * Formats a render duration for display in the event list
+     * @param duration - The duration in milliseconds
+     * @returns Formatted duration with a ms or s unit
+     */
+    static formatDuration(duration: number): string {
+        if (!Number.isFinite(duration) || duration < 0) return '-';
+        if (duration >= 1000) {
+            return `${(duration / 1000).toFixed(2)}s`;
+        }
+        return `${duration.toFixed(2)}ms`;
+    }
 }
\ No newline at end of file
@@ -0,0 +1,185 @@
+/* eslint-disable no-undef */
+import { ComponentLifetimeStats, LifecycleReason } from "../../types";
+import { EventFormatter } from "./EventFormatter";
+import { NO_LIFECYCLE_EVENTS } from "./strings";
+import { theme } from "./theme";
+import { ComponentIdentifier } from "../../utils/componentIdentifier";
+
+/**
+ * Mount to unmount span of one component instance
+ */
+export type InstanceLifetime = {
+    componentName: string;
+    componentPath: string;
+    instanceId: number;
+    key?: string | number | symbol;
+    mountedAt: number;
+    mountReason?: LifecycleReason;
+    replacedInstanceId?: number;
+    unmountedAt?: number;
+    unmountReason?: LifecycleReason;
+}
+
+const SUMMARY_COLUMNS = ["Component", "Created", "Alive", "Remounts", "Avg lifetime"];
+
+/**
+ * Renders per-component lifetime counters and a bar per instance from its mount to its unmount
+ */
+export class LifecycleTimelineView {
+    /**
+     * Creates the counters table followed by the instance timeline
+     * @param summaries - Counters of the monitor's lifecycle tracker keyed by component name
+     * @param lifetimes - Instance spans in the order the instances were mounted
+     * @param now - End of the time axis for instances that are still mounted
+     * @returns Scrollable container with the table and the timeline
+     */
+    static render(summaries: ReadonlyMap<string, ComponentLifetimeStats>, lifetimes: InstanceLifetime[], now: number = Date.now()): HTMLDivElement {
+        const container = document.createElement("div");
+        container.id = "vue-flow-vis-timeline";
+        container.style.flex = "1";
+        container.style.overflow = "auto";
+        container.style.minHeight = "0";
+        container.style.padding = `${theme.spacing.sm} ${theme.spacing.md}`;
+        container.style.fontFamily = theme.fonts.primary;
+        container.style.fontSize = theme.fontSizes.sm;
+
+        if (summaries.size === 0 && lifetimes.length === 0) {
+            const empty = document.createElement("p");
+            empty.id = "vue-flow-vis-no-lifecycle-events";
+            empty.textContent = NO_LIFECYCLE_EVENTS;
+            empty.style.color = theme.colors.textMuted;
+            empty.style.fontStyle = "italic";
+            empty.style.margin = "0";
+            empty.style.padding = theme.spacing.md;
+            container.appendChild(empty);
+            return container;
+        }
+
+        container.appendChild(this.createSummaryTable(summaries));
+        container.appendChild(this.createTimeline(lifetimes, now));
+
+        return container;
+    }
+
+    /**
+     * Formats a mount reason, e.g. `key-changed, replaced #12`
+     */
+    static formatMountReason(reason: LifecycleReason | undefined, replacedInstanceId?: number): string {
+        if (!reason) return "";
+        return replacedInstanceId === undefined ? reason : `${reason}, replaced #${replacedInstanceId}`;
+    }
+
+    private static createSummaryTable(summaries: ReadonlyMap<string, ComponentLifetimeStats>): HTMLTableElement {
+        const table = document.createElement("table");
+        table.id = "vue-flow-vis-lifetime-table";
+        table.style.width = "100%";
+        table.style.borderCollapse = "collapse";
+        table.style.marginBottom = theme.spacing.xl;
+
+        const headerRow = document.createElement("tr");
+        for (const column of SUMMARY_COLUMNS) {
+            const cell = document.createElement("th");
+            cell.textContent = column;
+            cell.style.textAlign = column === "Component" ? "left" : "right";
+            cell.style.padding = `${theme.spacing.xs} ${theme.spacing.md}`;
+            cell.style.borderBottom = `${theme.borderWidths.thin} solid ${theme.colors.border}`;
+            headerRow.appendChild(cell);
+        }
+        table.appendChild(headerRow);
+
+        // Components that remount the most are the likely suspects
+        const entries = Array.from(summaries.entries())
+            .sort(([, a], [, b]) => b.remounts - a.remounts || b.created - a.created);
+
+        for (const [componentName, summary] of entries) {
+            const row = document.createElement("tr");
+            row.id = `vue-flow-vis-lifetime-row-${componentName.replace(/[^a-zA-Z0-9]/g, '-')}`;
+
+            const averageLifetime = summary.unmounted > 0 ? EventFormatter.formatDuration(summary.averageLifetime) : "-";
+            const values = [componentName, `${summary.created}`, `${summary.alive}`, `${summary.remounts}`, averageLifetime];
+            values.forEach((value, index) => {
+                const cell = document.createElement("td");
+                cell.textContent = value;
+                cell.style.textAlign = index === 0 ? "left" : "right";
+                cell.style.padding = `${theme.spacing.xs} ${theme.spacing.md}`;
+                cell.style.borderBottom = `${theme.borderWidths.thin} solid ${theme.colors.border}`;
+                if (index === 3 && summary.remounts > 0) {
+                    cell.style.color = theme.colors.warning;
+                    cell.style.fontWeight = "bold";
+                }
+                row.appendChild(cell);
+            });
+            table.appendChild(row);
+        }
+
+        return table;
+    }
+
+    private static createTimeline(lifetimes: InstanceLifetime[], now: number): HTMLDivElement {
+        const timeline = document.createElement("div");
+        timeline.id = "vue-flow-vis-timeline-instances";
+        timeline.style.display = "flex";
+        timeline.style.flexDirection = "column";
+        timeline.style.gap = theme.spacing.xs;
+
+        const start = Math.min(...lifetimes.map((lifetime) => lifetime.mountedAt));
+        // Keep a minimal range so instances mounted in the same millisecond still get a visible bar
+        const range = Math.max(now - start, 1);
+
+        for (const lifetime of lifetimes) {
+            const row = document.createElement("div");
+            row.id = `vue-flow-vis-timeline-instance-${lifetime.instanceId}`;
+            row.style.display = "flex";
+            row.style.alignItems = "center";
+            row.style.gap = theme.spacing.md;
+
+            const label = document.createElement("span");
+            label.textContent = ComponentIdentifier.formatInstanceLabel(lifetime.componentName, lifetime.instanceId, lifetime.key);
+            label.title = lifetime.componentPath;
+            label.style.flex = "0 0 30%";
+            label.style.whiteSpace = "nowrap";
+            label.style.overflow = "hidden";
+            label.style.textOverflow = "ellipsis";
+
+            const track = document.createElement("div");
+            track.style.flex = "1";
+            track.style.position = "relative";
+            track.style.height = "0.8em";
+            track.style.backgroundColor = theme.colors.backgroundTertiary;
+
+            const end = lifetime.unmountedAt ?? now;
+            const bar = document.createElement("div");
+            bar.id = `vue-flow-vis-timeline-bar-${lifetime.instanceId}`;
+            bar.style.position = "absolute";
+            bar.style.top = "0";
+            bar.style.bottom = "0";
+            bar.style.left = `${((lifetime.mountedAt - start) / range) * 100}%`;
+            bar.style.width = `${((end - lifetime.mountedAt) / range) * 100}%`;
+            bar.style.minWidth = "2px";
+            bar.style.backgroundColor = lifetime.unmountedAt === undefined ? theme.colors.lifecycle : theme.colors.textDisabled;
+            // Remounts stand out so unexpected key changes and v-if flips are easy to spot
+            if (lifetime.mountReason === "remounted" || lifetime.mountReason === "key-changed") {
+                bar.style.borderLeft = `3px solid ${theme.colors.warning}`;
+            }
+            bar.title = this.formatSpan(lifetime, end);
+
+            track.appendChild(bar);
+            row.appendChild(label);
+            row.appendChild(track);
+            timeline.appendChild(row);
+        }
+
+        return timeline;
+    }
+
+    private static formatSpan(lifetime: InstanceLifetime, end: number): string {
+        const mountReason = this.formatMountReason(lifetime.mountReason, lifetime.replacedInstanceId);
+        const mounted = `Mounted at ${new Date(lifetime.mountedAt).toLocaleTimeString()}${mountReason ? ` (${mountReason})` : ""}`;
+        const duration = EventFormatter.formatDuration(end - lifetime.mountedAt);
+        if (lifetime.unmountedAt === undefined) {
+            return `${mounted}\nAlive for ${duration}`;
+        }
+        const unmountReason = lifetime.unmountReason ? ` (${lifetime.unmountReason})` : "";
+        return `${mounted}\nUnmounted after ${duration}${unmountReason}`;
+    }
+}
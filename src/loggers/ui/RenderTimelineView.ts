@@ -0,0 +1,458 @@
+/* eslint-disable no-undef */
+import { EventFormatter } from "./EventFormatter";
+import { NO_RENDER_TIMELINE_EVENTS } from "./strings";
+import { theme } from "./theme";
+
+/**
+ * Time range in epoch milliseconds
+ */
+export type TimeRange = {
+    start: number;
+    end: number;
+}
+
+export type TimelineRender = {
+    instanceId: number;
+    phase: 'mount' | 'update';
+    start: number;
+    end: number;
+}
+
+/**
+ * Renders and triggered events of one sidebar component, drawn as one lane
+ */
+export type TimelineLane = {
+    /** Sidebar key of the component, passed back when the lane is selected */
+    key: string;
+    label: string;
+    renders: TimelineRender[];
+    /** Timestamps of the triggered events */
+    triggers: number[];
+}
+
+export type RenderTimelineCallbacks = {
+    /** Called when a time range is brushed, or with null when the selection is cleared */
+    onRangeChange: (range: TimeRange | null) => void;
+    onLaneSelect: (key: string) => void;
+}
+
+const ZOOM_FACTOR = 1.5;
+const MIN_VISIBLE_SPAN = 1; // Zoom limit in milliseconds
+const AXIS_TICKS = 5;
+const MIN_BRUSH_PIXELS = 3; // Shorter drags are clicks and clear the selection
+const FRAME_BUDGET = 16; // Renders longer than one 60fps frame are drawn as hotspots
+
+/**
+ * Horizontal time axis with one lane per component. Renders are drawn as bars and triggered
+ * events as marks. The wheel zooms around the cursor, shift + wheel pans, dragging over the
+ * lanes selects a time range.
+ */
+export class RenderTimelineView {
+    private callbacks: RenderTimelineCallbacks;
+    private lanes: TimelineLane[] = [];
+    private bounds: TimeRange = { start: 0, end: 0 };
+    /** Visible range, null to fit all recorded events */
+    private viewRange: TimeRange | null = null;
+    private selection: TimeRange | null = null;
+    private container: HTMLDivElement | null = null;
+    private brushTrack: HTMLElement | null = null;
+    private brushOrigin: { x: number, time: number } | null = null;
+
+    constructor(callbacks: RenderTimelineCallbacks) {
+        this.callbacks = callbacks;
+    }
+
+    /**
+     * Creates the timeline for the given lanes, keeping zoom and selection of earlier renders
+     * @returns Container with the toolbar, the time axis and the lanes
+     */
+    render(lanes: TimelineLane[]): HTMLDivElement {
+        this.lanes = lanes;
+        this.bounds = this.measureBounds(lanes);
+
+        this.container = document.createElement("div");
+        this.container.id = "vue-flow-vis-flame-chart";
+        this.container.style.flex = "1";
+        this.container.style.display = "flex";
+        this.container.style.flexDirection = "column";
+        this.container.style.minHeight = "0";
+        this.container.style.fontFamily = theme.fonts.primary;
+        this.container.style.fontSize = theme.fontSizes.sm;
+        this.draw();
+
+        return this.container;
+    }
+
+    getSelection(): TimeRange | null {
+        return this.selection;
+    }
+
+    /**
+     * Removes the brushed range without notifying the callbacks
+     */
+    clearSelection(): void {
+        this.selection = null;
+        this.draw();
+    }
+
+    /**
+     * Drops zoom and selection, e.g. when the log is cleared
+     */
+    reset(): void {
+        this.viewRange = null;
+        this.selection = null;
+        this.lanes = [];
+        this.container = null;
+        this.stopBrushing();
+    }
+
+    zoom(factor: number, anchor?: number): void {
+        const view = this.getViewRange();
+        const span = view.end - view.start;
+        const center = anchor ?? view.start + span / 2;
+        const newSpan = Math.min(Math.max(span * factor, MIN_VISIBLE_SPAN), this.bounds.end - this.bounds.start);
+        const ratio = span > 0 ? (center - view.start) / span : 0.5;
+
+        this.setViewRange(center - newSpan * ratio, center + newSpan * (1 - ratio));
+    }
+
+    pan(offset: number): void {
+        const view = this.getViewRange();
+        this.setViewRange(view.start + offset, view.end + offset);
+    }
+
+    resetZoom(): void {
+        this.viewRange = null;
+        this.draw();
+    }
+
+    private setViewRange(start: number, end: number): void {
+        const span = end - start;
+        // Keep the view inside the recorded events
+        const clampedStart = Math.min(Math.max(start, this.bounds.start), this.bounds.end - span);
+        const fitsAll = span >= this.bounds.end - this.bounds.start;
+        this.viewRange = fitsAll ? null : { start: clampedStart, end: clampedStart + span };
+        this.draw();
+    }
+
+    private getViewRange(): TimeRange {
+        return this.viewRange ?? this.bounds;
+    }
+
+    private measureBounds(lanes: TimelineLane[]): TimeRange {
+        let start = Infinity;
+        let end = -Infinity;
+        for (const lane of lanes) {
+            for (const render of lane.renders) {
+                start = Math.min(start, render.start);
+                end = Math.max(end, render.end);
+            }
+            for (const trigger of lane.triggers) {
+                start = Math.min(start, trigger);
+                end = Math.max(end, trigger);
+            }
+        }
+        if (start === Infinity) {
+            return { start: 0, end: 0 };
+        }
+        // Give a single event some room around it
+        return { start, end: Math.max(end, start + MIN_VISIBLE_SPAN) };
+    }
+
+    private draw(): void {
+        if (!this.container) return;
+
+        const previousScrollTop = this.container.querySelector("#vue-flow-vis-flame-lanes")?.scrollTop ?? 0;
+        this.container.innerHTML = "";
+
+        if (this.lanes.length === 0) {
+            const empty = document.createElement("p");
+            empty.id = "vue-flow-vis-no-flame-events";
+            empty.textContent = NO_RENDER_TIMELINE_EVENTS;
+            empty.style.color = theme.colors.textMuted;
+            empty.style.fontStyle = "italic";
+            empty.style.margin = "0";
+            empty.style.padding = theme.spacing.xl;
+            this.container.appendChild(empty);
+            return;
+        }
+
+        this.container.appendChild(this.createToolbar());
+        this.container.appendChild(this.createAxis());
+
+        const lanesArea = document.createElement("div");
+        lanesArea.id = "vue-flow-vis-flame-lanes";
+        lanesArea.style.flex = "1";
+        lanesArea.style.overflow = "auto";
+        lanesArea.style.minHeight = "0";
+        lanesArea.onwheel = (event: WheelEvent): void => this.handleWheel(event);
+
+        // Components with the most render time are the hotspots
+        const lanes = [...this.lanes].sort((a, b) => this.getRenderTime(b) - this.getRenderTime(a));
+        for (const lane of lanes) {
+            lanesArea.appendChild(this.createLane(lane));
+        }
+
+        this.container.appendChild(lanesArea);
+        lanesArea.scrollTop = previousScrollTop;
+    }
+
+    private createToolbar(): HTMLDivElement {
+        const toolbar = document.createElement("div");
+        toolbar.id = "vue-flow-vis-flame-toolbar";
+        toolbar.style.display = "flex";
+        toolbar.style.alignItems = "center";
+        toolbar.style.gap = theme.spacing.md;
+        toolbar.style.padding = `${theme.spacing.sm} ${theme.spacing.md}`;
+        toolbar.style.borderBottom = `${theme.borderWidths.thin} solid ${theme.colors.border}`;
+        toolbar.style.flexShrink = "0";
+
+        toolbar.appendChild(this.createToolbarButton("zoom-in", "+", "Zoom in", () => this.zoom(1 / ZOOM_FACTOR)));
+        toolbar.appendChild(this.createToolbarButton("zoom-out", "−", "Zoom out", () => this.zoom(ZOOM_FACTOR)));
+        toolbar.appendChild(this.createToolbarButton("reset-zoom", "Fit", "Show all recorded events", () => this.resetZoom()));
+
+        const view = this.getViewRange();
+        const span = document.createElement("span");
+        span.id = "vue-flow-vis-flame-span";
+        span.textContent = `${EventFormatter.formatDuration(view.end - view.start)} visible`;
+        span.style.color = theme.colors.textMuted;
+        toolbar.appendChild(span);
+
+        if (this.selection) {
+            const selection = document.createElement("span");
+            selection.id = "vue-flow-vis-flame-selection";
+            selection.textContent = `${EventFormatter.formatDuration(this.selection.end - this.selection.start)} selected`;
+            selection.style.marginLeft = "auto";
+            selection.style.color = theme.colors.primary;
+            toolbar.appendChild(selection);
+            toolbar.appendChild(this.createToolbarButton("clear-selection", "×", "Clear the selected time range", () => {
+                this.clearSelection();
+                this.callbacks.onRangeChange(null);
+            }));
+        }
+
+        return toolbar;
+    }
+
+    private createToolbarButton(name: string, text: string, title: string, onClick: () => void): HTMLButtonElement {
+        const button = document.createElement("button");
+        button.id = `vue-flow-vis-flame-${name}`;
+        button.textContent = text;
+        button.title = title;
+        button.style.border = `${theme.borderWidths.thin} solid ${theme.colors.border}`;
+        button.style.borderRadius = theme.borderRadius.sm;
+        button.style.backgroundColor = theme.colors.backgroundPrimary;
+        button.style.cursor = "pointer";
+        button.style.padding = `0 ${theme.spacing.md}`;
+        button.style.fontFamily = theme.fonts.primary;
+        button.onclick = onClick;
+        return button;
+    }
+
+    private createAxis(): HTMLDivElement {
+        const axis = document.createElement("div");
+        axis.id = "vue-flow-vis-flame-axis";
+        axis.style.display = "flex";
+        axis.style.flexShrink = "0";
+        axis.style.color = theme.colors.textMuted;
+        axis.style.fontSize = theme.fontSizes.xs;
+        axis.style.borderBottom = `${theme.borderWidths.thin} solid ${theme.colors.border}`;
+
+        axis.appendChild(this.createLaneLabelSpacer());
+
+        const ticks = document.createElement("div");
+        ticks.style.flex = "1";
+        ticks.style.position = "relative";
+        ticks.style.height = "1.4em";
+
+        const view = this.getViewRange();
+        for (let i = 0; i < AXIS_TICKS; i++) {
+            const time = view.start + ((view.end - view.start) * i) / AXIS_TICKS;
+            const tick = document.createElement("span");
+            tick.className = "vue-flow-vis-flame-tick";
+            // Offsets from the first recorded event
+            tick.textContent = `+${EventFormatter.formatDuration(time - this.bounds.start)}`;
+            tick.style.position = "absolute";
+            tick.style.left = `${(i / AXIS_TICKS) * 100}%`;
+            tick.style.borderLeft = `${theme.borderWidths.thin} solid ${theme.colors.border}`;
+            tick.style.paddingLeft = theme.spacing.xs;
+            ticks.appendChild(tick);
+        }
+
+        axis.appendChild(ticks);
+        return axis;
+    }
+
+    private createLaneLabelSpacer(): HTMLDivElement {
+        const spacer = document.createElement("div");
+        spacer.style.flex = "0 0 25%";
+        return spacer;
+    }
+
+    private createLane(lane: TimelineLane): HTMLDivElement {
+        const laneKey = lane.key.replace(/[^a-zA-Z0-9]/g, '-');
+        const row = document.createElement("div");
+        row.id = `vue-flow-vis-flame-lane-${laneKey}`;
+        row.style.display = "flex";
+        row.style.alignItems = "center";
+        row.style.borderBottom = `${theme.borderWidths.thin} solid ${theme.colors.backgroundTertiary}`;
+
+        const label = document.createElement("span");
+        label.id = `vue-flow-vis-flame-label-${laneKey}`;
+        label.textContent = `${lane.label} (${lane.renders.length})`;
+        label.title = `${lane.key}\nShow the events of this component`;
+        label.style.flex = "0 0 25%";
+        label.style.boxSizing = "border-box";
+        label.style.padding = `${theme.spacing.xs} ${theme.spacing.md}`;
+        label.style.whiteSpace = "nowrap";
+        label.style.overflow = "hidden";
+        label.style.textOverflow = "ellipsis";
+        label.style.cursor = "pointer";
+        label.onclick = (): void => this.callbacks.onLaneSelect(lane.key);
+
+        const track = document.createElement("div");
+        track.id = `vue-flow-vis-flame-track-${laneKey}`;
+        track.style.flex = "1";
+        track.style.position = "relative";
+        track.style.alignSelf = "stretch";
+        track.style.minHeight = "1.4em";
+        track.style.overflow = "hidden";
+        track.style.cursor = "crosshair";
+        track.onmousedown = (event: MouseEvent): void => this.startBrushing(event, track);
+
+        const view = this.getViewRange();
+        const span = view.end - view.start;
+        const toPercent = (time: number): number => ((time - view.start) / span) * 100;
+
+        for (const trigger of lane.triggers) {
+            if (trigger < view.start || trigger > view.end) continue;
+            const mark = document.createElement("div");
+            mark.className = "vue-flow-vis-flame-trigger";
+            mark.style.position = "absolute";
+            mark.style.top = "0";
+            mark.style.bottom = "0";
+            mark.style.left = `${toPercent(trigger)}%`;
+            mark.style.width = "1px";
+            mark.style.backgroundColor = theme.colors.triggered;
+            track.appendChild(mark);
+        }
+
+        for (const render of lane.renders) {
+            if (render.end < view.start || render.start > view.end) continue;
+            const duration = render.end - render.start;
+            const bar = document.createElement("div");
+            bar.className = "vue-flow-vis-flame-render";
+            bar.title = `#${render.instanceId} ${render.phase} ${EventFormatter.formatDuration(duration)}`;
+            bar.style.position = "absolute";
+            bar.style.top = "20%";
+            bar.style.bottom = "20%";
+            bar.style.left = `${toPercent(render.start)}%`;
+            bar.style.width = `${(duration / span) * 100}%`;
+            bar.style.minWidth = "2px";
+            bar.style.backgroundColor = duration > FRAME_BUDGET ? theme.colors.error : theme.colors.rendered;
+            track.appendChild(bar);
+        }
+
+        if (this.selection) {
+            track.appendChild(this.createBrush(toPercent(this.selection.start), toPercent(this.selection.end)));
+        }
+
+        row.appendChild(label);
+        row.appendChild(track);
+        return row;
+    }
+
+    private createBrush(startPercent: number, endPercent: number): HTMLDivElement {
+        const brush = document.createElement("div");
+        brush.className = "vue-flow-vis-flame-brush";
+        brush.style.position = "absolute";
+        brush.style.top = "0";
+        brush.style.bottom = "0";
+        brush.style.left = `${Math.max(startPercent, 0)}%`;
+        brush.style.width = `${Math.max(Math.min(endPercent, 100) - Math.max(startPercent, 0), 0)}%`;
+        brush.style.backgroundColor = theme.colors.primary;
+        brush.style.opacity = "0.2";
+        brush.style.pointerEvents = "none";
+        return brush;
+    }
+
+    private getRenderTime(lane: TimelineLane): number {
+        return lane.renders.reduce((total, render) => total + render.end - render.start, 0);
+    }
+
+    private getTimeAt(clientX: number, track: HTMLElement): number | null {
+        const rect = track.getBoundingClientRect();
+        if (rect.width === 0) return null;
+
+        const view = this.getViewRange();
+        const ratio = Math.min(Math.max((clientX - rect.left) / rect.width, 0), 1);
+        return view.start + ratio * (view.end - view.start);
+    }
+
+    private handleWheel(event: WheelEvent): void {
+        const track = (event.target as HTMLElement).closest<HTMLElement>("[id^='vue-flow-vis-flame-track-']");
+        if (!track) return;
+
+        event.preventDefault();
+        const view = this.getViewRange();
+        const span = view.end - view.start;
+        const rect = track.getBoundingClientRect();
+
+        if (event.shiftKey || Math.abs(event.deltaX) > Math.abs(event.deltaY)) {
+            const delta = event.shiftKey ? event.deltaY : event.deltaX;
+            this.pan(rect.width > 0 ? (delta / rect.width) * span : 0);
+            return;
+        }
+
+        this.zoom(event.deltaY < 0 ? 1 / ZOOM_FACTOR : ZOOM_FACTOR, this.getTimeAt(event.clientX, track) ?? undefined);
+    }
+
+    private startBrushing(event: MouseEvent, track: HTMLElement): void {
+        const time = this.getTimeAt(event.clientX, track);
+        if (time === null) return;
+
+        event.preventDefault();
+        this.brushTrack = track;
+        this.brushOrigin = { x: event.clientX, time };
+        document.addEventListener("mousemove", this.onBrushMove);
+        document.addEventListener("mouseup", this.onBrushEnd);
+    }
+
+    private onBrushMove = (event: MouseEvent): void => {
+        if (!this.brushTrack || !this.brushOrigin) return;
+        const time = this.getTimeAt(event.clientX, this.brushTrack);
+        if (time === null) return;
+
+        const selection = { start: Math.min(this.brushOrigin.time, time), end: Math.max(this.brushOrigin.time, time) };
+        this.selection = selection;
+
+        // Only move the brush overlays while dragging, the lanes are redrawn when the drag ends
+        const view = this.getViewRange();
+        const toPercent = (value: number): number => ((value - view.start) / (view.end - view.start)) * 100;
+        this.container?.querySelectorAll("[id^='vue-flow-vis-flame-track-']").forEach((track) => {
+            track.querySelector(".vue-flow-vis-flame-brush")?.remove();
+            track.appendChild(this.createBrush(toPercent(selection.start), toPercent(selection.end)));
+        });
+    };
+
+    private onBrushEnd = (event: MouseEvent): void => {
+        const origin = this.brushOrigin;
+        this.stopBrushing();
+        if (!origin) return;
+
+        if (Math.abs(event.clientX - origin.x) < MIN_BRUSH_PIXELS) {
+            this.selection = null;
+        }
+        this.draw();
+        this.callbacks.onRangeChange(this.selection);
+    };
+
+    private stopBrushing(): void {
+        if (!this.brushOrigin) return;
+
+        document.removeEventListener("mousemove", this.onBrushMove);
+        document.removeEventListener("mouseup", this.onBrushEnd);
+        this.brushTrack = null;
+        this.brushOrigin = null;
+    }
+}
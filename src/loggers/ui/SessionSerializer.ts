@@ -0,0 +1,321 @@
+import type { DebuggerEvent } from "vue";
+import { ComponentLifetimeStats, ComponentMetadata, LifecycleEventData, RenderCascade, RenderCascadeNode, RenderCycle, RenderEventData, RenderTimingData, RenderWarning } from "../../types";
+import { serializeValue } from "../../utils/serializeValue";
+
+export const SESSION_FORMAT = "vue-flow-vis-session";
+export const SESSION_VERSION = 1;
+
+/**
+ * Recorded entry of a session. Reactive values in the data are replaced by JSON-safe copies.
+ */
+export type SessionRecord =
+    | {type: 'tracked' | 'triggered', timestamp: string, data: RenderEventData}
+    | {type: 'rendered', timestamp: string, data: RenderTimingData}
+    | {type: 'cycle', timestamp: string, data: RenderCycle}
+    | {type: 'lifecycle', timestamp: string, data: LifecycleEventData}
+    | {type: 'cascade', data: RenderCascade}
+    | {type: 'warning', data: RenderWarning};
+
+export type SessionComponent = {
+    name: string;
+    componentPath?: string;
+    eventCount: number;
+    instanceIds: number[];
+}
+
+type FieldType = "string" | "number" | "boolean" | "object" | "array";
+
+/** Required fields of a recorded object and their JSON types */
+type Shape = Record<string, FieldType>;
+
+const COMPONENT_FIELDS: Shape = { componentName: "string", componentPath: "string", instanceId: "number" };
+const EVENT_DATA_FIELDS: Shape = { ...COMPONENT_FIELDS, event: "object", timestamp: "number" };
+const TIMING_FIELDS: Shape = { ...COMPONENT_FIELDS, phase: "string", startTime: "number", duration: "number", timestamp: "number", triggers: "array" };
+const CYCLE_FIELDS: Shape = { ...COMPONENT_FIELDS, id: "number", sequence: "number", phase: "string", triggers: "array", tracked: "array", timing: "object" };
+const LIFECYCLE_FIELDS: Shape = { ...COMPONENT_FIELDS, type: "string", timestamp: "number" };
+const CASCADE_FIELDS: Shape = { id: "number", timestamp: "number", nodes: "array", componentCount: "number", depth: "number" };
+const CASCADE_NODE_FIELDS: Shape = { ...COMPONENT_FIELDS, triggers: "array", children: "array" };
+const WARNING_FIELDS: Shape = { ...COMPONENT_FIELDS, type: "string", message: "string", timestamp: "number", count: "number", events: "array" };
+const LIFETIME_FIELDS: Shape = { componentName: "string", created: "number", alive: "number", unmounted: "number", remounts: "number", averageLifetime: "number" };
+const METADATA_FIELDS: Shape = { name: "string", path: "string", uid: "number", props: "array", isSetup: "boolean" };
+
+const RENDER_PHASES = ["mount", "update"];
+const LIFECYCLE_TYPES = ["mounted", "unmounted", "activated", "deactivated", "async-resolved"];
+const WARNING_TYPES = ["render-storm", "identical-value", "render-loop"];
+
+function invalid(problem: string): Error {
+    return new Error(`Invalid session file: ${problem}`);
+}
+
+function getFieldType(value: unknown): string {
+    if (value === null) return "null";
+    return Array.isArray(value) ? "array" : typeof value;
+}
+
+/**
+ * Checks that a value is an object with the given fields
+ * @param path - Location of the value in the document, used in the error message
+ * @throws Error naming the first field that is missing or has the wrong type
+ */
+function expectShape(value: unknown, shape: Shape, path: string): Record<string, unknown> {
+    if (getFieldType(value) !== "object") {
+        throw invalid(`${path} is not an object`);
+    }
+    const object = value as Record<string, unknown>;
+    for (const [field, type] of Object.entries(shape)) {
+        if (getFieldType(object[field]) !== type) {
+            throw invalid(`${path}.${field} is not of type ${type}`);
+        }
+    }
+    if (object.metadata !== undefined) {
+        expectShape(object.metadata, METADATA_FIELDS, `${path}.metadata`);
+    }
+    return object;
+}
+
+function expectOneOf(value: unknown, allowed: string[], path: string): void {
+    if (!allowed.includes(value as string)) {
+        throw invalid(`${path} is not one of ${allowed.join(", ")}`);
+    }
+}
+
+function expectEach(items: unknown, path: string, validate: (item: unknown, path: string) => void): void {
+    (items as unknown[]).forEach((item, index) => validate(item, `${path}[${index}]`));
+}
+
+function validateEventData(value: unknown, path: string): void {
+    expectShape(value, EVENT_DATA_FIELDS, path);
+}
+
+function validateTiming(value: unknown, path: string): void {
+    const timing = expectShape(value, TIMING_FIELDS, path);
+    expectOneOf(timing.phase, RENDER_PHASES, `${path}.phase`);
+    expectEach(timing.triggers, `${path}.triggers`, validateEventData);
+}
+
+function validateCascadeNode(value: unknown, path: string): void {
+    const node = expectShape(value, CASCADE_NODE_FIELDS, path);
+    expectEach(node.triggers, `${path}.triggers`, validateEventData);
+    expectEach(node.children, `${path}.children`, validateCascadeNode);
+}
+
+/**
+ * Checks a record before anything is replayed, so a broken file can not half replace a session
+ */
+function validateRecord(value: unknown, path: string): void {
+    const record = expectShape(value, { type: "string" }, path);
+    const dataPath = `${path}.data`;
+    switch (record.type) {
+        case "tracked":
+        case "triggered":
+            expectShape(record, { timestamp: "string" }, path);
+            validateEventData(record.data, dataPath);
+            return;
+        case "rendered":
+            expectShape(record, { timestamp: "string" }, path);
+            validateTiming(record.data, dataPath);
+            return;
+        case "cycle": {
+            expectShape(record, { timestamp: "string" }, path);
+            const cycle = expectShape(record.data, CYCLE_FIELDS, dataPath);
+            expectOneOf(cycle.phase, RENDER_PHASES, `${dataPath}.phase`);
+            expectEach(cycle.triggers, `${dataPath}.triggers`, validateEventData);
+            expectEach(cycle.tracked, `${dataPath}.tracked`, validateEventData);
+            validateTiming(cycle.timing, `${dataPath}.timing`);
+            return;
+        }
+        case "lifecycle": {
+            expectShape(record, { timestamp: "string" }, path);
+            const event = expectShape(record.data, LIFECYCLE_FIELDS, dataPath);
+            expectOneOf(event.type, LIFECYCLE_TYPES, `${dataPath}.type`);
+            return;
+        }
+        case "cascade": {
+            const cascade = expectShape(record.data, CASCADE_FIELDS, dataPath);
+            // Vue reports renders scheduled by a computed without target and type
+            if (cascade.target !== undefined) expectShape(cascade, { target: "object" }, dataPath);
+            if (cascade.type !== undefined) expectShape(cascade, { type: "string" }, dataPath);
+            expectEach(cascade.nodes, `${dataPath}.nodes`, validateCascadeNode);
+            return;
+        }
+        case "warning": {
+            const warning = expectShape(record.data, WARNING_FIELDS, dataPath);
+            expectOneOf(warning.type, WARNING_TYPES, `${dataPath}.type`);
+            expectEach(warning.events, `${dataPath}.events`, validateEventData);
+            return;
+        }
+        default:
+            throw invalid(`${path}.type ${JSON.stringify(record.type)} is not a known record type`);
+    }
+}
+
+export type SessionDocument = {
+    format: typeof SESSION_FORMAT;
+    version: number;
+    exportedAt: string;
+    /** Summary of the recorded components, the panel rebuilds its groups from the records */
+    components: SessionComponent[];
+    /** Mount/unmount counters per component, empty for sessions exported before they were included */
+    lifetimes: ComponentLifetimeStats[];
+    records: SessionRecord[];
+}
+
+/**
+ * Converts recorded sessions to versioned JSON documents and back
+ */
+export class SessionSerializer {
+    /**
+     * Creates a JSON-safe session document
+     * @param records - Recorded entries in the order they were logged
+     * @param components - Summary of the recorded components
+     * @param lifetimes - Mount/unmount counters per component
+     * @returns Document that can be passed to JSON.stringify
+     */
+    static createDocument(records: SessionRecord[], components: SessionComponent[], lifetimes: ComponentLifetimeStats[] = []): SessionDocument {
+        return {
+            format: SESSION_FORMAT,
+            version: SESSION_VERSION,
+            exportedAt: new Date().toISOString(),
+            components,
+            lifetimes,
+            records: records.map((record) => this.serializeRecord(record)),
+        };
+    }
+
+    /**
+     * Parses and validates an exported session, including the shape of every record
+     * @param json - Content of an exported session file
+     * @returns The session document
+     * @throws Error if the content is not a session this version can read
+     */
+    static parse(json: string): SessionDocument {
+        let document: unknown;
+        try {
+            document = JSON.parse(json);
+        } catch (error) {
+            throw new Error(`Invalid session file: ${(error as Error).message}`);
+        }
+
+        const candidate = document as Partial<SessionDocument> | null;
+        if (typeof candidate !== "object" || candidate === null || candidate.format !== SESSION_FORMAT) {
+            throw new Error("Invalid session file: not a vue-flow-vis session");
+        }
+        if (typeof candidate.version !== "number" || candidate.version > SESSION_VERSION) {
+            throw new Error(`Unsupported session version ${String(candidate.version)}, expected ${SESSION_VERSION} or lower`);
+        }
+        if (!Array.isArray(candidate.records)) {
+            throw new Error("Invalid session file: missing records");
+        }
+        expectEach(candidate.records, "records", validateRecord);
+        if (candidate.lifetimes !== undefined) {
+            if (!Array.isArray(candidate.lifetimes)) {
+                throw invalid("lifetimes is not an array");
+            }
+            expectEach(candidate.lifetimes, "lifetimes", (item, path) => {
+                expectShape(item, LIFETIME_FIELDS, path);
+            });
+        }
+
+        return {
+            format: SESSION_FORMAT,
+            version: candidate.version,
+            exportedAt: String(candidate.exportedAt),
+            components: Array.isArray(candidate.components) ? candidate.components : [],
+            lifetimes: candidate.lifetimes ?? [],
+            records: candidate.records,
+        };
+    }
+
+    private static serializeRecord(record: SessionRecord): SessionRecord {
+        switch (record.type) {
+            case 'tracked':
+            case 'triggered':
+                return { ...record, data: this.serializeEventData(record.data) };
+            case 'rendered':
+                return { ...record, data: this.serializeTiming(record.data) };
+            case 'cycle':
+                return { ...record, data: this.serializeCycle(record.data) };
+            case 'cascade':
+                return { ...record, data: this.serializeCascade(record.data) };
+            case 'lifecycle':
+                return { ...record, data: this.serializeLifecycle(record.data) };
+            case 'warning':
+                return { ...record, data: this.serializeWarning(record.data) };
+        }
+    }
+
+    private static serializeEventData(data: RenderEventData): RenderEventData {
+        // The effect links to the component's whole dependency graph, the rest is copied
+        const event: Partial<DebuggerEvent> = { ...data.event };
+        delete event.effect;
+        return {
+            componentName: data.componentName,
+            componentPath: data.componentPath,
+            event: serializeValue(event) as DebuggerEvent,
+            timestamp: data.timestamp,
+            startTime: data.startTime,
+            instanceId: data.instanceId,
+            metadata: data.metadata && this.serializeMetadata(data.metadata),
+            duringRender: data.duringRender,
+            redundant: data.redundant,
+            targetLabel: data.targetLabel,
+        };
+    }
+
+    private static serializeTiming(timing: RenderTimingData): RenderTimingData {
+        const serialized: RenderTimingData = {
+            ...timing,
+            triggers: timing.triggers.map((trigger) => this.serializeEventData(trigger)),
+            metadata: timing.metadata && this.serializeMetadata(timing.metadata),
+        };
+        delete serialized.instance;
+        return serialized;
+    }
+
+    private static serializeLifecycle(event: LifecycleEventData): LifecycleEventData {
+        const serialized: LifecycleEventData = {
+            ...event,
+            metadata: event.metadata && this.serializeMetadata(event.metadata),
+        };
+        delete serialized.instance;
+        return serialized;
+    }
+
+    private static serializeCycle(cycle: RenderCycle): RenderCycle {
+        return {
+            ...cycle,
+            triggers: cycle.triggers.map((trigger) => this.serializeEventData(trigger)),
+            tracked: cycle.tracked.map((tracked) => this.serializeEventData(tracked)),
+            timing: this.serializeTiming(cycle.timing),
+            metadata: cycle.metadata && this.serializeMetadata(cycle.metadata),
+        };
+    }
+
+    private static serializeCascade(cascade: RenderCascade): RenderCascade {
+        const serializeNode = (node: RenderCascadeNode): RenderCascadeNode => ({
+            ...node,
+            triggers: node.triggers.map((trigger) => this.serializeEventData(trigger)),
+            children: node.children.map(serializeNode),
+        });
+        return {
+            ...cascade,
+            target: serializeValue(cascade.target) as object | undefined,
+            key: serializeValue(cascade.key),
+            nodes: cascade.nodes.map(serializeNode),
+        };
+    }
+
+    private static serializeWarning(warning: RenderWarning): RenderWarning {
+        return {
+            ...warning,
+            events: warning.events.map((event) => this.serializeEventData(event)),
+            key: serializeValue(warning.key),
+            metadata: warning.metadata && this.serializeMetadata(warning.metadata),
+        };
+    }
+
+    private static serializeMetadata(metadata: ComponentMetadata): ComponentMetadata {
+        // Symbol keys can not be written to JSON
+        return typeof metadata.key === "symbol" ? { ...metadata, key: metadata.key.toString() } : metadata;
+    }
+}
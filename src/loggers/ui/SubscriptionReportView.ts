@@ -0,0 +1,163 @@
+/* eslint-disable no-undef */
+import { SubscriptionReportEntry } from "../../types";
+import { NO_SUBSCRIPTIONS } from "./strings";
+import { theme } from "./theme";
+
+type SortColumn = Exclude<keyof SubscriptionReportEntry, "hints">;
+
+type ReportColumn = {
+    id: SortColumn;
+    label: string;
+    format: (entry: SubscriptionReportEntry) => string;
+}
+
+const COLUMNS: ReportColumn[] = [
+    { id: "componentName", label: "Component", format: (entry) => entry.componentName },
+    { id: "renderCount", label: "Renders", format: (entry) => `${entry.renderCount}` },
+    { id: "averageDependencies", label: "Avg deps", format: (entry) => entry.averageDependencies.toFixed(1) },
+    { id: "maxDependencies", label: "Max deps", format: (entry) => `${entry.maxDependencies}` },
+    { id: "largeIterationCount", label: "Large iterations", format: (entry) => `${entry.largeIterationCount}` },
+    { id: "triggeredDependencies", label: "Triggered", format: (entry) => `${entry.triggeredDependencies}` },
+    { id: "subscriptionRatio", label: "Ratio", format: (entry) => entry.subscriptionRatio.toFixed(1) },
+];
+
+/**
+ * Sortable table of the subscription report, one row per component with the hints below it
+ */
+export class SubscriptionReportView {
+    private entries: SubscriptionReportEntry[] = [];
+    /** Sort order, kept across refreshes */
+    private sortColumn: SortColumn = "maxDependencies";
+    private sortDescending = true;
+
+    /**
+     * Creates the report table for the given entries
+     * @returns Scrollable container with the table
+     */
+    render(entries: SubscriptionReportEntry[]): HTMLDivElement {
+        this.entries = entries;
+
+        const container = document.createElement("div");
+        container.id = "vue-flow-vis-subscriptions";
+        container.style.flex = "1";
+        container.style.overflow = "auto";
+        container.style.minHeight = "0";
+        container.style.padding = `${theme.spacing.sm} ${theme.spacing.md}`;
+        container.style.fontFamily = theme.fonts.primary;
+        container.style.fontSize = theme.fontSizes.sm;
+
+        if (entries.length === 0) {
+            const empty = document.createElement("p");
+            empty.id = "vue-flow-vis-no-subscriptions";
+            empty.textContent = NO_SUBSCRIPTIONS;
+            empty.style.color = theme.colors.textMuted;
+            empty.style.fontStyle = "italic";
+            empty.style.margin = "0";
+            empty.style.padding = theme.spacing.md;
+            container.appendChild(empty);
+            return container;
+        }
+
+        container.appendChild(this.createTable());
+        return container;
+    }
+
+    private createTable(): HTMLTableElement {
+        const table = document.createElement("table");
+        table.id = "vue-flow-vis-subscription-table";
+        table.style.width = "100%";
+        table.style.borderCollapse = "collapse";
+
+        const headerRow = document.createElement("tr");
+        for (const column of COLUMNS) {
+            const cell = document.createElement("th");
+            cell.id = `vue-flow-vis-subscription-sort-${column.id}`;
+            const arrow = column.id === this.sortColumn ? (this.sortDescending ? " ▼" : " ▲") : "";
+            cell.textContent = `${column.label}${arrow}`;
+            cell.title = `Sort by ${column.label.toLowerCase()}`;
+            cell.style.textAlign = column.id === "componentName" ? "left" : "right";
+            cell.style.padding = `${theme.spacing.xs} ${theme.spacing.md}`;
+            cell.style.borderBottom = `${theme.borderWidths.thin} solid ${theme.colors.border}`;
+            cell.style.cursor = "pointer";
+            cell.style.whiteSpace = "nowrap";
+            cell.onclick = (): void => {
+                this.sortBy(column.id);
+                table.replaceWith(this.createTable());
+            };
+            headerRow.appendChild(cell);
+        }
+        table.appendChild(headerRow);
+
+        for (const entry of this.getSortedEntries()) {
+            table.appendChild(this.createRow(entry));
+            if (entry.hints.length > 0) {
+                table.appendChild(this.createHintRow(entry));
+            }
+        }
+
+        return table;
+    }
+
+    private createRow(entry: SubscriptionReportEntry): HTMLTableRowElement {
+        const row = document.createElement("tr");
+        row.id = `vue-flow-vis-subscription-row-${entry.componentName.replace(/[^a-zA-Z0-9]/g, '-')}`;
+
+        for (const column of COLUMNS) {
+            const cell = document.createElement("td");
+            cell.textContent = column.format(entry);
+            cell.style.textAlign = column.id === "componentName" ? "left" : "right";
+            cell.style.padding = `${theme.spacing.xs} ${theme.spacing.md}`;
+            if (entry.hints.length === 0) {
+                cell.style.borderBottom = `${theme.borderWidths.thin} solid ${theme.colors.border}`;
+            } else if (column.id === "componentName") {
+                cell.style.color = theme.colors.warning;
+                cell.style.fontWeight = "bold";
+            }
+            row.appendChild(cell);
+        }
+
+        return row;
+    }
+
+    private createHintRow(entry: SubscriptionReportEntry): HTMLTableRowElement {
+        const row = document.createElement("tr");
+        row.id = `vue-flow-vis-subscription-hints-${entry.componentName.replace(/[^a-zA-Z0-9]/g, '-')}`;
+
+        const cell = document.createElement("td");
+        cell.colSpan = COLUMNS.length;
+        cell.style.padding = `0 ${theme.spacing.md} ${theme.spacing.xs}`;
+        cell.style.borderBottom = `${theme.borderWidths.thin} solid ${theme.colors.border}`;
+        cell.style.color = theme.colors.textMuted;
+
+        for (const hint of entry.hints) {
+            const line = document.createElement("div");
+            line.textContent = `→ ${hint}`;
+            cell.appendChild(line);
+        }
+
+        row.appendChild(cell);
+        return row;
+    }
+
+    private sortBy(column: SortColumn): void {
+        if (this.sortColumn === column) {
+            this.sortDescending = !this.sortDescending;
+            return;
+        }
+        this.sortColumn = column;
+        // Names read best A to Z, numbers biggest first
+        this.sortDescending = column !== "componentName";
+    }
+
+    private getSortedEntries(): SubscriptionReportEntry[] {
+        const direction = this.sortDescending ? -1 : 1;
+        return [...this.entries].sort((a, b) => {
+            const valueA = a[this.sortColumn];
+            const valueB = b[this.sortColumn];
+            const order = typeof valueA === "string" && typeof valueB === "string"
+                ? valueA.localeCompare(valueB)
+                : Number(valueA) - Number(valueB);
+            return order * direction;
+        });
+    }
+}
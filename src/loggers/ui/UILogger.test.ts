@@ -4,7 +4,7 @@
  */
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
 import { UILogger } from './UILogger'
-import type { RenderEventData } from '../../types'
+import type { ComponentLifetimeStats, LifecycleEventData, ReactiveDependency, RenderCascade, RenderCycle, RenderEventData, RenderTimingData, RenderWarning, SubscriptionReportEntry } from '../../types'
 import { theme } from './theme'
 import { MAIN_AREA_PLACEHOLDER } from './strings'
 
@@ -13,12 +13,26 @@ let mockCallbacks: {
   onClear: () => void
   onMinimizeToggle: () => void
   onComponentFilterChange: (filter: string) => void
+  onCascadesToggle: () => void
+  onTimelineToggle: () => void
+  onRenderTimelineToggle: () => void
+  onDependenciesToggle: () => void
+  onSubscriptionsToggle: () => void
+  onHeatmapToggle: () => void
+  onPauseToggle: () => void
+  onExport: () => void
+  onExportTrace: () => void
+  onImport: (file: File) => void
 } | null = null
 
 let mockUIManagerInstance: {
   getMainArea: () => HTMLElement | null
   getSidebarContent: () => HTMLElement | null
   clearSearchInput: () => void
+  setPaused: (paused: boolean) => void
+  setHeatmapEnabled: (enabled: boolean) => void
+  setSessionLabel: (label: string | null) => void
+  downloadFile: (fileName: string, content: string) => void
   destroy: () => void
 } | null = null
 
@@ -30,6 +44,10 @@ vi.mock('./UIManager', () => ({
       getMainArea: vi.fn(() => document.getElementById('vue-flow-vis-main-area')),
       getSidebarContent: vi.fn(() => document.getElementById('vue-flow-vis-sidebar-content')),
       clearSearchInput: vi.fn(),
+      setPaused: vi.fn(),
+      setHeatmapEnabled: vi.fn(),
+      setSessionLabel: vi.fn(),
+      downloadFile: vi.fn(),
       destroy: vi.fn()
     }
     return mockUIManagerInstance
@@ -41,7 +59,20 @@ vi.mock('./icons', () => ({
   createTrackIcon: vi.fn((size: number) => `<svg data-icon="track" width="${size}" height="${size}"></svg>`),
   createTriggerIcon: vi.fn((size: number) => `<svg data-icon="trigger" width="${size}" height="${size}"></svg>`),
   createFlowIcon: vi.fn((size: number) => `<svg data-icon="flow" width="${size}" height="${size}"></svg>`),
-  createClockIcon: vi.fn((size: number) => `<svg data-icon="clock" width="${size}" height="${size}"></svg>`)
+  createClockIcon: vi.fn((size: number) => `<svg data-icon="clock" width="${size}" height="${size}"></svg>`),
+  createTimerIcon: vi.fn((size: number) => `<svg data-icon="timer" width="${size}" height="${size}"></svg>`),
+  createCycleIcon: vi.fn((size: number) => `<svg data-icon="cycle" width="${size}" height="${size}"></svg>`),
+  createLifecycleIcon: vi.fn((size: number) => `<svg data-icon="lifecycle" width="${size}" height="${size}"></svg>`),
+  createFlameIcon: vi.fn((size: number) => `<svg data-icon="flame" width="${size}" height="${size}"></svg>`),
+  createDependencyIcon: vi.fn((size: number) => `<svg data-icon="dependency" width="${size}" height="${size}"></svg>`),
+  createGaugeIcon: vi.fn((size: number) => `<svg data-icon="gauge" width="${size}" height="${size}"></svg>`),
+  createHeatmapIcon: vi.fn((size: number) => `<svg data-icon="heatmap" width="${size}" height="${size}"></svg>`),
+  createRedundantIcon: vi.fn((size: number) => `<svg data-icon="redundant" width="${size}" height="${size}"></svg>`),
+  createTimelineIcon: vi.fn((size: number) => `<svg data-icon="timeline" width="${size}" height="${size}"></svg>`),
+  createCascadeIcon: vi.fn((size: number) => `<svg data-icon="cascade" width="${size}" height="${size}"></svg>`),
+  createChevronRightIcon: vi.fn((size: number) => `<svg data-icon="chevron-right" width="${size}" height="${size}"></svg>`),
+  createChevronDownIcon: vi.fn((size: number) => `<svg data-icon="chevron-down" width="${size}" height="${size}"></svg>`),
+  createWarningIcon: vi.fn((size: number) => `<svg data-icon="warning" width="${size}" height="${size}"></svg>`)
 }))
 
 // Helper function to create mock event data
@@ -61,6 +92,75 @@ function createMockEventData(componentName = 'TestComponent', eventType: 'get' |
   }
 }
 
+// Helper function to create mock render timing data
+function createMockTimingData(componentName = 'TestComponent', duration = 3.5): RenderTimingData {
+  return {
+    componentName,
+    componentPath: `/components/${componentName}.vue`,
+    instanceId: 123,
+    phase: 'update',
+    startTime: 100,
+    duration,
+    timestamp: Date.now(),
+    triggers: [createMockEventData(componentName, 'set')]
+  }
+}
+
+// Helper function to create mock lifecycle event data
+function createMockLifecycleData(type: LifecycleEventData['type'], componentName = 'TestComponent', duration?: number): LifecycleEventData {
+  return {
+    type,
+    componentName,
+    componentPath: `/components/${componentName}.vue`,
+    instanceId: 123,
+    timestamp: Date.now(),
+    duration
+  }
+}
+
+// Helper function to create a mock render cycle
+function createMockCycle(componentName = 'TestComponent', sequence = 1): RenderCycle {
+  const timing = createMockTimingData(componentName, 2)
+  return {
+    id: sequence,
+    sequence,
+    componentName,
+    componentPath: timing.componentPath,
+    instanceId: timing.instanceId,
+    phase: 'update',
+    triggers: timing.triggers,
+    tracked: [createMockEventData(componentName), createMockEventData(componentName)],
+    timing
+  }
+}
+
+// Helper function to create a mock cascade: Parent re-rendered by a store change, passing new props to Child
+function createMockCascade(id = 1): RenderCascade {
+  const child = {
+    componentName: 'Child',
+    componentPath: 'Parent → Child',
+    instanceId: 2,
+    triggers: [createMockEventData('Child', 'set')],
+    children: []
+  }
+  return {
+    id,
+    target: { count: 1 },
+    key: 'count',
+    type: 'set',
+    timestamp: Date.now(),
+    nodes: [{
+      componentName: 'Parent',
+      componentPath: 'Parent',
+      instanceId: 1,
+      triggers: [createMockEventData('Parent', 'set'), createMockEventData('Parent', 'set')],
+      children: [child]
+    }],
+    componentCount: 2,
+    depth: 2
+  }
+}
+
 // Setup DOM elements that UIManager would normally create
 function setupMockDOM(): void {
   const mainArea = document.createElement('div')
@@ -111,7 +211,17 @@ describe('UILogger', () => {
       expect(UIManager).toHaveBeenCalledWith({
         onClear: expect.any(Function),
         onMinimizeToggle: expect.any(Function),
-        onComponentFilterChange: expect.any(Function)
+        onComponentFilterChange: expect.any(Function),
+        onCascadesToggle: expect.any(Function),
+        onTimelineToggle: expect.any(Function),
+        onRenderTimelineToggle: expect.any(Function),
+        onDependenciesToggle: expect.any(Function),
+        onSubscriptionsToggle: expect.any(Function),
+        onHeatmapToggle: expect.any(Function),
+        onPauseToggle: expect.any(Function),
+        onExport: expect.any(Function),
+        onExportTrace: expect.any(Function),
+        onImport: expect.any(Function)
       })
     })
 
@@ -314,6 +424,34 @@ describe('UILogger', () => {
       const triggerButtonAfter = document.getElementById('vue-flow-vis-trigger-button-TestComponent') as HTMLButtonElement
       expect(triggerButtonAfter.style.color).toBe('rgb(204, 204, 204)')
     })
+
+    it('should show only redundant triggers when the redundant filter is on', () => {
+      uiLogger.tracked(createMockEventData('TestComponent', 'get'))
+      uiLogger.triggered(createMockEventData('TestComponent', 'set'))
+      uiLogger.triggered({ ...createMockEventData('TestComponent', 'set'), redundant: true })
+
+      ;(document.querySelector('#vue-flow-vis-sidebar-item-TestComponent') as HTMLDivElement).click()
+
+      const redundantButton = document.getElementById('vue-flow-vis-redundant-button-TestComponent') as HTMLButtonElement
+      expect(redundantButton.style.color).toBe('rgb(204, 204, 204)')
+
+      redundantButton.click()
+
+      expect(redundantButton.style.color).toBe(hexToRgb(theme.colors.warning))
+      expect(document.querySelector('#vue-flow-vis-event-TestComponent-0')).toBeNull()
+      expect(document.querySelector('#vue-flow-vis-event-TestComponent-1')).toBeNull()
+      expect(document.querySelector('#vue-flow-vis-event-TestComponent-2')?.textContent).toContain('Render triggered (redundant)')
+    })
+
+    it('should name the target of an event when it has a label', () => {
+      uiLogger.tracked({ ...createMockEventData('TestComponent', 'get'), targetLabel: 'props.user.name' })
+      uiLogger.triggered({ ...createMockEventData('TestComponent', 'set'), targetLabel: 'cartStore.items', redundant: true })
+
+      ;(document.querySelector('#vue-flow-vis-sidebar-item-TestComponent') as HTMLDivElement).click()
+
+      expect(document.querySelector('#vue-flow-vis-event-TestComponent-0')?.textContent).toContain('Render tracked: props.user.name')
+      expect(document.querySelector('#vue-flow-vis-event-TestComponent-1')?.textContent).toContain('Render triggered (redundant): cartStore.items')
+    })
   })
 
   describe('component filtering', () => {
@@ -415,6 +553,25 @@ describe('UILogger', () => {
       expect(resizeHandle?.style.cursor).toBe('ew-resize')
     })
 
+    it('should show a value diff above the raw event for set triggers', () => {
+      uiLogger.triggered({
+        ...createMockEventData('TestComponent', 'set'),
+        event: { type: 'set', key: 'user', target: {}, oldValue: { name: 'Ada' }, newValue: { name: 'Ada' } } as unknown as RenderEventData['event']
+      })
+      uiLogger.tracked(createMockEventData('TestComponent'))
+
+      const componentItem = document.querySelector('#vue-flow-vis-sidebar-item-TestComponent') as HTMLDivElement
+      componentItem.click()
+      ;(document.querySelector('#vue-flow-vis-event-TestComponent-0') as HTMLDivElement).click()
+
+      const content = document.querySelector('#vue-flow-vis-event-details-content') as HTMLDivElement
+      expect(content.firstElementChild?.id).toBe('vue-flow-vis-value-diff')
+      expect(content.querySelector('[data-diff="same-content"]')?.textContent).toContain('new reference, deep-equal')
+
+      ;(document.querySelector('#vue-flow-vis-event-TestComponent-1') as HTMLDivElement).click()
+      expect(document.querySelector('#vue-flow-vis-value-diff')).toBeNull()
+    })
+
     it('should update event visual state when selected', () => {
       const eventData = createMockEventData('TestComponent')
       uiLogger.tracked(eventData)
@@ -579,4 +736,1036 @@ describe('UILogger', () => {
       expect(componentItem.style.backgroundColor).toBe(expectedColor)
     })
   })
+
+  describe('rendered() method', () => {
+    beforeEach(() => {
+      uiLogger = new UILogger()
+    })
+
+    it('should add render timing rows with the measured duration', () => {
+      uiLogger.rendered(createMockTimingData('TestComponent', 3.5))
+
+      const countSpan = document.querySelector('#vue-flow-vis-count-span-TestComponent')
+      expect(countSpan?.textContent).toBe('1 events')
+
+      const componentItem = document.querySelector('#vue-flow-vis-sidebar-item-TestComponent') as HTMLDivElement
+      componentItem.click()
+
+      const eventDiv = document.querySelector('#vue-flow-vis-event-TestComponent-0') as HTMLDivElement
+      expect(eventDiv.textContent).toContain('Rendered (update) in 3.50ms')
+    })
+
+    it('should toggle render timing rows visibility', () => {
+      uiLogger.triggered(createMockEventData('TestComponent', 'set'))
+      uiLogger.rendered(createMockTimingData('TestComponent'))
+
+      const componentItem = document.querySelector('#vue-flow-vis-sidebar-item-TestComponent') as HTMLDivElement
+      componentItem.click()
+
+      const renderedButton = document.getElementById('vue-flow-vis-rendered-button-TestComponent') as HTMLButtonElement
+      expect(renderedButton.style.color).toBe(hexToRgb(theme.colors.rendered))
+
+      renderedButton.click()
+
+      expect(renderedButton.style.color).toBe('rgb(204, 204, 204)')
+      expect(document.querySelector('#vue-flow-vis-event-TestComponent-0')).toBeTruthy()
+      expect(document.querySelector('#vue-flow-vis-event-TestComponent-1')).toBeNull()
+    })
+
+    it('should show render timing details when a render row is selected', () => {
+      uiLogger.rendered(createMockTimingData('TestComponent'))
+
+      const componentItem = document.querySelector('#vue-flow-vis-sidebar-item-TestComponent') as HTMLDivElement
+      componentItem.click()
+
+      const eventDiv = document.querySelector('#vue-flow-vis-event-TestComponent-0') as HTMLDivElement
+      eventDiv.click()
+
+      const detailsTitle = document.querySelector('#vue-flow-vis-event-details-title')
+      expect(detailsTitle?.textContent).toBe('Render Timing')
+      expect(document.querySelector('#vue-flow-vis-debugger-event-link')).toBeNull()
+      expect(document.querySelector('#vue-flow-vis-event-details-content #object-inspector')).toBeTruthy()
+    })
+  })
+
+  describe('lifecycle() method', () => {
+    beforeEach(() => {
+      uiLogger = new UILogger()
+    })
+
+    it('should list lifecycle transitions between the render events', () => {
+      uiLogger.lifecycle(createMockLifecycleData('mounted'))
+      uiLogger.rendered(createMockTimingData())
+      uiLogger.lifecycle(createMockLifecycleData('deactivated'))
+      uiLogger.lifecycle(createMockLifecycleData('activated'))
+      uiLogger.lifecycle(createMockLifecycleData('async-resolved', 'TestComponent', 120.5))
+      uiLogger.lifecycle(createMockLifecycleData('unmounted'))
+
+      ;(document.querySelector('#vue-flow-vis-sidebar-item-TestComponent') as HTMLDivElement).click()
+
+      const labels = [0, 1, 2, 3, 4, 5].map((index) => document.querySelector(`#vue-flow-vis-event-TestComponent-${index}`)?.textContent)
+      expect(labels[0]).toContain('Mounted')
+      expect(labels[1]).toContain('Rendered (update)')
+      expect(labels[2]).toContain('Deactivated (cached by KeepAlive)')
+      expect(labels[3]).toContain('Activated (restored from KeepAlive)')
+      expect(labels[4]).toContain('Async component resolved in 120.50ms')
+      expect(labels[5]).toContain('Unmounted')
+    })
+
+    it('should toggle lifecycle rows visibility', () => {
+      uiLogger.lifecycle(createMockLifecycleData('mounted'))
+      uiLogger.rendered(createMockTimingData())
+
+      ;(document.querySelector('#vue-flow-vis-sidebar-item-TestComponent') as HTMLDivElement).click()
+
+      const lifecycleButton = document.getElementById('vue-flow-vis-lifecycle-button-TestComponent') as HTMLButtonElement
+      expect(lifecycleButton.style.color).toBe(hexToRgb(theme.colors.lifecycle))
+
+      lifecycleButton.click()
+
+      expect(lifecycleButton.style.color).toBe('rgb(204, 204, 204)')
+      expect(document.querySelector('#vue-flow-vis-event-TestComponent-0')).toBeNull()
+      expect(document.querySelector('#vue-flow-vis-event-TestComponent-1')).toBeTruthy()
+    })
+
+    it('should show lifecycle details when a lifecycle row is selected', () => {
+      uiLogger.lifecycle(createMockLifecycleData('mounted'))
+
+      ;(document.querySelector('#vue-flow-vis-sidebar-item-TestComponent') as HTMLDivElement).click()
+      ;(document.querySelector('#vue-flow-vis-event-TestComponent-0') as HTMLDivElement).click()
+
+      expect(document.querySelector('#vue-flow-vis-event-details-title')?.textContent).toBe('Lifecycle Event')
+      expect(document.querySelector('#vue-flow-vis-debugger-event-link')).toBeNull()
+    })
+
+    it('should dim instance rows while the instance is cached or unmounted', () => {
+      uiLogger = new UILogger({ groupByInstance: true })
+      uiLogger.lifecycle(createMockLifecycleData('mounted'))
+
+      const instanceRow = document.getElementById('vue-flow-vis-sidebar-instance-123') as HTMLDivElement
+      expect(instanceRow.style.opacity).toBe(theme.opacity.visible)
+
+      uiLogger.lifecycle(createMockLifecycleData('deactivated'))
+      expect(instanceRow.style.opacity).toBe(theme.opacity.muted)
+      expect(instanceRow.querySelector('span')?.title).toContain('(cached by KeepAlive)')
+
+      uiLogger.lifecycle(createMockLifecycleData('activated'))
+      expect(instanceRow.style.opacity).toBe(theme.opacity.visible)
+
+      uiLogger.lifecycle(createMockLifecycleData('unmounted'))
+      expect(instanceRow.style.opacity).toBe(theme.opacity.muted)
+      expect(instanceRow.querySelector('span')?.style.textDecoration).toBe('line-through')
+      expect(instanceRow.querySelector('span')?.title).toContain('(unmounted)')
+    })
+
+    it('should round-trip lifecycle events through an exported session', () => {
+      uiLogger.lifecycle(createMockLifecycleData('unmounted'))
+
+      const json = JSON.stringify(uiLogger.exportSession())
+      uiLogger.importSession(json)
+
+      expect(uiLogger.exportSession().records).toEqual([
+        expect.objectContaining({ type: 'lifecycle', data: expect.objectContaining({ type: 'unmounted', componentName: 'TestComponent' }) })
+      ])
+    })
+  })
+
+  describe('render cycles', () => {
+    it('should show flat events by default and switch to render cycles on toggle', () => {
+      uiLogger = new UILogger()
+      uiLogger.triggered(createMockEventData('TestComponent', 'set'))
+      uiLogger.tracked(createMockEventData('TestComponent'))
+      uiLogger.renderCycle(createMockCycle('TestComponent'))
+
+      const componentItem = document.querySelector('#vue-flow-vis-sidebar-item-TestComponent') as HTMLDivElement
+      componentItem.click()
+
+      expect(document.querySelector('#vue-flow-vis-event-TestComponent-1')?.textContent).toContain('Render tracked')
+
+      const cyclesButton = document.getElementById('vue-flow-vis-cycles-button-TestComponent') as HTMLButtonElement
+      cyclesButton.click()
+
+      const cycleRow = document.querySelector('#vue-flow-vis-event-TestComponent-0')
+      expect(cycleRow?.textContent).toContain('Cycle #1 (update): 1 triggered, 2 tracked in 2.00ms')
+      expect(document.querySelector('#vue-flow-vis-event-TestComponent-1')).toBeNull()
+
+      const trackedButton = document.getElementById('vue-flow-vis-tracked-button-TestComponent') as HTMLButtonElement
+      expect(trackedButton.style.display).toBe('none')
+    })
+
+    it('should start in render cycle mode when configured and not count cycles as events', () => {
+      uiLogger = new UILogger({ groupByRenderCycle: true })
+      uiLogger.renderCycle(createMockCycle('TestComponent', 1))
+      uiLogger.renderCycle(createMockCycle('TestComponent', 2))
+
+      expect(document.querySelector('#vue-flow-vis-count-span-TestComponent')?.textContent).toBe('0 events')
+
+      const componentItem = document.querySelector('#vue-flow-vis-sidebar-item-TestComponent') as HTMLDivElement
+      componentItem.click()
+
+      expect(document.querySelector('#vue-flow-vis-event-TestComponent-1')?.textContent).toContain('Cycle #2')
+    })
+
+    it('should show cycle details when a cycle row is selected', () => {
+      uiLogger = new UILogger({ groupByRenderCycle: true })
+      uiLogger.renderCycle(createMockCycle('TestComponent'))
+
+      const componentItem = document.querySelector('#vue-flow-vis-sidebar-item-TestComponent') as HTMLDivElement
+      componentItem.click()
+
+      const cycleRow = document.querySelector('#vue-flow-vis-event-TestComponent-0') as HTMLDivElement
+      cycleRow.click()
+
+      expect(document.querySelector('#vue-flow-vis-event-details-title')?.textContent).toBe('Render Cycle')
+    })
+  })
+
+  describe('render cascades', () => {
+    it('should show the cascade tree when cascades are toggled on', () => {
+      uiLogger = new UILogger()
+      uiLogger.renderCascade(createMockCascade())
+
+      mockCallbacks!.onCascadesToggle()
+
+      expect(document.getElementById('vue-flow-vis-cascades-title')?.textContent).toBe('Render cascades')
+      const summary = document.getElementById('vue-flow-vis-cascade-summary-1')
+      expect(summary?.textContent).toBe('#1 Object."count" (set) → 2 components, 2 levels deep')
+
+      const parentNode = document.getElementById('vue-flow-vis-cascade-node-1-1')
+      expect(parentNode?.tagName).toBe('DETAILS')
+      expect(parentNode?.textContent).toContain('Parent #1 ×2')
+      const childNode = parentNode?.querySelector('#vue-flow-vis-cascade-node-1-2') as HTMLElement
+      expect(childNode.textContent).toBe('Child #2')
+      expect(childNode.querySelector('span')?.title).toBe('Parent → Child')
+    })
+
+    it('should name the mutation of a cascade by its target label', () => {
+      uiLogger = new UILogger()
+      uiLogger.renderCascade({ ...createMockCascade(), targetLabel: 'cartStore.items' })
+
+      mockCallbacks!.onCascadesToggle()
+
+      expect(document.getElementById('vue-flow-vis-cascade-summary-1')?.textContent).toBe('#1 cartStore.items (set) → 2 components, 2 levels deep')
+    })
+
+    it('should show an empty state when no cascades were recorded', () => {
+      uiLogger = new UILogger()
+
+      mockCallbacks!.onCascadesToggle()
+
+      expect(document.getElementById('vue-flow-vis-no-cascades')?.textContent).toBe('No render cascades recorded yet')
+    })
+
+    it('should add new cascades to the open view while keeping expanded trees', () => {
+      uiLogger = new UILogger()
+      uiLogger.renderCascade(createMockCascade(1))
+      mockCallbacks!.onCascadesToggle()
+
+      const firstCascade = document.getElementById('vue-flow-vis-cascade-1') as HTMLDetailsElement
+      firstCascade.open = true
+      uiLogger.renderCascade(createMockCascade(2))
+
+      const cascades = document.querySelectorAll('#vue-flow-vis-cascades-list > details')
+      expect(Array.from(cascades).map((cascade) => cascade.id)).toEqual(['vue-flow-vis-cascade-2', 'vue-flow-vis-cascade-1'])
+      expect((document.getElementById('vue-flow-vis-cascade-1') as HTMLDetailsElement).open).toBe(true)
+    })
+
+    it('should return to the placeholder when cascades are toggled off', () => {
+      uiLogger = new UILogger()
+      mockCallbacks!.onCascadesToggle()
+      mockCallbacks!.onCascadesToggle()
+
+      expect(document.getElementById('vue-flow-vis-placeholder')).toBeTruthy()
+    })
+
+    it('should leave the cascade view when a component is selected', () => {
+      uiLogger = new UILogger()
+      uiLogger.triggered(createMockEventData('TestComponent', 'set'))
+      mockCallbacks!.onCascadesToggle()
+
+      const componentItem = document.querySelector('#vue-flow-vis-sidebar-item-TestComponent') as HTMLDivElement
+      componentItem.click()
+
+      expect(document.getElementById('vue-flow-vis-cascades-list')).toBeNull()
+      expect(document.getElementById('vue-flow-vis-component-header-TestComponent')).toBeTruthy()
+    })
+
+    it('should drop recorded cascades on clear', () => {
+      uiLogger = new UILogger()
+      uiLogger.renderCascade(createMockCascade())
+      mockCallbacks!.onClear()
+
+      mockCallbacks!.onCascadesToggle()
+
+      expect(document.getElementById('vue-flow-vis-no-cascades')).toBeTruthy()
+    })
+  })
+
+  describe('mount timeline', () => {
+    const mount = (instanceId: number, timestamp: number, reason: LifecycleEventData['reason'], componentName = 'ListItem'): LifecycleEventData =>
+      ({ ...createMockLifecycleData('mounted', componentName), instanceId, timestamp, reason })
+    const unmount = (instanceId: number, timestamp: number, lifetime: number, componentName = 'ListItem'): LifecycleEventData =>
+      ({ ...createMockLifecycleData('unmounted', componentName), instanceId, timestamp, lifetime, reason: 'removed' })
+
+    const lifetimeStats = (componentName: string, stats: Omit<ComponentLifetimeStats, 'componentName'>): [string, ComponentLifetimeStats] =>
+      [componentName, { componentName, ...stats }]
+
+    it('should show the lifetime counters of the monitor with the most remounted first', () => {
+      const getLifetimeStats = vi.fn(() => new Map([
+        lifetimeStats('App', { created: 1, alive: 1, unmounted: 0, remounts: 0, averageLifetime: 0 }),
+        lifetimeStats('ListItem', { created: 2, alive: 1, unmounted: 1, remounts: 1, averageLifetime: 2000 })
+      ]))
+      uiLogger = new UILogger({ getLifetimeStats })
+      uiLogger.lifecycle(mount(1, 1000, 'initial', 'App'))
+      uiLogger.lifecycle(mount(2, 1000, 'initial'))
+      uiLogger.lifecycle(unmount(2, 3000, 2000))
+      uiLogger.lifecycle(mount(3, 3000, 'key-changed'))
+
+      mockCallbacks!.onTimelineToggle()
+
+      expect(document.getElementById('vue-flow-vis-timeline-title')?.textContent).toBe('Mount timeline')
+      const rows = Array.from(document.querySelectorAll('#vue-flow-vis-lifetime-table tr')).slice(1)
+      expect(rows.map((row) => Array.from(row.children).map((cell) => cell.textContent))).toEqual([
+        ['ListItem', '2', '1', '1', '2.00s'],
+        ['App', '1', '1', '0', '-']
+      ])
+    })
+
+    it('should draw a bar per instance from mount to unmount', () => {
+      uiLogger = new UILogger()
+      uiLogger.lifecycle(mount(1, Date.now() - 1000, 'initial'))
+      uiLogger.lifecycle(unmount(1, Date.now(), 1000))
+      uiLogger.lifecycle(mount(2, Date.now(), 'remounted'))
+
+      mockCallbacks!.onTimelineToggle()
+
+      const unmountedBar = document.getElementById('vue-flow-vis-timeline-bar-1') as HTMLDivElement
+      expect(unmountedBar.title).toContain('Unmounted after')
+      expect(unmountedBar.title).toContain('(removed)')
+      const remountedBar = document.getElementById('vue-flow-vis-timeline-bar-2') as HTMLDivElement
+      expect(remountedBar.title).toContain('(remounted)')
+      expect(remountedBar.style.borderLeft).toContain('3px solid')
+    })
+
+    it('should update the open timeline and leave it when a component is selected', () => {
+      uiLogger = new UILogger()
+      mockCallbacks!.onTimelineToggle()
+      expect(document.getElementById('vue-flow-vis-no-lifecycle-events')).toBeTruthy()
+
+      uiLogger.lifecycle(mount(1, Date.now(), 'initial'))
+      expect(document.getElementById('vue-flow-vis-timeline-instance-1')).toBeTruthy()
+
+      ;(document.querySelector('#vue-flow-vis-sidebar-item-ListItem') as HTMLDivElement).click()
+      expect(document.getElementById('vue-flow-vis-timeline')).toBeNull()
+    })
+
+    it('should replace the cascade view', () => {
+      uiLogger = new UILogger()
+      mockCallbacks!.onCascadesToggle()
+      mockCallbacks!.onTimelineToggle()
+
+      expect(document.getElementById('vue-flow-vis-cascades-list')).toBeNull()
+      expect(document.getElementById('vue-flow-vis-timeline')).toBeTruthy()
+    })
+
+    it('should label mounts and unmounts with their reason', () => {
+      uiLogger = new UILogger()
+      uiLogger.lifecycle({ ...mount(2, 1000, 'key-changed'), replacedInstanceId: 1 })
+      uiLogger.lifecycle(unmount(2, 2500, 1500))
+
+      ;(document.querySelector('#vue-flow-vis-sidebar-item-ListItem') as HTMLDivElement).click()
+
+      expect(document.querySelector('#vue-flow-vis-event-ListItem-0')?.textContent).toContain('Mounted (key-changed, replaced #1)')
+      expect(document.querySelector('#vue-flow-vis-event-ListItem-1')?.textContent).toContain('Unmounted after 1.50s (removed)')
+    })
+  })
+
+  describe('render timeline', () => {
+    const triggerAt = (componentName: string, timestamp: number): RenderEventData =>
+      ({ ...createMockEventData(componentName, 'set'), timestamp })
+    const renderAt = (componentName: string, timestamp: number, duration: number): RenderTimingData =>
+      ({ ...createMockTimingData(componentName, duration), timestamp })
+    const mockTrackRect = (componentName: string): HTMLDivElement => {
+      const track = document.getElementById(`vue-flow-vis-flame-track-${componentName}`) as HTMLDivElement
+      track.getBoundingClientRect = (): DOMRect => ({ left: 0, width: 100, top: 0, height: 10, right: 100, bottom: 10, x: 0, y: 0, toJSON: () => ({}) })
+      return track
+    }
+    const brush = (track: HTMLDivElement, fromX: number, toX: number): void => {
+      track.dispatchEvent(new MouseEvent('mousedown', { clientX: fromX, bubbles: true }))
+      document.dispatchEvent(new MouseEvent('mousemove', { clientX: toX }))
+      document.dispatchEvent(new MouseEvent('mouseup', { clientX: toX }))
+    }
+
+    beforeEach(() => {
+      uiLogger = new UILogger()
+      uiLogger.triggered(triggerAt('Fast', 1000))
+      uiLogger.rendered(renderAt('Fast', 1002, 2))
+      uiLogger.triggered(triggerAt('Slow', 1000))
+      uiLogger.rendered(renderAt('Slow', 1040, 40))
+      uiLogger.triggered(triggerAt('Slow', 1090))
+      uiLogger.rendered(renderAt('Slow', 1100, 10))
+    })
+
+    it('should draw a lane per component with the most render time first', () => {
+      mockCallbacks!.onRenderTimelineToggle()
+
+      expect(document.getElementById('vue-flow-vis-flame-title')?.textContent).toBe('Render timeline')
+      const lanes = Array.from(document.querySelectorAll('#vue-flow-vis-flame-lanes > div')).map((lane) => lane.id)
+      expect(lanes).toEqual(['vue-flow-vis-flame-lane-Slow', 'vue-flow-vis-flame-lane-Fast'])
+
+      const slowTrack = document.getElementById('vue-flow-vis-flame-track-Slow') as HTMLDivElement
+      const bars = slowTrack.querySelectorAll<HTMLDivElement>('.vue-flow-vis-flame-render')
+      expect(bars).toHaveLength(2)
+      // Renders longer than a frame are hotspots
+      expect(bars[0].style.backgroundColor).toBe(hexToRgb(theme.colors.error))
+      expect(bars[1].style.backgroundColor).toBe(hexToRgb(theme.colors.rendered))
+      expect(slowTrack.querySelectorAll('.vue-flow-vis-flame-trigger')).toHaveLength(2)
+    })
+
+    it('should zoom in and out and fit all events again', () => {
+      mockCallbacks!.onRenderTimelineToggle()
+      expect(document.getElementById('vue-flow-vis-flame-span')?.textContent).toBe('100.00ms visible')
+
+      ;(document.getElementById('vue-flow-vis-flame-zoom-in') as HTMLButtonElement).click()
+      expect(document.getElementById('vue-flow-vis-flame-span')?.textContent).toBe('66.67ms visible')
+
+      ;(document.getElementById('vue-flow-vis-flame-reset-zoom') as HTMLButtonElement).click()
+      expect(document.getElementById('vue-flow-vis-flame-span')?.textContent).toBe('100.00ms visible')
+    })
+
+    it('should filter the event list by the brushed time range', () => {
+      mockCallbacks!.onRenderTimelineToggle()
+      brush(mockTrackRect('Slow'), 80, 100)
+
+      expect(document.getElementById('vue-flow-vis-flame-selection')?.textContent).toBe('20.00ms selected')
+
+      ;(document.getElementById('vue-flow-vis-flame-label-Slow') as HTMLSpanElement).click()
+
+      expect(document.getElementById('vue-flow-vis-flame-chart')).toBeNull()
+      expect(document.getElementById('vue-flow-vis-time-range-Slow')).toBeTruthy()
+      expect(document.querySelector('#vue-flow-vis-event-Slow-0')).toBeNull()
+      expect(document.querySelector('#vue-flow-vis-event-Slow-1')).toBeNull()
+      expect(document.querySelector('#vue-flow-vis-event-Slow-2')).toBeTruthy()
+      expect(document.querySelector('#vue-flow-vis-event-Slow-3')).toBeTruthy()
+
+      ;(document.getElementById('vue-flow-vis-time-range-Slow') as HTMLButtonElement).click()
+
+      expect(document.getElementById('vue-flow-vis-time-range-Slow')).toBeNull()
+      expect(document.querySelector('#vue-flow-vis-event-Slow-0')).toBeTruthy()
+    })
+
+    it('should clear the selection on a click without dragging', () => {
+      mockCallbacks!.onRenderTimelineToggle()
+      brush(mockTrackRect('Slow'), 10, 50)
+      brush(mockTrackRect('Slow'), 30, 30)
+
+      expect(document.getElementById('vue-flow-vis-flame-selection')).toBeNull()
+    })
+
+    it('should show new events once they stop arriving', () => {
+      vi.useFakeTimers()
+      try {
+        mockCallbacks!.onRenderTimelineToggle()
+        uiLogger.rendered(renderAt('Other', 1050, 5))
+        expect(document.getElementById('vue-flow-vis-flame-lane-Other')).toBeNull()
+
+        vi.runAllTimers()
+
+        expect(document.getElementById('vue-flow-vis-flame-lane-Other')).toBeTruthy()
+      } finally {
+        vi.useRealTimers()
+      }
+    })
+  })
+
+  describe('dependency graph', () => {
+    const store = { count: 0, items: [] }
+    const createGraph = (): ReactiveDependency[] => [
+      {
+        targetId: 1,
+        target: store,
+        key: 'items',
+        targetType: 'Object',
+        readers: [{ componentName: 'CartList', componentPath: 'App → CartList', instanceId: 7 }],
+      },
+      {
+        targetId: 1,
+        target: store,
+        key: 'count',
+        targetType: 'Object',
+        readers: [
+          { componentName: 'Badge', componentPath: 'App → Badge', instanceId: 3 },
+          { componentName: 'CartList', componentPath: 'App → CartList', instanceId: 7 },
+        ],
+      },
+    ]
+
+    it('should list dependencies with the most readers first', () => {
+      uiLogger = new UILogger({ getDependencyGraph: createGraph })
+      mockCallbacks!.onDependenciesToggle()
+
+      expect(document.getElementById('vue-flow-vis-dependencies-title')?.textContent).toBe('Reactive dependencies')
+      expect(document.getElementById('vue-flow-vis-dependency-0')?.textContent).toBe('Object#1.count2 components')
+      expect(document.getElementById('vue-flow-vis-dependency-1')?.textContent).toBe('Object#1.items1 component')
+      expect(document.getElementById('vue-flow-vis-no-dependency-selected')).toBeTruthy()
+    })
+
+    it('should list the components reading the selected dependency', () => {
+      uiLogger = new UILogger({ getDependencyGraph: createGraph })
+      mockCallbacks!.onDependenciesToggle()
+
+      ;(document.getElementById('vue-flow-vis-dependency-0') as HTMLDivElement).click()
+
+      expect(document.getElementById('vue-flow-vis-dependency-readers-title')?.textContent).toBe('Re-render when Object#1.count changes')
+      expect(document.getElementById('vue-flow-vis-dependency-reader-3')?.textContent).toBe('Badge #3')
+      expect(document.getElementById('vue-flow-vis-dependency-reader-7')?.textContent).toBe('CartList #7')
+    })
+
+    it('should keep the selection when new renders refresh the view', () => {
+      vi.useFakeTimers()
+      try {
+        const getDependencyGraph = vi.fn(createGraph)
+        uiLogger = new UILogger({ getDependencyGraph })
+        mockCallbacks!.onDependenciesToggle()
+        ;(document.getElementById('vue-flow-vis-dependency-1') as HTMLDivElement).click()
+
+        uiLogger.rendered(createMockTimingData('CartList'))
+        vi.runAllTimers()
+
+        expect(getDependencyGraph).toHaveBeenCalledTimes(2)
+        expect(document.getElementById('vue-flow-vis-dependency-readers-title')?.textContent).toBe('Re-render when Object#1.items changes')
+      } finally {
+        vi.useRealTimers()
+      }
+    })
+
+    it('should open the events of a reader when it is clicked', () => {
+      uiLogger = new UILogger({ getDependencyGraph: createGraph })
+      uiLogger.tracked(createMockEventData('Badge', 'get'))
+      mockCallbacks!.onDependenciesToggle()
+      ;(document.getElementById('vue-flow-vis-dependency-0') as HTMLDivElement).click()
+
+      ;(document.getElementById('vue-flow-vis-dependency-reader-3') as HTMLDivElement).click()
+
+      expect(document.getElementById('vue-flow-vis-dependencies')).toBeNull()
+      expect(document.querySelector('#vue-flow-vis-event-Badge-0')).toBeTruthy()
+    })
+
+    it('should show an empty state without tracked dependencies', () => {
+      uiLogger = new UILogger()
+      mockCallbacks!.onDependenciesToggle()
+
+      expect(document.getElementById('vue-flow-vis-no-dependencies')).toBeTruthy()
+    })
+  })
+
+  describe('subscription report', () => {
+    const createEntry = (componentName: string, overrides: Partial<SubscriptionReportEntry> = {}): SubscriptionReportEntry => ({
+      componentName,
+      renderCount: 2,
+      averageDependencies: 3,
+      maxDependencies: 4,
+      largeIterationCount: 0,
+      largestIteration: 0,
+      triggeredDependencies: 1,
+      subscriptionRatio: 4,
+      hints: [],
+      ...overrides,
+    })
+    const createReport = (): SubscriptionReportEntry[] => [
+      createEntry('Badge'),
+      createEntry('ProductList', {
+        renderCount: 1,
+        maxDependencies: 400,
+        averageDependencies: 400,
+        subscriptionRatio: 400,
+        hints: ['Iterates a collection of 200 items during render'],
+      }),
+    ]
+    const getRowIds = (): string[] =>
+      Array.from(document.querySelectorAll('#vue-flow-vis-subscription-table tr[id^="vue-flow-vis-subscription-row-"]')).map((row) => row.id)
+
+    it('should list components with the most dependencies per render first', () => {
+      uiLogger = new UILogger({ getSubscriptionReport: createReport })
+      mockCallbacks!.onSubscriptionsToggle()
+
+      expect(document.getElementById('vue-flow-vis-subscriptions-title')?.textContent).toBe('Subscription report')
+      expect(getRowIds()).toEqual(['vue-flow-vis-subscription-row-ProductList', 'vue-flow-vis-subscription-row-Badge'])
+      expect(document.getElementById('vue-flow-vis-subscription-sort-maxDependencies')?.textContent).toBe('Max deps ▼')
+      expect(document.getElementById('vue-flow-vis-subscription-hints-ProductList')?.textContent).toBe('→ Iterates a collection of 200 items during render')
+      expect(document.getElementById('vue-flow-vis-subscription-hints-Badge')).toBeNull()
+    })
+
+    it('should sort by a column when its header is clicked', () => {
+      uiLogger = new UILogger({ getSubscriptionReport: createReport })
+      mockCallbacks!.onSubscriptionsToggle()
+
+      ;(document.getElementById('vue-flow-vis-subscription-sort-renderCount') as HTMLTableCellElement).click()
+      expect(getRowIds()).toEqual(['vue-flow-vis-subscription-row-Badge', 'vue-flow-vis-subscription-row-ProductList'])
+
+      ;(document.getElementById('vue-flow-vis-subscription-sort-renderCount') as HTMLTableCellElement).click()
+      expect(getRowIds()).toEqual(['vue-flow-vis-subscription-row-ProductList', 'vue-flow-vis-subscription-row-Badge'])
+      expect(document.getElementById('vue-flow-vis-subscription-sort-renderCount')?.textContent).toBe('Renders ▲')
+    })
+
+    it('should keep the sort order when new renders refresh the report', () => {
+      vi.useFakeTimers()
+      try {
+        const getSubscriptionReport = vi.fn(createReport)
+        uiLogger = new UILogger({ getSubscriptionReport })
+        mockCallbacks!.onSubscriptionsToggle()
+        ;(document.getElementById('vue-flow-vis-subscription-sort-componentName') as HTMLTableCellElement).click()
+
+        uiLogger.rendered(createMockTimingData('Badge'))
+        vi.runAllTimers()
+
+        expect(getSubscriptionReport).toHaveBeenCalledTimes(2)
+        expect(getRowIds()).toEqual(['vue-flow-vis-subscription-row-Badge', 'vue-flow-vis-subscription-row-ProductList'])
+      } finally {
+        vi.useRealTimers()
+      }
+    })
+
+    it('should show an empty state without recorded renders', () => {
+      uiLogger = new UILogger()
+      mockCallbacks!.onSubscriptionsToggle()
+
+      expect(document.getElementById('vue-flow-vis-no-subscriptions')).toBeTruthy()
+    })
+  })
+
+  describe('pause control', () => {
+    it('should forward pause button clicks to the configured handler', () => {
+      const onPauseToggle = vi.fn()
+      uiLogger = new UILogger({ onPauseToggle })
+
+      mockCallbacks!.onPauseToggle()
+
+      expect(onPauseToggle).toHaveBeenCalledOnce()
+    })
+
+    it('should update the pause button when the monitor is paused or resumed', () => {
+      uiLogger = new UILogger()
+
+      uiLogger.pauseChanged(true)
+      uiLogger.pauseChanged(false)
+
+      expect(mockUIManagerInstance!.setPaused).toHaveBeenNthCalledWith(1, true)
+      expect(mockUIManagerInstance!.setPaused).toHaveBeenNthCalledWith(2, false)
+    })
+
+    it('should forward heatmap button clicks and reflect the heatmap state', () => {
+      const onHeatmapToggle = vi.fn()
+      uiLogger = new UILogger({ onHeatmapToggle })
+
+      mockCallbacks!.onHeatmapToggle()
+      uiLogger.heatmapChanged(true)
+
+      expect(onHeatmapToggle).toHaveBeenCalledOnce()
+      expect(mockUIManagerInstance!.setHeatmapEnabled).toHaveBeenCalledWith(true)
+    })
+
+    it('should remove the panel on destroy', () => {
+      uiLogger = new UILogger()
+
+      uiLogger.destroy()
+
+      expect(mockUIManagerInstance!.destroy).toHaveBeenCalledOnce()
+    })
+
+    it('should remove document listeners on destroy', () => {
+      const addEventListenerSpy = vi.spyOn(document, 'addEventListener')
+      const removeEventListenerSpy = vi.spyOn(document, 'removeEventListener')
+      uiLogger = new UILogger()
+
+      uiLogger.destroy()
+
+      const added = addEventListenerSpy.mock.calls.map(([type, listener]) => [type, listener])
+      const removed = removeEventListenerSpy.mock.calls.map(([type, listener]) => [type, listener])
+      expect(added).toHaveLength(2)
+      expect(removed).toEqual(added)
+    })
+  })
+
+  describe('group by instance', () => {
+    const createInstanceEvent = (instanceId: number, key?: string): RenderEventData => ({
+      ...createMockEventData('ListItem', 'set'),
+      instanceId,
+      metadata: key === undefined ? undefined : {
+        name: 'ListItem',
+        path: 'App → ListItem',
+        uid: instanceId,
+        props: [],
+        isSetup: true,
+        key
+      }
+    })
+
+    it('should not list instances by default', () => {
+      uiLogger = new UILogger()
+      uiLogger.triggered(createInstanceEvent(1))
+
+      expect(document.getElementById('vue-flow-vis-sidebar-instances-ListItem')).toBeNull()
+      expect(document.getElementById('vue-flow-vis-count-span-ListItem')?.textContent).toBe('1 events')
+    })
+
+    it('should list instances with their key and event counts under an expandable component row', () => {
+      uiLogger = new UILogger({ groupByInstance: true })
+      uiLogger.triggered(createInstanceEvent(1, 'a'))
+      uiLogger.triggered(createInstanceEvent(2, 'b'))
+      uiLogger.triggered(createInstanceEvent(2, 'b'))
+
+      expect(document.getElementById('vue-flow-vis-count-span-ListItem')?.textContent).toBe('3 events, 2 instances')
+
+      const instanceList = document.getElementById('vue-flow-vis-sidebar-instances-ListItem') as HTMLDivElement
+      expect(instanceList.style.display).toBe('none')
+
+      const toggle = document.getElementById('vue-flow-vis-sidebar-toggle-ListItem') as HTMLSpanElement
+      toggle.click()
+
+      const expandedList = document.getElementById('vue-flow-vis-sidebar-instances-ListItem') as HTMLDivElement
+      expect(expandedList.style.display).toBe('flex')
+      // Expanding does not select the component
+      expect(document.getElementById('vue-flow-vis-placeholder')).toBeTruthy()
+
+      // The busiest instance is listed first
+      const rows = Array.from(expandedList.children).map((row) => row.textContent)
+      expect(rows).toEqual(['#2 (key: b)2', '#1 (key: a)1'])
+    })
+
+    it('should show only the events of the selected instance', () => {
+      uiLogger = new UILogger({ groupByInstance: true })
+      uiLogger.triggered(createInstanceEvent(1))
+      uiLogger.triggered(createInstanceEvent(2, 'b'))
+      uiLogger.tracked(createInstanceEvent(2, 'b'))
+
+      const instanceRow = document.getElementById('vue-flow-vis-sidebar-instance-2') as HTMLDivElement
+      instanceRow.click()
+
+      expect(document.getElementById('vue-flow-vis-component-title-ListItem')?.textContent)
+        .toBe('/components/ListItem.vue #2 (key: b)')
+      expect(document.querySelector('#vue-flow-vis-event-ListItem-1')).toBeTruthy()
+      expect(document.querySelector('#vue-flow-vis-event-ListItem-2')).toBeTruthy()
+      expect(document.querySelector('#vue-flow-vis-event-ListItem-0')).toBeNull()
+
+      // Selecting the component row shows all instances again
+      const componentItem = document.getElementById('vue-flow-vis-sidebar-item-ListItem') as HTMLDivElement
+      componentItem.click()
+
+      expect(document.querySelector('#vue-flow-vis-event-ListItem-0')).toBeTruthy()
+    })
+
+    it('should hide instance rows of filtered out components', () => {
+      uiLogger = new UILogger({ groupByInstance: true })
+      uiLogger.triggered(createInstanceEvent(1))
+      ;(document.getElementById('vue-flow-vis-sidebar-toggle-ListItem') as HTMLSpanElement).click()
+
+      mockCallbacks!.onComponentFilterChange('other')
+
+      expect((document.getElementById('vue-flow-vis-sidebar-instances-ListItem') as HTMLDivElement).style.display).toBe('none')
+    })
+  })
+
+  describe('component tree', () => {
+    const createTreeEvent = (componentPath: string): RenderEventData => {
+      const componentName = componentPath.split(' → ').pop()!
+      return { ...createMockEventData(componentName, 'set'), componentPath }
+    }
+
+    const createTreeTiming = (componentPath: string): RenderTimingData => {
+      const componentName = componentPath.split(' → ').pop()!
+      return { ...createMockTimingData(componentName), componentPath }
+    }
+
+    it('should nest components by their path, creating missing ancestors', () => {
+      uiLogger = new UILogger({ componentTree: true })
+      uiLogger.triggered(createTreeEvent('App → Layout → UserList'))
+
+      const layoutChildren = document.getElementById('vue-flow-vis-sidebar-children-App---Layout')
+      expect(document.getElementById('vue-flow-vis-sidebar-children-App')?.contains(layoutChildren)).toBe(true)
+      expect(layoutChildren?.contains(document.getElementById('vue-flow-vis-sidebar-item-App---Layout---UserList'))).toBe(true)
+      expect(document.getElementById('vue-flow-vis-name-span-App---Layout')?.textContent).toBe('Layout')
+    })
+
+    it('should show render counts aggregated over the subtree', () => {
+      uiLogger = new UILogger({ componentTree: true })
+      uiLogger.rendered(createTreeTiming('App'))
+      uiLogger.rendered(createTreeTiming('App → Layout'))
+      uiLogger.rendered(createTreeTiming('App → Layout → UserList'))
+      uiLogger.rendered(createTreeTiming('App → Layout → UserList'))
+
+      expect(document.getElementById('vue-flow-vis-count-span-App')?.textContent).toBe('4 renders')
+      expect(document.getElementById('vue-flow-vis-count-span-App---Layout')?.textContent).toBe('3 renders')
+      expect(document.getElementById('vue-flow-vis-count-span-App---Layout---UserList')?.textContent).toBe('2 renders')
+    })
+
+    it('should list the events of the selected component and its descendants', () => {
+      uiLogger = new UILogger({ componentTree: true })
+      uiLogger.triggered(createTreeEvent('App → Layout'))
+      uiLogger.triggered(createTreeEvent('App → Layout → UserList'))
+      uiLogger.triggered(createTreeEvent('App → Sidebar'))
+
+      ;(document.getElementById('vue-flow-vis-sidebar-item-App---Layout') as HTMLDivElement).click()
+
+      expect(document.getElementById('vue-flow-vis-component-title-App---Layout')?.textContent).toBe('App → Layout')
+      expect(document.querySelectorAll('[id^="vue-flow-vis-event-App---Layout-"]')).toHaveLength(2)
+
+      // Events of listed descendants are added as they arrive
+      uiLogger.triggered(createTreeEvent('App → Layout → UserList'))
+      uiLogger.triggered(createTreeEvent('App → Sidebar'))
+
+      expect(document.querySelectorAll('[id^="vue-flow-vis-event-App---Layout-"]')).toHaveLength(3)
+    })
+
+    it('should hide the events of collapsed subtrees', () => {
+      uiLogger = new UILogger({ componentTree: true })
+      uiLogger.triggered(createTreeEvent('App'))
+      uiLogger.triggered(createTreeEvent('App → Layout'))
+      uiLogger.triggered(createTreeEvent('App → Layout → UserList'))
+
+      ;(document.getElementById('vue-flow-vis-sidebar-item-App') as HTMLDivElement).click()
+      expect(document.querySelectorAll('[id^="vue-flow-vis-event-App-"]')).toHaveLength(3)
+
+      ;(document.getElementById('vue-flow-vis-sidebar-toggle-App---Layout') as HTMLSpanElement).click()
+
+      expect((document.getElementById('vue-flow-vis-sidebar-children-App---Layout') as HTMLDivElement).style.display).toBe('none')
+      expect(document.querySelectorAll('[id^="vue-flow-vis-event-App-"]')).toHaveLength(2)
+
+      // Events of the hidden subtree are not added either
+      uiLogger.triggered(createTreeEvent('App → Layout → UserList'))
+      expect(document.querySelectorAll('[id^="vue-flow-vis-event-App-"]')).toHaveLength(2)
+    })
+
+    it('should keep ancestors of matching components visible when filtering', () => {
+      uiLogger = new UILogger({ componentTree: true })
+      uiLogger.triggered(createTreeEvent('App → Layout → UserList'))
+      uiLogger.triggered(createTreeEvent('App → Sidebar'))
+
+      mockCallbacks!.onComponentFilterChange('userlist')
+
+      expect((document.getElementById('vue-flow-vis-sidebar-item-App') as HTMLDivElement).style.display).toBe('flex')
+      expect((document.getElementById('vue-flow-vis-sidebar-item-App---Layout') as HTMLDivElement).style.display).toBe('flex')
+      expect((document.getElementById('vue-flow-vis-sidebar-item-App---Sidebar') as HTMLDivElement).style.display).toBe('none')
+    })
+  })
+
+  describe('warnings', () => {
+    const createWarning = (message: string): RenderWarning => ({
+      type: 'render-storm',
+      componentName: 'TestComponent',
+      componentPath: '/components/TestComponent.vue',
+      instanceId: 123,
+      message,
+      timestamp: Date.now(),
+      count: 21,
+      events: []
+    })
+
+    it('should show a warning badge with the number of warnings on the sidebar item', () => {
+      uiLogger = new UILogger()
+      uiLogger.triggered(createMockEventData())
+      expect(document.getElementById('vue-flow-vis-sidebar-warning-TestComponent')).toBeNull()
+
+      uiLogger.warning(createWarning('first'))
+      uiLogger.warning(createWarning('second'))
+
+      const badge = document.getElementById('vue-flow-vis-sidebar-warning-TestComponent')
+      expect(badge?.textContent).toBe('2')
+      expect(badge?.title).toBe('first\nsecond')
+    })
+
+    it('should list only the most recent warnings in the badge tooltip', () => {
+      uiLogger = new UILogger()
+      for (let i = 1; i <= 7; i++) {
+        uiLogger.warning(createWarning(`warning ${i}`))
+      }
+
+      const badge = document.getElementById('vue-flow-vis-sidebar-warning-TestComponent')
+      expect(badge?.textContent).toBe('7')
+      expect(badge?.title.split('\n')).toEqual(['warning 3', 'warning 4', 'warning 5', 'warning 6', 'warning 7'])
+    })
+  })
+
+  describe('session export and import', () => {
+    const createCyclicEvent = (): RenderEventData => {
+      const target: Record<string, unknown> = { count: 1 }
+      target.self = target
+      return {
+        ...createMockEventData('TestComponent', 'set'),
+        event: { type: 'set', key: 'count', target, oldValue: 0, newValue: 1, effect: { deps: [] } } as unknown as RenderEventData['event']
+      }
+    }
+
+    it('should export recorded events in order as a JSON-safe document', () => {
+      uiLogger = new UILogger()
+      uiLogger.triggered(createCyclicEvent())
+      uiLogger.rendered(createMockTimingData())
+      uiLogger.renderCascade(createMockCascade())
+
+      const session = uiLogger.exportSession()
+
+      expect(session.format).toBe('vue-flow-vis-session')
+      expect(session.version).toBe(1)
+      expect(session.records.map((record) => record.type)).toEqual(['triggered', 'rendered', 'cascade'])
+      expect(session.components).toEqual([
+        { name: 'TestComponent', componentPath: '/components/TestComponent.vue', eventCount: 2, instanceIds: [123] }
+      ])
+      const json = JSON.stringify(session)
+      expect(JSON.parse(json)).toEqual(session)
+      expect(json).toContain('"$type":"Circular"')
+      expect(json).not.toContain('"effect"')
+    })
+
+    it('should download the session when the export button is used', () => {
+      uiLogger = new UILogger()
+      uiLogger.triggered(createMockEventData())
+
+      mockCallbacks!.onExport()
+
+      expect(mockUIManagerInstance!.downloadFile).toHaveBeenCalledWith(
+        expect.stringMatching(/^vue-flow-vis-session-.*\.json$/),
+        expect.stringContaining('"format": "vue-flow-vis-session"')
+      )
+    })
+
+    it('should load an exported session read-only', () => {
+      uiLogger = new UILogger()
+      uiLogger.triggered(createCyclicEvent())
+      uiLogger.triggered(createMockEventData('OtherComponent'))
+      uiLogger.warning({
+        type: 'render-storm',
+        componentName: 'TestComponent',
+        componentPath: '/components/TestComponent.vue',
+        instanceId: 123,
+        message: 'storm',
+        timestamp: Date.now(),
+        count: 21,
+        events: []
+      })
+      const json = JSON.stringify(uiLogger.exportSession())
+      uiLogger.destroy()
+
+      uiLogger = new UILogger()
+      uiLogger.triggered(createMockEventData('LiveComponent'))
+      uiLogger.importSession(json)
+
+      expect(document.getElementById('vue-flow-vis-sidebar-item-LiveComponent')).toBeNull()
+      expect(document.getElementById('vue-flow-vis-count-span-TestComponent')?.textContent).toBe('1 events')
+      expect(document.getElementById('vue-flow-vis-sidebar-item-OtherComponent')).toBeTruthy()
+      expect(document.getElementById('vue-flow-vis-sidebar-warning-TestComponent')?.textContent).toBe('1')
+      expect(mockUIManagerInstance!.setSessionLabel).toHaveBeenCalledWith(expect.any(String))
+
+      // Live events do not change the imported session
+      uiLogger.triggered(createMockEventData('LiveComponent'))
+      expect(document.getElementById('vue-flow-vis-sidebar-item-LiveComponent')).toBeNull()
+
+      // Clearing returns to live recording
+      mockCallbacks!.onClear()
+      expect(mockUIManagerInstance!.setSessionLabel).toHaveBeenLastCalledWith(null)
+      uiLogger.triggered(createMockEventData('LiveComponent'))
+      expect(document.getElementById('vue-flow-vis-sidebar-item-LiveComponent')).toBeTruthy()
+    })
+
+    it('should round-trip cascades of renders scheduled by a computed', () => {
+      // Vue reports these triggers with only the effect, so the cascade has no target and type
+      const computedTrigger: RenderEventData = {
+        ...createMockEventData('Parent', 'set'),
+        event: { effect: {} } as unknown as RenderEventData['event']
+      }
+      const cascade = createMockCascade()
+      uiLogger = new UILogger()
+      uiLogger.triggered(computedTrigger)
+      uiLogger.renderCascade({ ...cascade, target: undefined, key: undefined, type: undefined, nodes: [{ ...cascade.nodes[0], triggers: [computedTrigger] }] })
+      const json = JSON.stringify(uiLogger.exportSession())
+      uiLogger.destroy()
+
+      uiLogger = new UILogger()
+      uiLogger.importSession(json)
+      mockCallbacks!.onCascadesToggle()
+
+      expect(document.getElementById('vue-flow-vis-cascade-summary-1')?.textContent).toBe('#1 computed (source not reported by Vue) → 2 components, 2 levels deep')
+      expect(JSON.stringify(uiLogger.exportSession().records)).toBe(JSON.stringify((JSON.parse(json) as { records: unknown }).records))
+    })
+
+    it('should reject files that are not sessions', () => {
+      uiLogger = new UILogger()
+
+      expect(() => uiLogger.importSession('{"format":"other"}')).toThrow('not a vue-flow-vis session')
+    })
+
+    it('should keep the lifetime counters of an exported session', () => {
+      const stats: ComponentLifetimeStats = { componentName: 'ListItem', created: 3, alive: 1, unmounted: 2, remounts: 2, averageLifetime: 1500 }
+      uiLogger = new UILogger({ getLifetimeStats: (): Map<string, ComponentLifetimeStats> => new Map([['ListItem', stats]]) })
+      uiLogger.lifecycle(createMockLifecycleData('mounted', 'ListItem'))
+      const json = JSON.stringify(uiLogger.exportSession())
+      uiLogger.destroy()
+
+      uiLogger = new UILogger({ getLifetimeStats: (): Map<string, ComponentLifetimeStats> => new Map() })
+      uiLogger.importSession(json)
+      mockCallbacks!.onTimelineToggle()
+
+      const row = document.getElementById('vue-flow-vis-lifetime-row-ListItem')
+      expect(Array.from(row?.children ?? []).map((cell) => cell.textContent)).toEqual(['ListItem', '3', '1', '2', '1.50s'])
+      expect(uiLogger.exportSession().lifetimes).toEqual([stats])
+
+      const brokenLifetimes = { ...JSON.parse(json) as object, lifetimes: [{ componentName: 'ListItem' }] }
+      expect(() => uiLogger.importSession(JSON.stringify(brokenLifetimes))).toThrow('lifetimes[0].created is not of type number')
+    })
+
+    it('should reject malformed records before replacing the live session', () => {
+      uiLogger = new UILogger()
+      uiLogger.triggered(createMockEventData())
+      uiLogger.rendered(createMockTimingData())
+      const session = uiLogger.exportSession()
+      uiLogger.triggered(createMockEventData('LiveComponent'))
+
+      const brokenTiming = { ...session, records: [session.records[0], { ...session.records[1], data: { phase: 'update' } }] }
+      expect(() => uiLogger.importSession(JSON.stringify(brokenTiming))).toThrow('records[1].data.componentName is not of type string')
+
+      const brokenTrigger = { ...session, records: [{ ...session.records[0], data: { ...session.records[0]?.data, event: null } }] }
+      expect(() => uiLogger.importSession(JSON.stringify(brokenTrigger))).toThrow('records[0].data.event is not of type object')
+
+      const unknownType = { ...session, records: [{ type: 'other', data: {} }] }
+      expect(() => uiLogger.importSession(JSON.stringify(unknownType))).toThrow('"other" is not a known record type')
+
+      expect(document.getElementById('vue-flow-vis-sidebar-item-LiveComponent')).toBeTruthy()
+      expect(mockUIManagerInstance!.setSessionLabel).not.toHaveBeenCalled()
+    })
+
+    it('should show an error when an imported file can not be loaded', async () => {
+      uiLogger = new UILogger()
+
+      mockCallbacks!.onImport(new File(['not json'], 'session.json'))
+      await vi.waitFor(() => {
+        expect(document.querySelector('[id^="vue-flow-vis-error-"]')?.textContent).toContain('Invalid session file')
+      })
+    })
+  })
+
+  describe('trace export', () => {
+    it('should convert recorded triggers and renders into a Chrome trace', () => {
+      uiLogger = new UILogger()
+      uiLogger.tracked(createMockEventData())
+      uiLogger.triggered(createMockEventData('TestComponent', 'set'))
+      uiLogger.rendered(createMockTimingData())
+      uiLogger.renderCycle(createMockCycle())
+
+      const { traceEvents } = uiLogger.exportTrace()
+
+      expect(traceEvents.filter((event) => event.cat === 'vue.trigger')).toHaveLength(1)
+      expect(traceEvents.filter((event) => event.cat === 'vue.render')).toHaveLength(1)
+    })
+
+    it('should download the trace when the trace button is used', () => {
+      uiLogger = new UILogger()
+      uiLogger.triggered(createMockEventData('TestComponent', 'set'))
+
+      mockCallbacks!.onExportTrace()
+
+      expect(mockUIManagerInstance!.downloadFile).toHaveBeenCalledWith(
+        expect.stringMatching(/^vue-flow-vis-trace-.*\.json$/),
+        expect.stringContaining('"traceEvents"')
+      )
+    })
+  })
 })
\ No newline at end of file
@@ -1,44 +1,137 @@
 /* eslint-disable no-undef */
-import { Logger, RenderEventData } from "../../types";
-import { createComponentIcon, createTrackIcon, createTriggerIcon, createFlowIcon, createClockIcon } from "./icons";
-import { EVENT_DETAILS_HEADER_DEBUGGER_EVENT, EVENT_DETAILS_HEADER_ORIGINAL, MAIN_AREA_PLACEHOLDER } from "./strings";
+import { ChromeTrace, ComponentLifetimeStats, LifecycleEventData, Logger, ReactiveDependency, RenderCascade, RenderCycle, RenderEventData, RenderTimingData, RenderWarning, SubscriptionReportEntry } from "../../types";
+import { createComponentIcon, createTrackIcon, createTriggerIcon, createFlowIcon, createClockIcon, createTimerIcon, createCycleIcon, createLifecycleIcon, createRedundantIcon, createCascadeIcon, createTimelineIcon, createFlameIcon, createDependencyIcon, createGaugeIcon, createChevronRightIcon, createChevronDownIcon, createWarningIcon } from "./icons";
+import { DEPENDENCY_GRAPH_TITLE, EVENT_DETAILS_HEADER_DEBUGGER_EVENT, EVENT_DETAILS_HEADER_LIFECYCLE, EVENT_DETAILS_HEADER_ORIGINAL, EVENT_DETAILS_HEADER_RENDER_CYCLE, EVENT_DETAILS_HEADER_RENDER_TIMING, LIFECYCLE_TIMELINE_TITLE, MAIN_AREA_PLACEHOLDER, RENDER_CASCADES_TITLE, RENDER_TIMELINE_TITLE, SUBSCRIPTION_REPORT_TITLE, VALUE_DIFF_TITLE } from "./strings";
 import { UIManager, UIManagerCallbacks } from "./UIManager";
 import { theme } from "./theme";
-import { VUE_DEBUGGER_EVENT_URL } from "./constants";
+import { VIEW_REFRESH_DELAY, VUE_DEBUGGER_EVENT_URL } from "./constants";
 import { ObjectInspector } from "./objectInspector/ObjectInspector";
 import { VirtualScrollManager } from "./VirtualScrollManager";
+import { EventFormatter } from "./EventFormatter";
+import { ComponentIdentifier } from "../../utils/componentIdentifier";
+import { createChromeTrace } from "../../utils/chromeTrace";
+import { CascadeTreeView } from "./CascadeTreeView";
+import { InstanceLifetime, LifecycleTimelineView } from "./LifecycleTimelineView";
+import { RenderTimelineView, TimeRange, TimelineLane } from "./RenderTimelineView";
+import { DependencyGraphView } from "./DependencyGraphView";
+import { SubscriptionReportView } from "./SubscriptionReportView";
+import { SessionComponent, SessionDocument, SessionRecord, SessionSerializer } from "./SessionSerializer";
+
+const PATH_SEPARATOR = " → ";
+
+type LoggedEvent = (
+    | {type: 'tracked' | 'triggered', timestamp: string, eventData: RenderEventData}
+    | {type: 'rendered', timestamp: string, eventData: RenderTimingData}
+    | {type: 'cycle', timestamp: string, eventData: RenderCycle}
+    | {type: 'lifecycle', timestamp: string, eventData: LifecycleEventData}
+) & {sequence: number};
+
+type IndexedLoggedEvent = LoggedEvent & {originalIndex: number};
+
+/** Views that replace the event list in the main area */
+type MainView = 'cascades' | 'timeline' | 'flame' | 'dependencies' | 'subscriptions';
+
+const MAIN_VIEW_BUTTONS: Record<MainView, {id: string, showTitle: string, hideTitle: string}> = {
+    cascades: { id: "vue-flow-vis-cascades-button", showTitle: "Show render cascades", hideTitle: "Hide render cascades" },
+    timeline: { id: "vue-flow-vis-timeline-button", showTitle: "Show mount timeline", hideTitle: "Hide mount timeline" },
+    flame: { id: "vue-flow-vis-flame-button", showTitle: "Show render timeline", hideTitle: "Hide render timeline" },
+    dependencies: { id: "vue-flow-vis-dependencies-button", showTitle: "Show reactive dependencies", hideTitle: "Hide reactive dependencies" },
+    subscriptions: { id: "vue-flow-vis-subscriptions-button", showTitle: "Show subscription report", hideTitle: "Hide subscription report" }
+};
+
+type InstanceGroup = {
+    sidebarItem: HTMLDivElement;
+    eventCount: number;
+    key?: string | number | symbol;
+    /** Set while the instance is unmounted or cached by KeepAlive */
+    state?: 'unmounted' | 'deactivated';
+}
 
 type ComponentGroup = {
     sidebarItem: HTMLDivElement;
-    events: Array<{type: 'tracked' | 'triggered', timestamp: string, eventData: RenderEventData}>;
+    events: LoggedEvent[];
+    cycles: LoggedEvent[];
     eventCount: number;
     componentPath?: string;
+    instances: Map<number, InstanceGroup>;
+    /** Sidebar rows of the component's instances, only used when grouping by instance */
+    instanceList?: HTMLDivElement;
+    /** Sidebar rows of the child components, only used in tree mode */
+    childList?: HTMLDivElement;
+    children: string[];
+    renderCount: number;
+    /** Renders of the component and all of its descendants */
+    subtreeRenderCount: number;
+    warnings: RenderWarning[];
+    expanded: boolean;
 }
 
-type SelectedEvent = {
-    type: 'tracked' | 'triggered';
-    timestamp: string;
+type SelectedEvent = LoggedEvent & {
     componentName: string;
-    eventData: RenderEventData;
     eventIndex: number;
 }
 
+export type UILoggerOptions = {
+    /** Show render cycles instead of individual events when the panel opens */
+    groupByRenderCycle?: boolean;
+    /** List the instances of each component in the sidebar so their events can be viewed separately */
+    groupByInstance?: boolean;
+    /** Nest the sidebar components by their parent/child hierarchy instead of listing them by name */
+    componentTree?: boolean;
+    /** Called when the pause/record button in the panel header is clicked */
+    onPauseToggle?: () => void;
+    /** Called when the render heatmap button in the panel header is clicked */
+    onHeatmapToggle?: () => void;
+    /** Returns the current reactive dependency graph for the dependency view */
+    getDependencyGraph?: () => ReactiveDependency[];
+    /** Returns the current subscription report for the subscription view */
+    getSubscriptionReport?: () => SubscriptionReportEntry[];
+    /** Returns the mount/unmount counters per component for the timeline view */
+    getLifetimeStats?: () => ReadonlyMap<string, ComponentLifetimeStats>;
+}
+
 export class UILogger implements Logger {
     private uiManager: UIManager;
     private componentGroups: Map<string, ComponentGroup> = new Map();
     private selectedComponent: string | null = null;
+    private selectedInstanceId: number | null = null;
+    private groupByInstance: boolean;
+    private componentTree: boolean;
+    private nextSequence = 0;
     private selectedEvent: SelectedEvent | null = null;
     private showTrackedEvents = true;
     private showTriggeredEvents = true;
+    private showRenderedEvents = true;
+    private showLifecycleEvents = true;
+    private showOnlyRedundant = false;
+    private showRenderCycles: boolean;
     private componentFilter = "";
     private objectInspector: ObjectInspector;
+    private cascades: RenderCascade[] = [];
+    private activeView: MainView | null = null;
+    private readonly MAX_CASCADES = 100; // Most recent cascades kept for the cascade view
+    private lifetimes: Map<number, InstanceLifetime> = new Map();
+    private getLifetimeStats: () => ReadonlyMap<string, ComponentLifetimeStats>;
+    /** Counters of an imported session, shown instead of the live ones until the log is cleared */
+    private importedLifetimeStats: ReadonlyMap<string, ComponentLifetimeStats> | null = null;
+    private renderTimeline: RenderTimelineView;
+    /** Range brushed in the render timeline, the event list only shows events inside it */
+    private timeRange: TimeRange | null = null;
+    private viewRefresh: ReturnType<typeof setTimeout> | null = null;
+    private dependencyGraph: DependencyGraphView;
+    private getDependencyGraph: () => ReactiveDependency[];
+    private subscriptionReport = new SubscriptionReportView();
+    private getSubscriptionReport: () => SubscriptionReportEntry[];
+    private readonly MAX_LIFETIMES = 500; // Most recently mounted instances kept for the timeline view
+    private readonly MAX_WARNINGS = 5; // Most recent warnings listed in a sidebar badge tooltip
+    private readOnly = false; // Set while an imported session is shown, live events are ignored
     
     // Virtual scrolling state
     private virtualScrollManager: VirtualScrollManager | null = null;
     private virtualScrollContainer: HTMLDivElement | null = null;
     private virtualScrollContent: HTMLDivElement | null = null;
     private virtualScrollSpacer: HTMLDivElement | null = null;
-    private currentEvents: Array<{type: 'tracked' | 'triggered', timestamp: string, eventData: RenderEventData, originalIndex: number}> = [];
+    private currentEvents: IndexedLoggedEvent[] = [];
     private currentComponentName: string | null = null;
     private readonly ITEM_HEIGHT = 30; // Height of each event item in pixels
     private readonly BUFFER_SIZE = 5; // Extra items to render outside viewport
@@ -48,17 +141,46 @@ export class UILogger implements Logger {
     private startEventDetailsX = 0;
     private startEventDetailsWidth = 0;
 
-    constructor() {
+    constructor(options: UILoggerOptions = {}) {
+        this.showRenderCycles = options.groupByRenderCycle ?? false;
+        this.groupByInstance = options.groupByInstance ?? false;
+        this.componentTree = options.componentTree ?? false;
+
         const callbacks: UIManagerCallbacks = {
             onClear: () => this.clear(),
             onMinimizeToggle: () => {},
             onComponentFilterChange: (filter: string) => {
                 this.componentFilter = filter;
                 this.filterComponents();
-            }
+            },
+            onCascadesToggle: () => this.toggleCascades(),
+            onTimelineToggle: () => this.toggleTimeline(),
+            onRenderTimelineToggle: () => this.toggleRenderTimeline(),
+            onDependenciesToggle: () => this.toggleView('dependencies'),
+            onSubscriptionsToggle: () => this.toggleView('subscriptions'),
+            onPauseToggle: () => options.onPauseToggle?.(),
+            onHeatmapToggle: () => options.onHeatmapToggle?.(),
+            onExport: () => this.downloadSession(),
+            onExportTrace: () => this.downloadTrace(),
+            onImport: (file: File) => this.readSessionFile(file)
         };
         
         this.uiManager = new UIManager(callbacks);
+        this.renderTimeline = new RenderTimelineView({
+            onRangeChange: (range): void => {
+                this.timeRange = range;
+            },
+            onLaneSelect: (key): void => this.selectComponent(key)
+        });
+        this.getDependencyGraph = options.getDependencyGraph ?? ((): ReactiveDependency[] => []);
+        this.getSubscriptionReport = options.getSubscriptionReport ?? ((): SubscriptionReportEntry[] => []);
+        this.getLifetimeStats = options.getLifetimeStats ?? ((): ReadonlyMap<string, ComponentLifetimeStats> => new Map());
+        this.dependencyGraph = new DependencyGraphView({
+            onReaderSelect: (reader): void => this.selectComponent(
+                this.getGroupKey(reader.componentName, reader.componentPath),
+                this.groupByInstance ? reader.instanceId : null
+            )
+        });
         
         // Initialize ObjectInspector
         this.objectInspector = new ObjectInspector({
@@ -113,7 +235,14 @@ export class UILogger implements Logger {
             return {
                 sidebarItem: document.createElement("div"),
                 events: [],
-                eventCount: 0
+                cycles: [],
+                eventCount: 0,
+                instances: new Map(),
+                children: [],
+                renderCount: 0,
+                subtreeRenderCount: 0,
+                warnings: [],
+                expanded: false
             };
         }
 
@@ -121,6 +250,11 @@ export class UILogger implements Logger {
             return this.componentGroups.get(componentName)!;
         }
 
+        // In tree mode components are keyed by their path and nested in their parent's row
+        const parentKey = this.getParentKey(componentName);
+        const parentGroup = parentKey !== null ? this.getOrCreateComponentGroup(parentKey, parentKey) : undefined;
+        const container = parentGroup?.childList ?? sidebarContent;
+
         const sidebarItem = document.createElement("div");
         sidebarItem.id = `vue-flow-vis-sidebar-item-${componentName.replace(/[^a-zA-Z0-9]/g, '-')}`;
         sidebarItem.style.display = "flex";
@@ -132,15 +266,19 @@ export class UILogger implements Logger {
         sidebarItem.style.fontFamily = theme.fonts.primary;
         sidebarItem.style.fontSize = theme.fontSizes.sm;
         sidebarItem.style.transition = `background-color ${theme.transitions.normal}`;
+        if (this.componentTree) {
+            const depth = componentName.split(PATH_SEPARATOR).length - 1;
+            sidebarItem.style.paddingLeft = `calc(${theme.spacing.lg} + ${depth} * ${theme.spacing.xl})`;
+        }
 
         sidebarItem.onmouseenter = (): void => {
-            if (this.selectedComponent !== componentName) {
+            if (!this.isSelected(componentName, null)) {
                 sidebarItem.style.backgroundColor = theme.colors.backgroundHover;
             }
         };
 
         sidebarItem.onmouseleave = (): void => {
-            if (this.selectedComponent !== componentName) {
+            if (!this.isSelected(componentName, null)) {
                 sidebarItem.style.backgroundColor = theme.colors.transparent;
             }
         };
@@ -149,18 +287,48 @@ export class UILogger implements Logger {
             this.selectComponent(componentName);
         };
 
-        sidebarContent.appendChild(sidebarItem);
+        container.appendChild(sidebarItem);
 
         const group: ComponentGroup = {
             sidebarItem,
             events: [],
+            cycles: [],
             eventCount: 0,
-            componentPath
+            componentPath,
+            instances: new Map(),
+            children: [],
+            renderCount: 0,
+            subtreeRenderCount: 0,
+            warnings: [],
+            // Trees start unfolded so the whole app is visible
+            expanded: this.componentTree
         };
 
+        if (this.groupByInstance) {
+            group.instanceList = document.createElement("div");
+            group.instanceList.id = `vue-flow-vis-sidebar-instances-${componentName.replace(/[^a-zA-Z0-9]/g, '-')}`;
+            group.instanceList.style.display = "none";
+            group.instanceList.style.flexDirection = "column";
+            group.instanceList.style.borderBottom = `${theme.borderWidths.thin} solid ${theme.colors.border}`;
+            container.appendChild(group.instanceList);
+        }
+
+        if (this.componentTree) {
+            group.childList = document.createElement("div");
+            group.childList.id = `vue-flow-vis-sidebar-children-${componentName.replace(/[^a-zA-Z0-9]/g, '-')}`;
+            group.childList.style.flexDirection = "column";
+            container.appendChild(group.childList);
+        }
+
         this.componentGroups.set(componentName, group);
         this.updateSidebarItem(componentName, componentPath);
 
+        if (parentKey !== null && parentGroup) {
+            parentGroup.children.push(componentName);
+            // The parent needs an expand toggle now that it has children
+            this.updateSidebarItem(parentKey, parentGroup.componentPath);
+        }
+
         return group;
     }
 
@@ -186,7 +354,7 @@ export class UILogger implements Logger {
 
         const nameSpan = document.createElement("div");
         nameSpan.id = `vue-flow-vis-name-span-${componentName.replace(/[^a-zA-Z0-9]/g, '-')}`;
-        nameSpan.textContent = componentName;
+        nameSpan.textContent = this.getGroupName(componentName);
         nameSpan.style.fontWeight = "bold";
         nameSpan.style.whiteSpace = "nowrap";
         nameSpan.style.overflow = "hidden";
@@ -194,7 +362,13 @@ export class UILogger implements Logger {
 
         const countSpan = document.createElement("div");
         countSpan.id = `vue-flow-vis-count-span-${componentName.replace(/[^a-zA-Z0-9]/g, '-')}`;
-        countSpan.textContent = `${group.eventCount} events`;
+        const countText = this.componentTree ? `${group.subtreeRenderCount} renders` : `${group.eventCount} events`;
+        countSpan.textContent = this.groupByInstance
+            ? `${countText}, ${group.instances.size} instances`
+            : countText;
+        if (this.componentTree) {
+            countSpan.title = `${group.renderCount} renders of this component, ${group.eventCount} events`;
+        }
         countSpan.style.fontSize = theme.fontSizes.xs;
         countSpan.style.color = theme.colors.textMuted;
 
@@ -202,16 +376,223 @@ export class UILogger implements Logger {
         nameContainer.appendChild(countSpan);
 
         group.sidebarItem.innerHTML = "";
+        if (this.groupByInstance || this.componentTree) {
+            group.sidebarItem.appendChild(this.createExpandToggle(componentName, group));
+        }
         group.sidebarItem.appendChild(icon);
         group.sidebarItem.appendChild(nameContainer);
+        if (group.warnings.length > 0) {
+            group.sidebarItem.appendChild(this.createWarningBadge(componentName, group));
+        }
 
         // Apply current filter to the updated item
-        const shouldShow = this.componentFilter === "" || 
-                         componentName.toLowerCase().includes(this.componentFilter);
+        this.applyComponentFilter(componentName, group);
+    }
+
+    private createWarningBadge(componentName: string, group: ComponentGroup): HTMLSpanElement {
+        const badge = document.createElement("span");
+        badge.id = `vue-flow-vis-sidebar-warning-${componentName.replace(/[^a-zA-Z0-9]/g, '-')}`;
+        badge.innerHTML = `${createWarningIcon(12)}<span>${group.warnings.length}</span>`;
+        badge.style.display = "flex";
+        badge.style.alignItems = "center";
+        badge.style.alignSelf = "center";
+        badge.style.gap = theme.spacing.xs;
+        badge.style.padding = `0 ${theme.spacing.sm}`;
+        badge.style.borderRadius = theme.borderRadius.md;
+        badge.style.backgroundColor = theme.colors.warning;
+        badge.style.color = theme.colors.white;
+        badge.style.fontSize = theme.fontSizes.xs;
+        badge.style.flexShrink = "0";
+        badge.title = group.warnings.slice(-this.MAX_WARNINGS).map((warning) => warning.message).join("\n");
+        return badge;
+    }
+
+    private createExpandToggle(componentName: string, group: ComponentGroup): HTMLSpanElement {
+        const toggle = document.createElement("span");
+        toggle.id = `vue-flow-vis-sidebar-toggle-${componentName.replace(/[^a-zA-Z0-9]/g, '-')}`;
+        toggle.innerHTML = group.expanded ? createChevronDownIcon(14) : createChevronRightIcon(14);
+        toggle.style.color = theme.colors.textMuted;
+        toggle.style.position = "relative";
+        toggle.style.top = theme.positioning.iconOffset;
+        toggle.style.flexShrink = "0";
+        if (this.componentTree) {
+            toggle.title = group.expanded ? "Collapse" : "Expand";
+            // Keep leaf names aligned with their siblings
+            toggle.style.visibility = group.children.length > 0 || group.instanceList ? "visible" : "hidden";
+        } else {
+            toggle.title = group.expanded ? "Hide instances" : "Show instances";
+        }
+        toggle.onclick = (event: MouseEvent): void => {
+            // Expanding should not change the selection
+            event.stopPropagation();
+            group.expanded = !group.expanded;
+            this.updateSidebarItem(componentName, group.componentPath);
+
+            // Collapsed subtrees are left out of the selected component's events
+            if (this.componentTree && this.selectedComponent && this.isGroupListed(componentName)) {
+                this.selectedEvent = null;
+                this.displayComponentEvents(this.selectedComponent);
+            }
+        };
+        return toggle;
+    }
+
+    private getOrCreateInstanceGroup(componentName: string, group: ComponentGroup, instanceId: number, key?: string | number | symbol): InstanceGroup | undefined {
+        if (!group.instanceList) return undefined;
+
+        const existing = group.instances.get(instanceId);
+        if (existing) return existing;
+
+        const sidebarItem = document.createElement("div");
+        sidebarItem.id = `vue-flow-vis-sidebar-instance-${instanceId}`;
+        sidebarItem.style.display = "flex";
+        sidebarItem.style.justifyContent = "space-between";
+        sidebarItem.style.gap = theme.spacing.md;
+        sidebarItem.style.padding = `${theme.spacing.sm} ${theme.spacing.lg} ${theme.spacing.sm} ${theme.spacing["3xl"]}`;
+        sidebarItem.style.cursor = "pointer";
+        sidebarItem.style.userSelect = "none";
+        sidebarItem.style.fontFamily = theme.fonts.primary;
+        sidebarItem.style.fontSize = theme.fontSizes.xs;
+        sidebarItem.style.transition = `background-color ${theme.transitions.normal}`;
+
+        sidebarItem.onmouseenter = (): void => {
+            if (!this.isSelected(componentName, instanceId)) {
+                sidebarItem.style.backgroundColor = theme.colors.backgroundHover;
+            }
+        };
+
+        sidebarItem.onmouseleave = (): void => {
+            if (!this.isSelected(componentName, instanceId)) {
+                sidebarItem.style.backgroundColor = theme.colors.transparent;
+            }
+        };
+
+        sidebarItem.onclick = (): void => {
+            this.selectComponent(componentName, instanceId);
+        };
+
+        const instanceGroup: InstanceGroup = { sidebarItem, eventCount: 0, key };
+        group.instances.set(instanceId, instanceGroup);
+        group.instanceList.appendChild(sidebarItem);
+        this.updateInstanceItem(componentName, instanceId, instanceGroup);
+
+        return instanceGroup;
+    }
+
+    private updateInstanceItem(componentName: string, instanceId: number, instanceGroup: InstanceGroup): void {
+        const label = document.createElement("span");
+        label.textContent = instanceGroup.key === undefined
+            ? `#${instanceId}`
+            : `#${instanceId} (key: ${String(instanceGroup.key)})`;
+        label.title = ComponentIdentifier.formatInstanceLabel(componentName, instanceId, instanceGroup.key);
+        if (instanceGroup.state) {
+            label.title += instanceGroup.state === 'unmounted' ? " (unmounted)" : " (cached by KeepAlive)";
+        }
+        label.style.textDecoration = instanceGroup.state === 'unmounted' ? "line-through" : "none";
+        label.style.whiteSpace = "nowrap";
+        label.style.overflow = "hidden";
+        label.style.textOverflow = "ellipsis";
+
+        const count = document.createElement("span");
+        count.textContent = `${instanceGroup.eventCount}`;
+        count.style.color = theme.colors.textMuted;
+        count.style.flexShrink = "0";
+
+        instanceGroup.sidebarItem.innerHTML = "";
+        instanceGroup.sidebarItem.style.opacity = instanceGroup.state ? theme.opacity.muted : theme.opacity.visible;
+        instanceGroup.sidebarItem.appendChild(label);
+        instanceGroup.sidebarItem.appendChild(count);
+
+        // Keep the busiest instances on top
+        let previous = instanceGroup.sidebarItem.previousElementSibling;
+        while (previous && this.getInstanceEventCount(previous) < instanceGroup.eventCount) {
+            previous = previous.previousElementSibling;
+        }
+        const parent = instanceGroup.sidebarItem.parentElement;
+        const target = previous ? previous.nextElementSibling : parent?.firstElementChild;
+        if (parent && target && target !== instanceGroup.sidebarItem) {
+            parent.insertBefore(instanceGroup.sidebarItem, target);
+        }
+        instanceGroup.sidebarItem.dataset.eventCount = `${instanceGroup.eventCount}`;
+    }
+
+    private getInstanceState(event: LifecycleEventData, current: InstanceGroup['state']): InstanceGroup['state'] {
+        switch (event.type) {
+            case 'unmounted':
+                return 'unmounted';
+            case 'deactivated':
+                return 'deactivated';
+            case 'mounted':
+            case 'activated':
+                return undefined;
+            case 'async-resolved':
+                return current;
+        }
+    }
+
+    private getInstanceEventCount(sidebarItem: Element): number {
+        return Number((sidebarItem as HTMLElement).dataset.eventCount ?? 0);
+    }
+
+    private applyComponentFilter(componentName: string, group: ComponentGroup): void {
+        const shouldShow = this.matchesComponentFilter(componentName, group);
         group.sidebarItem.style.display = shouldShow ? "flex" : "none";
+        if (group.instanceList) {
+            group.instanceList.style.display = shouldShow && group.expanded ? "flex" : "none";
+        }
+        if (group.childList) {
+            group.childList.style.display = group.expanded ? "flex" : "none";
+        }
+    }
+
+    private matchesComponentFilter(componentName: string, group: ComponentGroup): boolean {
+        if (this.componentFilter === "" || this.getGroupName(componentName).toLowerCase().includes(this.componentFilter)) {
+            return true;
+        }
+        // Tree nodes stay visible while one of their descendants matches
+        return group.children.some((childKey) => {
+            const child = this.componentGroups.get(childKey);
+            return child !== undefined && this.matchesComponentFilter(childKey, child);
+        });
     }
 
-    private addEventToGroup(componentName: string, eventType: 'tracked' | 'triggered', eventData: RenderEventData, componentPath?: string): void {
+    private getGroupKey(componentName: string, componentPath?: string): string {
+        return this.componentTree ? componentPath ?? componentName : componentName;
+    }
+
+    private getGroupName(groupKey: string): string {
+        return this.componentTree ? groupKey.split(PATH_SEPARATOR).pop() ?? groupKey : groupKey;
+    }
+
+    private getParentKey(groupKey: string): string | null {
+        if (!this.componentTree) return null;
+
+        const separatorIndex = groupKey.lastIndexOf(PATH_SEPARATOR);
+        return separatorIndex === -1 ? null : groupKey.slice(0, separatorIndex);
+    }
+
+    /**
+     * Whether events of the group are listed for the selected component - in tree mode the
+     * selection also lists the events of descendants that are not hidden in a collapsed subtree
+     */
+    private isGroupListed(groupKey: string): boolean {
+        if (!this.selectedComponent) return false;
+        if (groupKey === this.selectedComponent) return true;
+
+        let key = this.getParentKey(groupKey);
+        while (key !== null) {
+            if (!this.componentGroups.get(key)?.expanded) return false;
+            if (key === this.selectedComponent) return true;
+            key = this.getParentKey(key);
+        }
+        return false;
+    }
+
+    private isSelected(componentName: string, instanceId: number | null): boolean {
+        return this.selectedComponent === componentName && this.selectedInstanceId === instanceId;
+    }
+
+    private addEventToGroup(componentName: string, loggedEvent: LoggedEvent, componentPath?: string): void {
         const group = this.getOrCreateComponentGroup(componentName, componentPath);
         
         // Update componentPath if it's provided and not already set
@@ -221,42 +602,90 @@ export class UILogger implements Logger {
         
         group.eventCount++;
         
-        const timestamp = new Date().toLocaleTimeString();
-        group.events.push({type: eventType, timestamp, eventData});
+        group.events.push(loggedEvent);
+
+        if (loggedEvent.type === 'rendered') {
+            group.renderCount++;
+            this.countSubtreeRender(componentName);
+        }
+        
+        const { instanceId, metadata } = loggedEvent.eventData;
+        const instanceGroup = this.getOrCreateInstanceGroup(componentName, group, instanceId, metadata?.key);
+        if (instanceGroup) {
+            instanceGroup.eventCount++;
+            if (loggedEvent.type === 'lifecycle') {
+                instanceGroup.state = this.getInstanceState(loggedEvent.eventData, instanceGroup.state);
+            }
+            this.updateInstanceItem(componentName, instanceId, instanceGroup);
+        }
         
-        if (this.selectedComponent === componentName) {
-            // Use incremental update instead of full redisplay to preserve scroll position
-            const visibleEvents = group.events
-                .map((event, originalIndex) => ({ ...event, originalIndex }))
-                .filter(event => 
-                    (event.type === 'tracked' && this.showTrackedEvents) || 
-                    (event.type === 'triggered' && this.showTriggeredEvents)
-                );
-            this.updateVirtualScrolling(componentName, visibleEvents);
+        if (this.selectedComponent && this.isGroupListed(componentName)) {
+            const selectedGroup = this.componentGroups.get(this.selectedComponent);
+            if (selectedGroup) {
+                // Use incremental update instead of full redisplay to preserve scroll position
+                this.updateVirtualScrolling(this.selectedComponent, this.getVisibleEvents(selectedGroup));
+            }
         }
         
         this.updateSidebarItem(componentName, componentPath);
+
+        if (this.activeView === 'flame' && (loggedEvent.type === 'rendered' || loggedEvent.type === 'triggered')) {
+            this.scheduleViewRefresh();
+        }
+        // Dependencies are replaced when a render completes and dropped when an instance unmounts
+        if (this.activeView === 'dependencies' && (loggedEvent.type === 'rendered' || loggedEvent.type === 'lifecycle')) {
+            this.scheduleViewRefresh();
+        }
+        if (this.activeView === 'subscriptions' && loggedEvent.type === 'rendered') {
+            this.scheduleViewRefresh();
+        }
     }
 
-    private selectComponent(componentName: string): void {
-        if (this.selectedComponent) {
-            const prevGroup = this.componentGroups.get(this.selectedComponent);
-            if (prevGroup) {
-                prevGroup.sidebarItem.style.backgroundColor = "transparent";
-                prevGroup.sidebarItem.style.fontWeight = "normal";
+    private countSubtreeRender(groupKey: string): void {
+        let key: string | null = groupKey;
+        while (key !== null) {
+            const group = this.componentGroups.get(key);
+            if (!group) return;
+
+            group.subtreeRenderCount++;
+            if (key !== groupKey) {
+                this.updateSidebarItem(key, group.componentPath);
             }
+            key = this.getParentKey(key);
         }
+    }
+
+    private selectComponent(componentName: string, instanceId: number | null = null): void {
+        this.setActiveView(null);
+        this.clearSidebarSelection();
 
         this.selectedComponent = componentName;
+        this.selectedInstanceId = instanceId;
         this.selectedEvent = null; // Clear selected event when switching components
         const currentGroup = this.componentGroups.get(componentName);
-        if (currentGroup) {
-            currentGroup.sidebarItem.style.backgroundColor = theme.colors.backgroundHover;
+        const currentInstance = instanceId !== null ? currentGroup?.instances.get(instanceId) : undefined;
+        const selectedItem = currentInstance?.sidebarItem ?? currentGroup?.sidebarItem;
+        if (selectedItem) {
+            selectedItem.style.backgroundColor = theme.colors.backgroundHover;
         }
 
         this.displayComponentEvents(componentName);
     }
 
+    private clearSidebarSelection(): void {
+        if (!this.selectedComponent) return;
+
+        const prevGroup = this.componentGroups.get(this.selectedComponent);
+        if (prevGroup) {
+            prevGroup.sidebarItem.style.backgroundColor = "transparent";
+            prevGroup.sidebarItem.style.fontWeight = "normal";
+        }
+        const prevInstance = this.selectedInstanceId !== null ? prevGroup?.instances.get(this.selectedInstanceId) : undefined;
+        if (prevInstance) {
+            prevInstance.sidebarItem.style.backgroundColor = "transparent";
+        }
+    }
+
     private displayComponentEvents(componentName: string): void {
         const mainArea = this.uiManager.getMainArea();
         if (!mainArea) return;
@@ -284,7 +713,10 @@ export class UILogger implements Logger {
         const title = document.createElement("h3");
         title.id = `vue-flow-vis-component-title-${componentName.replace(/[^a-zA-Z0-9]/g, '-')}`;
         const displayText = group.componentPath || componentName;
-        title.textContent = `${displayText}`;
+        const instance = this.selectedInstanceId !== null ? group.instances.get(this.selectedInstanceId) : undefined;
+        title.textContent = instance
+            ? ComponentIdentifier.formatInstanceLabel(displayText, this.selectedInstanceId!, instance.key)
+            : `${displayText}`;
         title.style.margin = "0";
         title.style.fontFamily = theme.fonts.primary;
         title.style.fontSize = theme.fontSizes.base;
@@ -344,8 +776,75 @@ export class UILogger implements Logger {
         trackedButton.title = this.showTrackedEvents ? "Hide render tracked events" : "Show render tracked events";
         trackedButton.onclick = (): void => this.toggleTrackedEvents();
 
+        const renderedButton = document.createElement("button");
+        renderedButton.id = `vue-flow-vis-rendered-button-${componentName.replace(/[^a-zA-Z0-9]/g, '-')}`;
+        renderedButton.innerHTML = createTimerIcon(14);
+        renderedButton.style.color = this.showRenderedEvents ? theme.colors.rendered : theme.colors.textDisabled;
+        renderedButton.style.border = "none";
+        renderedButton.style.cursor = "pointer";
+        renderedButton.style.backgroundColor = "transparent";
+        renderedButton.style.padding = "0";
+        renderedButton.style.position = "relative";
+        renderedButton.style.top = theme.positioning.iconOffset2;
+        renderedButton.title = this.showRenderedEvents ? "Hide render timing events" : "Show render timing events";
+        renderedButton.onclick = (): void => this.toggleRenderedEvents();
+
+        const lifecycleButton = document.createElement("button");
+        lifecycleButton.id = `vue-flow-vis-lifecycle-button-${componentName.replace(/[^a-zA-Z0-9]/g, '-')}`;
+        lifecycleButton.innerHTML = createLifecycleIcon(14);
+        lifecycleButton.style.color = this.showLifecycleEvents ? theme.colors.lifecycle : theme.colors.textDisabled;
+        lifecycleButton.style.border = "none";
+        lifecycleButton.style.cursor = "pointer";
+        lifecycleButton.style.backgroundColor = "transparent";
+        lifecycleButton.style.padding = "0";
+        lifecycleButton.style.position = "relative";
+        lifecycleButton.style.top = theme.positioning.iconOffset2;
+        lifecycleButton.title = this.showLifecycleEvents ? "Hide lifecycle events" : "Show lifecycle events";
+        lifecycleButton.onclick = (): void => this.toggleLifecycleEvents();
+
+        const redundantButton = document.createElement("button");
+        redundantButton.id = `vue-flow-vis-redundant-button-${componentName.replace(/[^a-zA-Z0-9]/g, '-')}`;
+        redundantButton.innerHTML = createRedundantIcon(14);
+        redundantButton.style.color = this.showOnlyRedundant ? theme.colors.warning : theme.colors.textDisabled;
+        redundantButton.style.border = "none";
+        redundantButton.style.cursor = "pointer";
+        redundantButton.style.backgroundColor = "transparent";
+        redundantButton.style.padding = "0";
+        redundantButton.style.position = "relative";
+        redundantButton.style.top = theme.positioning.iconOffset2;
+        redundantButton.title = this.showOnlyRedundant ? "Show all events" : "Show only redundant triggers";
+        redundantButton.onclick = (): void => this.toggleRedundantOnly();
+
+        const cyclesButton = document.createElement("button");
+        cyclesButton.id = `vue-flow-vis-cycles-button-${componentName.replace(/[^a-zA-Z0-9]/g, '-')}`;
+        cyclesButton.innerHTML = createCycleIcon(14);
+        cyclesButton.style.color = this.showRenderCycles ? theme.colors.primary : theme.colors.textDisabled;
+        cyclesButton.style.border = "none";
+        cyclesButton.style.cursor = "pointer";
+        cyclesButton.style.backgroundColor = "transparent";
+        cyclesButton.style.padding = "0";
+        cyclesButton.style.position = "relative";
+        cyclesButton.style.top = theme.positioning.iconOffset2;
+        cyclesButton.title = this.showRenderCycles ? "Show individual events" : "Group events by render cycle";
+        cyclesButton.onclick = (): void => this.toggleRenderCycles();
+
+        // Event type filters only apply to the flat event list
+        const eventTypeButtonsDisplay = this.showRenderCycles ? "none" : "inline-block";
+        triggerButton.style.display = eventTypeButtonsDisplay;
+        trackedButton.style.display = eventTypeButtonsDisplay;
+        renderedButton.style.display = eventTypeButtonsDisplay;
+        lifecycleButton.style.display = eventTypeButtonsDisplay;
+        redundantButton.style.display = eventTypeButtonsDisplay;
+
+        if (this.timeRange) {
+            eventsHeader.appendChild(this.createTimeRangeChip(componentName, this.timeRange));
+        }
         eventsHeader.appendChild(triggerButton);
         eventsHeader.appendChild(trackedButton);
+        eventsHeader.appendChild(renderedButton);
+        eventsHeader.appendChild(lifecycleButton);
+        eventsHeader.appendChild(redundantButton);
+        eventsHeader.appendChild(cyclesButton);
 
         eventsListArea.appendChild(eventsHeader);
 
@@ -359,17 +858,12 @@ export class UILogger implements Logger {
         this.virtualScrollContainer.style.boxSizing = "border-box";
 
         // Get filtered events for virtual scrolling with original indices
-        const visibleEvents = group.events
-            .map((event, originalIndex) => ({ ...event, originalIndex }))
-            .filter(event => 
-                (event.type === 'tracked' && this.showTrackedEvents) || 
-                (event.type === 'triggered' && this.showTriggeredEvents)
-            );
+        const visibleEvents = this.getVisibleEvents(group);
 
         if (visibleEvents.length === 0) {
             const noEvents = document.createElement("p");
             noEvents.id = `vue-flow-vis-no-events-${componentName.replace(/[^a-zA-Z0-9]/g, '-')}`;
-            noEvents.textContent = group.events.length === 0 ? "No events recorded yet" : "No events to display";
+            noEvents.textContent = this.getNoEventsText(group);
             noEvents.style.color = theme.colors.textMuted;
             noEvents.style.fontStyle = "italic";
             noEvents.style.margin = "0";
@@ -388,7 +882,76 @@ export class UILogger implements Logger {
         this.updateEventDetailsArea();
     }
 
-    private setupVirtualScrolling(componentName: string, events: Array<{type: 'tracked' | 'triggered', timestamp: string, eventData: RenderEventData, originalIndex: number}>): void {
+    private getNoEventsText(group: ComponentGroup): string {
+        const recorded = this.getListedEvents(group).length > 0;
+        if (this.showRenderCycles) {
+            return recorded ? "No render cycles to display" : "No render cycles recorded yet";
+        }
+        return recorded ? "No events to display" : "No events recorded yet";
+    }
+
+    private getVisibleEvents(group: ComponentGroup): IndexedLoggedEvent[] {
+        if (this.showRenderCycles) {
+            return this.getListedEvents(group)
+                .map((cycle, originalIndex) => ({ ...cycle, originalIndex }))
+                .filter(cycle => this.isInstanceVisible(cycle) && this.isInTimeRange(cycle));
+        }
+        return this.getListedEvents(group)
+            .map((event, originalIndex) => ({ ...event, originalIndex }))
+            .filter(event => this.isEventTypeVisible(event.type) && this.isRedundancyVisible(event) && this.isInstanceVisible(event) && this.isInTimeRange(event));
+    }
+
+    /**
+     * Events of the group followed by those of its expanded descendants in tree mode, in the
+     * order they were logged. New events are always appended, so indices stay stable.
+     */
+    private getListedEvents(group: ComponentGroup): LoggedEvent[] {
+        const ownEvents = this.showRenderCycles ? group.cycles : group.events;
+        if (!this.componentTree || !group.expanded || group.children.length === 0) {
+            return ownEvents;
+        }
+
+        const events = [...ownEvents];
+        const collect = (parent: ComponentGroup): void => {
+            for (const childKey of parent.children) {
+                const child = this.componentGroups.get(childKey);
+                if (!child) continue;
+
+                events.push(...(this.showRenderCycles ? child.cycles : child.events));
+                if (child.expanded) {
+                    collect(child);
+                }
+            }
+        };
+        collect(group);
+
+        return events.sort((a, b) => a.sequence - b.sequence);
+    }
+
+    private isInstanceVisible(event: LoggedEvent): boolean {
+        return this.selectedInstanceId === null || event.eventData.instanceId === this.selectedInstanceId;
+    }
+
+    private isRedundancyVisible(event: LoggedEvent): boolean {
+        return !this.showOnlyRedundant || (event.type === 'triggered' && event.eventData.redundant === true);
+    }
+
+    private isEventTypeVisible(type: LoggedEvent['type']): boolean {
+        switch (type) {
+            case 'tracked':
+                return this.showTrackedEvents;
+            case 'triggered':
+                return this.showTriggeredEvents;
+            case 'rendered':
+                return this.showRenderedEvents;
+            case 'lifecycle':
+                return this.showLifecycleEvents;
+            case 'cycle':
+                return this.showRenderCycles;
+        }
+    }
+
+    private setupVirtualScrolling(componentName: string, events: IndexedLoggedEvent[]): void {
         if (!this.virtualScrollContainer) return;
 
         // Store current events and component name
@@ -439,7 +1002,7 @@ export class UILogger implements Logger {
         }
     };
 
-    private handleVirtualScroll(componentName: string, events: Array<{type: 'tracked' | 'triggered', timestamp: string, eventData: RenderEventData, originalIndex: number}>): void {
+    private handleVirtualScroll(componentName: string, events: IndexedLoggedEvent[]): void {
         if (!this.virtualScrollManager || !this.virtualScrollContainer || !this.virtualScrollContent) return;
 
         const scrollTop = this.virtualScrollContainer.scrollTop;
@@ -464,7 +1027,7 @@ export class UILogger implements Logger {
         }
     }
 
-    private createEventElement(componentName: string, event: {type: 'tracked' | 'triggered', timestamp: string, eventData: RenderEventData}, eventIndex: number): HTMLDivElement {
+    private createEventElement(componentName: string, event: LoggedEvent, eventIndex: number): HTMLDivElement {
         const eventDiv = document.createElement("div");
         eventDiv.id = `vue-flow-vis-event-${componentName.replace(/[^a-zA-Z0-9]/g, '-')}-${eventIndex}`;
         eventDiv.style.display = "flex";
@@ -509,25 +1072,23 @@ export class UILogger implements Logger {
 
         eventDiv.onclick = (): void => {
             this.selectEvent({
-                type: event.type,
-                timestamp: event.timestamp,
+                ...event,
                 componentName: componentName,
-                eventData: event.eventData,
                 eventIndex: eventIndex
             });
         };
 
         const iconSpan = document.createElement("span");
-        iconSpan.innerHTML = event.type === 'tracked' ? createTrackIcon(14) : createTriggerIcon(14);
-        iconSpan.style.color = event.type === 'tracked' ? theme.colors.tracked : theme.colors.triggered;
+        iconSpan.innerHTML = this.getEventIcon(event.type);
+        iconSpan.style.color = this.getEventColor(event.type);
         iconSpan.style.marginRight = theme.spacing.md;
         iconSpan.style.position = "relative";
         iconSpan.style.top = theme.positioning.iconOffset2;
         iconSpan.style.flexShrink = "0";
 
         const eventSpan = document.createElement("span");
-        eventSpan.textContent = event.type === 'tracked' ? 'Render tracked' : 'Render triggered';
-        eventSpan.style.color = event.type === 'tracked' ? theme.colors.tracked : theme.colors.triggered;
+        eventSpan.textContent = this.getEventLabel(event);
+        eventSpan.style.color = this.getEventColor(event.type);
         eventSpan.style.flex = "1";
 
         const timestampContainer = document.createElement("span");
@@ -559,7 +1120,78 @@ export class UILogger implements Logger {
         return eventDiv;
     }
 
-    private updateVirtualScrolling(componentName: string, events: Array<{type: 'tracked' | 'triggered', timestamp: string, eventData: RenderEventData, originalIndex: number}>): void {
+    private getEventIcon(type: LoggedEvent['type']): string {
+        switch (type) {
+            case 'tracked':
+                return createTrackIcon(14);
+            case 'triggered':
+                return createTriggerIcon(14);
+            case 'rendered':
+                return createTimerIcon(14);
+            case 'cycle':
+                return createCycleIcon(14);
+            case 'lifecycle':
+                return createLifecycleIcon(14);
+        }
+    }
+
+    private getEventColor(type: LoggedEvent['type']): string {
+        switch (type) {
+            case 'tracked':
+                return theme.colors.tracked;
+            case 'triggered':
+                return theme.colors.triggered;
+            case 'rendered':
+            case 'cycle':
+                return theme.colors.rendered;
+            case 'lifecycle':
+                return theme.colors.lifecycle;
+        }
+    }
+
+    private getEventLabel(event: LoggedEvent): string {
+        switch (event.type) {
+            case 'tracked':
+                return this.withTargetLabel('Render tracked', event.eventData);
+            case 'triggered':
+                return this.withTargetLabel(event.eventData.redundant ? 'Render triggered (redundant)' : 'Render triggered', event.eventData);
+            case 'rendered':
+                return `Rendered (${event.eventData.phase}) in ${EventFormatter.formatDuration(event.eventData.duration)}`;
+            case 'cycle': {
+                const { sequence, phase, triggers, tracked, timing } = event.eventData;
+                return `Cycle #${sequence} (${phase}): ${triggers.length} triggered, ${tracked.length} tracked in ${EventFormatter.formatDuration(timing.duration)}`;
+            }
+            case 'lifecycle':
+                return this.getLifecycleLabel(event.eventData);
+        }
+    }
+
+    private withTargetLabel(label: string, data: RenderEventData): string {
+        return data.targetLabel ? `${label}: ${data.targetLabel}` : label;
+    }
+
+    private getLifecycleLabel(event: LifecycleEventData): string {
+        switch (event.type) {
+            case 'mounted': {
+                const reason = LifecycleTimelineView.formatMountReason(event.reason, event.replacedInstanceId);
+                return reason ? `Mounted (${reason})` : 'Mounted';
+            }
+            case 'unmounted': {
+                const lifetime = event.lifetime === undefined ? '' : ` after ${EventFormatter.formatDuration(event.lifetime)}`;
+                return `Unmounted${lifetime}${event.reason ? ` (${event.reason})` : ''}`;
+            }
+            case 'activated':
+                return 'Activated (restored from KeepAlive)';
+            case 'deactivated':
+                return 'Deactivated (cached by KeepAlive)';
+            case 'async-resolved':
+                return event.duration === undefined
+                    ? 'Async setup resolved'
+                    : `Async component resolved in ${EventFormatter.formatDuration(event.duration)}`;
+        }
+    }
+
+    private updateVirtualScrolling(componentName: string, events: IndexedLoggedEvent[]): void {
         if (!this.virtualScrollManager || !this.virtualScrollContainer || !this.virtualScrollSpacer) return;
 
         // Update stored events
@@ -693,6 +1325,23 @@ export class UILogger implements Logger {
         headerContainer.style.color = theme.colors.text;
         headerContainer.style.fontWeight = "bold";
 
+        if (this.selectedEvent?.type === 'rendered' || this.selectedEvent?.type === 'cycle') {
+            const isCycle = this.selectedEvent.type === 'cycle';
+            headerContainer.textContent = isCycle ? EVENT_DETAILS_HEADER_RENDER_CYCLE : EVENT_DETAILS_HEADER_RENDER_TIMING;
+            detailsHeader.appendChild(headerContainer);
+            detailsArea.appendChild(detailsHeader);
+            detailsArea.appendChild(this.createEventDetailsContent(this.selectedEvent.eventData, isCycle ? 'cycle' : 'render'));
+            return detailsArea;
+        }
+
+        if (this.selectedEvent?.type === 'lifecycle') {
+            headerContainer.textContent = EVENT_DETAILS_HEADER_LIFECYCLE;
+            detailsHeader.appendChild(headerContainer);
+            detailsArea.appendChild(detailsHeader);
+            detailsArea.appendChild(this.createEventDetailsContent(this.selectedEvent.eventData, 'lifecycle'));
+            return detailsArea;
+        }
+
         const originalText = document.createElement("span");
         originalText.textContent = `${EVENT_DETAILS_HEADER_ORIGINAL} `;
         
@@ -715,25 +1364,60 @@ export class UILogger implements Logger {
 
         // Add content area for the object inspector
         if (this.selectedEvent) {
-            const contentContainer = document.createElement("div");
-            contentContainer.id = "vue-flow-vis-event-details-content";
-            contentContainer.style.flex = "1";
-            contentContainer.style.padding = `${theme.spacing.md}`;
-            contentContainer.style.overflow = "auto";
-
-            // Use the pre-configured ObjectInspector instance
-            const inspectorElement = this.objectInspector.render(this.selectedEvent.eventData.event, 'event');
-            contentContainer.appendChild(inspectorElement);
-
-            detailsArea.appendChild(contentContainer);
+            const { event } = this.selectedEvent.eventData;
+            const content = this.createEventDetailsContent(event, 'event');
+            const type: string = event.type;
+            if (type === 'set') {
+                content.prepend(this.createValueDiff(event));
+            }
+            detailsArea.appendChild(content);
         }
 
         return detailsArea;
     }
+
+    private createEventDetailsContent(value: object, key: string): HTMLDivElement {
+        const contentContainer = document.createElement("div");
+        contentContainer.id = "vue-flow-vis-event-details-content";
+        contentContainer.style.flex = "1";
+        contentContainer.style.padding = `${theme.spacing.md}`;
+        contentContainer.style.overflow = "auto";
+
+        // Use the pre-configured ObjectInspector instance
+        const inspectorElement = this.objectInspector.render(value, key);
+        contentContainer.appendChild(inspectorElement);
+
+        return contentContainer;
+    }
     
+    /**
+     * Shows what a `set` trigger changed, entry by entry
+     */
+    private createValueDiff(event: RenderEventData["event"]): HTMLDivElement {
+        const diffContainer = document.createElement("div");
+        diffContainer.id = "vue-flow-vis-value-diff";
+        diffContainer.style.marginBottom = theme.spacing.md;
+        diffContainer.style.paddingBottom = theme.spacing.md;
+        diffContainer.style.borderBottom = `${theme.borderWidths.thin} solid ${theme.colors.border}`;
+
+        const title = document.createElement("div");
+        title.textContent = VALUE_DIFF_TITLE;
+        title.style.fontFamily = theme.fonts.primary;
+        title.style.fontWeight = "bold";
+        title.style.marginBottom = theme.spacing.sm;
+        diffContainer.appendChild(title);
+
+        const key = typeof event.key === "number" ? event.key : String(event.key);
+        const diffElement = this.objectInspector.renderDiff(event.oldValue, event.newValue, key);
+        diffElement.style.height = "auto";
+        diffContainer.appendChild(diffElement);
+
+        return diffContainer;
+    }
+
     private setupEventDetailsResizeListeners(): void {
-        document.addEventListener("mousemove", this.onEventDetailsMouseMove.bind(this));
-        document.addEventListener("mouseup", this.onEventDetailsMouseUp.bind(this));
+        document.addEventListener("mousemove", this.onEventDetailsMouseMove);
+        document.addEventListener("mouseup", this.onEventDetailsMouseUp);
     }
     
     private onEventDetailsMouseDown(event: MouseEvent): void {
@@ -754,7 +1438,7 @@ export class UILogger implements Logger {
         event.stopPropagation();
     }
     
-    private onEventDetailsMouseMove(event: MouseEvent): void {
+    private onEventDetailsMouseMove = (event: MouseEvent): void => {
         if (!this.isEventDetailsResizing) return;
         
         const deltaX = this.startEventDetailsX - event.clientX;
@@ -790,23 +1474,271 @@ export class UILogger implements Logger {
             detailsArea.style.flex = `0 0 ${detailsPercentage}%`;
             eventsListArea.style.flex = `0 0 ${eventsPercentage}%`;
         }
-    }
+    };
     
-    private onEventDetailsMouseUp(): void {
+    private onEventDetailsMouseUp = (): void => {
         this.isEventDetailsResizing = false;
         
         const resizeHandle = document.querySelector('#vue-flow-vis-event-details-resize-handle') as HTMLDivElement;
         if (resizeHandle) {
             resizeHandle.style.borderLeftColor = "transparent";
         }
-    }
+    };
 
     tracked(data: RenderEventData): void {
-        this.addEventToGroup(data.componentName, 'tracked', data, data.componentPath);
+        if (this.readOnly) return;
+        this.logEvent({ type: 'tracked', timestamp: new Date().toLocaleTimeString(), eventData: data, sequence: this.nextSequence++ });
     }
 
     triggered(data: RenderEventData): void {
-        this.addEventToGroup(data.componentName, "triggered", data, data.componentPath);
+        if (this.readOnly) return;
+        this.logEvent({ type: 'triggered', timestamp: new Date().toLocaleTimeString(), eventData: data, sequence: this.nextSequence++ });
+    }
+
+    rendered(data: RenderTimingData): void {
+        if (this.readOnly) return;
+        this.logEvent({ type: 'rendered', timestamp: new Date().toLocaleTimeString(), eventData: data, sequence: this.nextSequence++ });
+    }
+
+    lifecycle(event: LifecycleEventData): void {
+        if (this.readOnly) return;
+        this.addLifecycleEvent(event, new Date().toLocaleTimeString());
+    }
+
+    private addLifecycleEvent(event: LifecycleEventData, timestamp: string): void {
+        this.logEvent({ type: 'lifecycle', timestamp, eventData: event, sequence: this.nextSequence++ });
+        if (event.type !== 'mounted' && event.type !== 'unmounted') return;
+
+        this.recordLifetime(event);
+        if (this.activeView === 'timeline') {
+            this.displayTimeline();
+        }
+    }
+
+    private recordLifetime(event: LifecycleEventData): void {
+        if (event.type === 'mounted') {
+            this.lifetimes.set(event.instanceId, {
+                componentName: event.componentName,
+                componentPath: event.componentPath,
+                instanceId: event.instanceId,
+                key: event.key,
+                mountedAt: event.timestamp,
+                mountReason: event.reason,
+                replacedInstanceId: event.replacedInstanceId
+            });
+            if (this.lifetimes.size > this.MAX_LIFETIMES) {
+                this.lifetimes.delete(this.lifetimes.keys().next().value!);
+            }
+            return;
+        }
+
+        const lifetime = this.lifetimes.get(event.instanceId);
+        if (lifetime) {
+            lifetime.unmountedAt = event.timestamp;
+            lifetime.unmountReason = event.reason;
+        }
+    }
+
+    private logEvent(loggedEvent: LoggedEvent): void {
+        const { componentName, componentPath } = loggedEvent.eventData;
+        this.addEventToGroup(this.getGroupKey(componentName, componentPath), loggedEvent, componentPath);
+    }
+
+    renderCycle(cycle: RenderCycle): void {
+        if (this.readOnly) return;
+        this.addCycle(cycle, new Date().toLocaleTimeString());
+    }
+
+    private addCycle(cycle: RenderCycle, timestamp: string): void {
+        const groupKey = this.getGroupKey(cycle.componentName, cycle.componentPath);
+        const group = this.getOrCreateComponentGroup(groupKey, cycle.componentPath);
+        group.cycles.push({ type: 'cycle', timestamp, eventData: cycle, sequence: this.nextSequence++ });
+        if (this.groupByInstance && !group.instances.has(cycle.instanceId)) {
+            // Instances that only report cycles still need a sidebar row
+            this.getOrCreateInstanceGroup(groupKey, group, cycle.instanceId, cycle.metadata?.key);
+            this.updateSidebarItem(groupKey, cycle.componentPath);
+        }
+
+        if (this.selectedComponent && this.isGroupListed(groupKey) && this.showRenderCycles) {
+            this.refreshEventsList(this.selectedComponent);
+        }
+    }
+
+    renderCascade(cascade: RenderCascade): void {
+        if (this.readOnly) return;
+        this.addCascade(cascade);
+    }
+
+    private addCascade(cascade: RenderCascade): void {
+        this.cascades.push(cascade);
+        if (this.cascades.length > this.MAX_CASCADES) {
+            this.cascades.shift();
+        }
+
+        if (this.activeView === 'cascades') {
+            this.displayCascades();
+        }
+    }
+
+    warning(warning: RenderWarning): void {
+        if (this.readOnly) return;
+        this.addWarning(warning);
+    }
+
+    private addWarning(warning: RenderWarning): void {
+        const groupKey = this.getGroupKey(warning.componentName, warning.componentPath);
+        const group = this.getOrCreateComponentGroup(groupKey, warning.componentPath);
+        group.warnings.push(warning);
+        this.updateSidebarItem(groupKey, warning.componentPath);
+    }
+
+    pauseChanged(paused: boolean): void {
+        this.uiManager.setPaused(paused);
+    }
+
+    heatmapChanged(enabled: boolean): void {
+        this.uiManager.setHeatmapEnabled(enabled);
+    }
+
+    /**
+     * Creates a versioned, JSON-safe document of everything recorded in the panel
+     */
+    exportSession(): SessionDocument {
+        const records: SessionRecord[] = [];
+        const components: SessionComponent[] = [];
+        const loggedEvents: LoggedEvent[] = [];
+
+        this.componentGroups.forEach((group, name) => {
+            loggedEvents.push(...group.events, ...group.cycles);
+            components.push({
+                name,
+                componentPath: group.componentPath,
+                eventCount: group.eventCount,
+                instanceIds: Array.from(new Set(group.events.map((event) => event.eventData.instanceId)))
+            });
+        });
+
+        loggedEvents.sort((a, b) => a.sequence - b.sequence);
+        for (const loggedEvent of loggedEvents) {
+            records.push(this.toSessionRecord(loggedEvent));
+        }
+        this.cascades.forEach((cascade) => records.push({ type: 'cascade', data: cascade }));
+        this.componentGroups.forEach((group) => {
+            group.warnings.forEach((warning) => records.push({ type: 'warning', data: warning }));
+        });
+
+        const lifetimes = Array.from((this.importedLifetimeStats ?? this.getLifetimeStats()).values());
+        return SessionSerializer.createDocument(records, components, lifetimes);
+    }
+
+    /**
+     * Converts the recorded triggers and renders, live or imported, into a Chrome trace
+     */
+    exportTrace(): ChromeTrace {
+        const triggers: RenderEventData[] = [];
+        const timings: RenderTimingData[] = [];
+
+        // Render cycles repeat the same triggers and timings, the events alone are complete
+        this.componentGroups.forEach((group) => {
+            for (const loggedEvent of group.events) {
+                if (loggedEvent.type === 'triggered') {
+                    triggers.push(loggedEvent.eventData);
+                } else if (loggedEvent.type === 'rendered') {
+                    timings.push(loggedEvent.eventData);
+                }
+            }
+        });
+
+        return createChromeTrace(triggers, timings);
+    }
+
+    /**
+     * Replaces the panel content with an exported session. The session is shown read-only,
+     * live events are ignored until the log is cleared.
+     * @throws Error if the content is not a valid session
+     */
+    importSession(json: string): void {
+        // Throws for malformed records, before anything of the live session is cleared
+        const session = SessionSerializer.parse(json);
+
+        this.clear();
+        for (const record of session.records) {
+            switch (record.type) {
+                case 'tracked':
+                case 'triggered':
+                    this.logEvent({ type: record.type, timestamp: record.timestamp, eventData: record.data, sequence: this.nextSequence++ });
+                    break;
+                case 'rendered':
+                    this.logEvent({ type: 'rendered', timestamp: record.timestamp, eventData: record.data, sequence: this.nextSequence++ });
+                    break;
+                case 'cycle':
+                    this.addCycle(record.data, record.timestamp);
+                    break;
+                case 'lifecycle':
+                    this.addLifecycleEvent(record.data, record.timestamp);
+                    break;
+                case 'cascade':
+                    this.addCascade(record.data);
+                    break;
+                case 'warning':
+                    this.addWarning(record.data);
+                    break;
+            }
+        }
+        this.importedLifetimeStats = new Map(session.lifetimes.map((stats) => [stats.componentName, stats]));
+
+        this.readOnly = true;
+        const exportedAt = new Date(session.exportedAt);
+        this.uiManager.setSessionLabel(Number.isNaN(exportedAt.getTime()) ? session.exportedAt : exportedAt.toLocaleString());
+    }
+
+    private toSessionRecord(loggedEvent: LoggedEvent): SessionRecord {
+        switch (loggedEvent.type) {
+            case 'tracked':
+            case 'triggered':
+                return { type: loggedEvent.type, timestamp: loggedEvent.timestamp, data: loggedEvent.eventData };
+            case 'rendered':
+                return { type: 'rendered', timestamp: loggedEvent.timestamp, data: loggedEvent.eventData };
+            case 'cycle':
+                return { type: 'cycle', timestamp: loggedEvent.timestamp, data: loggedEvent.eventData };
+            case 'lifecycle':
+                return { type: 'lifecycle', timestamp: loggedEvent.timestamp, data: loggedEvent.eventData };
+        }
+    }
+
+    private downloadSession(): void {
+        try {
+            this.uiManager.downloadFile(this.getExportFileName("session"), JSON.stringify(this.exportSession(), null, 2));
+        } catch (error) {
+            this.error(error as Error, { type: 'export' });
+        }
+    }
+
+    private downloadTrace(): void {
+        try {
+            this.uiManager.downloadFile(this.getExportFileName("trace"), JSON.stringify(this.exportTrace()));
+        } catch (error) {
+            this.error(error as Error, { type: 'export' });
+        }
+    }
+
+    private getExportFileName(kind: string): string {
+        return `vue-flow-vis-${kind}-${new Date().toISOString().replace(/[:.]/g, "-")}.json`;
+    }
+
+    private readSessionFile(file: File): void {
+        const reader = new FileReader();
+        reader.onload = (): void => {
+            try {
+                this.importSession(reader.result as string);
+            } catch (error) {
+                this.error(error as Error, { type: 'import' });
+            }
+        };
+        reader.onerror = (): void => {
+            this.error(reader.error ?? new Error(`Could not read ${file.name}`), { type: 'import' });
+        };
+        reader.readAsText(file);
     }
 
     error(error: Error, _context?: unknown): void {
@@ -838,6 +1770,26 @@ export class UILogger implements Logger {
     }
 
 
+    destroy(): void {
+        document.removeEventListener("mousemove", this.onEventDetailsMouseMove);
+        document.removeEventListener("mouseup", this.onEventDetailsMouseUp);
+        if (this.virtualScrollContainer) {
+            this.virtualScrollContainer.removeEventListener('scroll', this.handleScroll);
+        }
+
+        this.componentGroups.clear();
+        this.cascades = [];
+        this.renderTimeline.reset();
+        this.cancelViewRefresh();
+        this.virtualScrollManager = null;
+        this.virtualScrollContainer = null;
+        this.virtualScrollContent = null;
+        this.virtualScrollSpacer = null;
+        this.currentEvents = [];
+
+        this.uiManager.destroy();
+    }
+
     private clear(): void {
         const sidebarContent = this.uiManager.getSidebarContent();
         if (!sidebarContent) {
@@ -846,8 +1798,18 @@ export class UILogger implements Logger {
         
         this.componentGroups.clear();
         this.selectedComponent = null;
+        this.selectedInstanceId = null;
         this.selectedEvent = null;
         this.componentFilter = "";
+        this.cascades = [];
+        this.lifetimes.clear();
+        this.importedLifetimeStats = null;
+        this.setActiveView(null);
+        this.renderTimeline.reset();
+        this.timeRange = null;
+        this.cancelViewRefresh();
+        this.readOnly = false;
+        this.uiManager.setSessionLabel(null);
         
         // Clean up virtual scrolling state
         if (this.virtualScrollContainer) {
@@ -879,6 +1841,279 @@ export class UILogger implements Logger {
         }
     }
 
+    private toggleRenderCycles(): void {
+        this.showRenderCycles = !this.showRenderCycles;
+        this.selectedEvent = null;
+        if (this.selectedComponent) {
+            this.displayComponentEvents(this.selectedComponent);
+        }
+    }
+
+    private toggleCascades(): void {
+        this.toggleView('cascades');
+    }
+
+    private toggleTimeline(): void {
+        this.toggleView('timeline');
+    }
+
+    private toggleRenderTimeline(): void {
+        this.toggleView('flame');
+    }
+
+    private toggleView(view: MainView): void {
+        if (this.activeView === view) {
+            this.setActiveView(null);
+            this.showPlaceholderText();
+            return;
+        }
+
+        this.setActiveView(view);
+        // The view replaces the selected component's events
+        this.clearSidebarSelection();
+        this.selectedComponent = null;
+        this.selectedInstanceId = null;
+        this.selectedEvent = null;
+
+        switch (view) {
+            case 'cascades':
+                this.displayCascades();
+                break;
+            case 'timeline':
+                this.displayTimeline();
+                break;
+            case 'flame':
+                this.displayRenderTimeline();
+                break;
+            case 'dependencies':
+                this.displayDependencyGraph();
+                break;
+            case 'subscriptions':
+                this.displaySubscriptionReport();
+                break;
+        }
+    }
+
+    private setActiveView(view: MainView | null): void {
+        this.activeView = view;
+        for (const [name, button] of Object.entries(MAIN_VIEW_BUTTONS)) {
+            const viewButton = document.querySelector(`#${button.id}`) as HTMLButtonElement;
+            if (viewButton) {
+                viewButton.style.color = name === view ? theme.colors.primary : theme.colors.black;
+                viewButton.title = name === view ? button.hideTitle : button.showTitle;
+            }
+        }
+    }
+
+    private displayCascades(): void {
+        const mainArea = this.uiManager.getMainArea();
+        if (!mainArea) return;
+
+        // Keep expanded trees and scroll position when new cascades arrive
+        const expandedState = new Map<string, boolean>();
+        mainArea.querySelectorAll("details").forEach((details) => expandedState.set(details.id, details.open));
+        const previousScrollTop = mainArea.querySelector("#vue-flow-vis-cascades-list")?.scrollTop ?? 0;
+
+        mainArea.innerHTML = "";
+        mainArea.appendChild(this.createViewHeader("cascades", createCascadeIcon(14), RENDER_CASCADES_TITLE));
+        const cascadesList = CascadeTreeView.render(this.cascades);
+        cascadesList.querySelectorAll("details").forEach((details) => {
+            const open = expandedState.get(details.id);
+            if (open !== undefined) {
+                details.open = open;
+            }
+        });
+        mainArea.appendChild(cascadesList);
+        cascadesList.scrollTop = previousScrollTop;
+    }
+
+    /**
+     * Creates the title row of a view that replaces the event list, e.g. `vue-flow-vis-cascades-header`
+     */
+    private createViewHeader(view: string, iconHtml: string, titleText: string): HTMLDivElement {
+        const header = document.createElement("div");
+        header.id = `vue-flow-vis-${view}-header`;
+        header.style.display = "flex";
+        header.style.padding = `${theme.spacing.sm} ${theme.spacing.md}`;
+        header.style.borderBottom = `${theme.borderWidths.thin} solid ${theme.colors.border}`;
+        header.style.flexShrink = "0";
+
+        const icon = document.createElement("span");
+        icon.id = `vue-flow-vis-${view}-icon`;
+        icon.innerHTML = iconHtml;
+        icon.style.color = theme.colors.primary;
+        icon.style.marginRight = theme.spacing.md;
+        icon.style.position = "relative";
+        icon.style.top = theme.positioning.iconOffset2;
+
+        const title = document.createElement("h3");
+        title.id = `vue-flow-vis-${view}-title`;
+        title.textContent = titleText;
+        title.style.margin = "0";
+        title.style.fontFamily = theme.fonts.primary;
+        title.style.fontSize = theme.fontSizes.base;
+        title.style.position = "relative";
+        title.style.top = theme.positioning.iconOffset;
+
+        header.appendChild(icon);
+        header.appendChild(title);
+        return header;
+    }
+
+    private displayTimeline(): void {
+        const mainArea = this.uiManager.getMainArea();
+        if (!mainArea) return;
+
+        const previousScrollTop = mainArea.querySelector("#vue-flow-vis-timeline")?.scrollTop ?? 0;
+
+        mainArea.innerHTML = "";
+        mainArea.appendChild(this.createViewHeader("timeline", createTimelineIcon(14), LIFECYCLE_TIMELINE_TITLE));
+        const timeline = LifecycleTimelineView.render(this.importedLifetimeStats ?? this.getLifetimeStats(), Array.from(this.lifetimes.values()));
+        mainArea.appendChild(timeline);
+        timeline.scrollTop = previousScrollTop;
+    }
+
+    private displayRenderTimeline(): void {
+        const mainArea = this.uiManager.getMainArea();
+        if (!mainArea) return;
+
+        mainArea.innerHTML = "";
+        mainArea.appendChild(this.createViewHeader("flame", createFlameIcon(14), RENDER_TIMELINE_TITLE));
+        mainArea.appendChild(this.renderTimeline.render(this.getTimelineLanes()));
+    }
+
+    private displayDependencyGraph(): void {
+        const mainArea = this.uiManager.getMainArea();
+        if (!mainArea) return;
+
+        const previousScrollTop = mainArea.querySelector("#vue-flow-vis-dependency-list")?.scrollTop ?? 0;
+
+        mainArea.innerHTML = "";
+        mainArea.appendChild(this.createViewHeader("dependencies", createDependencyIcon(14), DEPENDENCY_GRAPH_TITLE));
+        const graph = this.dependencyGraph.render(this.getDependencyGraph());
+        mainArea.appendChild(graph);
+        const dependencyList = graph.querySelector("#vue-flow-vis-dependency-list");
+        if (dependencyList) {
+            dependencyList.scrollTop = previousScrollTop;
+        }
+    }
+
+    private displaySubscriptionReport(): void {
+        const mainArea = this.uiManager.getMainArea();
+        if (!mainArea) return;
+
+        const previousScrollTop = mainArea.querySelector("#vue-flow-vis-subscriptions")?.scrollTop ?? 0;
+
+        mainArea.innerHTML = "";
+        mainArea.appendChild(this.createViewHeader("subscriptions", createGaugeIcon(14), SUBSCRIPTION_REPORT_TITLE));
+        const report = this.subscriptionReport.render(this.getSubscriptionReport());
+        mainArea.appendChild(report);
+        report.scrollTop = previousScrollTop;
+    }
+
+    /**
+     * Redraws the open render timeline, dependency view or subscription report once events stop
+     * arriving for a moment, so bursts of renders do not rebuild it for every event
+     */
+    private scheduleViewRefresh(): void {
+        if (this.viewRefresh !== null) return;
+
+        this.viewRefresh = setTimeout(() => {
+            this.viewRefresh = null;
+            if (this.activeView === 'flame') {
+                this.displayRenderTimeline();
+            } else if (this.activeView === 'dependencies') {
+                this.displayDependencyGraph();
+            } else if (this.activeView === 'subscriptions') {
+                this.displaySubscriptionReport();
+            }
+        }, VIEW_REFRESH_DELAY);
+    }
+
+    private cancelViewRefresh(): void {
+        if (this.viewRefresh !== null) {
+            clearTimeout(this.viewRefresh);
+            this.viewRefresh = null;
+        }
+    }
+
+    private getTimelineLanes(): TimelineLane[] {
+        const lanes: TimelineLane[] = [];
+        for (const [key, group] of this.componentGroups) {
+            const lane: TimelineLane = { key, label: this.getGroupName(key), renders: [], triggers: [] };
+            for (const event of group.events) {
+                if (event.type === 'rendered') {
+                    const { instanceId, phase, duration, timestamp } = event.eventData;
+                    lane.renders.push({ instanceId, phase, start: timestamp - duration, end: timestamp });
+                } else if (event.type === 'triggered') {
+                    lane.triggers.push(event.eventData.timestamp);
+                }
+            }
+            if (lane.renders.length > 0 || lane.triggers.length > 0) {
+                lanes.push(lane);
+            }
+        }
+        return lanes;
+    }
+
+    private isInTimeRange(event: LoggedEvent): boolean {
+        if (!this.timeRange) return true;
+
+        const time = event.type === 'cycle' ? event.eventData.timing.timestamp : event.eventData.timestamp;
+        return time >= this.timeRange.start && time <= this.timeRange.end;
+    }
+
+    private createTimeRangeChip(componentName: string, range: TimeRange): HTMLButtonElement {
+        const formatTime = (time: number): string => {
+            const date = new Date(time);
+            return `${date.toLocaleTimeString()}.${String(date.getMilliseconds()).padStart(3, "0")}`;
+        };
+
+        const chip = document.createElement("button");
+        chip.id = `vue-flow-vis-time-range-${componentName.replace(/[^a-zA-Z0-9]/g, '-')}`;
+        chip.textContent = `${formatTime(range.start)} – ${formatTime(range.end)} ×`;
+        chip.title = "Events of the time range selected in the render timeline, click to show all events";
+        chip.style.marginRight = "auto";
+        chip.style.border = `${theme.borderWidths.thin} solid ${theme.colors.primary}`;
+        chip.style.borderRadius = theme.borderRadius.md;
+        chip.style.backgroundColor = "transparent";
+        chip.style.color = theme.colors.primary;
+        chip.style.cursor = "pointer";
+        chip.style.fontFamily = theme.fonts.primary;
+        chip.style.fontSize = theme.fontSizes.xs;
+        chip.onclick = (): void => this.clearTimeRange();
+        return chip;
+    }
+
+    private clearTimeRange(): void {
+        this.timeRange = null;
+        this.renderTimeline.clearSelection();
+        if (this.selectedComponent) {
+            this.displayComponentEvents(this.selectedComponent);
+        }
+    }
+
+    private toggleLifecycleEvents(): void {
+        this.showLifecycleEvents = !this.showLifecycleEvents;
+        if (this.selectedComponent) {
+            this.refreshEventsList(this.selectedComponent);
+        }
+    }
+
+    private toggleRedundantOnly(): void {
+        this.showOnlyRedundant = !this.showOnlyRedundant;
+        if (this.selectedComponent) {
+            this.refreshEventsList(this.selectedComponent);
+        }
+    }
+
+    private toggleRenderedEvents(): void {
+        this.showRenderedEvents = !this.showRenderedEvents;
+        if (this.selectedComponent) {
+            this.refreshEventsList(this.selectedComponent);
+        }
+    }
+
     private refreshEventsList(componentName: string): void {
         const group = this.componentGroups.get(componentName);
         if (!group) return;
@@ -896,24 +2131,37 @@ export class UILogger implements Logger {
             trackedButton.title = this.showTrackedEvents ? "Hide render tracked events" : "Show render tracked events";
         }
 
+        const renderedButton = document.querySelector(`#vue-flow-vis-rendered-button-${componentName.replace(/[^a-zA-Z0-9]/g, '-')}`) as HTMLButtonElement;
+        if (renderedButton) {
+            renderedButton.style.color = this.showRenderedEvents ? theme.colors.rendered : theme.colors.textDisabled;
+            renderedButton.title = this.showRenderedEvents ? "Hide render timing events" : "Show render timing events";
+        }
+
+        const lifecycleButton = document.querySelector(`#vue-flow-vis-lifecycle-button-${componentName.replace(/[^a-zA-Z0-9]/g, '-')}`) as HTMLButtonElement;
+        if (lifecycleButton) {
+            lifecycleButton.style.color = this.showLifecycleEvents ? theme.colors.lifecycle : theme.colors.textDisabled;
+            lifecycleButton.title = this.showLifecycleEvents ? "Hide lifecycle events" : "Show lifecycle events";
+        }
+
+        const redundantButton = document.querySelector(`#vue-flow-vis-redundant-button-${componentName.replace(/[^a-zA-Z0-9]/g, '-')}`) as HTMLButtonElement;
+        if (redundantButton) {
+            redundantButton.style.color = this.showOnlyRedundant ? theme.colors.warning : theme.colors.textDisabled;
+            redundantButton.title = this.showOnlyRedundant ? "Show all events" : "Show only redundant triggers";
+        }
+
         // Find the virtual scroll container
         const virtualContainer = document.querySelector(`#vue-flow-vis-virtual-container-${componentName.replace(/[^a-zA-Z0-9]/g, '-')}`) as HTMLDivElement;
         if (!virtualContainer) return;
 
         // Get filtered events for virtual scrolling with original indices
-        const visibleEvents = group.events
-            .map((event, originalIndex) => ({ ...event, originalIndex }))
-            .filter(event => 
-                (event.type === 'tracked' && this.showTrackedEvents) || 
-                (event.type === 'triggered' && this.showTriggeredEvents)
-            );
+        const visibleEvents = this.getVisibleEvents(group);
 
         if (visibleEvents.length === 0) {
             // Clear the container and show no events message
             virtualContainer.innerHTML = "";
             const noEvents = document.createElement("p");
             noEvents.id = `vue-flow-vis-no-events-${componentName.replace(/[^a-zA-Z0-9]/g, '-')}`;
-            noEvents.textContent = group.events.length === 0 ? "No events recorded yet" : "No events to display";
+            noEvents.textContent = this.getNoEventsText(group);
             noEvents.style.color = theme.colors.textMuted;
             noEvents.style.fontStyle = "italic";
             noEvents.style.margin = "0";
@@ -946,10 +2194,7 @@ export class UILogger implements Logger {
 
     private filterComponents(): void {
         this.componentGroups.forEach((group, componentName) => {
-            const shouldShow = this.componentFilter === "" || 
-                             componentName.toLowerCase().includes(this.componentFilter);
-            
-            group.sidebarItem.style.display = shouldShow ? "flex" : "none";
+            this.applyComponentFilter(componentName, group);
         });
     }
 }
\ No newline at end of file
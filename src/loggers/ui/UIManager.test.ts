@@ -14,6 +14,17 @@ vi.mock('./icons', () => ({
   createMinimizeIcon: vi.fn((size: number) => `<svg data-icon="minimize" width="${size}" height="${size}"></svg>`),
   createExpandIcon: vi.fn((size: number) => `<svg data-icon="expand" width="${size}" height="${size}"></svg>`),
   createTrashIcon: vi.fn((size: number) => `<svg data-icon="trash" width="${size}" height="${size}"></svg>`),
+  createCascadeIcon: vi.fn((size: number) => `<svg data-icon="cascade" width="${size}" height="${size}"></svg>`),
+  createFlameIcon: vi.fn((size: number) => `<svg data-icon="flame" width="${size}" height="${size}"></svg>`),
+  createDependencyIcon: vi.fn((size: number) => `<svg data-icon="dependency" width="${size}" height="${size}"></svg>`),
+  createGaugeIcon: vi.fn((size: number) => `<svg data-icon="gauge" width="${size}" height="${size}"></svg>`),
+  createHeatmapIcon: vi.fn((size: number) => `<svg data-icon="heatmap" width="${size}" height="${size}"></svg>`),
+  createTimelineIcon: vi.fn((size: number) => `<svg data-icon="timeline" width="${size}" height="${size}"></svg>`),
+  createPauseIcon: vi.fn((size: number) => `<svg data-icon="pause" width="${size}" height="${size}"></svg>`),
+  createRecordIcon: vi.fn((size: number) => `<svg data-icon="record" width="${size}" height="${size}"></svg>`),
+  createDownloadIcon: vi.fn((size: number) => `<svg data-icon="download" width="${size}" height="${size}"></svg>`),
+  createUploadIcon: vi.fn((size: number) => `<svg data-icon="upload" width="${size}" height="${size}"></svg>`),
+  createTraceIcon: vi.fn((size: number) => `<svg data-icon="trace" width="${size}" height="${size}"></svg>`),
 }))
 
 // Setup global mocks
@@ -54,6 +65,16 @@ describe('UIManager', () => {
       onClear: vi.fn(),
       onMinimizeToggle: vi.fn(),
       onComponentFilterChange: vi.fn(),
+      onCascadesToggle: vi.fn(),
+      onTimelineToggle: vi.fn(),
+      onRenderTimelineToggle: vi.fn(),
+      onDependenciesToggle: vi.fn(),
+      onSubscriptionsToggle: vi.fn(),
+      onHeatmapToggle: vi.fn(),
+      onPauseToggle: vi.fn(),
+      onExport: vi.fn(),
+      onExportTrace: vi.fn(),
+      onImport: vi.fn(),
     }
   })
 
@@ -152,6 +173,110 @@ describe('UIManager', () => {
       expect(mockCallbacks.onClear).toHaveBeenCalledOnce()
     })
 
+    it('should call onCascadesToggle callback when cascades button is clicked', () => {
+      const cascadesButton = document.getElementById('vue-flow-vis-cascades-button') as HTMLButtonElement
+      cascadesButton.click()
+      
+      expect(mockCallbacks.onCascadesToggle).toHaveBeenCalledOnce()
+    })
+
+    it('should call onTimelineToggle callback when timeline button is clicked', () => {
+      const timelineButton = document.getElementById('vue-flow-vis-timeline-button') as HTMLButtonElement
+      timelineButton.click()
+
+      expect(mockCallbacks.onTimelineToggle).toHaveBeenCalledOnce()
+    })
+
+    it('should call onRenderTimelineToggle callback when render timeline button is clicked', () => {
+      const flameButton = document.getElementById('vue-flow-vis-flame-button') as HTMLButtonElement
+      flameButton.click()
+
+      expect(mockCallbacks.onRenderTimelineToggle).toHaveBeenCalledOnce()
+    })
+
+    it('should call onDependenciesToggle callback when dependencies button is clicked', () => {
+      const dependenciesButton = document.getElementById('vue-flow-vis-dependencies-button') as HTMLButtonElement
+      dependenciesButton.click()
+
+      expect(mockCallbacks.onDependenciesToggle).toHaveBeenCalledOnce()
+    })
+
+    it('should call onSubscriptionsToggle callback when subscription report button is clicked', () => {
+      const subscriptionsButton = document.getElementById('vue-flow-vis-subscriptions-button') as HTMLButtonElement
+      subscriptionsButton.click()
+
+      expect(mockCallbacks.onSubscriptionsToggle).toHaveBeenCalledOnce()
+    })
+
+    it('should call onHeatmapToggle callback when heatmap button is clicked', () => {
+      const heatmapButton = document.getElementById('vue-flow-vis-heatmap-button') as HTMLButtonElement
+      heatmapButton.click()
+
+      expect(mockCallbacks.onHeatmapToggle).toHaveBeenCalledOnce()
+    })
+
+    it('should call onPauseToggle callback when pause button is clicked', () => {
+      const pauseButton = document.getElementById('vue-flow-vis-pause-button') as HTMLButtonElement
+      pauseButton.click()
+      
+      expect(mockCallbacks.onPauseToggle).toHaveBeenCalledOnce()
+    })
+
+    it('should call onExport callback when export button is clicked', () => {
+      const exportButton = document.getElementById('vue-flow-vis-export-button') as HTMLButtonElement
+      exportButton.click()
+
+      expect(mockCallbacks.onExport).toHaveBeenCalledOnce()
+    })
+
+    it('should call onExportTrace callback when trace button is clicked', () => {
+      const traceButton = document.getElementById('vue-flow-vis-trace-button') as HTMLButtonElement
+      traceButton.click()
+
+      expect(mockCallbacks.onExportTrace).toHaveBeenCalledOnce()
+    })
+
+    it('should open the file picker when import button is clicked', () => {
+      const importInput = document.getElementById('vue-flow-vis-import-input') as HTMLInputElement
+      const click = vi.spyOn(importInput, 'click').mockImplementation(() => {})
+
+      const importButton = document.getElementById('vue-flow-vis-import-button') as HTMLButtonElement
+      importButton.click()
+
+      expect(click).toHaveBeenCalledOnce()
+    })
+
+    it('should pass the selected file to onImport', () => {
+      const importInput = document.getElementById('vue-flow-vis-import-input') as HTMLInputElement
+      const file = new File(['{}'], 'session.json', { type: 'application/json' })
+      Object.defineProperty(importInput, 'files', { value: [file] })
+
+      importInput.dispatchEvent(new Event('change'))
+
+      expect(mockCallbacks.onImport).toHaveBeenCalledWith(file)
+    })
+
+    it('should switch the pause button between pause and record states', () => {
+      const pauseButton = document.getElementById('vue-flow-vis-pause-button') as HTMLButtonElement
+      expect(pauseButton.title).toBe('Pause recording')
+      expect(pauseButton.innerHTML).toContain('data-icon="pause"')
+
+      uiManager.setPaused(true)
+      expect(pauseButton.title).toBe('Resume recording')
+      expect(pauseButton.innerHTML).toContain('data-icon="record"')
+
+      uiManager.setPaused(false)
+      expect(pauseButton.title).toBe('Pause recording')
+    })
+
+    it('should reflect the heatmap state on the heatmap button', () => {
+      const heatmapButton = document.getElementById('vue-flow-vis-heatmap-button') as HTMLButtonElement
+      expect(heatmapButton.title).toBe('Show render heatmap')
+
+      uiManager.setHeatmapEnabled(true)
+      expect(heatmapButton.title).toBe('Hide render heatmap')
+    })
+
     it('should toggle minimize when minimize button is clicked', () => {
       const minimizeButton = document.getElementById('vue-flow-vis-minimize-button') as HTMLButtonElement
       minimizeButton.click()
@@ -404,6 +529,33 @@ describe('UIManager', () => {
       expect(sidebarContent?.id).toBe('vue-flow-vis-sidebar-content')
     })
 
+    it('should show and hide the imported session label', () => {
+      const label = document.getElementById('vue-flow-vis-session-label') as HTMLSpanElement
+      expect(label.style.display).toBe('none')
+
+      uiManager.setSessionLabel('1/2/2025, 10:00:00')
+      expect(label.style.display).toBe('inline-block')
+      expect(label.textContent).toBe('Imported session: 1/2/2025, 10:00:00')
+
+      uiManager.setSessionLabel(null)
+      expect(label.style.display).toBe('none')
+    })
+
+    it('should download content as a file', () => {
+      const createObjectURL = vi.fn(() => 'blob:session')
+      const revokeObjectURL = vi.fn()
+      Object.assign(URL, { createObjectURL, revokeObjectURL })
+      const click = vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(() => {})
+
+      uiManager.downloadFile('session.json', '{}')
+
+      expect(createObjectURL).toHaveBeenCalledWith(expect.any(Blob))
+      expect(click).toHaveBeenCalledOnce()
+      expect(revokeObjectURL).toHaveBeenCalledWith('blob:session')
+      expect(document.querySelector('a[download="session.json"]')).toBeNull()
+      click.mockRestore()
+    })
+
     it('should clear search input', () => {
       const searchInput = document.getElementById('vue-flow-vis-component-search') as HTMLInputElement
       searchInput.value = 'test'
@@ -454,6 +606,19 @@ describe('UIManager', () => {
       // Should not throw error
       expect(() => uiManager.destroy()).not.toThrow()
     })
+
+    it('should remove document listeners on destroy', () => {
+      const removeEventListenerSpy = vi.spyOn(document, 'removeEventListener')
+      const addEventListenerSpy = vi.spyOn(document, 'addEventListener')
+      uiManager.destroy()
+      uiManager = new UIManager(mockCallbacks)
+
+      uiManager.destroy()
+
+      const added = addEventListenerSpy.mock.calls.map(([type, listener]) => [type, listener])
+      const removed = removeEventListenerSpy.mock.calls.slice(-2).map(([type, listener]) => [type, listener])
+      expect(removed).toEqual(added)
+    })
   })
 
   describe('header plugin link', () => {
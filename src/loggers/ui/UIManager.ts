@@ -1,18 +1,31 @@
 /* eslint-disable no-undef */
-import { createFlowIcon, createMinimizeIcon, createExpandIcon, createTrashIcon } from "./icons";
+import { createFlowIcon, createMinimizeIcon, createExpandIcon, createTrashIcon, createCascadeIcon, createTimelineIcon, createFlameIcon, createDependencyIcon, createGaugeIcon, createHeatmapIcon, createPauseIcon, createRecordIcon, createDownloadIcon, createUploadIcon, createTraceIcon } from "./icons";
 import { PLUGIN_URL } from "./constants";
-import { APP_NAME, FILTER_COMPONENTS_PLACEHOLDER } from "./strings";
+import { APP_NAME, FILTER_COMPONENTS_PLACEHOLDER, IMPORTED_SESSION_HINT, IMPORTED_SESSION_LABEL } from "./strings";
 import { theme } from "./theme";
 
 export interface UIManagerCallbacks {
     onClear: () => void;
     onMinimizeToggle: () => void;
     onComponentFilterChange: (filter: string) => void;
+    onCascadesToggle: () => void;
+    onTimelineToggle: () => void;
+    onRenderTimelineToggle: () => void;
+    onDependenciesToggle: () => void;
+    onSubscriptionsToggle: () => void;
+    onHeatmapToggle: () => void;
+    onPauseToggle: () => void;
+    onExport: () => void;
+    onExportTrace: () => void;
+    onImport: (file: File) => void;
 }
 
 export class UIManager {
     private loggerPanel: HTMLDivElement;
     private headerElement: HTMLDivElement | undefined;
+    private pauseButton: HTMLButtonElement | undefined;
+    private heatmapButton: HTMLButtonElement | undefined;
+    private sessionLabel: HTMLSpanElement | undefined;
     private contentContainer: HTMLDivElement | undefined;
     private sidebar: HTMLDivElement | undefined;
     private mainArea: HTMLDivElement | undefined;
@@ -176,6 +189,18 @@ export class UIManager {
         title.style.paddingBottom = theme.positioning.iconOffset2;
         titleContainer.appendChild(title);
 
+        this.sessionLabel = document.createElement("span");
+        this.sessionLabel.id = "vue-flow-vis-session-label";
+        this.sessionLabel.style.display = "none";
+        this.sessionLabel.style.padding = `0 ${theme.spacing.sm}`;
+        this.sessionLabel.style.borderRadius = theme.borderRadius.md;
+        this.sessionLabel.style.backgroundColor = theme.colors.primary;
+        this.sessionLabel.style.color = theme.colors.white;
+        this.sessionLabel.style.fontFamily = theme.fonts.primary;
+        this.sessionLabel.style.fontSize = theme.fontSizes.xs;
+        this.sessionLabel.title = IMPORTED_SESSION_HINT;
+        titleContainer.appendChild(this.sessionLabel);
+
         const buttonContainer = document.createElement("div");
         buttonContainer.id = "vue-flow-vis-button-container";
         buttonContainer.style.display = "flex";
@@ -205,6 +230,138 @@ export class UIManager {
         clearButton.title = "Clear log";
         clearButton.onclick = (): void => this.callbacks.onClear();
 
+        const cascadesButton = document.createElement("button");
+        cascadesButton.id = "vue-flow-vis-cascades-button";
+        cascadesButton.innerHTML = createCascadeIcon(14);
+        cascadesButton.style.color = theme.colors.black;
+        cascadesButton.style.border = "none";
+        cascadesButton.style.cursor = "pointer";
+        cascadesButton.style.backgroundColor = "transparent";
+        cascadesButton.style.padding = "0";
+        cascadesButton.title = "Show render cascades";
+        cascadesButton.onclick = (): void => this.callbacks.onCascadesToggle();
+
+        const timelineButton = document.createElement("button");
+        timelineButton.id = "vue-flow-vis-timeline-button";
+        timelineButton.innerHTML = createTimelineIcon(14);
+        timelineButton.style.color = theme.colors.black;
+        timelineButton.style.border = "none";
+        timelineButton.style.cursor = "pointer";
+        timelineButton.style.backgroundColor = "transparent";
+        timelineButton.style.padding = "0";
+        timelineButton.title = "Show mount timeline";
+        timelineButton.onclick = (): void => this.callbacks.onTimelineToggle();
+
+        const flameButton = document.createElement("button");
+        flameButton.id = "vue-flow-vis-flame-button";
+        flameButton.innerHTML = createFlameIcon(14);
+        flameButton.style.color = theme.colors.black;
+        flameButton.style.border = "none";
+        flameButton.style.cursor = "pointer";
+        flameButton.style.backgroundColor = "transparent";
+        flameButton.style.padding = "0";
+        flameButton.title = "Show render timeline";
+        flameButton.onclick = (): void => this.callbacks.onRenderTimelineToggle();
+
+        const dependenciesButton = document.createElement("button");
+        dependenciesButton.id = "vue-flow-vis-dependencies-button";
+        dependenciesButton.innerHTML = createDependencyIcon(14);
+        dependenciesButton.style.color = theme.colors.black;
+        dependenciesButton.style.border = "none";
+        dependenciesButton.style.cursor = "pointer";
+        dependenciesButton.style.backgroundColor = "transparent";
+        dependenciesButton.style.padding = "0";
+        dependenciesButton.title = "Show reactive dependencies";
+        dependenciesButton.onclick = (): void => this.callbacks.onDependenciesToggle();
+
+        const subscriptionsButton = document.createElement("button");
+        subscriptionsButton.id = "vue-flow-vis-subscriptions-button";
+        subscriptionsButton.innerHTML = createGaugeIcon(14);
+        subscriptionsButton.style.color = theme.colors.black;
+        subscriptionsButton.style.border = "none";
+        subscriptionsButton.style.cursor = "pointer";
+        subscriptionsButton.style.backgroundColor = "transparent";
+        subscriptionsButton.style.padding = "0";
+        subscriptionsButton.title = "Show subscription report";
+        subscriptionsButton.onclick = (): void => this.callbacks.onSubscriptionsToggle();
+
+        this.heatmapButton = document.createElement("button");
+        this.heatmapButton.id = "vue-flow-vis-heatmap-button";
+        this.heatmapButton.innerHTML = createHeatmapIcon(14);
+        this.heatmapButton.style.border = "none";
+        this.heatmapButton.style.cursor = "pointer";
+        this.heatmapButton.style.backgroundColor = "transparent";
+        this.heatmapButton.style.padding = "0";
+        this.heatmapButton.onclick = (): void => this.callbacks.onHeatmapToggle();
+        this.setHeatmapEnabled(false);
+
+        const exportButton = document.createElement("button");
+        exportButton.id = "vue-flow-vis-export-button";
+        exportButton.innerHTML = createDownloadIcon(14);
+        exportButton.style.color = theme.colors.black;
+        exportButton.style.border = "none";
+        exportButton.style.cursor = "pointer";
+        exportButton.style.backgroundColor = "transparent";
+        exportButton.style.padding = "0";
+        exportButton.title = "Export session";
+        exportButton.onclick = (): void => this.callbacks.onExport();
+
+        const traceButton = document.createElement("button");
+        traceButton.id = "vue-flow-vis-trace-button";
+        traceButton.innerHTML = createTraceIcon(14);
+        traceButton.style.color = theme.colors.black;
+        traceButton.style.border = "none";
+        traceButton.style.cursor = "pointer";
+        traceButton.style.backgroundColor = "transparent";
+        traceButton.style.padding = "0";
+        traceButton.title = "Export Chrome trace (chrome://tracing, Perfetto)";
+        traceButton.onclick = (): void => this.callbacks.onExportTrace();
+
+        const importInput = document.createElement("input");
+        importInput.id = "vue-flow-vis-import-input";
+        importInput.type = "file";
+        importInput.accept = ".json,application/json";
+        importInput.style.display = "none";
+        importInput.onchange = (): void => {
+            const file = importInput.files?.[0];
+            // Reset so the same file can be imported again
+            importInput.value = "";
+            if (file) {
+                this.callbacks.onImport(file);
+            }
+        };
+
+        const importButton = document.createElement("button");
+        importButton.id = "vue-flow-vis-import-button";
+        importButton.innerHTML = createUploadIcon(14);
+        importButton.style.color = theme.colors.black;
+        importButton.style.border = "none";
+        importButton.style.cursor = "pointer";
+        importButton.style.backgroundColor = "transparent";
+        importButton.style.padding = "0";
+        importButton.title = "Import session";
+        importButton.onclick = (): void => importInput.click();
+
+        this.pauseButton = document.createElement("button");
+        this.pauseButton.id = "vue-flow-vis-pause-button";
+        this.pauseButton.style.border = "none";
+        this.pauseButton.style.cursor = "pointer";
+        this.pauseButton.style.backgroundColor = "transparent";
+        this.pauseButton.style.padding = "0";
+        this.pauseButton.onclick = (): void => this.callbacks.onPauseToggle();
+        this.setPaused(false);
+
+        buttonContainer.appendChild(this.pauseButton);
+        buttonContainer.appendChild(cascadesButton);
+        buttonContainer.appendChild(timelineButton);
+        buttonContainer.appendChild(flameButton);
+        buttonContainer.appendChild(dependenciesButton);
+        buttonContainer.appendChild(subscriptionsButton);
+        buttonContainer.appendChild(this.heatmapButton);
+        buttonContainer.appendChild(exportButton);
+        buttonContainer.appendChild(traceButton);
+        buttonContainer.appendChild(importButton);
+        buttonContainer.appendChild(importInput);
         buttonContainer.appendChild(clearButton);
         buttonContainer.appendChild(minimizeButton);
 
@@ -339,8 +496,9 @@ export class UIManager {
         this.dragHandle.addEventListener("mousedown", this.onMouseDown.bind(this));
         this.leftResizeHandle.addEventListener("mousedown", this.onLeftMouseDown.bind(this));
         this.sidebarResizeHandle.addEventListener("mousedown", this.onSidebarMouseDown.bind(this));
-        document.addEventListener("mousemove", this.onMouseMove.bind(this));
-        document.addEventListener("mouseup", this.onMouseUp.bind(this));
+        // Document listeners keep a stable reference so that destroy() can remove them
+        document.addEventListener("mousemove", this.onMouseMove);
+        document.addEventListener("mouseup", this.onMouseUp);
     }
 
     private onMouseDown(event: MouseEvent): void {
@@ -369,7 +527,7 @@ export class UIManager {
         event.stopPropagation();
     }
 
-    private onMouseMove(event: MouseEvent): void {
+    private onMouseMove = (event: MouseEvent): void => {
         if (this.isDragging) {
             const deltaY = this.startY - event.clientY;
             const newHeight = this.startHeight + deltaY;
@@ -400,9 +558,9 @@ export class UIManager {
             const clampedWidth = Math.max(minWidth, Math.min(maxWidth, newWidth));
             this.sidebar!.style.width = `${clampedWidth}px`;
         }
-    }
+    };
 
-    private onMouseUp(): void {
+    private onMouseUp = (): void => {
         this.isDragging = false;
         this.dragHandle.style.borderTopColor = "transparent";
         
@@ -411,7 +569,7 @@ export class UIManager {
         
         this.isSidebarResizing = false;
         this.sidebarResizeHandle.style.borderRightColor = "transparent";
-    }
+    };
 
     private toggleMinimize(): void {
         if (this.isMinimized) {
@@ -461,6 +619,44 @@ export class UIManager {
         return this.sidebar ? this.sidebar.querySelector("#vue-flow-vis-sidebar-content") as HTMLDivElement : null;
     }
 
+    public setPaused(paused: boolean): void {
+        if (!this.pauseButton) return;
+
+        // Shows the action the button performs: resume recording when paused, pause otherwise
+        this.pauseButton.innerHTML = paused ? createRecordIcon(14) : createPauseIcon(14);
+        this.pauseButton.style.color = paused ? theme.colors.error : theme.colors.black;
+        this.pauseButton.title = paused ? "Resume recording" : "Pause recording";
+    }
+
+    public setHeatmapEnabled(enabled: boolean): void {
+        if (!this.heatmapButton) return;
+
+        this.heatmapButton.style.color = enabled ? theme.colors.primary : theme.colors.black;
+        this.heatmapButton.title = enabled ? "Hide render heatmap" : "Show render heatmap";
+    }
+
+    /**
+     * Marks the panel as showing an imported session, or live recording when the label is null
+     */
+    public setSessionLabel(label: string | null): void {
+        if (!this.sessionLabel) return;
+
+        this.sessionLabel.textContent = label === null ? "" : `${IMPORTED_SESSION_LABEL}: ${label}`;
+        this.sessionLabel.style.display = label === null ? "none" : "inline-block";
+    }
+
+    public downloadFile(fileName: string, content: string, type = "application/json"): void {
+        const url = URL.createObjectURL(new Blob([content], { type }));
+        const link = document.createElement("a");
+        link.href = url;
+        link.download = fileName;
+        link.style.display = "none";
+        document.body.appendChild(link);
+        link.click();
+        link.remove();
+        URL.revokeObjectURL(url);
+    }
+
     public clearSearchInput(): void {
         const searchInput = this.sidebar?.querySelector("#vue-flow-vis-component-search") as HTMLInputElement;
         if (searchInput) {
@@ -471,10 +667,11 @@ export class UIManager {
     public destroy(): void {
         if (this.searchDebounceTimer !== null) {
             clearTimeout(this.searchDebounceTimer);
+            this.searchDebounceTimer = null;
         }
         
-        document.removeEventListener("mousemove", this.onMouseMove.bind(this));
-        document.removeEventListener("mouseup", this.onMouseUp.bind(this));
+        document.removeEventListener("mousemove", this.onMouseMove);
+        document.removeEventListener("mouseup", this.onMouseUp);
         
         if (this.loggerPanel.parentNode) {
             this.loggerPanel.parentNode.removeChild(this.loggerPanel);
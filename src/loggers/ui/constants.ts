@@ -1,2 +1,3 @@
 export const PLUGIN_URL = 'https://github.com/MiloradFilipovic/vue-flow-vis';
-export const VUE_DEBUGGER_EVENT_URL = 'https://vuejs.org/guide/extras/reactivity-in-depth#debugger-event';
\ No newline at end of file
+export const VUE_DEBUGGER_EVENT_URL = 'https://vuejs.org/guide/extras/reactivity-in-depth#debugger-event';
+export const VIEW_REFRESH_DELAY = 250; // Delay in ms before the open render timeline, dependency view or subscription report shows new events
\ No newline at end of file
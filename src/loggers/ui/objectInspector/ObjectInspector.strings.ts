@@ -48,6 +48,17 @@ export const objectInspectorStrings = {
   functionSuffix: '()',
   anonymousFunction: 'anonymous',
   defaultFunction: 'ƒ()',
+
+  // Diff mode
+  diffAddedMarker: '+',
+  diffRemovedMarker: '-',
+  diffChangedMarker: '~',
+  diffSameContentMarker: '=',
+  diffArrow: ' → ',
+  sameContentLabel: 'new reference, deep-equal',
+  sameContentHint: 'Replaced by a different object with the same contents. Dependents re-render although nothing changed.',
+  limitReachedLabel: 'not fully compared',
+  limitReachedHint: 'Too deep or too large to compare completely, only the entries compared so far are listed.',
 } as const;
 
 export type ObjectInspectorStrings = typeof objectInspectorStrings;
\ No newline at end of file
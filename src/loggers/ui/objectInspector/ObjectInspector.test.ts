@@ -1077,6 +1077,93 @@ describe('ObjectInspector', () => {
     })
   })
 
+  describe('diff mode', () => {
+    beforeEach(() => {
+      inspector = new ObjectInspector()
+    })
+
+    const getDiffRows = (container: HTMLElement, kind: string): string[] =>
+      Array.from(container.querySelectorAll(`[data-diff="${kind}"]`)).map((node) => node.firstElementChild?.textContent ?? '')
+
+    it('should highlight added, removed and changed object entries', () => {
+      const result = inspector.renderDiff({ a: 1, b: 2, c: 3 }, { a: 1, b: 5, d: 4 }, 'state')
+
+      expect(result.id).toBe('object-inspector-diff')
+      expect(getDiffRows(result, 'changed')).toEqual([expect.stringContaining('state'), expect.stringContaining('b: 2 → 5')])
+      expect(getDiffRows(result, 'removed')).toEqual([expect.stringContaining('c')])
+      expect(getDiffRows(result, 'added')).toEqual([expect.stringContaining('d')])
+      expect(getDiffRows(result, 'unchanged')).toEqual([expect.stringContaining('a')])
+    })
+
+    it('should flag a new reference with deep-equal contents', () => {
+      const result = inspector.renderDiff({ items: [1, 2] }, { items: [1, 2] })
+
+      const rows = getDiffRows(result, 'same-content')
+      expect(rows).toHaveLength(1)
+      expect(rows[0]).toContain(objectInspectorStrings.sameContentLabel)
+      expect(result.querySelector('[data-diff="changed"]')).toBeNull()
+    })
+
+    it('should compare array items by index', () => {
+      const result = inspector.renderDiff([1, 2, 3], [1, 4])
+
+      expect(getDiffRows(result, 'changed')).toEqual([expect.any(String), expect.stringContaining('1: 2 → 4')])
+      expect(getDiffRows(result, 'removed')).toEqual([expect.stringContaining('2')])
+    })
+
+    it('should compare Map entries by key and Set items by membership', () => {
+      const mapResult = inspector.renderDiff(new Map([['a', 1], ['b', 2]]), new Map([['a', 1], ['b', 3]]))
+      expect(getDiffRows(mapResult, 'changed')).toEqual([expect.any(String), expect.stringContaining('b: 2 → 3')])
+
+      const shared = { id: 1 }
+      const setResult = inspector.renderDiff(new Set([shared, { id: 2 }, 'x']), new Set([shared, { id: 2 }, 'y']))
+      expect(setResult.querySelectorAll('[data-diff="same-content"]')).toHaveLength(1)
+      expect(getDiffRows(setResult, 'removed')).toEqual([expect.stringContaining('"x"')])
+      expect(getDiffRows(setResult, 'added')).toEqual([expect.stringContaining('"y"')])
+    })
+
+    it('should show replaced primitives as old and new value', () => {
+      const result = inspector.renderDiff('draft', 'published', 'status')
+
+      expect(getDiffRows(result, 'changed')).toEqual([expect.stringContaining('status: "draft" → "published"')])
+    })
+
+    it('should terminate on circular structures', () => {
+      const oldValue: Record<string, unknown> = { name: 'a' }
+      oldValue.self = oldValue
+      const newValue: Record<string, unknown> = { name: 'a' }
+      newValue.self = newValue
+
+      const result = inspector.renderDiff(oldValue, newValue)
+
+      expect(getDiffRows(result, 'same-content')).toHaveLength(1)
+    })
+
+    it('should stop comparing large and deep values and flag them', () => {
+      const oldItems = Array.from({ length: 5000 }, (_, index) => ({ id: index }))
+      const newItems = oldItems.map((item) => ({ ...item }))
+
+      const wide = inspector.renderDiff(oldItems, newItems)
+      const root = wide.querySelector('[data-diff="changed"]') as HTMLElement
+      expect(root.firstElementChild?.textContent).toContain(objectInspectorStrings.limitReachedLabel)
+      expect(wide.querySelectorAll('[data-diff="same-content"]').length).toBeLessThan(1000)
+
+      const nest = (depth: number): Record<string, unknown> => depth === 0 ? { value: 1 } : { child: nest(depth - 1) }
+      const deep = inspector.renderDiff(nest(20), nest(20))
+      expect(deep.querySelector('[data-diff="same-content"]')).toBeNull()
+      expect(deep.textContent).toContain(objectInspectorStrings.limitReachedLabel)
+    })
+
+    it('should bound matching of Set items with equal contents', () => {
+      const oldSet = new Set(Array.from({ length: 3000 }, (_, index) => ({ id: index })))
+      const newSet = new Set(Array.from({ length: 3000 }, (_, index) => ({ id: index + 3000 })))
+
+      const result = inspector.renderDiff(oldSet, newSet)
+
+      expect(result.firstElementChild?.firstElementChild?.textContent).toContain(objectInspectorStrings.limitReachedLabel)
+    })
+  })
+
   describe('error handling', () => {
     beforeEach(() => {
       inspector = new ObjectInspector({ expandDepth: 1 })
@@ -6,6 +6,7 @@
 
 import { objectInspectorTheme } from './themes/objectInspector.flowvis.theme';
 import { objectInspectorStrings } from './ObjectInspector.strings';
+import { diffValues, type DiffKind, type ValueDiff } from '../../../utils/valueDiff';
 
 
 export interface ObjectInspectorOptions {
@@ -87,19 +88,7 @@ export class ObjectInspector {
      * @returns HTMLElement containing the rendered object inspector
      */
     public render(obj: InspectableValue, key: string | number | null = null, depth: number = 0): HTMLElement {
-        // eslint-disable-next-line no-undef
-        const container = document.createElement('div');
-        container.id = 'object-inspector';
-        container.style.fontFamily = objectInspectorTheme.fonts.primary;
-        container.style.fontSize = objectInspectorTheme.fontSizes.base;
-        container.style.lineHeight = objectInspectorTheme.lineHeight;
-        container.style.color = objectInspectorTheme.colors.primaryText;
-        container.style.backgroundColor = objectInspectorTheme.colors.containerBackground;
-        container.style.padding = `${objectInspectorTheme.spacing.none} ${objectInspectorTheme.spacing.md}`;
-        container.style.borderRadius = objectInspectorTheme.borderRadius.sm;
-        container.style.overflow = "auto";
-        container.style.boxSizing = "border-box";
-        container.style.height = "100%";
+        const container = this.createContainer('object-inspector');
         
         // Initialize render context
         const context: RenderContext = {
@@ -119,6 +108,216 @@ export class ObjectInspector {
         return container;
     }
 
+    /**
+     * Renders the structural difference between two values. Added, removed and changed entries
+     * are highlighted, and values replaced by a new object with equal contents are flagged.
+     * @param oldValue The value before the change
+     * @param newValue The value after the change
+     * @param key Optional key name for the root value
+     * @returns HTMLElement containing the rendered diff
+     */
+    public renderDiff(oldValue: unknown, newValue: unknown, key: string | number | null = null): HTMLElement {
+        const container = this.createContainer('object-inspector-diff');
+        const context: RenderContext = {
+            path: new Set(),
+            objectRefs: new Map(),
+            refIdCounter: 1
+        };
+
+        container.appendChild(this.renderDiffNode(diffValues(oldValue, newValue), key, 0, context));
+
+        return container;
+    }
+
+    private createContainer(id: string): HTMLDivElement {
+        // eslint-disable-next-line no-undef
+        const container = document.createElement('div');
+        container.id = id;
+        container.style.fontFamily = objectInspectorTheme.fonts.primary;
+        container.style.fontSize = objectInspectorTheme.fontSizes.base;
+        container.style.lineHeight = objectInspectorTheme.lineHeight;
+        container.style.color = objectInspectorTheme.colors.primaryText;
+        container.style.backgroundColor = objectInspectorTheme.colors.containerBackground;
+        container.style.padding = `${objectInspectorTheme.spacing.none} ${objectInspectorTheme.spacing.md}`;
+        container.style.borderRadius = objectInspectorTheme.borderRadius.sm;
+        container.style.overflow = "auto";
+        container.style.boxSizing = "border-box";
+        container.style.height = "100%";
+        
+        return container;
+    }
+
+    private renderDiffNode(diff: ValueDiff, key: string | number | null, depth: number, context: RenderContext): HTMLElement {
+        switch (diff.kind) {
+            case 'unchanged':
+            case 'added':
+            case 'same-content':
+                return this.markDiffNode(this.renderNode(diff.newValue as InspectableValue, key, depth, context), diff.kind);
+            case 'removed':
+                return this.markDiffNode(this.renderNode(diff.oldValue as InspectableValue, key, depth, context), diff.kind);
+            default:
+                return this.renderChangedNode(diff, key, depth, context);
+        }
+    }
+
+    private renderChangedNode(diff: ValueDiff, key: string | number | null, depth: number, context: RenderContext): HTMLElement {
+        // eslint-disable-next-line no-undef
+        const node = document.createElement('div');
+        node.dataset.diff = diff.kind;
+
+        // eslint-disable-next-line no-undef
+        const row = document.createElement('div');
+        row.style.display = "flex";
+        row.style.alignItems = "center";
+        row.style.padding = objectInspectorTheme.spacing.xs;
+        row.style.whiteSpace = "nowrap";
+        row.appendChild(this.createDiffMarker(diff.kind));
+
+        // eslint-disable-next-line no-undef
+        const toggle = document.createElement('span');
+        toggle.style.width = objectInspectorTheme.layout.arrowSize;
+        toggle.style.flexShrink = "0";
+        row.appendChild(toggle);
+
+        if (key !== null) {
+            // eslint-disable-next-line no-undef
+            const keySpan = document.createElement('span');
+            keySpan.style.color = objectInspectorTheme.colors.keyColor;
+            keySpan.style.marginRight = objectInspectorTheme.spacing.sm;
+            keySpan.textContent = `${this.formatKey(key)}${objectInspectorStrings.separator}`;
+            row.appendChild(keySpan);
+        }
+        node.appendChild(row);
+
+        if (!diff.children) {
+            // Replaced value: show what it was and what it became
+            const oldValue = this.renderValue(diff.oldValue as InspectableValue);
+            oldValue.style.textDecoration = "line-through";
+            oldValue.style.opacity = objectInspectorTheme.opacity.prototype;
+            row.appendChild(oldValue);
+
+            // eslint-disable-next-line no-undef
+            const arrow = document.createElement('span');
+            arrow.style.color = objectInspectorTheme.colors.separatorColor;
+            arrow.textContent = objectInspectorStrings.diffArrow;
+            row.appendChild(arrow);
+
+            row.appendChild(this.renderValue(diff.newValue as InspectableValue));
+            if (diff.limitReached) {
+                this.appendLimitReachedBadge(row);
+            }
+            return node;
+        }
+
+        // Changed containers are always expanded, the changes are what the diff is about
+        // eslint-disable-next-line no-undef
+        const arrow = document.createElement('span');
+        arrow.textContent = objectInspectorStrings.expandArrow;
+        arrow.style.display = "inline-block";
+        arrow.style.fontSize = objectInspectorTheme.fontSizes.small;
+        arrow.style.color = objectInspectorTheme.colors.arrowColor;
+        arrow.style.transition = objectInspectorTheme.transitions.fast;
+        arrow.style.transform = "rotate(90deg)";
+        arrow.style.userSelect = "none";
+        toggle.appendChild(arrow);
+        toggle.style.cursor = "pointer";
+        toggle.addEventListener('click', () => this.toggleExpand(toggle, node));
+
+        row.appendChild(this.renderValue(diff.newValue as InspectableValue));
+        if (diff.limitReached) {
+            this.appendLimitReachedBadge(row);
+        }
+
+        // eslint-disable-next-line no-undef
+        const children = document.createElement('div');
+        children.style.marginLeft = objectInspectorTheme.layout.indentSize;
+        children.style.display = 'block';
+        for (const child of diff.children) {
+            children.appendChild(this.renderDiffNode(child.diff, child.key, depth + 1, context));
+        }
+        node.appendChild(children);
+
+        return node;
+    }
+
+    private appendLimitReachedBadge(row: HTMLElement): void {
+        // eslint-disable-next-line no-undef
+        const badge = document.createElement('span');
+        badge.textContent = objectInspectorStrings.limitReachedLabel;
+        badge.title = objectInspectorStrings.limitReachedHint;
+        badge.style.color = objectInspectorTheme.colors.separatorColor;
+        badge.style.fontSize = objectInspectorTheme.fontSizes.small;
+        badge.style.fontStyle = "italic";
+        badge.style.marginLeft = objectInspectorTheme.spacing.md;
+        row.appendChild(badge);
+    }
+
+    private markDiffNode(node: HTMLElement, kind: DiffKind): HTMLElement {
+        node.dataset.diff = kind;
+        const row = node.firstElementChild as HTMLElement;
+        row.insertBefore(this.createDiffMarker(kind), row.firstChild);
+        if (kind === 'unchanged') return node;
+
+        row.style.backgroundColor = this.getDiffBackground(kind);
+        row.onmouseleave = (): void => { row.style.backgroundColor = this.getDiffBackground(kind); };
+
+        if (kind === 'same-content') {
+            // eslint-disable-next-line no-undef
+            const badge = document.createElement('span');
+            badge.textContent = objectInspectorStrings.sameContentLabel;
+            badge.title = objectInspectorStrings.sameContentHint;
+            badge.style.color = objectInspectorTheme.colors.diffSameContentColor;
+            badge.style.fontSize = objectInspectorTheme.fontSizes.small;
+            badge.style.fontWeight = "bold";
+            badge.style.marginLeft = objectInspectorTheme.spacing.md;
+            row.appendChild(badge);
+        }
+
+        return node;
+    }
+
+    private createDiffMarker(kind: DiffKind): HTMLElement {
+        // eslint-disable-next-line no-undef
+        const marker = document.createElement('span');
+        marker.style.width = objectInspectorTheme.layout.arrowSize;
+        marker.style.flexShrink = "0";
+        marker.style.fontWeight = "bold";
+
+        switch (kind) {
+            case 'added':
+                marker.textContent = objectInspectorStrings.diffAddedMarker;
+                marker.style.color = objectInspectorTheme.colors.diffAddedColor;
+                break;
+            case 'removed':
+                marker.textContent = objectInspectorStrings.diffRemovedMarker;
+                marker.style.color = objectInspectorTheme.colors.diffRemovedColor;
+                break;
+            case 'same-content':
+                marker.textContent = objectInspectorStrings.diffSameContentMarker;
+                marker.style.color = objectInspectorTheme.colors.diffSameContentColor;
+                break;
+            case 'changed':
+                marker.textContent = objectInspectorStrings.diffChangedMarker;
+                marker.style.color = objectInspectorTheme.colors.diffChangedColor;
+                break;
+        }
+
+        return marker;
+    }
+
+    private getDiffBackground(kind: DiffKind): string {
+        switch (kind) {
+            case 'added':
+                return objectInspectorTheme.colors.diffAddedBackground;
+            case 'removed':
+                return objectInspectorTheme.colors.diffRemovedBackground;
+            case 'same-content':
+                return objectInspectorTheme.colors.diffSameContentBackground;
+            default:
+                return "transparent";
+        }
+    }
+
     private collectObjectRefs(value: InspectableValue, refs: Map<object, { id: number; count: number }>, visited: Set<object> = new Set(), depth: number = 0): void {
         if (value === null || (typeof value !== 'object' && typeof value !== 'function')) return;
         
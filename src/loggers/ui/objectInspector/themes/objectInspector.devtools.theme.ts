@@ -29,7 +29,16 @@ export const objectInspectorTheme = {
     maxDepthColor: "#999",
     previewColor: "#666",
     prototypeOpacity: "0.6",
-    errorColor: "#c41a16"
+    errorColor: "#c41a16",
+
+    // Diff mode colors
+    diffAddedColor: "#13a10e",
+    diffAddedBackground: "#e6f4ea",
+    diffRemovedColor: "#c41a16",
+    diffRemovedBackground: "#fce8e6",
+    diffChangedColor: "#0066cc",
+    diffSameContentColor: "#e37400",
+    diffSameContentBackground: "#fef7e0"
   },
 
   // Typography
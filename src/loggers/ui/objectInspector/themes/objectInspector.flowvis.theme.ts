@@ -29,7 +29,16 @@ export const objectInspectorTheme = {
     maxDepthColor: "#ccc",
     previewColor: "#999",
     prototypeOpacity: "0.6",
-    errorColor: "#cc0000"
+    errorColor: "#cc0000",
+
+    // Diff mode colors
+    diffAddedColor: "#068261",
+    diffAddedBackground: "#e6f4ef",
+    diffRemovedColor: "#cc0000",
+    diffRemovedBackground: "#fdecec",
+    diffChangedColor: "#007acc",
+    diffSameContentColor: "#ff9800",
+    diffSameContentBackground: "#fff4e5"
   },
 
   // Typography
@@ -1,6 +1,24 @@
 export const APP_NAME = 'vue-flow-vis';
 export const MAIN_AREA_PLACEHOLDER = 'Select a component from the sidebar to view its events';
 export const FILTER_COMPONENTS_PLACEHOLDER = 'Filter components';
+export const RENDER_CASCADES_TITLE = 'Render cascades';
+export const NO_RENDER_CASCADES = 'No render cascades recorded yet';
+export const COMPUTED_CASCADE_SOURCE = 'computed (source not reported by Vue)';
+export const LIFECYCLE_TIMELINE_TITLE = 'Mount timeline';
+export const NO_LIFECYCLE_EVENTS = 'No mounts recorded yet';
+export const RENDER_TIMELINE_TITLE = 'Render timeline';
+export const NO_RENDER_TIMELINE_EVENTS = 'No renders recorded yet';
+export const DEPENDENCY_GRAPH_TITLE = 'Reactive dependencies';
+export const NO_DEPENDENCIES = 'No reactive dependencies tracked yet';
+export const SUBSCRIPTION_REPORT_TITLE = 'Subscription report';
+export const NO_SUBSCRIPTIONS = 'No renders with tracked dependencies recorded yet';
+export const NO_DEPENDENCY_SELECTED = 'Select a dependency to see the components that re-render when it changes';
+export const IMPORTED_SESSION_LABEL = 'Imported session';
+export const IMPORTED_SESSION_HINT = 'Read-only view of an exported session, clear the log to resume live recording';
 
 export const EVENT_DETAILS_HEADER_ORIGINAL = 'Original';
-export const EVENT_DETAILS_HEADER_DEBUGGER_EVENT = 'Debugger Event';
\ No newline at end of file
+export const EVENT_DETAILS_HEADER_DEBUGGER_EVENT = 'Debugger Event';
+export const EVENT_DETAILS_HEADER_RENDER_TIMING = 'Render Timing';
+export const EVENT_DETAILS_HEADER_RENDER_CYCLE = 'Render Cycle';
+export const EVENT_DETAILS_HEADER_LIFECYCLE = 'Lifecycle Event';
+export const VALUE_DIFF_TITLE = 'Value change';
\ No newline at end of file
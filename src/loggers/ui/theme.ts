@@ -13,6 +13,8 @@ export const theme = {
     // Status/Event colors
     tracked: "#068261ff",
     triggered: "#ff9800",
+    rendered: "#007acc",
+    lifecycle: "#9c27b0",
     
     // Semantic colors
     success: "#00cc96ff",
@@ -0,0 +1,255 @@
+/* eslint-disable no-undef */
+/**
+ * @vitest-environment jsdom
+ */
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { computed, createApp, defineAsyncComponent, defineComponent, h, nextTick, reactive, ref } from 'vue'
+import type { App, Component } from 'vue'
+import { FlowVisPlugin } from './index'
+import type { ComponentMonitor } from '../core/ComponentMonitor'
+import type { FlowVisOptions, LifecycleEventData, RenderEventData, RenderWarning } from '../types'
+
+describe('FlowVisPlugin', () => {
+  let app: App | undefined
+
+  const mountApp = (root: Component, options: FlowVisOptions = {}): ComponentMonitor => {
+    app = createApp(root)
+    app.use(FlowVisPlugin, { logger: 'none', ...options })
+    app.mount(document.createElement('div'))
+    return app.config.globalProperties.$componentMonitor
+  }
+
+  beforeEach(() => {
+    vi.stubGlobal('__DEV__', true)
+  })
+
+  afterEach(() => {
+    app?.unmount()
+    app = undefined
+    vi.unstubAllGlobals()
+  })
+
+  it('should measure every render of a component that re-renders itself', async () => {
+    const count = ref(0)
+    const Counter = defineComponent({
+      name: 'Counter',
+      __file: '/src/components/Counter.vue',
+      setup() {
+        return (): ReturnType<typeof h> => {
+          // Re-queues the render until count reaches 3, within one flush
+          if (count.value > 0 && count.value < 3) count.value++
+          return h('span', count.value)
+        }
+      },
+    })
+    const monitor = mountApp(Counter)
+
+    count.value = 1
+    await nextTick()
+
+    const stats = monitor.getComponentStats('Counter')
+    // Mount, then renders for count 1, 2 and 3
+    expect(stats?.renderCount).toBe(4)
+  })
+
+  it('should measure updates of children caused by new props', async () => {
+    const label = ref('a')
+    const Child = defineComponent({
+      name: 'Child',
+      __file: '/src/components/Child.vue',
+      props: { label: { type: String, required: true } },
+      setup(props) {
+        return (): ReturnType<typeof h> => h('span', props.label)
+      },
+    })
+    const Parent = defineComponent({
+      name: 'Parent',
+      __file: '/src/components/Parent.vue',
+      setup() {
+        return (): ReturnType<typeof h> => h('div', [h(Child, { label: label.value })])
+      },
+    })
+    const monitor = mountApp(Parent)
+
+    label.value = 'b'
+    await nextTick()
+
+    expect(monitor.getComponentStats('Parent')?.renderCount).toBe(2)
+    expect(monitor.getComponentStats('Child')?.renderCount).toBe(2)
+  })
+
+  it('should measure each mount without the components mounted after it', () => {
+    const busyWait = (ms: number): void => {
+      const end = performance.now() + ms
+      while (performance.now() < end) { /* simulate an expensive render */ }
+    }
+    const Fast = defineComponent({
+      name: 'Fast',
+      __file: '/src/components/Fast.vue',
+      setup() {
+        return (): ReturnType<typeof h> => h('span', 'fast')
+      },
+    })
+    const Slow = defineComponent({
+      name: 'Slow',
+      __file: '/src/components/Slow.vue',
+      setup() {
+        return (): ReturnType<typeof h> => {
+          busyWait(50)
+          return h('span', 'slow')
+        }
+      },
+    })
+    const Parent = defineComponent({
+      name: 'Parent',
+      __file: '/src/components/Parent.vue',
+      setup() {
+        return (): ReturnType<typeof h> => h('div', [h(Fast), h(Slow)])
+      },
+    })
+    const monitor = mountApp(Parent)
+
+    expect(monitor.getComponentStats('Slow')?.maxRenderDuration).toBeGreaterThanOrEqual(50)
+    expect(monitor.getComponentStats('Fast')?.maxRenderDuration).toBeLessThan(25)
+    // A parent's mount includes patching its children
+    expect(monitor.getComponentStats('Parent')?.maxRenderDuration).toBeGreaterThanOrEqual(50)
+  })
+
+  describe('async components', () => {
+    const Loaded = defineComponent({
+      name: 'Loaded',
+      __file: '/src/components/Loaded.vue',
+      setup() {
+        return (): ReturnType<typeof h> => h('span', 'loaded')
+      },
+    })
+    const Spinner = defineComponent({
+      name: 'Spinner',
+      __file: '/src/components/Spinner.vue',
+      setup() {
+        return (): ReturnType<typeof h> => h('span', 'loading')
+      },
+    })
+    const mountAsync = async (options: Parameters<typeof defineAsyncComponent>[0]): Promise<string[]> => {
+      const AsyncLoaded = defineAsyncComponent(options)
+      const onLifecycle = vi.fn()
+      mountApp({ render: (): ReturnType<typeof h> => h(AsyncLoaded) }, { onLifecycle })
+      await new Promise((resolve) => setTimeout(resolve, 10))
+      await nextTick()
+      return onLifecycle.mock.calls
+        .map((call) => call[0] as LifecycleEventData)
+        .filter((event) => event.componentName !== 'Anonymous')
+        .map((event) => `${event.type}:${event.componentName}`)
+    }
+
+    it('should report when the loaded component became available', async () => {
+      const events = await mountAsync(() => Promise.resolve(Loaded))
+
+      expect(events).toEqual(['async-resolved:Loaded', 'mounted:Loaded'])
+    })
+
+    it('should not report the loading component as resolved', async () => {
+      const events = await mountAsync({
+        loader: () => new Promise((resolve) => setTimeout(() => resolve(Loaded), 5)),
+        loadingComponent: Spinner,
+        delay: 0,
+      })
+
+      expect(events).toEqual(['mounted:Spinner', 'async-resolved:Loaded', 'unmounted:Spinner', 'mounted:Loaded'])
+    })
+  })
+
+  it('should warn about repeated assignments of an equal value', async () => {
+    const state = reactive({ items: [1, 2] })
+    const List = defineComponent({
+      name: 'List',
+      __file: '/src/components/List.vue',
+      setup() {
+        return (): ReturnType<typeof h> => h('ul', state.items.map((item) => h('li', item)))
+      },
+    })
+    const onWarning = vi.fn()
+    mountApp(List, { onWarning })
+
+    for (let i = 0; i < 3; i++) {
+      state.items = [1, 2]
+      await nextTick()
+    }
+
+    const warning = onWarning.mock.calls[0]?.[0] as RenderWarning
+    expect(warning.type).toBe('identical-value')
+    expect(warning.key).toBe('items')
+  })
+
+  it('should not tag renders triggered through a computed as redundant', async () => {
+    const state = reactive({ items: [1, 2], filter: 0 })
+    const List = defineComponent({
+      name: 'List',
+      __file: '/src/components/List.vue',
+      setup() {
+        const visible = computed(() => state.items.filter((item) => item > state.filter))
+        return (): ReturnType<typeof h> => h('ul', visible.value.map((item) => h('li', item)))
+      },
+    })
+    const onRenderTriggered = vi.fn()
+    mountApp(List, { onRenderTriggered })
+
+    // The computed returns a new array with the same items
+    state.filter = -1
+    await nextTick()
+
+    const trigger = onRenderTriggered.mock.calls[0]?.[0] as RenderEventData
+    expect(trigger.event.type).toBeUndefined()
+    expect(trigger.redundant).toBeUndefined()
+  })
+
+  it('should forget the dependencies of a component unmounted while paused', async () => {
+    const store = reactive({ count: 0 })
+    const show = ref(true)
+    const Child = defineComponent({
+      name: 'Child',
+      __file: '/src/components/Child.vue',
+      setup() {
+        return (): ReturnType<typeof h> => h('span', store.count)
+      },
+    })
+    const Parent = defineComponent({
+      name: 'Parent',
+      __file: '/src/components/Parent.vue',
+      setup() {
+        return (): ReturnType<typeof h> => h('div', show.value ? [h(Child)] : [])
+      },
+    })
+    const monitor = mountApp(Parent)
+    expect(monitor.getDependents(store, 'count')).toHaveLength(1)
+
+    monitor.pause()
+    show.value = false
+    await nextTick()
+
+    expect(monitor.getDependents(store, 'count')).toEqual([])
+  })
+
+  it('should warn about a component re-rendering itself in a loop', async () => {
+    const count = ref(0)
+    const Counter = defineComponent({
+      name: 'Counter',
+      __file: '/src/components/Counter.vue',
+      setup() {
+        return (): ReturnType<typeof h> => {
+          if (count.value > 0 && count.value < 10) count.value++
+          return h('span', count.value)
+        }
+      },
+    })
+    const onWarning = vi.fn()
+    mountApp(Counter, { onWarning, warnings: { loopThreshold: 5 } })
+
+    count.value = 1
+    await nextTick()
+
+    const warning = onWarning.mock.calls[0]?.[0] as RenderWarning
+    expect(warning.type).toBe('render-loop')
+    expect(warning.count).toBe(5)
+  })
+})
@@ -1,6 +1,14 @@
-import { getCurrentInstance, onRenderTracked, onRenderTriggered } from 'vue'
-import type { App, DebuggerEvent } from 'vue'
-import type { FlowVisOptions, FlowVisPluginType } from '../types'
+import {
+  getCurrentInstance,
+  onActivated,
+  onDeactivated,
+  onMounted,
+  onRenderTracked,
+  onRenderTriggered,
+  onUnmounted,
+} from 'vue'
+import type { App, ComponentInternalInstance, DebuggerEvent } from 'vue'
+import type { FlowVisOptions, FlowVisPluginType, LifecycleEventData, LifecycleEventType } from '../types'
 import { ComponentMonitor } from '../core/ComponentMonitor'
 import { ComponentIdentifier } from '../utils/componentIdentifier'
 
@@ -21,22 +29,26 @@ export const FlowVisPlugin: FlowVisPluginType = {
     
     const monitor = new ComponentMonitor(options)
     
+    // Load start of defineAsyncComponent wrappers that are still loading
+    const asyncLoadStarts = new WeakMap<ComponentInternalInstance, number>()
+    
     // Global mixin
     app.mixin({
       created() {
-        if (!monitor.options.enabled) return
-        
         const instance = getCurrentInstance()
         if (!instance) return
         
         const componentName = ComponentIdentifier.getComponentName(instance)
         
-        if (!monitor.shouldMonitorComponent(componentName, instance)) return
+        // Hooks are always registered so that monitoring can be enabled, resumed or
+        // re-filtered at runtime - whether to record is decided per event
+        const shouldRecord = (): boolean => monitor.shouldRecord(componentName, instance)
         
         // Lazy path computation - only compute when first render event occurs
         let componentPath: string | undefined
         
         onRenderTracked((event: DebuggerEvent) => {
+          if (!shouldRecord()) return
           if (!componentPath) {
             componentPath = ComponentIdentifier.getComponentPath(instance)
           }
@@ -45,12 +57,18 @@ export const FlowVisPlugin: FlowVisPluginType = {
             componentPath,
             event,
             timestamp: Date.now(),
+            startTime: globalThis.performance.now(),
             instanceId: instance.uid,
             instance
           })
         })
         
+        // Render timing - mounts and updates are measured around each run of the render
+        // effect (see measureRenders)
+        let rendering = false
+        
         onRenderTriggered((event: DebuggerEvent) => {
+          if (!shouldRecord()) return
           if (!componentPath) {
             componentPath = ComponentIdentifier.getComponentPath(instance)
           }
@@ -59,13 +77,122 @@ export const FlowVisPlugin: FlowVisPluginType = {
             componentPath,
             event,
             timestamp: Date.now(),
+            startTime: globalThis.performance.now(),
+            instanceId: instance.uid,
+            instance,
+            duringRender: rendering
+          })
+        })
+        
+        const endRender = (phase: 'mount' | 'update', startTime: number): void => {
+          rendering = false
+          if (!shouldRecord()) return
+          if (!componentPath) {
+            componentPath = ComponentIdentifier.getComponentPath(instance)
+          }
+          monitor.logRenderTiming({
+            componentName,
+            componentPath,
+            phase,
+            startTime,
+            duration: globalThis.performance.now() - startTime,
+            timestamp: Date.now(),
+            instanceId: instance.uid,
+            instance
+          })
+        }
+        
+        const logLifecycle = (type: LifecycleEventType, details: Pick<LifecycleEventData, 'duration' | 'reason'> = {}): void => {
+          if (!shouldRecord()) return
+          if (!componentPath) {
+            componentPath = ComponentIdentifier.getComponentPath(instance)
+          }
+          monitor.logLifecycleEvent({
+            type,
+            componentName,
+            componentPath,
             instanceId: instance.uid,
+            timestamp: Date.now(),
+            parentId: instance.parent?.uid,
+            parentName: instance.parent ? ComponentIdentifier.getComponentName(instance.parent) : undefined,
+            key: instance.vnode.key ?? undefined,
+            ...details,
             instance
           })
+        }
+        
+        // Async wrappers usually have no source file and are not monitored themselves,
+        // the loaded component reports when it became available
+        const asyncType = instance.type as { __asyncLoader?: unknown, __asyncResolved?: unknown }
+        if (asyncType.__asyncLoader && !asyncType.__asyncResolved) {
+          asyncLoadStarts.set(instance, globalThis.performance.now())
+        }
+        // The wrapper renders its loading and error components as children too, only the
+        // component it resolved to reports the load
+        const wrapper = instance.parent
+        const loadStart = wrapper ? asyncLoadStarts.get(wrapper) : undefined
+        const resolvedType = (wrapper?.type as { __asyncResolved?: unknown } | undefined)?.__asyncResolved
+        if (wrapper && loadStart !== undefined && resolvedType === instance.type) {
+          asyncLoadStarts.delete(wrapper)
+          logLifecycle('async-resolved', { duration: globalThis.performance.now() - loadStart })
+        } else if ((instance as unknown as { asyncDep: Promise<unknown> | null }).asyncDep) {
+          // created() of a component with an async setup() runs once it resolved
+          logLifecycle('async-resolved')
+        }
+        
+        // Lifecycle hooks can not measure renders: mounted hooks run after the whole tree was
+        // patched, and updated hooks are queued post-flush and run once per flush even when a
+        // component re-rendered itself several times. Instead, the run method of the render
+        // effect is monkey-patched as soon as Vue assigns instance.effect, right after created()
+        // and before Vue binds instance.update and the scheduler job to it, so every mount and
+        // update run is measured from its start to the end of its own patch.
+        // instance.effect only exists since Vue 3.2, older versions report no render timings.
+        const measureRenders = (): void => {
+          if (!('effect' in instance)) return
+          let renderEffect = instance.effect
+          Object.defineProperty(instance, 'effect', {
+            configurable: true,
+            enumerable: true,
+            get: () => renderEffect,
+            set(effect: ComponentInternalInstance['effect']) {
+              const run = effect.run.bind(effect)
+              effect.run = (): void => {
+                const phase = instance.isMounted ? 'update' : 'mount'
+                const startTime = globalThis.performance.now()
+                rendering = true
+                try {
+                  run()
+                } finally {
+                  endRender(phase, startTime)
+                }
+              }
+              renderEffect = effect
+            }
+          })
+        }
+        measureRenders()
+        
+        onMounted(() => logLifecycle('mounted'))
+        onActivated(() => logLifecycle('activated'))
+        onDeactivated(() => logLifecycle('deactivated'))
+        // Vue stops the parent's effect scope before unmounting its children
+        const parentScope = (instance.parent as unknown as { scope: { active: boolean } } | null)?.scope
+        onUnmounted(() => {
+          logLifecycle('unmounted', {
+            reason: parentScope && !parentScope.active ? 'parent-unmounted' : 'removed'
+          })
+          monitor.releaseInstance(instance.uid)
         })
       },
     })
     
+    // Tear down the panel, listeners and pending batches together with the app
+    const unmount = app.unmount.bind(app)
+    app.unmount = (): void => {
+      unmount()
+      monitor.destroy()
+    }
+    
     // Make available globally
     app.config.globalProperties.$componentMonitor = monitor
     app.provide('componentMonitor', monitor)
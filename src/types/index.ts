@@ -19,13 +19,29 @@ export type FlowVisOptions = {
    * If provided, these components will not be monitored
    * @default []
    */
-  excludeComponents?: string[]
+  excludeComponents?: ComponentPattern[]
   /**
    * Components to include for monitoring
    * If provided, only these components will be monitored
    * @default []
    */
-  includeComponents?: string[]
+  includeComponents?: ComponentPattern[]
+  /**
+   * Ordered include/exclude rules, the last matching rule decides. Components no rule matches are
+   * monitored, unless the first rule includes. Takes precedence over includeComponents/excludeComponents
+   * @default []
+   */
+  componentRules?: ComponentRule[]
+  /**
+   * How components of libraries and other external sources are recognized. External components
+   * are never monitored
+   */
+  externalComponents?: ExternalComponentOptions
+  /**
+   * Log once per component why it is not monitored, e.g. as an external component or by the include/exclude rules
+   * @default false
+   */
+  debugExclusions?: boolean
   /**
    * Whether to batch logs
    * If true, logs will be grouped by component and sent after a specified window
@@ -45,6 +61,57 @@ export type FlowVisOptions = {
    * Custom callback for triggered events
    */
   onRenderTriggered?: (data: RenderEventData) => void
+  /**
+   * Custom callback for completed render cycles
+   */
+  onRenderCycle?: (cycle: RenderCycle) => void
+  /**
+   * Custom callback for render cascades - re-renders caused by one reactive change within a scheduler flush
+   */
+  onRenderCascade?: (cascade: RenderCascade) => void
+  /**
+   * Custom callback for abnormal render patterns such as render storms and render loops
+   */
+  onWarning?: (warning: RenderWarning) => void
+  /**
+   * Custom callback for lifecycle transitions: mounted, unmounted, KeepAlive (de)activation and async resolution
+   */
+  onLifecycle?: (event: LifecycleEventData) => void
+  /**
+   * Thresholds for render warnings, or false to disable the detection
+   */
+  warnings?: RenderWarningThresholds | false
+  /**
+   * Drops matching tracked/triggered events before they reach stats, callbacks and loggers
+   */
+  eventFilter?: RenderEventFilter
+  /**
+   * Display render cycles (triggers followed by the dependencies tracked during the re-render)
+   * instead of individual tracked/triggered events in the built-in loggers
+   * @default false
+   */
+  groupByRenderCycle?: boolean
+  /**
+   * Group events by component instance (uid) instead of by component name in the built-in loggers
+   * @default false
+   */
+  groupByInstance?: boolean
+  /**
+   * Nest the UI sidebar by the component hierarchy instead of listing components by name
+   * @default false
+   */
+  componentTree?: boolean
+  /**
+   * Report every render to the User Timing API with `performance.mark` and `performance.measure`,
+   * named `flowvis:<Component>#<uid>:render`, so the browser Performance panel and RUM tools pick them up
+   * @default false
+   */
+  userTiming?: boolean
+  /**
+   * Page overlay that outlines a component's root element each time it re-renders
+   * @default {}
+   */
+  heatmap?: RenderHeatmapOptions
   /**
    * Logger type to use for output
    * - 'console': Uses ConsoleLogger for browser console output (default)
@@ -59,16 +126,288 @@ export type FlowVisOptions = {
    * Takes precedence over the 'logger' option
    */
   customLogger?: Logger
+  /**
+   * Loggers that all receive the events, e.g. the UI panel together with a custom analytics logger.
+   * Entries are built-in logger types, logger instances or sinks with their own filter.
+   * Takes precedence over the 'logger' and 'customLogger' options
+   * @default []
+   */
+  loggers?: Array<'console' | 'ui' | Logger | LoggerSink>
+}
+
+export type RenderHeatmapOptions = {
+  /**
+   * Show the overlay right away, it can also be toggled from the UI panel or with `setHeatmapEnabled`
+   * @default false
+   */
+  enabled?: boolean
+  /**
+   * Time in ms an outline fades out after the last render, also the window in which renders are counted
+   * @default 1000
+   */
+  decay?: number
+  /**
+   * Outline colors from rarely to frequently re-rendering components
+   * @default ['#00cc96', '#ffeb3b', '#ff9800', '#cc0000']
+   */
+  colors?: string[]
+  /**
+   * Renders of one instance within `decay` ms that get the last color of the scale
+   * @default 10
+   */
+  maxRenders?: number
+}
+
+/** Decides per component whether its events reach a logger */
+export type LoggerFilter = (componentName: string, componentPath: string) => boolean
+
+export type LoggerSink = {
+  logger: 'console' | 'ui' | Logger
+  filter?: LoggerFilter
 }
 
+/** Matches components by name, component path or source file, all given fields have to match */
+export type ComponentMatcher = {
+  /** Component name with `*` wildcards, case-insensitive */
+  name?: string | RegExp
+  /** Component path such as `Dashboard → *`, case-insensitive; paths not starting at the root match any ancestor */
+  path?: string | RegExp
+  /** Source file glob such as `src/features/billing/**` */
+  file?: string | RegExp
+}
+
+/**
+ * Strings containing `/` are file globs, strings containing ` → ` component paths and other strings
+ * component names. Regular expressions are matched against the component name.
+ */
+export type ComponentPattern = string | RegExp | ComponentMatcher
+
+export type ExternalComponentOptions = {
+  /**
+   * Root directory of the project. Source files below it belong to the project, files outside of it
+   * are external. Without a root, heuristics on the file path decide
+   */
+  projectRoot?: string
+  /** Packages in node_modules whose components are monitored, e.g. `['vuetify']` */
+  libraries?: string[]
+  /** Components that are never external, also those without a source file */
+  allow?: ComponentPattern[]
+  /** Components that are always external */
+  deny?: ComponentPattern[]
+}
+
+/** Strings starting with `!` and matchers with `exclude: true` exclude the components they match */
+export type ComponentRule = string | RegExp | (ComponentMatcher & { exclude?: boolean })
+
 export type RenderEventData = {
   componentName: string
   componentPath: string
   event: DebuggerEvent
   timestamp: number
+  /** High resolution time taken from performance.now() when the event was reported, on the clock of `RenderTimingData.startTime` */
+  startTime?: number
   instanceId: number
   metadata?: ComponentMetadata
   instance?: import('vue').ComponentInternalInstance
+  /** Whether the trigger happened while the component itself was rendering */
+  duringRender?: boolean
+  /** Whether a `set` trigger assigned a value that is identical or deep-equal to the old one, never set for triggers through a computed */
+  redundant?: boolean
+  /** Expression the component reaches the target and key with, e.g. `props.user.name` or `cartStore.items` */
+  targetLabel?: string
+}
+
+/**
+ * Lifecycle transitions of a component instance. `activated`/`deactivated` are reported for components
+ * restored from and cached by KeepAlive, `async-resolved` when a component loaded by defineAsyncComponent
+ * or with an async setup() inside Suspense is ready
+ */
+export type LifecycleEventType = 'mounted' | 'unmounted' | 'activated' | 'deactivated' | 'async-resolved'
+
+/**
+ * Why an instance was mounted or unmounted, inferred from the other instances at the same component path:
+ * - `initial` - first instance mounted at the path
+ * - `added` - mounted next to live instances at the path, e.g. a new v-for item
+ * - `remounted` - mounted after an earlier instance at the path was unmounted, e.g. a v-if flip or a remounted parent
+ * - `key-changed` - replaced an instance with a different `key` in the same update
+ * - `removed` - unmounted while its parent stayed mounted, e.g. v-if, v-for or a key change
+ * - `parent-unmounted` - unmounted together with its parent
+ */
+export type LifecycleReason = 'initial' | 'added' | 'remounted' | 'key-changed' | 'removed' | 'parent-unmounted'
+
+export type LifecycleEventData = {
+  type: LifecycleEventType
+  componentName: string
+  componentPath: string
+  instanceId: number
+  timestamp: number
+  /** Time in ms the async component took to load, for `async-resolved` of defineAsyncComponent */
+  duration?: number
+  /** Uid of the parent instance */
+  parentId?: number
+  parentName?: string
+  /** The instance's vnode key */
+  key?: string | number | symbol
+  /** Why the instance was mounted or unmounted, for `mounted` and `unmounted` */
+  reason?: LifecycleReason
+  /** Uid of the instance unmounted in the same update that this one replaced, for `mounted` */
+  replacedInstanceId?: number
+  /** Time in ms between mount and unmount, for `unmounted` of instances whose mount was recorded */
+  lifetime?: number
+  metadata?: ComponentMetadata
+  instance?: import('vue').ComponentInternalInstance
+}
+
+export type RenderTimingData = {
+  componentName: string
+  componentPath: string
+  instanceId: number
+  /** Whether the measured render was the initial mount or an update */
+  phase: 'mount' | 'update'
+  /** High resolution start time taken from performance.now() */
+  startTime: number
+  /** Time in ms of the mount or update run of the render effect, including child patches */
+  duration: number
+  timestamp: number
+  /** Triggered events that scheduled this render */
+  triggers: RenderEventData[]
+  metadata?: ComponentMetadata
+  instance?: import('vue').ComponentInternalInstance
+}
+
+export type RenderCycle = {
+  /** Unique id of the cycle across all components */
+  id: number
+  /** 1-based position of this cycle among the cycles of the same instance */
+  sequence: number
+  componentName: string
+  componentPath: string
+  instanceId: number
+  phase: 'mount' | 'update'
+  /** Triggered events that scheduled the render */
+  triggers: RenderEventData[]
+  /** Dependencies tracked while rendering */
+  tracked: RenderEventData[]
+  /** Render timing measured for this cycle */
+  timing: RenderTimingData
+  metadata?: ComponentMetadata
+}
+
+export type RenderCascadeNode = {
+  componentName: string
+  componentPath: string
+  instanceId: number
+  /** Triggered events that re-rendered this component within the cascade */
+  triggers: RenderEventData[]
+  /** Descendant components re-rendered because this component passed them new props */
+  children: RenderCascadeNode[]
+}
+
+export type RenderCascade = {
+  id: number
+  /** Raw reactive target of the mutation at the root of the cascade, missing for renders scheduled by a computed */
+  target?: object
+  /** Mutated key on the target */
+  key: unknown
+  /** Readable name of the mutated target and key, e.g. `cartStore.items`, when it could be resolved */
+  targetLabel?: string
+  /** Trigger operation type of the mutation (set, add, delete, clear), missing for renders scheduled by a computed */
+  type?: string
+  timestamp: number
+  /** Components re-rendered directly by the mutation */
+  nodes: RenderCascadeNode[]
+  /** Total number of components re-rendered by the cascade */
+  componentCount: number
+  /** Number of component levels the change propagated through */
+  depth: number
+}
+
+export type RenderWarningThresholds = {
+  /**
+   * Number of updates of one instance within `stormWindow` above which a render storm is reported
+   * @default 20
+   */
+  stormThreshold?: number
+  /**
+   * Time window in ms for render storms and repeated identical values
+   * @default 1000
+   */
+  stormWindow?: number
+  /**
+   * Number of redundant triggers of the same key, which assign a value structurally equal to the
+   * old one, within `stormWindow` at which a warning is reported
+   * @default 3
+   */
+  identicalValueThreshold?: number
+  /**
+   * Number of renders in a row of one instance that each re-triggered it while it was rendering,
+   * at which a render loop is reported
+   * @default 5
+   */
+  loopThreshold?: number
+}
+
+/** Operation types of DebuggerEvent, get/has/iterate for tracked and set/add/delete/clear for triggered events */
+export type RenderEventType = 'get' | 'has' | 'iterate' | 'set' | 'add' | 'delete' | 'clear'
+
+/**
+ * Declarative filter for tracked and triggered events. An event is kept when it passes every
+ * given condition. Keys are compared as strings, symbols as e.g. `Symbol(iterate)`.
+ */
+export type RenderEventFilter = {
+  /** Only keep events of these operation types */
+  types?: RenderEventType[]
+  /** Drop events of these operation types, e.g. `['iterate']` */
+  excludeTypes?: RenderEventType[]
+  /** Only keep events of these keys, as names with `*` wildcards or regular expressions */
+  keys?: Array<string | RegExp>
+  /** Drop events of these keys, as names with `*` wildcards or regular expressions */
+  excludeKeys?: Array<string | RegExp>
+  /** Only keep events on targets with these constructor names, e.g. `['Map', 'Set', 'RefImpl', 'ComputedRefImpl']` */
+  targets?: string[]
+  /** Drop events on targets with these constructor names */
+  excludeTargets?: string[]
+  /** Custom check, return false to drop the event */
+  predicate?: (data: RenderEventData, type: 'tracked' | 'triggered') => boolean
+}
+
+export type RenderWarningType = 'render-storm' | 'identical-value' | 'render-loop'
+
+export type RenderWarning = {
+  type: RenderWarningType
+  componentName: string
+  componentPath: string
+  instanceId: number
+  message: string
+  timestamp: number
+  /** Number of renders or triggers that exceeded the threshold */
+  count: number
+  /** Events that caused the warning */
+  events: RenderEventData[]
+  /** Key of the repeated trigger, for identical value warnings */
+  key?: unknown
+  metadata?: ComponentMetadata
+}
+
+/** Event of the Chrome Trace Event Format, timestamps and durations are in microseconds */
+export type ChromeTraceEvent = {
+  name: string
+  /** Phase: `X` complete slice, `i` instant event, `M` metadata */
+  ph: 'X' | 'i' | 'M'
+  pid: number
+  tid: number
+  cat?: string
+  ts?: number
+  dur?: number
+  /** Scope of instant events, `t` draws them on the thread's track */
+  s?: 't'
+  args?: Record<string, unknown>
+}
+
+/** Trace document that opens in chrome://tracing and Perfetto */
+export type ChromeTrace = {
+  traceEvents: ChromeTraceEvent[]
+  displayTimeUnit: 'ms'
 }
 
 export type ComponentMetadata = {
@@ -80,12 +419,126 @@ export type ComponentMetadata = {
   emits?: string[]
   isSetup: boolean
   parentName?: string
+  /** Key of the component's vnode, e.g. the `:key` of a list item */
+  key?: string | number | symbol
+}
+
+export type TriggerKeyCount = {
+  key: string
+  count: number
+}
+
+export type RenderStats = {
+  /** Number of render triggered events */
+  triggeredCount: number
+  /** Number of render tracked (dependency) events */
+  trackedCount: number
+  /** Number of triggered events that assigned an identical or deep-equal value */
+  redundantCount: number
+  /** Timestamp of the first recorded event */
+  firstTimestamp: number
+  /** Timestamp of the most recent recorded event */
+  lastTimestamp: number
+  /** Most frequent keys that triggered a re-render, sorted by count */
+  topTriggerKeys: ReadonlyArray<Readonly<TriggerKeyCount>>
+  /** Number of measured renders (mounts and updates) */
+  renderCount: number
+  /** Sum of all measured render durations in ms */
+  totalRenderDuration: number
+  /** Average measured render duration in ms */
+  averageRenderDuration: number
+  /** Longest measured render duration in ms */
+  maxRenderDuration: number
 }
 
+export type InstanceRenderStats = Readonly<RenderStats & {
+  componentName: string
+  instanceId: number
+}>
+
+export type ComponentRenderStats = Readonly<RenderStats & {
+  componentName: string
+  instances: ReadonlyMap<number, InstanceRenderStats>
+}>
+
+/**
+ * Mount/unmount counters of one component across all of its instances
+ */
+export type ComponentLifetimeStats = Readonly<{
+  componentName: string
+  /** Instances mounted so far */
+  created: number
+  /** Instances currently mounted */
+  alive: number
+  unmounted: number
+  /** Mounts that replaced an earlier instance (`key-changed` or `remounted`) */
+  remounts: number
+  /** Average time in ms between mount and unmount of the unmounted instances */
+  averageLifetime: number
+}>
+
+/**
+ * How many reactive dependencies one component subscribes to compared to the ones that re-render it
+ */
+export type SubscriptionReportEntry = Readonly<{
+  componentName: string
+  /** Number of measured renders */
+  renderCount: number
+  /** Average number of distinct dependencies read per render */
+  averageDependencies: number
+  /** Most distinct dependencies read by one render */
+  maxDependencies: number
+  /** `iterate` tracks of arrays, Maps, Sets or objects with at least 100 items */
+  largeIterationCount: number
+  /** Size of the largest collection iterated during render */
+  largestIteration: number
+  /** Distinct dependencies that triggered a re-render so far */
+  triggeredDependencies: number
+  /** `maxDependencies` per triggered dependency, high values mean most reads never cause a re-render */
+  subscriptionRatio: number
+  /** Suggestions for reducing the subscriptions, empty when nothing stands out */
+  hints: ReadonlyArray<string>
+}>
+
+/**
+ * Instance that read a reactive dependency during its last render
+ */
+export type DependencyReader = Readonly<{
+  componentName: string
+  componentPath: string
+  instanceId: number
+}>
+
+/**
+ * A key of a reactive object read during render, and the instances that re-render when it changes
+ */
+export type ReactiveDependency = Readonly<{
+  /** Stable id of the raw target object, shared by all of its keys */
+  targetId: number
+  /** The raw (non-proxied) target object */
+  target: object
+  /** The property that was read, `Symbol(iterate)` for iterations */
+  key: unknown
+  /** Constructor name of the target, e.g. `Object` or `RefImpl` */
+  targetType: string
+  readers: ReadonlyArray<DependencyReader>
+}>
+
 export type Logger = {
   tracked(data: RenderEventData): void
   triggered(data: RenderEventData): void
+  rendered?(data: RenderTimingData): void
+  renderCycle?(cycle: RenderCycle): void
+  renderCascade?(cascade: RenderCascade): void
+  warning?(warning: RenderWarning): void
+  lifecycle?(event: LifecycleEventData): void
+  /** Called when monitoring is paused or resumed at runtime */
+  pauseChanged?(paused: boolean): void
+  /** Called when the render heatmap overlay is shown or hidden */
+  heatmapChanged?(enabled: boolean): void
   error(error: Error, context?: unknown): void
+  /** Release resources held by the logger, called when the monitor is destroyed or replaces a console or UI logger it created */
+  destroy?(): void
 }
 
 export type FlowVisPluginType = {
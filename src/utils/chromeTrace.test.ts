@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest'
+import { createChromeTrace } from './chromeTrace'
+import { createMockEvent, createMockEventData } from '../test-utils'
+import type { ChromeTraceEvent, RenderEventData, RenderTimingData } from '../types'
+
+describe('createChromeTrace', () => {
+  const timeOrigin = 1_700_000_000_000
+
+  const createTrigger = (instanceId: number, componentPath: string, startTime = 100.25): RenderEventData => ({
+    ...createMockEventData({
+      componentName: componentPath.split(' → ').pop(),
+      componentPath,
+      instanceId,
+      timestamp: 1000,
+      event: createMockEvent({ type: 'set', key: 'count', oldValue: 1, newValue: 2 }),
+    }),
+    startTime,
+  })
+
+  const createTiming = (trigger: RenderEventData, startTime = 100.5, duration = 0.25): RenderTimingData => ({
+    componentName: trigger.componentName,
+    componentPath: trigger.componentPath,
+    instanceId: trigger.instanceId,
+    phase: 'update',
+    startTime,
+    duration,
+    timestamp: 1001,
+    triggers: [trigger],
+  })
+
+  const findEvents = (events: ChromeTraceEvent[], name: string): ChromeTraceEvent[] =>
+    events.filter((event) => event.name === name)
+
+  it('should create a track per component instance ordered by component path', () => {
+    const child = createTrigger(3, 'App → List → Item')
+    const parent = createTrigger(2, 'App → List')
+    const sibling = createTrigger(4, 'App → Header')
+
+    const { traceEvents } = createChromeTrace([child, parent, sibling])
+
+    const names = findEvents(traceEvents, 'thread_name').map((event) => [event.tid, event.args?.name])
+    expect(names).toEqual([
+      [4, 'App → Header #4'],
+      [2, 'App → List #2'],
+      [3, 'App → List → Item #3'],
+    ])
+    const sortIndexes = findEvents(traceEvents, 'thread_sort_index').map((event) => [event.tid, event.args?.sort_index])
+    expect(sortIndexes).toEqual([[4, 0], [2, 1], [3, 2]])
+  })
+
+  it('should record triggers as instant events', () => {
+    const trigger = createTrigger(2, 'App → List')
+
+    const { traceEvents } = createChromeTrace([trigger], [], timeOrigin)
+
+    expect(findEvents(traceEvents, 'set count')).toEqual([{
+      name: 'set count',
+      cat: 'vue.trigger',
+      ph: 'i',
+      s: 't',
+      ts: 1_700_000_000_100_250,
+      pid: 1,
+      tid: 2,
+      args: { type: 'set', key: 'count', oldValue: 1, newValue: 2, duringRender: false },
+    }])
+  })
+
+  it('should record renders as slices starting at their high resolution start time', () => {
+    const trigger = createTrigger(2, 'App → List')
+
+    const { traceEvents } = createChromeTrace([trigger], [createTiming(trigger, 100.5, 0.25)], timeOrigin)
+
+    expect(findEvents(traceEvents, 'List update')).toEqual([{
+      name: 'List update',
+      cat: 'vue.render',
+      ph: 'X',
+      ts: 1_700_000_000_100_500,
+      dur: 250,
+      pid: 1,
+      tid: 2,
+      args: { phase: 'update', componentPath: 'App → List', triggers: ['set count'] },
+    }])
+  })
+
+  it('should place events without a high resolution time at their timestamp', () => {
+    const trigger = { ...createTrigger(2, 'App → List'), startTime: undefined }
+
+    const { traceEvents } = createChromeTrace([trigger], [], timeOrigin)
+
+    expect(findEvents(traceEvents, 'set count')[0]?.ts).toBe(1_000_000)
+  })
+
+  it('should produce a JSON document for reactive values', () => {
+    const target: Record<string, unknown> = {}
+    target.self = target
+    const trigger = createMockEventData({
+      event: createMockEvent({ type: 'set', key: 'self', oldValue: target, newValue: target }),
+    })
+
+    const trace = createChromeTrace([trigger])
+
+    expect(trace.displayTimeUnit).toBe('ms')
+    expect(() => JSON.stringify(trace)).not.toThrow()
+  })
+})
@@ -0,0 +1,112 @@
+import type { ChromeTrace, ChromeTraceEvent, ComponentMetadata, RenderEventData, RenderTimingData } from '../types'
+import { ComponentIdentifier } from './componentIdentifier'
+import { serializeValue } from './serializeValue'
+
+const PROCESS_ID = 1
+const PATH_SEPARATOR = ' → '
+
+type TraceThread = {
+  instanceId: number
+  componentName: string
+  componentPath: string
+  metadata?: ComponentMetadata
+}
+
+function toMicroseconds(ms: number): number {
+  return Math.round(ms * 1000)
+}
+
+// Orders tracks depth-first by component path, so children follow their parents
+function compareThreads(a: TraceThread, b: TraceThread): number {
+  const pathA = a.componentPath.split(PATH_SEPARATOR)
+  const pathB = b.componentPath.split(PATH_SEPARATOR)
+  for (let i = 0; i < Math.min(pathA.length, pathB.length); i++) {
+    const order = (pathA[i] ?? '').localeCompare(pathB[i] ?? '')
+    if (order !== 0) return order
+  }
+  return pathA.length - pathB.length || a.instanceId - b.instanceId
+}
+
+function describeTrigger(data: RenderEventData): string {
+  return `${data.event.type} ${String(data.event.key)}`
+}
+
+function createTriggerEvent(data: RenderEventData, timeOrigin: number): ChromeTraceEvent {
+  return {
+    name: describeTrigger(data),
+    cat: 'vue.trigger',
+    ph: 'i',
+    s: 't',
+    // Events recorded without a high resolution time fall back to their Date.now() timestamp
+    ts: toMicroseconds(data.startTime === undefined ? data.timestamp : timeOrigin + data.startTime),
+    pid: PROCESS_ID,
+    tid: data.instanceId,
+    args: {
+      type: data.event.type,
+      key: String(data.event.key),
+      oldValue: serializeValue(data.event.oldValue),
+      newValue: serializeValue(data.event.newValue),
+      duringRender: data.duringRender ?? false,
+    },
+  }
+}
+
+function createRenderSlice(timing: RenderTimingData, timeOrigin: number): ChromeTraceEvent {
+  return {
+    name: `${timing.componentName} ${timing.phase}`,
+    cat: 'vue.render',
+    ph: 'X',
+    ts: toMicroseconds(timeOrigin + timing.startTime),
+    dur: toMicroseconds(timing.duration),
+    pid: PROCESS_ID,
+    tid: timing.instanceId,
+    args: {
+      phase: timing.phase,
+      componentPath: timing.componentPath,
+      triggers: timing.triggers.map(describeTrigger),
+    },
+  }
+}
+
+/**
+ * Converts recorded render activity into the Chrome Trace Event Format. Every component
+ * instance gets its own track, ordered by component path; triggers become instant events
+ * and renders duration slices. Times are taken from performance.now() and offset by the time
+ * origin, so triggers and renders share one sub-millisecond clock.
+ * @param triggers - Triggered events
+ * @param timings - Measured renders
+ * @param timeOrigin - performance.timeOrigin of the page the activity was recorded on
+ * @returns Trace that opens in chrome://tracing and Perfetto
+ */
+export function createChromeTrace(
+  triggers: RenderEventData[],
+  timings: RenderTimingData[] = [],
+  timeOrigin = globalThis.performance.timeOrigin
+): ChromeTrace {
+  const threads = new Map<number, TraceThread>()
+  for (const data of [...timings, ...triggers]) {
+    if (!threads.has(data.instanceId)) {
+      const { instanceId, componentName, componentPath, metadata } = data
+      threads.set(instanceId, { instanceId, componentName, componentPath, metadata })
+    }
+  }
+
+  const traceEvents: ChromeTraceEvent[] = [
+    { name: 'process_name', ph: 'M', pid: PROCESS_ID, tid: 0, args: { name: 'Vue components' } },
+  ]
+  Array.from(threads.values()).sort(compareThreads).forEach((thread, index) => {
+    const parentPath = thread.componentPath.split(PATH_SEPARATOR).slice(0, -1).join(PATH_SEPARATOR)
+    const label = ComponentIdentifier.formatInstanceLabel(thread.componentName, thread.instanceId, thread.metadata?.key)
+    traceEvents.push(
+      { name: 'thread_name', ph: 'M', pid: PROCESS_ID, tid: thread.instanceId, args: { name: parentPath ? `${parentPath}${PATH_SEPARATOR}${label}` : label } },
+      { name: 'thread_sort_index', ph: 'M', pid: PROCESS_ID, tid: thread.instanceId, args: { sort_index: index } },
+    )
+  })
+
+  traceEvents.push(
+    ...timings.map((timing) => createRenderSlice(timing, timeOrigin)),
+    ...triggers.map((trigger) => createTriggerEvent(trigger, timeOrigin)),
+  )
+
+  return { traceEvents, displayTimeUnit: 'ms' }
+}
@@ -205,6 +205,21 @@ describe('ComponentIdentifier', () => {
     })
   })
 
+  describe('getAncestorIds', () => {
+    it('should return an empty list for null instance or root component', () => {
+      expect(ComponentIdentifier.getAncestorIds(null)).toEqual([])
+      expect(ComponentIdentifier.getAncestorIds(mockParentInstance as ComponentInternalInstance)).toEqual([])
+    })
+
+    it('should list ancestor uids nearest first', () => {
+      const root = { uid: 0, type: { name: 'App' }, parent: null }
+      const layout = { uid: 1, type: { name: 'Layout' }, parent: root }
+      const page = { uid: 2, type: { name: 'Page' }, parent: layout }
+
+      expect(ComponentIdentifier.getAncestorIds(page as ComponentInternalInstance)).toEqual([1, 0])
+    })
+  })
+
   describe('extractMetadata', () => {
     it('should extract complete metadata for component instance', () => {
       const instance = {
@@ -233,6 +248,20 @@ describe('ComponentIdentifier', () => {
       })
     })
 
+    it('should extract the vnode key', () => {
+      const instance = {
+        uid: 7,
+        type: { name: 'ListItem' },
+        props: {},
+        parent: null,
+        vnode: { key: 'row-7' },
+      }
+
+      const metadata = ComponentIdentifier.extractMetadata(instance as unknown as ComponentInternalInstance)
+
+      expect(metadata.key).toBe('row-7')
+    })
+
     it('should handle instance without parent', () => {
       const instance = {
         uid: 1,
@@ -313,6 +342,18 @@ describe('ComponentIdentifier', () => {
     })
   })
 
+  describe('formatInstanceLabel', () => {
+    it('should include the instance uid', () => {
+      expect(ComponentIdentifier.formatInstanceLabel('ListItem', 12)).toBe('ListItem #12')
+    })
+
+    it('should include the vnode key when present', () => {
+      expect(ComponentIdentifier.formatInstanceLabel('ListItem', 12, 'user-5')).toBe('ListItem #12 (key: user-5)')
+      expect(ComponentIdentifier.formatInstanceLabel('ListItem', 12, 0)).toBe('ListItem #12 (key: 0)')
+      expect(ComponentIdentifier.formatInstanceLabel('ListItem', 12, Symbol('row'))).toBe('ListItem #12 (key: Symbol(row))')
+    })
+  })
+
   describe('extractLazyMetadata', () => {
     it('should return a function that extracts metadata when called', () => {
       const lazyExtractor = ComponentIdentifier.extractLazyMetadata(mockInstance as ComponentInternalInstance)
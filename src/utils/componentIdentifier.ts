@@ -68,6 +68,21 @@ export class ComponentIdentifier {
     return pathString
   }
   
+  static getAncestorIds(instance: ComponentInternalInstance | null): number[] {
+    const ancestors: number[] = []
+    const visited = new Set<ComponentInternalInstance>()
+    let current = instance?.parent ?? null
+    
+    // Nearest ancestor first
+    while (current && !visited.has(current)) {
+      visited.add(current)
+      ancestors.push(current.uid)
+      current = current.parent
+    }
+    
+    return ancestors
+  }
+  
   static extractMetadata(instance: ComponentInternalInstance): ComponentMetadata {
     return {
       name: this.getComponentName(instance),
@@ -79,10 +94,16 @@ export class ComponentIdentifier {
         ? instance.type.emits 
         : Object.keys((instance.type?.emits as Record<string, unknown>) || {}),
       isSetup: !!(instance as { setupState?: unknown }).setupState,
-      parentName: instance.parent ? this.getComponentName(instance.parent) : undefined
+      parentName: instance.parent ? this.getComponentName(instance.parent) : undefined,
+      key: instance.vnode?.key ?? undefined
     }
   }
   
+  static formatInstanceLabel(componentName: string, instanceId: number, key?: string | number | symbol): string {
+    const label = `${componentName} #${instanceId}`
+    return key === undefined ? label : `${label} (key: ${String(key)})`
+  }
+  
   static extractLazyMetadata(instance: ComponentInternalInstance): () => ComponentMetadata {
     return () => this.extractMetadata(instance)
   }
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest'
+import { reactive, ref } from 'vue'
+import { isDeepEqual } from './isDeepEqual'
+
+describe('isDeepEqual', () => {
+  it('compares primitives with Object.is', () => {
+    expect(isDeepEqual(1, 1)).toBe(true)
+    expect(isDeepEqual(NaN, NaN)).toBe(true)
+    expect(isDeepEqual('a', 'b')).toBe(false)
+    expect(isDeepEqual(null, undefined)).toBe(false)
+  })
+
+  it('compares plain objects and arrays by contents', () => {
+    expect(isDeepEqual({ user: { name: 'a' }, tags: [1, 2] }, { user: { name: 'a' }, tags: [1, 2] })).toBe(true)
+    expect(isDeepEqual({ a: 1 }, { a: 1, b: undefined })).toBe(false)
+    expect(isDeepEqual([1, 2], [2, 1])).toBe(false)
+    expect(isDeepEqual([], {})).toBe(false)
+  })
+
+  it('compares Maps, Sets and Dates by contents', () => {
+    expect(isDeepEqual(new Map([['a', { id: 1 }]]), new Map([['a', { id: 1 }]]))).toBe(true)
+    expect(isDeepEqual(new Map([['a', 1]]), new Map([['b', 1]]))).toBe(false)
+    expect(isDeepEqual(new Set([1, 'a']), new Set(['a', 1]))).toBe(true)
+    expect(isDeepEqual(new Set([{ id: 1 }]), new Set([{ id: 1 }]))).toBe(true)
+    expect(isDeepEqual(new Set([{ id: 1 }]), new Set([{ id: 2 }]))).toBe(false)
+    expect(isDeepEqual(new Date(1000), new Date(1000))).toBe(true)
+  })
+
+  it('compares class instances and refs by identity', () => {
+    class User {
+      constructor(public name: string) {}
+    }
+
+    expect(isDeepEqual(new User('a'), new User('a'))).toBe(false)
+    expect(isDeepEqual(ref(1), ref(1))).toBe(false)
+  })
+
+  it('compares reactive proxies with their raw contents', () => {
+    expect(isDeepEqual(reactive({ items: [1, 2] }), { items: [1, 2] })).toBe(true)
+  })
+
+  it('terminates on circular structures', () => {
+    const a: Record<string, unknown> = { id: 1 }
+    a.self = a
+    const b: Record<string, unknown> = { id: 1 }
+    b.self = b
+
+    expect(isDeepEqual(a, b)).toBe(true)
+  })
+
+  it('reports structures beyond the comparison limits as different', () => {
+    const nest = (depth: number): unknown => depth === 0 ? {} : { child: nest(depth - 1) }
+    const large = Array.from({ length: 2000 }, (_, index) => index)
+
+    expect(isDeepEqual(nest(20), nest(20))).toBe(false)
+    expect(isDeepEqual(large, [...large])).toBe(false)
+  })
+})
@@ -0,0 +1,12 @@
+import { diffValues } from './valueDiff'
+
+/**
+ * Whether two values have the same structure and contents, by the same comparison the value
+ * diff of the UI logger shows. Plain objects, arrays, Maps, Sets and Dates are compared by
+ * contents, other objects by identity. Structures that are too deep or too large to compare
+ * quickly are reported as different.
+ */
+export function isDeepEqual(a: unknown, b: unknown): boolean {
+  const { kind } = diffValues(a, b)
+  return kind === 'unchanged' || kind === 'same-content'
+}
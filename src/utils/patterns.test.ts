@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest'
+import { globToRegExp, toStatelessRegExp, wildcardToRegExp } from './patterns'
+
+describe('wildcardToRegExp', () => {
+  it('matches the whole text with wildcards', () => {
+    expect(wildcardToRegExp('User*').test('UserList')).toBe(true)
+    expect(wildcardToRegExp('User*').test('MyUserList')).toBe(false)
+    expect(wildcardToRegExp('a.b').test('axb')).toBe(false)
+  })
+})
+
+describe('globToRegExp', () => {
+  it('matches relative globs at any directory boundary', () => {
+    const glob = globToRegExp('src/features/**')
+
+    expect(glob.test('/home/me/project/src/features/billing/Invoice.vue')).toBe(true)
+    expect(glob.test('/home/me/project/othersrc/features/Invoice.vue')).toBe(false)
+  })
+
+  it('keeps single wildcards within one directory', () => {
+    const glob = globToRegExp('src/*.vue')
+
+    expect(glob.test('/project/src/App.vue')).toBe(true)
+    expect(glob.test('/project/src/views/Home.vue')).toBe(false)
+  })
+
+  it('lets **/ match no directory at all', () => {
+    expect(globToRegExp('src/**/App.vue').test('/project/src/App.vue')).toBe(true)
+    expect(globToRegExp('/src/?pp.vue').test('/src/App.vue')).toBe(true)
+    expect(globToRegExp('/src/?pp.vue').test('/project/src/App.vue')).toBe(false)
+  })
+})
+
+describe('toStatelessRegExp', () => {
+  it('removes global and sticky flags', () => {
+    const pattern = toStatelessRegExp(/a/gi)
+
+    expect(pattern.flags).toBe('i')
+    expect(pattern.test('a')).toBe(true)
+    expect(pattern.test('a')).toBe(true)
+  })
+})
@@ -0,0 +1,50 @@
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/**
+ * Converts a pattern where `*` matches any text into regular expression source, without anchors
+ */
+export function wildcardToSource(pattern: string): string {
+  return pattern.split('*').map(escapeRegExp).join('.*')
+}
+
+/**
+ * Converts a pattern where `*` matches any text into an anchored regular expression
+ */
+export function wildcardToRegExp(pattern: string, flags = ''): RegExp {
+  return new RegExp(`^${wildcardToSource(pattern)}$`, flags)
+}
+
+/**
+ * Converts a file glob into a regular expression. `**` matches across directories, `*` and `?`
+ * within one. Globs not starting with `/` match at any directory boundary, so `src/**` matches
+ * absolute paths containing `/src/`.
+ */
+export function globToRegExp(glob: string): RegExp {
+  const normalized = glob.replace(/\\/g, '/')
+  let source = ''
+  for (let i = 0; i < normalized.length; i++) {
+    const char = normalized.charAt(i)
+    if (char === '*' && normalized.charAt(i + 1) === '*') {
+      // `**/` also matches no directory at all
+      const slash = normalized.charAt(i + 2) === '/'
+      source += slash ? '(?:.*/)?' : '.*'
+      i += slash ? 2 : 1
+    } else if (char === '*') {
+      source += '[^/]*'
+    } else if (char === '?') {
+      source += '[^/]'
+    } else {
+      source += escapeRegExp(char)
+    }
+  }
+  return new RegExp(`${normalized.startsWith('/') ? '^' : '(?:^|/)'}${source}$`)
+}
+
+/**
+ * Returns an expression without the global and sticky flags, which keep state between test() calls
+ */
+export function toStatelessRegExp(pattern: RegExp): RegExp {
+  return pattern.global || pattern.sticky ? new RegExp(pattern.source, pattern.flags.replace(/[gy]/g, '')) : pattern
+}
@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest'
+import { markRaw, reactive, ref } from 'vue'
+import { serializeValue } from './serializeValue'
+
+describe('serializeValue', () => {
+  it('keeps JSON values as they are', () => {
+    expect(serializeValue({ name: 'a', count: 1, active: true, empty: null, list: [1, 'b'] }))
+      .toEqual({ name: 'a', count: 1, active: true, empty: null, list: [1, 'b'] })
+  })
+
+  it('unwraps reactive proxies and refs', () => {
+    const state = reactive({ user: { name: 'a' } })
+    const count = ref(1)
+
+    expect(serializeValue(state)).toEqual({ user: { name: 'a' } })
+    expect(serializeValue(count)).toEqual({ $type: 'Ref', value: 1 })
+  })
+
+  it('replaces cycles with a marker', () => {
+    const node: Record<string, unknown> = { id: 1 }
+    node.self = node
+
+    const result = serializeValue(node)
+
+    expect(result).toEqual({ id: 1, self: { $type: 'Circular', name: 'Object' } })
+    expect(() => JSON.stringify(result)).not.toThrow()
+  })
+
+  it('keeps shared references that are not cycles', () => {
+    const shared = { id: 1 }
+
+    expect(serializeValue({ a: shared, b: shared })).toEqual({ a: { id: 1 }, b: { id: 1 } })
+  })
+
+  it('describes values JSON can not represent', () => {
+    function handler(): void {}
+
+    expect(serializeValue({
+      big: BigInt(10),
+      symbol: Symbol('id'),
+      handler,
+      infinite: Infinity,
+      date: new Date(0),
+      error: new TypeError('failed'),
+      map: new Map([['a', 1]]),
+      set: new Set([1]),
+    })).toEqual({
+      big: { $type: 'BigInt', value: '10' },
+      symbol: { $type: 'Symbol', description: 'id' },
+      handler: { $type: 'Function', name: 'handler' },
+      infinite: { $type: 'Number', value: 'Infinity' },
+      date: { $type: 'Date', value: '1970-01-01T00:00:00.000Z' },
+      error: { $type: 'Error', name: 'TypeError', message: 'failed' },
+      map: { $type: 'Map', entries: [['a', 1]] },
+      set: { $type: 'Set', values: [1] },
+    })
+  })
+
+  it('records class names and skips raw Vue internals', () => {
+    class Store {
+      items = []
+    }
+
+    expect(serializeValue(new Store())).toEqual({ items: [], $constructor: 'Store' })
+    expect(serializeValue(markRaw({ internal: true }))).toEqual({ $type: 'Skipped', name: 'Object' })
+  })
+
+  it('cuts off deep and large structures', () => {
+    const deep = { a: { b: { c: { d: { e: { f: { g: 1 } } } } } } }
+    const large = Array.from({ length: 150 }, (_, index) => index)
+
+    expect(JSON.stringify(serializeValue(deep))).toContain('"$type":"MaxDepth"')
+    const items = serializeValue(large) as unknown[]
+    expect(items).toHaveLength(101)
+    expect(items[100]).toEqual({ $type: 'Truncated' })
+  })
+
+  it('marks properties whose getter throws', () => {
+    const value = {
+      get broken(): never {
+        throw new Error('no access')
+      },
+    }
+
+    expect(serializeValue(value)).toEqual({ broken: { $type: 'Unreadable', message: 'no access' } })
+  })
+})
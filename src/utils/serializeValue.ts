@@ -0,0 +1,113 @@
+import { isRef, toRaw } from 'vue'
+
+const MAX_DEPTH = 6
+const MAX_ENTRIES = 100
+
+function getConstructorName(value: object): string {
+  const constructor = (value as { constructor?: { name?: unknown } }).constructor
+  return typeof constructor?.name === 'string' && constructor.name !== '' ? constructor.name : 'Object'
+}
+
+function serializeItems<T>(items: Iterable<T>, serialize: (item: T) => unknown): unknown[] {
+  const result: unknown[] = []
+  for (const item of items) {
+    if (result.length === MAX_ENTRIES) {
+      result.push({ $type: 'Truncated' })
+      break
+    }
+    result.push(serialize(item))
+  }
+  return result
+}
+
+function serializeObject(value: object, depth: number, ancestors: Set<object>): unknown {
+  if (isRef(value)) {
+    return { $type: 'Ref', value: serialize(value.value, depth + 1, ancestors) }
+  }
+
+  const raw = toRaw(value)
+  if (ancestors.has(raw)) {
+    return { $type: 'Circular', name: getConstructorName(raw) }
+  }
+  if (depth >= MAX_DEPTH) {
+    return { $type: 'MaxDepth', name: getConstructorName(raw) }
+  }
+  // Component instances, vnodes and other objects marked raw are Vue internals
+  if ((raw as { __v_skip?: boolean }).__v_skip) {
+    return { $type: 'Skipped', name: getConstructorName(raw) }
+  }
+  if (typeof Node !== 'undefined' && raw instanceof Node) {
+    return { $type: 'Node', name: raw.nodeName }
+  }
+  if (raw instanceof Date) {
+    return { $type: 'Date', value: Number.isNaN(raw.getTime()) ? 'Invalid Date' : raw.toISOString() }
+  }
+  if (raw instanceof Error) {
+    return { $type: 'Error', name: raw.name, message: raw.message }
+  }
+
+  ancestors.add(raw)
+  try {
+    const serializeChild = (child: unknown): unknown => serialize(child, depth + 1, ancestors)
+
+    if (Array.isArray(raw)) {
+      return serializeItems(raw as unknown[], serializeChild)
+    }
+    if (raw instanceof Map) {
+      return { $type: 'Map', entries: serializeItems(raw.entries(), ([key, item]) => [serializeChild(key), serializeChild(item)]) }
+    }
+    if (raw instanceof Set) {
+      return { $type: 'Set', values: serializeItems(raw.values(), serializeChild) }
+    }
+
+    const result: Record<string, unknown> = {}
+    const keys = Object.keys(raw)
+    for (const key of keys.slice(0, MAX_ENTRIES)) {
+      try {
+        result[key] = serializeChild((raw as Record<string, unknown>)[key])
+      } catch (error) {
+        // Getters may throw
+        result[key] = { $type: 'Unreadable', message: (error as Error).message }
+      }
+    }
+    if (keys.length > MAX_ENTRIES) {
+      result.$truncated = keys.length - MAX_ENTRIES
+    }
+    const name = getConstructorName(raw)
+    if (name !== 'Object') {
+      result.$constructor = name
+    }
+    return result
+  } finally {
+    ancestors.delete(raw)
+  }
+}
+
+function serialize(value: unknown, depth: number, ancestors: Set<object>): unknown {
+  switch (typeof value) {
+    case 'string':
+    case 'boolean':
+      return value
+    case 'number':
+      return Number.isFinite(value) ? value : { $type: 'Number', value: String(value) }
+    case 'undefined':
+      // Left out of objects by JSON.stringify, like any missing property
+      return undefined
+    case 'bigint':
+      return { $type: 'BigInt', value: value.toString() }
+    case 'symbol':
+      return { $type: 'Symbol', description: value.description ?? '' }
+    case 'function':
+      return { $type: 'Function', name: value.name }
+    case 'object':
+      return value === null ? null : serializeObject(value, depth, ancestors)
+  }
+}
+
+/**
+ * Converts any value into a JSON-safe structure. Reactive proxies are unwrapped, cycles and
+ * values JSON can not represent are replaced by markers, and deep or large structures are cut off.
+ */
+export function serializeValue(value: unknown): unknown {
+  return serialize(value, 0, new Set())
+}
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest'
+import { reactive } from 'vue'
+import { diffValues } from './valueDiff'
+
+describe('diffValues', () => {
+  it('reports entries that were added, removed or changed', () => {
+    const result = diffValues({ a: 1, b: 2, c: 3 }, { a: 1, b: 5, d: 4 })
+
+    expect(result.kind).toBe('changed')
+    expect(result.children?.map(({ key, diff }) => [key, diff.kind])).toEqual([
+      ['a', 'unchanged'],
+      ['b', 'changed'],
+      ['c', 'removed'],
+      ['d', 'added']
+    ])
+  })
+
+  it('reports new objects with equal contents as same-content', () => {
+    expect(diffValues({ items: [1, 2] }, { items: [1, 2] }).kind).toBe('same-content')
+    expect(diffValues(new Set([{ id: 1 }]), new Set([{ id: 1 }])).kind).toBe('same-content')
+    expect(diffValues(reactive({ items: [1, 2] }), { items: [1, 2] }).kind).toBe('same-content')
+  })
+
+  it('compares class instances by identity', () => {
+    class User {
+      constructor(public name: string) {}
+    }
+    const user = new User('a')
+
+    expect(diffValues(user, user).kind).toBe('unchanged')
+    const result = diffValues(new User('a'), new User('a'))
+    expect(result.kind).toBe('changed')
+    expect(result.children).toBeUndefined()
+  })
+
+  it('stops at the depth and entry limits', () => {
+    const nest = (depth: number): unknown => depth === 0 ? {} : { child: nest(depth - 1) }
+    const oldItems = Array.from({ length: 2000 }, (_, index) => ({ id: index }))
+
+    expect(diffValues(nest(20), nest(20))).toMatchObject({ kind: 'changed' })
+    const large = diffValues(oldItems, oldItems.map((item) => ({ ...item })))
+    expect(large).toMatchObject({ kind: 'changed', limitReached: true })
+    expect(large.children?.length).toBeLessThan(1000)
+  })
+
+  it('bounds the matching of Set items with equal contents', () => {
+    const oldSet = new Set(Array.from({ length: 3000 }, (_, index) => ({ id: index })))
+    const newSet = new Set(Array.from({ length: 3000 }, (_, index) => ({ id: index + 3000 })))
+
+    expect(diffValues(oldSet, newSet)).toMatchObject({ kind: 'changed', limitReached: true })
+  })
+})
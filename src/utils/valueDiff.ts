@@ -0,0 +1,202 @@
+import { toRaw } from 'vue'
+
+/**
+ * Structural comparison of two values, shared by the redundant trigger check of the monitor
+ * and the diff mode of the Object Inspector
+ */
+
+export type DiffKind = 'added' | 'removed' | 'changed' | 'same-content' | 'unchanged'
+
+export interface ValueDiff {
+  kind: DiffKind
+  oldValue?: unknown
+  newValue?: unknown
+  /** Entry diffs of changed objects, arrays, Maps and Sets */
+  children?: DiffEntry[]
+  /** Set when the values were too deep or too large to compare completely, they count as changed */
+  limitReached?: boolean
+}
+
+export interface DiffEntry {
+  key: string | number
+  diff: ValueDiff
+}
+
+type ContainerKind = 'array' | 'map' | 'set' | 'object'
+
+const MAX_DEPTH = 8
+const MAX_ENTRIES = 1000
+
+type DiffState = {
+  // Pairs of old and new objects currently being compared, so circular structures terminate
+  compared: Map<object, Set<object>>
+  // Entries left to compare before giving up
+  budget: number
+}
+
+function getContainerKind(value: object): ContainerKind | null {
+  if (Array.isArray(value)) return 'array'
+  if (value instanceof Map) return 'map'
+  if (value instanceof Set) return 'set'
+  // Class instances, refs, DOM nodes and other built-ins are only equal when identical
+  const proto = Object.getPrototypeOf(value) as object | null
+  return proto === Object.prototype || proto === null ? 'object' : null
+}
+
+function formatEntryKey(key: unknown): string | number {
+  if (typeof key === 'string' || typeof key === 'number') return key
+  if (key !== null && typeof key === 'object') return '{…}'
+  return String(key as string)
+}
+
+/**
+ * Compares two values entry by entry. Plain objects, arrays, Maps, Sets and Dates are compared
+ * by contents, other objects by identity, and values that are different objects with equal
+ * contents are reported as `same-content` instead of `changed`. Comparison stops 8 levels deep
+ * and after 1000 entries; containers that were not compared completely are reported as
+ * `changed` with `limitReached`, listing only the entries compared so far.
+ */
+export function diffValues(oldValue: unknown, newValue: unknown): ValueDiff {
+  return diff(oldValue, newValue, 0, { compared: new Map(), budget: MAX_ENTRIES })
+}
+
+function diff(oldValue: unknown, newValue: unknown, depth: number, state: DiffState): ValueDiff {
+  if (Object.is(oldValue, newValue)) {
+    return { kind: 'unchanged', oldValue, newValue }
+  }
+  if (oldValue === null || newValue === null || typeof oldValue !== 'object' || typeof newValue !== 'object') {
+    return { kind: 'changed', oldValue, newValue }
+  }
+
+  // Compare the raw objects, reading through reactive proxies would track them in the running effect
+  const oldObject = toRaw(oldValue)
+  const newObject = toRaw(newValue)
+  if (Object.is(oldObject, newObject)) {
+    return { kind: 'unchanged', oldValue, newValue }
+  }
+  if (oldObject instanceof Date && newObject instanceof Date) {
+    return { kind: oldObject.getTime() === newObject.getTime() ? 'same-content' : 'changed', oldValue, newValue }
+  }
+
+  const kind = getContainerKind(oldObject)
+  if (!kind || kind !== getContainerKind(newObject)) {
+    return { kind: 'changed', oldValue, newValue }
+  }
+  if (depth >= MAX_DEPTH || state.budget <= 0) {
+    return { kind: 'changed', oldValue, newValue, limitReached: true }
+  }
+
+  const inProgress = state.compared.get(oldObject) ?? new Set<object>()
+  if (inProgress.has(newObject)) {
+    // Already being compared further up, the result depends on the rest of the structure
+    return { kind: 'unchanged', oldValue, newValue }
+  }
+  inProgress.add(newObject)
+  state.compared.set(oldObject, inProgress)
+
+  const children = diffEntries(kind, oldObject, newObject, depth + 1, state)
+  inProgress.delete(newObject)
+  if (state.budget < 0) {
+    return { kind: 'changed', oldValue, newValue, children, limitReached: true }
+  }
+  const changed = children.some((entry) => entry.diff.kind !== 'unchanged' && entry.diff.kind !== 'same-content')
+  return changed
+    ? { kind: 'changed', oldValue, newValue, children }
+    : { kind: 'same-content', oldValue, newValue }
+}
+
+/**
+ * Takes one entry from the budget
+ * @returns false once the budget is used up, the caller stops listing entries
+ */
+function spend(state: DiffState): boolean {
+  return --state.budget >= 0
+}
+
+function diffEntries(kind: ContainerKind, oldValue: object, newValue: object, depth: number, state: DiffState): DiffEntry[] {
+  switch (kind) {
+    case 'array':
+      return diffArrays(oldValue as unknown[], newValue as unknown[], depth, state)
+    case 'map':
+      return diffKeyed(oldValue as Map<unknown, unknown>, newValue as Map<unknown, unknown>, depth, state)
+    case 'set':
+      return diffSets(oldValue as Set<unknown>, newValue as Set<unknown>, depth, state)
+    default:
+      return diffKeyed(
+        new Map(Object.entries(oldValue)),
+        new Map(Object.entries(newValue)),
+        depth,
+        state
+      )
+  }
+}
+
+function diffArrays(oldValue: unknown[], newValue: unknown[], depth: number, state: DiffState): DiffEntry[] {
+  const entries: DiffEntry[] = []
+  for (let index = 0; index < Math.max(oldValue.length, newValue.length) && spend(state); index++) {
+    if (index >= oldValue.length) {
+      entries.push({ key: index, diff: { kind: 'added', newValue: newValue[index] } })
+    } else if (index >= newValue.length) {
+      entries.push({ key: index, diff: { kind: 'removed', oldValue: oldValue[index] } })
+    } else {
+      entries.push({ key: index, diff: diff(oldValue[index], newValue[index], depth, state) })
+    }
+  }
+  return entries
+}
+
+function diffKeyed(oldValue: Map<unknown, unknown>, newValue: Map<unknown, unknown>, depth: number, state: DiffState): DiffEntry[] {
+  const entries: DiffEntry[] = []
+  for (const [key, value] of oldValue) {
+    if (!spend(state)) return entries
+    const entryDiff: ValueDiff = newValue.has(key)
+      ? diff(value, newValue.get(key), depth, state)
+      : { kind: 'removed', oldValue: value }
+    entries.push({ key: formatEntryKey(key), diff: entryDiff })
+  }
+  for (const [key, value] of newValue) {
+    if (oldValue.has(key)) continue
+    if (!spend(state)) return entries
+    entries.push({ key: formatEntryKey(key), diff: { kind: 'added', newValue: value } })
+  }
+  return entries
+}
+
+function diffSets(oldValue: Set<unknown>, newValue: Set<unknown>, depth: number, state: DiffState): DiffEntry[] {
+  const diffs: ValueDiff[] = []
+  const added = Array.from(newValue).filter((item) => !oldValue.has(item))
+
+  for (const item of oldValue) {
+    if (!spend(state)) break
+    if (newValue.has(item)) {
+      diffs.push({ kind: 'unchanged', oldValue: item, newValue: item })
+      continue
+    }
+    const matchIndex = findSameContent(item, added, depth, state)
+    if (matchIndex === -1) {
+      diffs.push({ kind: 'removed', oldValue: item })
+    } else {
+      diffs.push({ kind: 'same-content', oldValue: item, newValue: added[matchIndex] })
+      added.splice(matchIndex, 1)
+    }
+  }
+  for (const item of added) {
+    if (!spend(state)) break
+    diffs.push({ kind: 'added', newValue: item })
+  }
+
+  return diffs.map((itemDiff, index) => ({ key: index, diff: itemDiff }))
+}
+
+/**
+ * Sets have no keys, so a removed object is matched with an added object of equal contents.
+ * Every candidate spends the budget, which bounds the pairwise matching of large Sets.
+ */
+function findSameContent(item: unknown, candidates: unknown[], depth: number, state: DiffState): number {
+  // Primitives with an equal added item would have been found by `has`
+  if (item === null || typeof item !== 'object') return -1
+  for (let index = 0; index < candidates.length && spend(state); index++) {
+    if (diff(item, candidates[index], depth, state).kind === 'same-content') return index
+  }
+  return -1
+}